@@ -8,15 +8,39 @@ export interface UserSettings {
   chatHistoryEnabled: boolean;
   agentName?: string;
   wakeWord?: string;
+  language?: string;
+  locationBackend?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
+export interface FallbackConfig {
+  provider: string;
+  model: string;
+  isConfigured: boolean;
+  customBaseUrl?: string;
+  customProviderName?: string;
+}
+
+export type ModelTask = 'quick' | 'standard' | 'detailed' | 'tools' | 'classifier' | 'tagging';
+export type ModelTier = 'default' | 'fast' | 'strong';
+
+export interface ModelRoutingConfig {
+  fastModel?: string;
+  strongModel?: string;
+  rules: Record<ModelTask, ModelTier>;
+  /** Embedding model for history search (required for custom servers) */
+  embeddingModel?: string;
+}
+
 export interface ProviderConfig {
   agentName: string;
   wakeWord: string;
-  llm: { provider: string; model: string; isConfigured: boolean; customBaseUrl?: string; customProviderName?: string };
-  vision: { provider: string; model: string; isConfigured: boolean; customBaseUrl?: string; customProviderName?: string };
+  language: string;
+  locationBackend: string;
+  llm: { provider: string; model: string; isConfigured: boolean; customBaseUrl?: string; customProviderName?: string; fallbacks: FallbackConfig[] };
+  vision: { provider: string; model: string; isConfigured: boolean; customBaseUrl?: string; customProviderName?: string; fallbacks: FallbackConfig[] };
+  routing: ModelRoutingConfig;
   googleCloud: { isConfigured: boolean };
 }
 
@@ -29,6 +53,8 @@ export interface ModelInfo {
 export interface ProviderCatalogEntry {
   name: string;
   models: ModelInfo[];
+  /** Embedding models for history search — empty if the provider has none */
+  embeddingModels: { id: string; name: string }[];
 }
 
 export type ProviderCatalog = Record<string, ProviderCatalogEntry>;
@@ -163,6 +189,52 @@ export const deleteProviderConfig = async (
   return response.json();
 };
 
+/**
+ * Replace the ordered fallback chain for a purpose.
+ * Entries without apiKey reuse the key already on file for that provider.
+ */
+export const saveProviderFallbacks = async (
+  purpose: "llm" | "vision",
+  fallbacks: {
+    provider: string;
+    model: string;
+    apiKey?: string;
+    baseUrl?: string;
+    providerName?: string;
+  }[],
+): Promise<{ success: boolean; error?: string; fallbacks?: FallbackConfig[] }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/provider/fallbacks/${purpose}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ fallbacks }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save fallbacks" };
+  }
+  return data;
+};
+
+/**
+ * Save per-task model routing (fast/strong models from the LLM provider)
+ */
+export const saveModelRouting = async (
+  routing: ModelRoutingConfig,
+): Promise<{ success: boolean; error?: string; routing?: ModelRoutingConfig }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/provider/routing`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(routing),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save model routing" };
+  }
+  return data;
+};
+
 /**
  * Fetch the static model catalog (providers + models)
  */
@@ -175,6 +247,685 @@ export const fetchProviderCatalog = async (): Promise<ProviderCatalog> => {
   return data.providers;
 };
 
+// ─── Persona & Custom Instructions ───
+
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface PersonaConfig {
+  persona: string;
+  customInstructions: string;
+  presets: PersonaPreset[];
+  maxLength: number;
+}
+
+/**
+ * Fetch the persona preset, custom instructions, and available presets
+ */
+export const fetchPersona = async (): Promise<PersonaConfig> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/persona`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch persona");
+  return response.json();
+};
+
+/**
+ * Save the persona preset and custom instructions
+ */
+export const savePersona = async (params: {
+  persona: string;
+  customInstructions: string;
+}): Promise<{ success: boolean; error?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/persona`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(params),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save persona" };
+  }
+  return data;
+};
+
+/**
+ * Fetch the assembled system prompt (without live context) for preview
+ */
+export const fetchPromptPreview = async (
+  mode: 'quick' | 'standard' | 'detailed' = 'standard',
+): Promise<{ prompt: string; responseMode: string; glasses: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/prompt-preview?mode=${mode}`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch prompt preview");
+  return response.json();
+};
+
+// ─── Usage & Spend ───
+
+export interface PurposeSpend {
+  purpose: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface PeriodSpend {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  byPurpose: PurposeSpend[];
+  hasUnpricedUsage: boolean;
+}
+
+export interface BudgetConfig {
+  monthlyBudgetUsd: number | null;
+  cheapModel: string | null;
+}
+
+export interface UsageSummary {
+  today: PeriodSpend;
+  month: PeriodSpend;
+  budget: BudgetConfig;
+}
+
+/**
+ * Fetch today's and this month's estimated LLM spend by purpose
+ */
+export const fetchUsageSummary = async (): Promise<UsageSummary> => {
+  const response = await fetch(`${getApiUrl()}/api/usage`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch usage");
+  return response.json();
+};
+
+/**
+ * Save the monthly budget and the cheap model used once it's reached
+ */
+export const saveBudget = async (
+  budget: BudgetConfig,
+): Promise<{ success: boolean; error?: string; budget?: BudgetConfig }> => {
+  const response = await fetch(`${getApiUrl()}/api/usage/budget`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(budget),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save budget" };
+  }
+  return data;
+};
+
+// ─── Long-term Memories ───
+
+export interface Memory {
+  id: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fetch the facts the assistant has been asked to remember
+ */
+export const fetchMemories = async (): Promise<Memory[]> => {
+  const response = await fetch(`${getApiUrl()}/api/memories`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch memories");
+  const data = await response.json();
+  return data.memories;
+};
+
+/**
+ * Add a memory
+ */
+export const createMemory = async (
+  content: string,
+): Promise<{ success: boolean; error?: string; memory?: Memory }> => {
+  const response = await fetch(`${getApiUrl()}/api/memories`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ content }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save memory" };
+  }
+  return data;
+};
+
+/**
+ * Edit a memory's text
+ */
+export const updateMemory = async (
+  id: string,
+  content: string,
+): Promise<{ success: boolean; error?: string; memory?: Memory }> => {
+  const response = await fetch(`${getApiUrl()}/api/memories/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ content }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to update memory" };
+  }
+  return data;
+};
+
+/**
+ * Permanently delete a memory
+ */
+export const deleteMemory = async (
+  id: string,
+): Promise<{ success: boolean; error?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/memories/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to delete memory" };
+  }
+  return data;
+};
+
+// ─── Saved Places ───
+
+export interface SavedPlace {
+  id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Fetch the user's saved places (home, work, favorites)
+ */
+export const fetchSavedPlaces = async (): Promise<SavedPlace[]> => {
+  const response = await fetch(`${getApiUrl()}/api/places`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch saved places");
+  const data = await response.json();
+  return data.places;
+};
+
+/**
+ * Save a place by address. Saving an existing name moves it (replacedId).
+ */
+export const createSavedPlace = async (
+  name: string,
+  address: string,
+): Promise<{ success: boolean; error?: string; place?: SavedPlace; replacedId?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/places`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ name, address }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save place" };
+  }
+  return data;
+};
+
+/**
+ * Delete a saved place
+ */
+export const deleteSavedPlace = async (
+  id: string,
+): Promise<{ success: boolean; error?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/places/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to delete place" };
+  }
+  return data;
+};
+
+// ─── Environment Alerts ───
+
+export type PollenType = "grass" | "tree" | "weed";
+
+export interface EnvironmentAlertConfig {
+  enabled: boolean;
+  /** US AQI limit — null means no air quality alerts */
+  aqiThreshold: number | null;
+  allergens: PollenType[];
+  /** Universal Pollen Index (1–5) */
+  pollenThreshold: number;
+  storms: boolean;
+  /** "HH:mm" window with no alerts — null means alerts any time */
+  quietHours: { start: string; end: string } | null;
+}
+
+export interface EnvironmentAlertRecord {
+  kind: "air_quality" | "pollen" | "storm";
+  message: string;
+  value: number;
+  deliveredAt: number;
+}
+
+/**
+ * Fetch the environment alert settings and the alerts delivered this past week
+ */
+export const fetchEnvironmentAlerts = async (): Promise<{
+  config: EnvironmentAlertConfig;
+  recent: EnvironmentAlertRecord[];
+}> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/environment-alerts`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch environment alerts");
+  return response.json();
+};
+
+/**
+ * Save the environment alert settings
+ */
+export const saveEnvironmentAlerts = async (
+  config: EnvironmentAlertConfig,
+): Promise<{ success: boolean; error?: string; config?: EnvironmentAlertConfig }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/environment-alerts`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(config),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save alerts" };
+  }
+  return data;
+};
+
+// ─── Meeting Reminders ───
+
+export interface MeetingReminderConfig {
+  enabled: boolean;
+  /** Minutes before the start */
+  leadMinutes: number;
+  /** Calendars that trigger reminders — null means all */
+  calendars: string[] | null;
+  travelMode: "WALK" | "DRIVE";
+}
+
+/**
+ * Fetch the meeting reminder settings and the calendars events came from
+ */
+export const fetchMeetingReminders = async (): Promise<{
+  config: MeetingReminderConfig;
+  calendars: string[];
+}> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/meeting-reminders`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch meeting reminders");
+  return response.json();
+};
+
+/**
+ * Save the meeting reminder settings
+ */
+export const saveMeetingReminders = async (
+  config: MeetingReminderConfig,
+): Promise<{ success: boolean; error?: string; config?: MeetingReminderConfig }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/meeting-reminders`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(config),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save reminders" };
+  }
+  return data;
+};
+
+// ─── Notification Rules ───
+
+export type NotificationAction = "announce" | "hud" | "digest" | "ignore";
+
+export interface NotificationRuleInput {
+  app: string | null;
+  sender: string | null;
+  keywords: string[];
+  priority: "low" | "normal" | "high" | null;
+  action: NotificationAction;
+}
+
+export interface NotificationRule extends NotificationRuleInput {
+  id: string;
+  /** "Announce WhatsApp from Alice" */
+  description: string;
+}
+
+/**
+ * Fetch the user's notification triage rules, oldest first
+ */
+export const fetchNotificationRules = async (): Promise<NotificationRule[]> => {
+  const response = await fetch(`${getApiUrl()}/api/notification-rules`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch notification rules");
+  const data = await response.json();
+  return data.rules;
+};
+
+/**
+ * Add a notification rule
+ */
+export const createNotificationRule = async (
+  rule: NotificationRuleInput,
+): Promise<{ success: boolean; error?: string; rule?: NotificationRule }> => {
+  const response = await fetch(`${getApiUrl()}/api/notification-rules`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(rule),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save rule" };
+  }
+  return data;
+};
+
+/**
+ * Delete a notification rule
+ */
+export const deleteNotificationRule = async (
+  id: string,
+): Promise<{ success: boolean; error?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/notification-rules/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to delete rule" };
+  }
+  return data;
+};
+
+// ─── Notification Digest ───
+
+export interface NotificationDigestConfig {
+  enabled: boolean;
+  /** Minutes between scheduled digests */
+  intervalMinutes: number;
+}
+
+/**
+ * Fetch the scheduled notification digest settings
+ */
+export const fetchNotificationDigest = async (): Promise<NotificationDigestConfig> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/notification-digest`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch notification digest settings");
+  const data = await response.json();
+  return data.config;
+};
+
+/**
+ * Save the scheduled notification digest settings
+ */
+export const saveNotificationDigest = async (
+  config: NotificationDigestConfig,
+): Promise<{ success: boolean; error?: string; config?: NotificationDigestConfig }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/notification-digest`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(config),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save digest settings" };
+  }
+  return data;
+};
+
+// ─── Focus Mode ───
+
+export type FocusSource = "bridge" | "reminders" | "meetings" | "environment" | "notifications" | "digest";
+export type FocusPolicy = "deliver" | "queue" | "drop";
+
+export interface FocusConfig {
+  /** Local "HH:mm" window that's always Do Not Disturb */
+  quietHours: { start: string; end: string } | null;
+  /** On during calendar events shown as busy */
+  busyEvents: boolean;
+  policies: Record<FocusSource, FocusPolicy>;
+}
+
+export interface FocusStatus {
+  /** Why Do Not Disturb is on, or null when it's off (or the glasses aren't connected) */
+  reason: "manual" | "quiet_hours" | "busy_event" | null;
+  /** End of a voice-requested Do Not Disturb (epoch ms) */
+  manualUntil: number | null;
+}
+
+/**
+ * Fetch the focus mode settings and whether it's on right now
+ */
+export const fetchFocusMode = async (): Promise<{ config: FocusConfig; status: FocusStatus }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/focus-mode`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch focus mode settings");
+  return response.json();
+};
+
+/**
+ * Save the focus mode settings
+ */
+export const saveFocusMode = async (
+  config: FocusConfig,
+): Promise<{ success: boolean; error?: string; config?: FocusConfig; status?: FocusStatus }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/focus-mode`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(config),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save focus mode" };
+  }
+  return data;
+};
+
+// ─── Notification Archive ───
+
+export interface NotificationArchiveConfig {
+  enabled: boolean;
+  /** Days notifications are kept */
+  retentionDays: number;
+}
+
+export interface ArchivedNotification {
+  id: string;
+  app: string;
+  /** Usually the sender or conversation */
+  title: string;
+  content: string;
+  priority: "low" | "normal" | "high";
+  receivedAt: string;
+}
+
+/**
+ * Fetch the notification archive settings
+ */
+export const fetchNotificationArchiveSettings = async (): Promise<NotificationArchiveConfig> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/notification-archive`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch notification archive settings");
+  const data = await response.json();
+  return data.config;
+};
+
+/**
+ * Save the notification archive settings (turning it off deletes the archive)
+ */
+export const saveNotificationArchiveSettings = async (
+  config: NotificationArchiveConfig,
+): Promise<{ success: boolean; error?: string; config?: NotificationArchiveConfig }> => {
+  const response = await fetch(`${getApiUrl()}/api/settings/notification-archive`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(config),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save archive settings" };
+  }
+  return data;
+};
+
+/**
+ * Fetch a page of archived notifications, newest first. Pass the last
+ * entry's receivedAt as `before` for the next page.
+ */
+export const fetchNotificationArchive = async (
+  params: { q?: string; before?: string } = {},
+): Promise<{ notifications: ArchivedNotification[]; hasMore: boolean }> => {
+  const query = new URLSearchParams();
+  if (params.q) query.set("q", params.q);
+  if (params.before) query.set("before", params.before);
+  const response = await fetch(`${getApiUrl()}/api/notification-archive?${query}`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch notification archive");
+  return response.json();
+};
+
+/**
+ * Delete one archived notification
+ */
+export const deleteArchivedNotification = async (
+  id: string,
+): Promise<{ success: boolean; error?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/notification-archive/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to delete notification" };
+  }
+  return data;
+};
+
+/**
+ * Delete the whole notification archive
+ */
+export const clearNotificationArchive = async (): Promise<{ success: boolean; error?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/notification-archive`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to clear archive" };
+  }
+  return data;
+};
+
+// ─── Named Assistants ───
+
+export interface Assistant {
+  id: string;
+  name: string;
+  wakeWord: string;
+  llmProvider: string;
+  llmModel: string;
+  persona: string;
+  customInstructions: string | null;
+  /** Enabled tool groups — null means all tools */
+  tools: string[] | null;
+}
+
+export type AssistantInput = Omit<Assistant, 'id'>;
+
+export interface AssistantsConfig {
+  assistants: Assistant[];
+  toolGroups: { id: string; name: string }[];
+  /** Providers with a saved key — assistants can only use these */
+  providers: string[];
+  maxAssistants: number;
+}
+
+/**
+ * Fetch the user's named assistants and the options for creating one
+ */
+export const fetchAssistants = async (): Promise<AssistantsConfig> => {
+  const response = await fetch(`${getApiUrl()}/api/assistants`, {
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error("Failed to fetch assistants");
+  return response.json();
+};
+
+/**
+ * Create a named assistant, or replace one's settings when an ID is given
+ */
+export const saveAssistant = async (
+  params: AssistantInput,
+  id?: string,
+): Promise<{ success: boolean; error?: string; assistant?: Assistant }> => {
+  const response = await fetch(`${getApiUrl()}/api/assistants${id ? `/${id}` : ''}`, {
+    method: id ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(params),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to save assistant" };
+  }
+  return data;
+};
+
+/**
+ * Delete a named assistant
+ */
+export const deleteAssistant = async (
+  id: string,
+): Promise<{ success: boolean; error?: string }> => {
+  const response = await fetch(`${getApiUrl()}/api/assistants/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    return { success: false, error: data.error || "Failed to delete assistant" };
+  }
+  return data;
+};
+
 // ─── Google Cloud API Key ───
 
 /**
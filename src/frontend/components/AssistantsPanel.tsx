@@ -0,0 +1,306 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2, Pencil, ChevronDown } from 'lucide-react';
+import {
+  fetchAssistants,
+  saveAssistant,
+  deleteAssistant,
+  fetchProviderCatalog,
+  fetchPersona,
+  type Assistant,
+  type AssistantInput,
+  type AssistantsConfig,
+  type PersonaPreset,
+  type ProviderCatalog,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+function Select({
+  value,
+  onChange,
+  options,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}) {
+  return (
+    <div className="relative flex items-center min-w-0 max-w-[55%]">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="appearance-none w-full text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring"
+      >
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      <ChevronDown
+        size={14}
+        className="absolute right-2 pointer-events-none text-muted-foreground"
+      />
+    </div>
+  );
+}
+
+/**
+ * Named assistants — extra wake words ("Hey Chef", "Hey Coder") that each
+ * answer with their own model, persona, and tools. Lists them with edit and
+ * delete, plus a form for adding or editing one.
+ */
+export default function AssistantsPanel() {
+  const [config, setConfig] = useState<AssistantsConfig | null>(null);
+  const [catalog, setCatalog] = useState<ProviderCatalog>({});
+  const [presets, setPresets] = useState<PersonaPreset[]>([]);
+  // Form state — editingId null = adding a new assistant
+  const [draft, setDraft] = useState<AssistantInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([fetchAssistants(), fetchProviderCatalog(), fetchPersona()])
+      .then(([assistants, providers, persona]) => {
+        setConfig(assistants);
+        setCatalog(providers);
+        setPresets(persona.presets);
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!config) return null;
+
+  const modelsFor = (provider: string) => catalog[provider]?.models ?? [];
+
+  const startAdd = () => {
+    const provider = config.providers[0] ?? '';
+    setEditingId(null);
+    setError(null);
+    setDraft({
+      name: '',
+      wakeWord: '',
+      llmProvider: provider,
+      llmModel: modelsFor(provider)[0]?.id ?? '',
+      persona: 'default',
+      customInstructions: '',
+      tools: null,
+    });
+  };
+
+  const startEdit = (assistant: Assistant) => {
+    const { id, ...fields } = assistant;
+    setEditingId(id);
+    setError(null);
+    setDraft(fields);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setBusyId(editingId ?? 'new');
+    setError(null);
+    const result = await saveAssistant(draft, editingId ?? undefined)
+      .catch(() => ({ success: false, error: 'Failed to save assistant' }) as const);
+    setBusyId(null);
+    if (!result.success || !result.assistant) {
+      setError(result.error || 'Failed to save assistant');
+      return;
+    }
+    const saved = result.assistant;
+    setConfig({
+      ...config,
+      assistants: editingId
+        ? config.assistants.map((a) => (a.id === editingId ? saved : a))
+        : [...config.assistants, saved],
+    });
+    setDraft(null);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    const result = await deleteAssistant(id)
+      .catch(() => ({ success: false, error: 'Failed to delete assistant' }) as const);
+    setBusyId(null);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete assistant');
+      return;
+    }
+    setConfig({ ...config, assistants: config.assistants.filter((a) => a.id !== id) });
+    if (editingId === id) setDraft(null);
+  };
+
+  const toggleTool = (tool: string) => {
+    if (!draft) return;
+    const enabled = draft.tools ?? config.toolGroups.map((g) => g.id);
+    const next = enabled.includes(tool) ? enabled.filter((t) => t !== tool) : [...enabled, tool];
+    setDraft({ ...draft, tools: next.length === config.toolGroups.length ? null : next });
+  };
+
+  const modelLabel = (assistant: Assistant) =>
+    modelsFor(assistant.llmProvider).find((m) => m.id === assistant.llmModel)?.name ?? assistant.llmModel;
+
+  return (
+    <SettingSection label="Assistants">
+      <SettingDescription>
+        Give each assistant its own wake word, model, and style — e.g. "Hey
+        Chef" for cooking on Gemini and "Hey Coder" for terse answers on
+        Claude. Assistants use the API keys you saved above.
+      </SettingDescription>
+
+      {config.assistants.map((assistant) => (
+        <React.Fragment key={assistant.id}>
+          <SettingDivider />
+          <div className="flex items-center gap-2 px-1.5 min-h-12 py-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-base font-medium text-secondary-foreground truncate">
+                "{assistant.wakeWord}" — {assistant.name}
+              </div>
+              <div className="text-[13px] text-muted-foreground truncate">{modelLabel(assistant)}</div>
+            </div>
+            <button
+              onClick={() => startEdit(assistant)}
+              className="shrink-0 p-1 text-muted-foreground"
+              type="button"
+              aria-label="Edit assistant"
+            >
+              <Pencil size={14} />
+            </button>
+            <button
+              onClick={() => handleDelete(assistant.id)}
+              disabled={busyId === assistant.id}
+              className="shrink-0 p-1 text-red-500 disabled:opacity-30"
+              type="button"
+              aria-label="Delete assistant"
+            >
+              {busyId === assistant.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+            </button>
+          </div>
+        </React.Fragment>
+      ))}
+
+      {draft ? (
+        <>
+          <SettingDivider />
+          <SettingRow label="Name">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Chef"
+              className={`${inputClass} w-40 text-right`}
+            />
+          </SettingRow>
+          <SettingDivider />
+          <SettingRow label="Wake word">
+            <input
+              value={draft.wakeWord}
+              onChange={(e) => setDraft({ ...draft, wakeWord: e.target.value })}
+              placeholder="Hey Chef"
+              className={`${inputClass} w-40 text-right`}
+            />
+          </SettingRow>
+          <SettingDivider />
+          <SettingRow label="Provider">
+            <Select
+              value={draft.llmProvider}
+              onChange={(provider) =>
+                setDraft({ ...draft, llmProvider: provider, llmModel: modelsFor(provider)[0]?.id ?? '' })
+              }
+              options={config.providers.map((p) => ({ value: p, label: catalog[p]?.name ?? p }))}
+            />
+          </SettingRow>
+          <SettingDivider />
+          <SettingRow label="Model">
+            {draft.llmProvider === 'custom' ? (
+              <input
+                value={draft.llmModel}
+                onChange={(e) => setDraft({ ...draft, llmModel: e.target.value })}
+                placeholder="Model ID"
+                className={`${inputClass} max-w-[55%]`}
+              />
+            ) : (
+              <Select
+                value={draft.llmModel}
+                onChange={(model) => setDraft({ ...draft, llmModel: model })}
+                options={modelsFor(draft.llmProvider).map((m) => ({ value: m.id, label: m.name }))}
+              />
+            )}
+          </SettingRow>
+          <SettingDivider />
+          <SettingRow label="Style">
+            <Select
+              value={draft.persona}
+              onChange={(persona) => setDraft({ ...draft, persona })}
+              options={presets.map((p) => ({ value: p.id, label: p.name }))}
+            />
+          </SettingRow>
+          <SettingDivider />
+          <div className="px-1.5 py-2 space-y-1">
+            <span className="text-base font-medium text-secondary-foreground">Instructions</span>
+            <textarea
+              value={draft.customInstructions ?? ''}
+              onChange={(e) => setDraft({ ...draft, customInstructions: e.target.value })}
+              rows={3}
+              placeholder="e.g. You're a chef. Give quantities in grams."
+              className="w-full text-base bg-input-background text-secondary-foreground rounded-lg px-3 py-2 border-none outline-none focus:ring-2 focus:ring-ring resize-none"
+            />
+          </div>
+          <SettingDivider />
+          <div className="px-1.5 py-2 space-y-1.5">
+            <span className="text-base font-medium text-secondary-foreground">Tools</span>
+            {config.toolGroups.map((group) => (
+              <label key={group.id} className="flex items-center gap-2 text-[14px] text-secondary-foreground">
+                <input
+                  type="checkbox"
+                  checked={!draft.tools || draft.tools.includes(group.id)}
+                  onChange={() => toggleTool(group.id)}
+                />
+                {group.name}
+              </label>
+            ))}
+          </div>
+          <SettingDivider />
+          <div className="flex items-center justify-between px-1.5 h-12">
+            <button
+              onClick={() => setDraft(null)}
+              className="text-[14px] font-medium text-muted-foreground"
+              type="button"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={busyId !== null || !draft.name.trim() || !draft.wakeWord.trim() || !draft.llmModel}
+              className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+              type="button"
+            >
+              {busyId !== null ? <Loader2 size={14} className="animate-spin" /> : 'Save Assistant'}
+            </button>
+          </div>
+        </>
+      ) : config.assistants.length < config.maxAssistants && config.providers.length > 0 ? (
+        <>
+          <SettingDivider />
+          <button
+            onClick={startAdd}
+            className="flex items-center gap-2 px-1.5 h-12 w-full text-base font-medium text-secondary-foreground"
+            type="button"
+          >
+            <Plus size={16} /> Add assistant
+          </button>
+        </>
+      ) : null}
+
+      {error && (
+        <>
+          <SettingDivider />
+          <div className="px-1.5 py-2 text-[14px] font-medium text-red-500">{error}</div>
+        </>
+      )}
+    </SettingSection>
+  );
+}
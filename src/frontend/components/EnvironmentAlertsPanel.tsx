@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  fetchEnvironmentAlerts,
+  saveEnvironmentAlerts,
+  type EnvironmentAlertConfig,
+  type EnvironmentAlertRecord,
+  type PollenType,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+const POLLEN_OPTIONS: { id: PollenType; name: string }[] = [
+  { id: 'grass', name: 'Grass' },
+  { id: 'tree', name: 'Tree' },
+  { id: 'weed', name: 'Weed' },
+];
+
+function formatAlertTime(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Proactive environment alerts — while the glasses are connected, conditions
+ * are checked every 15 minutes and a short alert plays when the air quality,
+ * pollen for the user's allergens, or an incoming storm crosses a threshold.
+ */
+export default function EnvironmentAlertsPanel() {
+  const [config, setConfig] = useState<EnvironmentAlertConfig | null>(null);
+  const [recent, setRecent] = useState<EnvironmentAlertRecord[]>([]);
+  const [aqi, setAqi] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchEnvironmentAlerts()
+      .then((data) => {
+        setConfig(data.config);
+        setRecent(data.recent);
+        setAqi(data.config.aqiThreshold?.toString() ?? '');
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!config) return null;
+
+  const update = (changes: Partial<EnvironmentAlertConfig>) => setConfig({ ...config, ...changes });
+
+  const toggleAllergen = (id: PollenType) =>
+    update({
+      allergens: config.allergens.includes(id)
+        ? config.allergens.filter((a) => a !== id)
+        : [...config.allergens, id],
+    });
+
+  const handleSave = async () => {
+    const threshold = aqi ? parseInt(aqi, 10) : null;
+    if (threshold !== null && !(threshold >= 0 && threshold <= 500)) {
+      setMessage({ type: 'error', text: 'AQI must be from 0 to 500' });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    const result = await saveEnvironmentAlerts({ ...config, aqiThreshold: threshold })
+      .catch(() => ({ success: false, error: 'Failed to save alerts' }) as const);
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save alerts' });
+      return;
+    }
+    if (result.config) setConfig(result.config);
+    setMessage({ type: 'success', text: 'Alerts saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <SettingSection label="Environment Alerts">
+      <SettingDescription>
+        While your glasses are connected, get a short alert when the air turns
+        unhealthy, pollen you're allergic to is high, or a thunderstorm is on
+        its way. Each kind of alert plays at most once every 4 hours.
+      </SettingDescription>
+      <SettingDivider />
+      <SettingRow label="Alerts">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={() => update({ enabled: !config.enabled })}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="Air quality above (US AQI)">
+        <input
+          type="number"
+          inputMode="numeric"
+          min="0"
+          max="500"
+          step="10"
+          value={aqi}
+          onChange={(e) => setAqi(e.target.value)}
+          placeholder="Off"
+          className={`${inputClass} w-20 text-right`}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <div className="px-1.5 py-2.5 space-y-1.5">
+        <div className="text-base font-medium text-secondary-foreground">High pollen for</div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+          {POLLEN_OPTIONS.map((option) => (
+            <label key={option.id} className="flex items-center gap-2 text-[14px] text-secondary-foreground">
+              <input
+                type="checkbox"
+                checked={config.allergens.includes(option.id)}
+                onChange={() => toggleAllergen(option.id)}
+              />
+              {option.name}
+            </label>
+          ))}
+        </div>
+      </div>
+      <SettingDivider />
+      <SettingRow label="Storms">
+        <input
+          type="checkbox"
+          checked={config.storms}
+          onChange={() => update({ storms: !config.storms })}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="Quiet hours">
+        <div className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={!!config.quietHours}
+            onChange={() => update({ quietHours: config.quietHours ? null : { start: '22:00', end: '07:00' } })}
+          />
+          {config.quietHours && (
+            <>
+              <input
+                type="time"
+                value={config.quietHours.start}
+                onChange={(e) => update({ quietHours: { ...config.quietHours!, start: e.target.value } })}
+                className={`${inputClass} w-28`}
+              />
+              <span className="text-muted-foreground">–</span>
+              <input
+                type="time"
+                value={config.quietHours.end}
+                onChange={(e) => update({ quietHours: { ...config.quietHours!, end: e.target.value } })}
+                className={`${inputClass} w-28`}
+              />
+            </>
+          )}
+        </div>
+      </SettingRow>
+      <SettingDivider />
+      <SettingDescription>
+        Pollen alerts need a Google Cloud API key. Air quality and storm alerts
+        work with either location backend.
+      </SettingDescription>
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Alerts'}
+        </button>
+      </div>
+
+      {recent.length > 0 && (
+        <>
+          <SettingDivider />
+          <div className="px-1.5 py-2.5 space-y-1.5">
+            <div className="text-[13px] font-semibold text-muted-foreground">This week</div>
+            {recent.map((alert) => (
+              <div key={`${alert.kind}:${alert.deliveredAt}`} className="text-[13px] text-secondary-foreground">
+                <span className="text-muted-foreground">{formatAlertTime(alert.deliveredAt)} · </span>
+                {alert.message}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </SettingSection>
+  );
+}
@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2, ArrowUp, ChevronDown } from 'lucide-react';
+import {
+  fetchProviderConfig,
+  fetchProviderCatalog,
+  saveProviderFallbacks,
+  type ProviderCatalog,
+} from '../api/settings.api';
+import { SettingSection, SettingDivider, SettingDescription } from './settings-ui';
+
+const MAX_FALLBACKS = 3;
+
+interface FallbackDraft {
+  provider: string;
+  model: string;
+  apiKey: string;
+  keySet: boolean;
+  baseUrl: string;
+  providerName: string;
+}
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+function Select({
+  value,
+  onChange,
+  options,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}) {
+  return (
+    <div className="relative flex items-center min-w-0">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="appearance-none w-full text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring"
+      >
+        <option value="">Select...</option>
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      <ChevronDown
+        size={14}
+        className="absolute right-2 pointer-events-none text-muted-foreground"
+      />
+    </div>
+  );
+}
+
+/**
+ * Ordered fallback models for one purpose (LLM or vision).
+ * Tried in order when the primary provider hits a quota, billing, or network error.
+ */
+export default function FallbackChain({
+  purpose,
+  label,
+}: {
+  purpose: 'llm' | 'vision';
+  label: string;
+}) {
+  const [catalog, setCatalog] = useState<ProviderCatalog>({});
+  const [fallbacks, setFallbacks] = useState<FallbackDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    Promise.all([fetchProviderConfig(), fetchProviderCatalog()])
+      .then(([config, cat]) => {
+        setCatalog(cat);
+        setFallbacks(
+          (config[purpose].fallbacks || []).map((f) => ({
+            provider: f.provider,
+            model: f.model,
+            apiKey: '',
+            keySet: f.isConfigured,
+            baseUrl: f.customBaseUrl || '',
+            providerName: f.customProviderName || '',
+          })),
+        );
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [purpose]);
+
+  // Custom servers can back up the LLM; vision fallbacks must be vision-capable catalog models
+  const providerOptions = Object.entries(catalog)
+    .filter(([id]) => id !== 'none' && (purpose === 'llm' || id !== 'custom'))
+    .map(([id, entry]) => ({ value: id, label: entry.name }));
+
+  const modelOptions = (provider: string) =>
+    (catalog[provider]?.models || [])
+      .filter((m) => purpose === 'llm' || m.supportsVision)
+      .map((m) => ({ value: m.id, label: m.name }));
+
+  const update = (index: number, changes: Partial<FallbackDraft>) => {
+    setFallbacks((prev) => prev.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+  };
+
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    setFallbacks((prev) => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+
+    const result = await saveProviderFallbacks(
+      purpose,
+      fallbacks
+        .filter((f) => f.provider && f.model)
+        .map((f) => ({
+          provider: f.provider,
+          model: f.model,
+          ...(f.apiKey ? { apiKey: f.apiKey } : {}),
+          ...(f.provider === 'custom'
+            ? { baseUrl: f.baseUrl, providerName: f.providerName || undefined }
+            : {}),
+        })),
+    ).catch(() => ({ success: false, error: 'Failed to save fallbacks' }) as const);
+
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save fallbacks' });
+      return;
+    }
+    setFallbacks((prev) =>
+      prev
+        .filter((f) => f.provider && f.model)
+        .map((f) => ({ ...f, apiKey: '', keySet: f.keySet || !!f.apiKey || f.provider === 'custom' })),
+    );
+    setMessage({ type: 'success', text: 'Fallbacks saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  if (loading) return null;
+
+  return (
+    <SettingSection label={label}>
+      <SettingDescription>
+        If your {purpose === 'llm' ? 'chat' : 'vision'} provider hits a usage
+        limit, billing problem, or outage, these are tried in order. Leave the
+        key blank to reuse the key you already saved for that provider.
+      </SettingDescription>
+
+      {fallbacks.map((f, index) => (
+        <React.Fragment key={index}>
+          <SettingDivider />
+          <div className="px-1.5 py-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-base font-medium text-secondary-foreground shrink-0 w-5">
+                {index + 1}.
+              </span>
+              <div className="flex-1 min-w-0">
+                <Select
+                  value={f.provider}
+                  onChange={(provider) => update(index, { provider, model: '', keySet: false })}
+                  options={providerOptions}
+                />
+              </div>
+              <button
+                onClick={() => moveUp(index)}
+                disabled={index === 0}
+                className="shrink-0 p-1 text-muted-foreground disabled:opacity-30"
+                type="button"
+                aria-label="Move up"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => setFallbacks((prev) => prev.filter((_, i) => i !== index))}
+                className="shrink-0 p-1 text-red-500"
+                type="button"
+                aria-label="Remove fallback"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            {f.provider === 'custom' ? (
+              <>
+                <input
+                  value={f.providerName}
+                  onChange={(e) => update(index, { providerName: e.target.value })}
+                  placeholder="Name (e.g. My Ollama Server)"
+                  className={`${inputClass} w-full`}
+                />
+                <input
+                  value={f.baseUrl}
+                  onChange={(e) => update(index, { baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={`${inputClass} w-full`}
+                />
+                <input
+                  value={f.model}
+                  onChange={(e) => update(index, { model: e.target.value })}
+                  placeholder="Model (e.g. llama3.1)"
+                  className={`${inputClass} w-full`}
+                />
+              </>
+            ) : (
+              <Select
+                value={f.model}
+                onChange={(model) => update(index, { model })}
+                options={modelOptions(f.provider)}
+              />
+            )}
+
+            <input
+              type="password"
+              value={f.apiKey}
+              onChange={(e) => update(index, { apiKey: e.target.value })}
+              placeholder={
+                f.keySet
+                  ? '••••••••'
+                  : f.provider === 'custom'
+                    ? 'API key (optional)'
+                    : 'API key (blank = reuse saved key)'
+              }
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        </React.Fragment>
+      ))}
+
+      {fallbacks.length < MAX_FALLBACKS && (
+        <>
+          <SettingDivider />
+          <button
+            onClick={() =>
+              setFallbacks((prev) => [
+                ...prev,
+                { provider: '', model: '', apiKey: '', keySet: false, baseUrl: '', providerName: '' },
+              ])
+            }
+            className="w-full flex items-center gap-2 px-1.5 h-12 text-base font-medium text-secondary-foreground"
+            type="button"
+          >
+            <Plus size={16} /> Add fallback
+          </button>
+        </>
+      )}
+
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Fallbacks'}
+        </button>
+      </div>
+    </SettingSection>
+  );
+}
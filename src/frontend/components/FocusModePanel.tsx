@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, ChevronDown } from 'lucide-react';
+import {
+  fetchFocusMode,
+  saveFocusMode,
+  type FocusConfig,
+  type FocusPolicy,
+  type FocusSource,
+  type FocusStatus,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+const SOURCES: { value: FocusSource; label: string }[] = [
+  { value: 'bridge', label: 'Claude Code messages' },
+  { value: 'reminders', label: 'Reminders & timers' },
+  { value: 'meetings', label: 'Meeting reminders' },
+  { value: 'environment', label: 'Environment alerts' },
+  { value: 'notifications', label: 'Announced notifications' },
+  { value: 'digest', label: 'Scheduled digests' },
+];
+
+const POLICIES: { value: FocusPolicy; label: string }[] = [
+  { value: 'deliver', label: 'Play anyway' },
+  { value: 'queue', label: 'Hold for later' },
+  { value: 'drop', label: 'Skip' },
+];
+
+function describeStatus(status: FocusStatus): string {
+  switch (status.reason) {
+    case 'manual':
+      return status.manualUntil
+        ? `On until ${new Date(status.manualUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+        : 'On';
+    case 'quiet_hours':
+      return 'On (quiet hours)';
+    case 'busy_event':
+      return 'On (busy calendar event)';
+    default:
+      return 'Off';
+  }
+}
+
+/**
+ * Do Not Disturb / focus mode — when it turns on by itself (quiet hours,
+ * busy calendar events) and what each kind of proactive speech does while
+ * it's on. "Don't disturb me for an hour" turns it on by voice.
+ */
+export default function FocusModePanel() {
+  const [config, setConfig] = useState<FocusConfig | null>(null);
+  const [status, setStatus] = useState<FocusStatus | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchFocusMode()
+      .then((data) => {
+        setConfig(data.config);
+        setStatus(data.status);
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!config) return null;
+
+  const update = (patch: Partial<FocusConfig>) => setConfig({ ...config, ...patch });
+
+  const setPolicy = (source: FocusSource, policy: FocusPolicy) =>
+    update({ policies: { ...config.policies, [source]: policy } });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    const result = await saveFocusMode(config)
+      .catch(() => ({ success: false, error: 'Failed to save focus mode' }) as const);
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save focus mode' });
+      return;
+    }
+    if (result.config) setConfig(result.config);
+    if (result.status) setStatus(result.status);
+    setMessage({ type: 'success', text: 'Focus mode saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <SettingSection label="Do Not Disturb">
+      <SettingDescription>
+        Say "don't disturb me for an hour" to hold back what the glasses say on
+        their own. When it ends you hear a short summary of what was held back.
+        It can also turn on during quiet hours or busy calendar events.
+      </SettingDescription>
+      {status && (
+        <>
+          <SettingDivider />
+          <SettingRow label="Now">
+            <span className="text-base text-muted-foreground">{describeStatus(status)}</span>
+          </SettingRow>
+        </>
+      )}
+      <SettingDivider />
+      <SettingRow label="Quiet hours">
+        <div className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={!!config.quietHours}
+            onChange={() => update({ quietHours: config.quietHours ? null : { start: '22:00', end: '07:00' } })}
+          />
+          {config.quietHours && (
+            <>
+              <input
+                type="time"
+                value={config.quietHours.start}
+                onChange={(e) => update({ quietHours: { ...config.quietHours!, start: e.target.value } })}
+                className={`${inputClass} w-28`}
+              />
+              <span className="text-muted-foreground">–</span>
+              <input
+                type="time"
+                value={config.quietHours.end}
+                onChange={(e) => update({ quietHours: { ...config.quietHours!, end: e.target.value } })}
+                className={`${inputClass} w-28`}
+              />
+            </>
+          )}
+        </div>
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="During busy events">
+        <input
+          type="checkbox"
+          checked={config.busyEvents}
+          onChange={() => update({ busyEvents: !config.busyEvents })}
+        />
+      </SettingRow>
+      {SOURCES.map((source) => (
+        <React.Fragment key={source.value}>
+          <SettingDivider />
+          <SettingRow label={source.label}>
+            <div className="relative flex items-center">
+              <select
+                value={config.policies[source.value]}
+                onChange={(e) => setPolicy(source.value, e.target.value as FocusPolicy)}
+                className="appearance-none text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring"
+              >
+                {POLICIES.map((policy) => (
+                  <option key={policy.value} value={policy.value}>
+                    {policy.label}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown
+                size={14}
+                className="absolute right-2 pointer-events-none text-muted-foreground"
+              />
+            </div>
+          </SettingRow>
+        </React.Fragment>
+      ))}
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Focus Mode'}
+        </button>
+      </div>
+    </SettingSection>
+  );
+}
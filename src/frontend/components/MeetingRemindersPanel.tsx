@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, ChevronDown } from 'lucide-react';
+import {
+  fetchMeetingReminders,
+  saveMeetingReminders,
+  type MeetingReminderConfig,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Meeting reminders — a set number of minutes before each calendar event the
+ * glasses announce it, with travel time when the event has a location.
+ * The calendar list only shows calendars the phone has sent events from.
+ */
+export default function MeetingRemindersPanel() {
+  const [config, setConfig] = useState<MeetingReminderConfig | null>(null);
+  const [calendars, setCalendars] = useState<string[]>([]);
+  const [lead, setLead] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchMeetingReminders()
+      .then((data) => {
+        setConfig(data.config);
+        setCalendars(data.calendars);
+        setLead(String(data.config.leadMinutes));
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!config) return null;
+
+  const update = (changes: Partial<MeetingReminderConfig>) => setConfig({ ...config, ...changes });
+
+  const toggleCalendar = (name: string) => {
+    const selected = config.calendars ?? calendars;
+    const next = selected.includes(name) ? selected.filter((c) => c !== name) : [...selected, name];
+    // Every calendar ticked is the same as "all", which also covers calendars added later
+    update({ calendars: calendars.every((c) => next.includes(c)) ? null : next });
+  };
+
+  const handleSave = async () => {
+    const minutes = parseInt(lead, 10);
+    if (!(minutes >= 1 && minutes <= 120)) {
+      setMessage({ type: 'error', text: 'Minutes must be from 1 to 120' });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    const result = await saveMeetingReminders({ ...config, leadMinutes: minutes })
+      .catch(() => ({ success: false, error: 'Failed to save reminders' }) as const);
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save reminders' });
+      return;
+    }
+    if (result.config) setConfig(result.config);
+    setMessage({ type: 'success', text: 'Reminders saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <SettingSection label="Meeting Reminders">
+      <SettingDescription>
+        Hear about each event on your phone's calendar before it starts — its
+        title and start time, and how long it takes to get there when it has a
+        location (needs a Google Cloud API key).
+      </SettingDescription>
+      <SettingDivider />
+      <SettingRow label="Reminders">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={() => update({ enabled: !config.enabled })}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="Minutes before">
+        <input
+          type="number"
+          inputMode="numeric"
+          min="1"
+          max="120"
+          step="5"
+          value={lead}
+          onChange={(e) => setLead(e.target.value)}
+          className={`${inputClass} w-20 text-right`}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="Travel by">
+        <div className="relative flex items-center">
+          <select
+            value={config.travelMode}
+            onChange={(e) => update({ travelMode: e.target.value as MeetingReminderConfig['travelMode'] })}
+            className="appearance-none text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring"
+          >
+            <option value="DRIVE">Car</option>
+            <option value="WALK">Walking</option>
+          </select>
+          <ChevronDown
+            size={14}
+            className="absolute right-2 pointer-events-none text-muted-foreground"
+          />
+        </div>
+      </SettingRow>
+      {calendars.length > 0 && (
+        <>
+          <SettingDivider />
+          <div className="px-1.5 py-2.5 space-y-1.5">
+            <div className="text-base font-medium text-secondary-foreground">Calendars</div>
+            <div className="flex flex-col gap-1.5">
+              {calendars.map((name) => (
+                <label key={name} className="flex items-center gap-2 text-[14px] text-secondary-foreground">
+                  <input
+                    type="checkbox"
+                    checked={!config.calendars || config.calendars.includes(name)}
+                    onChange={() => toggleCalendar(name)}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Reminders'}
+        </button>
+      </div>
+    </SettingSection>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2, Pencil, Check, X } from 'lucide-react';
+import {
+  fetchMemories,
+  createMemory,
+  updateMemory,
+  deleteMemory,
+  type Memory,
+} from '../api/settings.api';
+import { SettingSection, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Long-term memories — facts the user asked the assistant to remember.
+ * Lists them with inline edit and delete, plus an "add" row.
+ */
+export default function MemoriesPanel() {
+  const [memories, setMemories] = useState<Memory[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [newText, setNewText] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMemories()
+      .then(setMemories)
+      .catch(() => setMemories([]));
+  }, []);
+
+  const handleAdd = async () => {
+    if (!newText.trim()) return;
+    setBusyId('new');
+    setError(null);
+    const result = await createMemory(newText.trim())
+      .catch(() => ({ success: false, error: 'Failed to save memory' }) as const);
+    setBusyId(null);
+    if (!result.success || !result.memory) {
+      setError(result.error || 'Failed to save memory');
+      return;
+    }
+    const memory = result.memory;
+    setMemories((prev) => [memory, ...(prev ?? [])]);
+    setNewText('');
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    if (!editText.trim()) return;
+    setBusyId(id);
+    setError(null);
+    const result = await updateMemory(id, editText.trim())
+      .catch(() => ({ success: false, error: 'Failed to update memory' }) as const);
+    setBusyId(null);
+    if (!result.success || !result.memory) {
+      setError(result.error || 'Failed to update memory');
+      return;
+    }
+    const memory = result.memory;
+    setMemories((prev) => [memory, ...(prev ?? []).filter((m) => m.id !== id)]);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    const result = await deleteMemory(id)
+      .catch(() => ({ success: false, error: 'Failed to delete memory' }) as const);
+    setBusyId(null);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete memory');
+      return;
+    }
+    setMemories((prev) => (prev ?? []).filter((m) => m.id !== id));
+  };
+
+  if (!memories) return null;
+
+  return (
+    <SettingSection label="Memories">
+      <SettingDescription>
+        Say "remember that…" to save a fact, or "forget that" to delete it.
+        The most relevant memories are shared with the AI on every question.
+      </SettingDescription>
+
+      {memories.map((memory) => (
+        <React.Fragment key={memory.id}>
+          <SettingDivider />
+          <div className="flex items-center gap-2 px-1.5 min-h-12 py-2">
+            {editingId === memory.id ? (
+              <>
+                <input
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit(memory.id)}
+                  className={`${inputClass} flex-1 min-w-0`}
+                  autoFocus
+                />
+                <button
+                  onClick={() => handleSaveEdit(memory.id)}
+                  disabled={busyId === memory.id || !editText.trim()}
+                  className="shrink-0 p-1 text-green-500 disabled:opacity-30"
+                  type="button"
+                  aria-label="Save memory"
+                >
+                  {busyId === memory.id ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="shrink-0 p-1 text-muted-foreground"
+                  type="button"
+                  aria-label="Cancel edit"
+                >
+                  <X size={14} />
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 min-w-0 text-base text-secondary-foreground break-words">
+                  {memory.content}
+                </span>
+                <button
+                  onClick={() => {
+                    setEditingId(memory.id);
+                    setEditText(memory.content);
+                  }}
+                  className="shrink-0 p-1 text-muted-foreground"
+                  type="button"
+                  aria-label="Edit memory"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => handleDelete(memory.id)}
+                  disabled={busyId === memory.id}
+                  className="shrink-0 p-1 text-red-500 disabled:opacity-30"
+                  type="button"
+                  aria-label="Delete memory"
+                >
+                  {busyId === memory.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                </button>
+              </>
+            )}
+          </div>
+        </React.Fragment>
+      ))}
+
+      <SettingDivider />
+      <div className="flex items-center gap-2 px-1.5 h-12">
+        <input
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="e.g. My locker is 42"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={busyId === 'new' || !newText.trim()}
+          className="shrink-0 p-1 text-secondary-foreground disabled:opacity-30"
+          type="button"
+          aria-label="Add memory"
+        >
+          {busyId === 'new' ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+        </button>
+      </div>
+
+      {error && (
+        <>
+          <SettingDivider />
+          <div className="px-1.5 py-2 text-[14px] font-medium text-red-500">{error}</div>
+        </>
+      )}
+    </SettingSection>
+  );
+}
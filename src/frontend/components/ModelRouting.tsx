@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { Loader2, ChevronDown } from 'lucide-react';
+import {
+  fetchProviderConfig,
+  fetchProviderCatalog,
+  saveModelRouting,
+  type ModelInfo,
+  type ModelRoutingConfig,
+  type ModelTask,
+  type ModelTier,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const TASKS: { task: ModelTask; label: string }[] = [
+  { task: 'quick', label: 'Quick answers' },
+  { task: 'standard', label: 'Standard answers' },
+  { task: 'detailed', label: 'Detailed answers' },
+  { task: 'tools', label: 'After tool use' },
+  { task: 'classifier', label: 'Camera check' },
+  { task: 'tagging', label: 'Topic tagging' },
+];
+
+const TIERS: { value: ModelTier; label: string }[] = [
+  { value: 'default', label: 'Default' },
+  { value: 'fast', label: 'Fast' },
+  { value: 'strong', label: 'Strong' },
+];
+
+function Select({
+  value,
+  onChange,
+  options,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+  placeholder?: string;
+}) {
+  return (
+    <div className="relative flex items-center min-w-0 max-w-[55%]">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="appearance-none w-full text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring"
+      >
+        {placeholder !== undefined && <option value="">{placeholder}</option>}
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      <ChevronDown
+        size={14}
+        className="absolute right-2 pointer-events-none text-muted-foreground"
+      />
+    </div>
+  );
+}
+
+/**
+ * Per-task model routing — pick a fast and a strong model from the LLM
+ * provider, then choose which one each kind of query or background job uses.
+ */
+export default function ModelRouting() {
+  const [provider, setProvider] = useState('');
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [embeddingModels, setEmbeddingModels] = useState<{ id: string; name: string }[]>([]);
+  const [routing, setRouting] = useState<ModelRoutingConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    Promise.all([fetchProviderConfig(), fetchProviderCatalog()])
+      .then(([config, catalog]) => {
+        setProvider(config.llm.provider);
+        setModels(catalog[config.llm.provider]?.models || []);
+        setEmbeddingModels(catalog[config.llm.provider]?.embeddingModels || []);
+        setRouting(config.routing);
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!routing) return null;
+
+  const isCustom = provider === 'custom';
+  const modelOptions = models.map((m) => ({ value: m.id, label: m.name }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    const result = await saveModelRouting(routing).catch(
+      () => ({ success: false, error: 'Failed to save model routing' }) as const,
+    );
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save model routing' });
+      return;
+    }
+    setMessage({ type: 'success', text: 'Routing saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const modelField = (key: 'fastModel' | 'strongModel') =>
+    isCustom ? (
+      <input
+        value={routing[key] || ''}
+        onChange={(e) => setRouting({ ...routing, [key]: e.target.value || undefined })}
+        placeholder="Same as default"
+        className="text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring max-w-[55%]"
+      />
+    ) : (
+      <Select
+        value={routing[key] || ''}
+        onChange={(value) => setRouting({ ...routing, [key]: value || undefined })}
+        options={modelOptions}
+        placeholder="Same as default"
+      />
+    );
+
+  return (
+    <SettingSection label="Model Routing">
+      <SettingDescription>
+        Use a cheaper model for short answers and background jobs, and a
+        stronger one for detailed or tool-heavy questions. Both use your LLM
+        provider's key.
+      </SettingDescription>
+      <SettingDivider />
+      <SettingRow label="Fast model">{modelField('fastModel')}</SettingRow>
+      <SettingDivider />
+      <SettingRow label="Strong model">{modelField('strongModel')}</SettingRow>
+
+      {TASKS.map(({ task, label }) => (
+        <div key={task}>
+          <SettingDivider />
+          <SettingRow label={label}>
+            <Select
+              value={routing.rules[task]}
+              onChange={(value) =>
+                setRouting({ ...routing, rules: { ...routing.rules, [task]: value as ModelTier } })
+              }
+              options={TIERS}
+            />
+          </SettingRow>
+        </div>
+      ))}
+
+      {(isCustom || embeddingModels.length > 1) && (
+        <>
+          <SettingDivider />
+          <SettingRow label="History search">
+            {isCustom ? (
+              <input
+                value={routing.embeddingModel || ''}
+                onChange={(e) => setRouting({ ...routing, embeddingModel: e.target.value || undefined })}
+                placeholder="Embedding model"
+                className="text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring max-w-[55%]"
+              />
+            ) : (
+              <Select
+                value={routing.embeddingModel || ''}
+                onChange={(value) => setRouting({ ...routing, embeddingModel: value || undefined })}
+                options={embeddingModels.map((m) => ({ value: m.id, label: m.name }))}
+                placeholder="Default"
+              />
+            )}
+          </SettingRow>
+          <SettingDescription>
+            {isCustom
+              ? 'Embedding model on your server (e.g. nomic-embed-text) used to search conversations older than 48 hours. Leave blank to turn history search off.'
+              : 'Embedding model used to search conversations and photos older than 48 hours.'}
+          </SettingDescription>
+        </>
+      )}
+
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Routing'}
+        </button>
+      </div>
+    </SettingSection>
+  );
+}
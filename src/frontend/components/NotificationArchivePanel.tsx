@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Search, Trash2 } from 'lucide-react';
+import {
+  fetchNotificationArchiveSettings,
+  saveNotificationArchiveSettings,
+  fetchNotificationArchive,
+  deleteArchivedNotification,
+  clearNotificationArchive,
+  type ArchivedNotification,
+  type NotificationArchiveConfig,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+function formatReceived(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Notification archive — keeps phone notifications past the 4-hour recent
+ * list so "what was that code from this morning?" works. Settings for
+ * retention, plus a searchable list with delete.
+ */
+export default function NotificationArchivePanel() {
+  const [config, setConfig] = useState<NotificationArchiveConfig | null>(null);
+  const [daysText, setDaysText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [entries, setEntries] = useState<ArchivedNotification[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const load = async (q: string, before?: string) => {
+    setLoading(true);
+    const page = await fetchNotificationArchive({ q, before }).catch(() => null);
+    setLoading(false);
+    if (!page) {
+      setMessage({ type: 'error', text: 'Failed to load notifications' });
+      return;
+    }
+    setEntries((prev) => (before ? [...prev, ...page.notifications] : page.notifications));
+    setHasMore(page.hasMore);
+  };
+
+  useEffect(() => {
+    fetchNotificationArchiveSettings()
+      .then((data) => {
+        setConfig(data);
+        setDaysText(String(data.retentionDays));
+        if (data.enabled) load('');
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!config) return null;
+
+  const handleSave = async () => {
+    const days = parseInt(daysText, 10);
+    if (!(days >= 1 && days <= 365)) {
+      setMessage({ type: 'error', text: 'Days must be from 1 to 365' });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    const result = await saveNotificationArchiveSettings({ ...config, retentionDays: days })
+      .catch(() => ({ success: false, error: 'Failed to save archive settings' }) as const);
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save archive settings' });
+      return;
+    }
+    if (result.config) setConfig(result.config);
+    if (result.config?.enabled) {
+      load(query);
+    } else {
+      setEntries([]);
+      setHasMore(false);
+    }
+    setMessage({ type: 'success', text: 'Archive saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleDelete = async (id: string) => {
+    setBusyId(id);
+    const result = await deleteArchivedNotification(id)
+      .catch(() => ({ success: false, error: 'Failed to delete notification' }) as const);
+    setBusyId(null);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to delete notification' });
+      return;
+    }
+    setEntries((prev) => prev.filter((entry) => entry.id !== id));
+  };
+
+  const handleClear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      setTimeout(() => setConfirmClear(false), 3000);
+      return;
+    }
+    setConfirmClear(false);
+    setBusyId('all');
+    const result = await clearNotificationArchive()
+      .catch(() => ({ success: false, error: 'Failed to clear archive' }) as const);
+    setBusyId(null);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to clear archive' });
+      return;
+    }
+    setEntries([]);
+    setHasMore(false);
+  };
+
+  return (
+    <SettingSection label="Notification History">
+      <SettingDescription>
+        Keep phone notifications after they leave the recent list, so you can
+        ask "what was that verification code from this morning?". Dismissed
+        notifications stay in the archive. Turning it off deletes the archive.
+      </SettingDescription>
+      <SettingDivider />
+      <SettingRow label="Keep notification history">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={() => setConfig({ ...config, enabled: !config.enabled })}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="Keep for (days)">
+        <input
+          type="number"
+          inputMode="numeric"
+          min="1"
+          max="365"
+          value={daysText}
+          onChange={(e) => setDaysText(e.target.value)}
+          className={`${inputClass} w-20 text-right`}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save History'}
+        </button>
+      </div>
+
+      {config.enabled && (
+        <>
+          <SettingDivider />
+          <div className="flex items-center gap-2 px-1.5 h-12">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && load(query)}
+              placeholder="Search notifications"
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button
+              onClick={() => load(query)}
+              disabled={loading}
+              className="shrink-0 p-1 text-secondary-foreground disabled:opacity-30"
+              type="button"
+              aria-label="Search notifications"
+            >
+              {loading ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+            </button>
+          </div>
+
+          {entries.map((entry) => (
+            <React.Fragment key={entry.id}>
+              <SettingDivider />
+              <div className="flex items-start gap-2 px-1.5 py-2.5">
+                <div className="flex-1 min-w-0">
+                  <div className="text-[13px] text-muted-foreground">
+                    {entry.app} · {formatReceived(entry.receivedAt)}
+                  </div>
+                  <div className="text-base font-medium text-secondary-foreground break-words">{entry.title}</div>
+                  <div className="text-base text-secondary-foreground break-words">{entry.content}</div>
+                </div>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  disabled={busyId === entry.id}
+                  className="shrink-0 p-1 text-red-500 disabled:opacity-30"
+                  type="button"
+                  aria-label="Delete notification"
+                >
+                  {busyId === entry.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                </button>
+              </div>
+            </React.Fragment>
+          ))}
+
+          {!loading && entries.length === 0 && (
+            <>
+              <SettingDivider />
+              <div className="px-1.5 py-2.5 text-base text-muted-foreground">
+                {query ? 'No notifications match.' : 'No notifications archived yet.'}
+              </div>
+            </>
+          )}
+
+          <SettingDivider />
+          <div className="flex items-center justify-between px-1.5 h-12">
+            {hasMore ? (
+              <button
+                onClick={() => load(query, entries[entries.length - 1]?.receivedAt)}
+                disabled={loading}
+                className="text-[14px] font-semibold text-muted-foreground disabled:opacity-40"
+                type="button"
+              >
+                Show more
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={handleClear}
+              disabled={busyId === 'all' || entries.length === 0}
+              className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-red-500 transition-all disabled:opacity-40 hover:bg-accent"
+              type="button"
+            >
+              {busyId === 'all' ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : confirmClear ? (
+                'Tap again to delete all'
+              ) : (
+                'Delete All'
+              )}
+            </button>
+          </div>
+        </>
+      )}
+    </SettingSection>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  fetchNotificationDigest,
+  saveNotificationDigest,
+  type NotificationDigestConfig,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Notification digest — a short summary of the notifications that arrived
+ * since the last one, played every so many minutes while the glasses are
+ * connected. "Summarize my notifications" works any time without this.
+ */
+export default function NotificationDigestPanel() {
+  const [config, setConfig] = useState<NotificationDigestConfig | null>(null);
+  const [minutesText, setMinutesText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchNotificationDigest()
+      .then((data) => {
+        setConfig(data);
+        setMinutesText(String(data.intervalMinutes));
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!config) return null;
+
+  const handleSave = async () => {
+    const minutes = parseInt(minutesText, 10);
+    if (!(minutes >= 15 && minutes <= 480)) {
+      setMessage({ type: 'error', text: 'Minutes must be from 15 to 480' });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    const result = await saveNotificationDigest({ ...config, intervalMinutes: minutes })
+      .catch(() => ({ success: false, error: 'Failed to save digest settings' }) as const);
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save digest settings' });
+      return;
+    }
+    if (result.config) setConfig(result.config);
+    setMessage({ type: 'success', text: 'Digest saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <SettingSection label="Notification Digest">
+      <SettingDescription>
+        Say "summarize my notifications" for a short spoken digest that groups
+        related messages ("Alice and Bob are planning dinner at 7"). Turn on the
+        schedule to hear one regularly, covering what arrived since the last.
+      </SettingDescription>
+      <SettingDivider />
+      <SettingRow label="Scheduled digest">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={() => setConfig({ ...config, enabled: !config.enabled })}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="Every (minutes)">
+        <input
+          type="number"
+          inputMode="numeric"
+          min="15"
+          max="480"
+          step="15"
+          value={minutesText}
+          onChange={(e) => setMinutesText(e.target.value)}
+          className={`${inputClass} w-20 text-right`}
+        />
+      </SettingRow>
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Digest'}
+        </button>
+      </div>
+    </SettingSection>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2, ChevronDown } from 'lucide-react';
+import {
+  fetchNotificationRules,
+  createNotificationRule,
+  deleteNotificationRule,
+  type NotificationRule,
+  type NotificationRuleInput,
+} from '../api/settings.api';
+import { SettingSection, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+const selectClass =
+  'appearance-none text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring';
+
+const ACTION_OPTIONS: { value: NotificationRuleInput['action']; label: string }[] = [
+  { value: 'announce', label: 'Announce' },
+  { value: 'hud', label: 'Show on HUD' },
+  { value: 'digest', label: 'Digest' },
+  { value: 'ignore', label: 'Ignore' },
+];
+
+function Select({ value, onChange, children }: {
+  value: string;
+  onChange: (value: string) => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="relative flex items-center shrink-0">
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+        {children}
+      </select>
+      <ChevronDown size={14} className="absolute right-2 pointer-events-none text-muted-foreground" />
+    </div>
+  );
+}
+
+/**
+ * Notification rules — what happens to matching phone notifications:
+ * announced right away, shown on the HUD, kept for the digest, or ignored.
+ * Lists the rules with delete, plus an "add" form. Rules can also be added
+ * by voice ("always tell me when Alice texts").
+ */
+export default function NotificationRulesPanel() {
+  const [rules, setRules] = useState<NotificationRule[] | null>(null);
+  const [app, setApp] = useState('');
+  const [sender, setSender] = useState('');
+  const [keywords, setKeywords] = useState('');
+  const [priority, setPriority] = useState('');
+  const [action, setAction] = useState<NotificationRuleInput['action']>('announce');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchNotificationRules()
+      .then(setRules)
+      .catch(() => setRules([]));
+  }, []);
+
+  const keywordList = keywords.split(',').map((k) => k.trim()).filter(Boolean);
+  const canAdd = !!app.trim() || !!sender.trim() || keywordList.length > 0 || !!priority;
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    setBusyId('new');
+    setError(null);
+    const result = await createNotificationRule({
+      app: app.trim() || null,
+      sender: sender.trim() || null,
+      keywords: keywordList,
+      priority: (priority || null) as NotificationRuleInput['priority'],
+      action,
+    }).catch(() => ({ success: false, error: 'Failed to save rule' }) as const);
+    setBusyId(null);
+    if (!result.success || !result.rule) {
+      setError(result.error || 'Failed to save rule');
+      return;
+    }
+    const rule = result.rule;
+    setRules((prev) => [...(prev ?? []), rule]);
+    setApp('');
+    setSender('');
+    setKeywords('');
+    setPriority('');
+  };
+
+  const handleDelete = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    const result = await deleteNotificationRule(id)
+      .catch(() => ({ success: false, error: 'Failed to delete rule' }) as const);
+    setBusyId(null);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete rule');
+      return;
+    }
+    setRules((prev) => (prev ?? []).filter((r) => r.id !== id));
+  };
+
+  if (!rules) return null;
+
+  return (
+    <SettingSection label="Notification Rules">
+      <SettingDescription>
+        Decide what happens to phone notifications: announce them right away, show
+        them on the HUD, keep them for later, or ignore them. When several rules
+        match, the most specific one wins. You can also say "always tell me when
+        Alice texts" or "mute Candy Crush".
+      </SettingDescription>
+
+      {rules.map((rule) => (
+        <React.Fragment key={rule.id}>
+          <SettingDivider />
+          <div className="flex items-center gap-2 px-1.5 min-h-12 py-2">
+            <div className="flex-1 min-w-0 text-base text-secondary-foreground break-words">
+              {rule.description}
+            </div>
+            <button
+              onClick={() => handleDelete(rule.id)}
+              disabled={busyId === rule.id}
+              className="shrink-0 p-1 text-red-500 disabled:opacity-30"
+              type="button"
+              aria-label="Delete rule"
+            >
+              {busyId === rule.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+            </button>
+          </div>
+        </React.Fragment>
+      ))}
+
+      <SettingDivider />
+      <div className="flex flex-col gap-2 px-1.5 py-2.5">
+        <div className="flex items-center gap-2">
+          <input
+            value={app}
+            onChange={(e) => setApp(e.target.value)}
+            placeholder="App"
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          <input
+            value={sender}
+            onChange={(e) => setSender(e.target.value)}
+            placeholder="Sender"
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+        </div>
+        <input
+          value={keywords}
+          onChange={(e) => setKeywords(e.target.value)}
+          placeholder="Keywords, comma-separated"
+          className={`${inputClass} w-full`}
+        />
+        <div className="flex items-center gap-2">
+          <Select value={priority} onChange={setPriority}>
+            <option value="">Any priority</option>
+            <option value="high">High</option>
+            <option value="normal">Normal</option>
+            <option value="low">Low</option>
+          </Select>
+          <Select value={action} onChange={(value) => setAction(value as NotificationRuleInput['action'])}>
+            {ACTION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </Select>
+          <div className="flex-1" />
+          <button
+            onClick={handleAdd}
+            disabled={busyId === 'new' || !canAdd}
+            className="shrink-0 p-1 text-secondary-foreground disabled:opacity-30"
+            type="button"
+            aria-label="Add rule"
+          >
+            {busyId === 'new' ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <>
+          <SettingDivider />
+          <div className="px-1.5 py-2 text-[14px] font-medium text-red-500">{error}</div>
+        </>
+      )}
+    </SettingSection>
+  );
+}
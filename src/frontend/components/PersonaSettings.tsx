@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { Loader2, ChevronDown } from 'lucide-react';
+import {
+  fetchPersona,
+  savePersona,
+  fetchPromptPreview,
+  type PersonaPreset,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+/**
+ * Persona preset + free-form custom instructions, with a preview of the
+ * assembled system prompt. Word limits and TTS/HUD formatting always apply.
+ */
+export default function PersonaSettings() {
+  const [persona, setPersona] = useState('default');
+  const [instructions, setInstructions] = useState('');
+  const [presets, setPresets] = useState<PersonaPreset[]>([]);
+  const [maxLength, setMaxLength] = useState(1000);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+
+  useEffect(() => {
+    fetchPersona()
+      .then((config) => {
+        setPersona(config.persona);
+        setInstructions(config.customInstructions);
+        setPresets(config.presets);
+        setMaxLength(config.maxLength);
+        setLoaded(true);
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!loaded) return null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    const result = await savePersona({ persona, customInstructions: instructions }).catch(
+      () => ({ success: false, error: 'Failed to save persona' }) as const,
+    );
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save persona' });
+      return;
+    }
+    setMessage({ type: 'success', text: 'Persona saved' });
+    setTimeout(() => setMessage(null), 3000);
+    if (preview !== null) handlePreview();
+  };
+
+  const handlePreview = async () => {
+    setLoadingPreview(true);
+    const result = await fetchPromptPreview().catch(() => null);
+    setLoadingPreview(false);
+    setPreview(result?.prompt ?? 'Failed to load preview');
+  };
+
+  const selected = presets.find((p) => p.id === persona);
+
+  return (
+    <SettingSection label="Persona">
+      <SettingRow label="Style">
+        <div className="relative flex items-center min-w-0 max-w-[55%]">
+          <select
+            value={persona}
+            onChange={(e) => setPersona(e.target.value)}
+            className="appearance-none w-full text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring"
+          >
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <ChevronDown
+            size={14}
+            className="absolute right-2 pointer-events-none text-muted-foreground"
+          />
+        </div>
+      </SettingRow>
+      {selected && <SettingDescription>{selected.description}</SettingDescription>}
+      <SettingDivider />
+      <div className="px-1.5 py-2 space-y-1">
+        <span className="text-base font-medium text-secondary-foreground">Custom instructions</span>
+        <textarea
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          maxLength={maxLength}
+          rows={4}
+          placeholder="e.g. I'm a nurse. Use metric units. Never use my name."
+          className="w-full text-base bg-input-background text-secondary-foreground rounded-lg px-3 py-2 border-none outline-none focus:ring-2 focus:ring-ring resize-none"
+        />
+        <div className="text-right text-[12px] text-muted-foreground">
+          {instructions.length}/{maxLength}
+        </div>
+      </div>
+      <SettingDescription>
+        Applied to every answer. Answer length limits and speech/display
+        formatting still take priority.
+      </SettingDescription>
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <button
+            onClick={() => (preview === null ? handlePreview() : setPreview(null))}
+            disabled={loadingPreview}
+            className="text-[14px] font-medium text-muted-foreground disabled:opacity-40"
+            type="button"
+          >
+            {loadingPreview ? <Loader2 size={14} className="animate-spin" /> : preview === null ? 'Preview prompt' : 'Hide preview'}
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Persona'}
+        </button>
+      </div>
+      {preview !== null && (
+        <>
+          <SettingDivider />
+          <pre className="px-1.5 py-2.5 max-h-80 overflow-y-auto whitespace-pre-wrap text-[12px] leading-4 text-muted-foreground">
+            {preview}
+          </pre>
+        </>
+      )}
+    </SettingSection>
+  );
+}
@@ -14,6 +14,9 @@ import {
   type ModelInfo,
 } from '../api/settings.api';
 import BridgePairing from './BridgePairing';
+import FallbackChain from './FallbackChain';
+import PersonaSettings from './PersonaSettings';
+import ModelRouting from './ModelRouting';
 import {
   SettingSection,
   SettingRow,
@@ -23,6 +26,21 @@ import {
 
 type TestStatus = 'idle' | 'testing' | 'valid' | 'invalid';
 
+/** Response languages — shown in their own language */
+const LANGUAGE_OPTIONS = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'fr', label: 'Français' },
+];
+
+/** Backends for weather, addresses, and timezone */
+const LOCATION_BACKEND_OPTIONS = [
+  { value: 'auto', label: 'Automatic' },
+  { value: 'google', label: 'Google Cloud' },
+  { value: 'open', label: 'Open data' },
+];
+
 // ─── Styled form controls ───
 
 function SettingInput({
@@ -355,6 +373,7 @@ export default function ProviderSetup() {
   // Personalization
   const [agentName, setAgentName] = useState('');
   const [wakeWord, setWakeWord] = useState('');
+  const [language, setLanguage] = useState('en');
 
   // LLM
   const [llmProvider, setLlmProvider] = useState('');
@@ -382,6 +401,7 @@ export default function ProviderSetup() {
   const [googleCloudKeySet, setGoogleCloudKeySet] = useState(false);
   const [googleCloudTestStatus, setGoogleCloudTestStatus] =
     useState<TestStatus>('idle');
+  const [locationBackend, setLocationBackend] = useState('auto');
 
   // UI
   const [useSameProvider, setUseSameProvider] = useState(false);
@@ -399,6 +419,7 @@ export default function ProviderSetup() {
         setCatalog(cat);
         setAgentName(config.agentName || '');
         setWakeWord(config.wakeWord || '');
+        setLanguage(config.language || 'en');
         setLlmProvider(config.llm.provider || '');
         setLlmModel(config.llm.model || '');
         setLlmKeySet(config.llm.isConfigured);
@@ -406,6 +427,7 @@ export default function ProviderSetup() {
         setVisionModel(config.vision.model || '');
         setVisionKeySet(config.vision.isConfigured);
         setGoogleCloudKeySet(config.googleCloud?.isConfigured ?? false);
+        setLocationBackend(config.locationBackend || 'auto');
         if (config.llm.provider === 'custom') {
           setLlmModelInput(config.llm.model || '');
           setLlmCustomBaseUrl(config.llm.customBaseUrl || '');
@@ -506,7 +528,7 @@ export default function ProviderSetup() {
 
     try {
       // 1. Save personalization
-      await updateUserSettings({ agentName, wakeWord });
+      await updateUserSettings({ agentName, wakeWord, language, locationBackend });
 
       // 2. Save LLM config
       const llmIsCustom = llmProvider === 'custom';
@@ -669,8 +691,22 @@ export default function ProviderSetup() {
             className="w-40 text-right"
           />
         </SettingRow>
+        <SettingDivider />
+        <SettingRow label="Language">
+          <SettingSelect
+            value={language}
+            onChange={(value) => value && setLanguage(value)}
+            options={LANGUAGE_OPTIONS}
+          />
+        </SettingRow>
+        <SettingDescription>
+          Your assistant listens and replies in this language. In Spanish, German, and French you can also start with a local greeting ("Oye Jarvis", "Hallo Jarvis", "Salut Jarvis").
+        </SettingDescription>
       </SettingSection>
 
+      {/* Persona + custom instructions */}
+      <PersonaSettings />
+
       {/* LLM Section */}
       <ProviderSection
         label="LLM (Chat)"
@@ -765,6 +801,31 @@ export default function ProviderSetup() {
         />
       )}
 
+      {/* Fallback chains (tried when the primary provider fails) */}
+      <FallbackChain purpose="llm" label="LLM Fallbacks" />
+      <ModelRouting />
+      {visionProvider !== 'none' && (
+        <FallbackChain purpose="vision" label="Vision Fallbacks" />
+      )}
+
+      {/* Location backend (weather, addresses, timezone) */}
+      <SettingSection label="Weather & Location">
+        <SettingRow label="Backend">
+          <SettingSelect
+            value={locationBackend}
+            onChange={(value) => value && setLocationBackend(value)}
+            options={LOCATION_BACKEND_OPTIONS}
+          />
+        </SettingRow>
+        <SettingDescription>
+          Where weather, forecasts, your address, and timezone come from.
+          Automatic uses Google Cloud when you've added a key below. Open data
+          is free and needs no key, but sends your location to Open-Meteo and
+          OpenStreetMap (or the servers your host configured). Nearby places,
+          directions, air quality, and pollen always need Google Cloud.
+        </SettingDescription>
+      </SettingSection>
+
       {/* Google Cloud (Optional) */}
       <SettingSection label="Google Cloud (Optional)">
         <SettingDescription>
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  fetchSavedPlaces,
+  createSavedPlace,
+  deleteSavedPlace,
+  type SavedPlace,
+} from '../api/settings.api';
+import { SettingSection, SettingDivider, SettingDescription } from './settings-ui';
+
+const inputClass =
+  'text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Saved places — "home", "work", "the gym". Lists them with delete, plus an
+ * "add" row that looks up an address. Saving an existing name moves it.
+ */
+export default function SavedPlacesPanel() {
+  const [places, setPlaces] = useState<SavedPlace[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newAddress, setNewAddress] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSavedPlaces()
+      .then(setPlaces)
+      .catch(() => setPlaces([]));
+  }, []);
+
+  const canAdd = !!newName.trim() && !!newAddress.trim();
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    setBusyId('new');
+    setError(null);
+    const result = await createSavedPlace(newName.trim(), newAddress.trim())
+      .catch(() => ({ success: false, error: 'Failed to save place' }) as const);
+    setBusyId(null);
+    if (!result.success || !result.place) {
+      setError(result.error || 'Failed to save place');
+      return;
+    }
+    const place = result.place;
+    const replacedId = 'replacedId' in result ? result.replacedId : undefined;
+    setPlaces((prev) =>
+      [...(prev ?? []).filter((p) => p.id !== replacedId), place].sort((a, b) => a.name.localeCompare(b.name)),
+    );
+    setNewName('');
+    setNewAddress('');
+  };
+
+  const handleDelete = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    const result = await deleteSavedPlace(id)
+      .catch(() => ({ success: false, error: 'Failed to delete place' }) as const);
+    setBusyId(null);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete place');
+      return;
+    }
+    setPlaces((prev) => (prev ?? []).filter((p) => p.id !== id));
+  };
+
+  if (!places) return null;
+
+  return (
+    <SettingSection label="Saved Places">
+      <SettingDescription>
+        Say "save this place as the gym" to save where you are. Saved names work in
+        directions, navigation, weather, and reminders ("directions home").
+      </SettingDescription>
+
+      {places.map((place) => (
+        <React.Fragment key={place.id}>
+          <SettingDivider />
+          <div className="flex items-center gap-2 px-1.5 min-h-12 py-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-base text-secondary-foreground break-words">{place.name}</div>
+              {place.address && (
+                <div className="text-[13px] text-muted-foreground break-words">{place.address}</div>
+              )}
+            </div>
+            <button
+              onClick={() => handleDelete(place.id)}
+              disabled={busyId === place.id}
+              className="shrink-0 p-1 text-red-500 disabled:opacity-30"
+              type="button"
+              aria-label="Delete place"
+            >
+              {busyId === place.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+            </button>
+          </div>
+        </React.Fragment>
+      ))}
+
+      <SettingDivider />
+      <div className="flex items-center gap-2 px-1.5 h-12">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Home"
+          className={`${inputClass} w-24 shrink-0`}
+        />
+        <input
+          value={newAddress}
+          onChange={(e) => setNewAddress(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Address"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={busyId === 'new' || !canAdd}
+          className="shrink-0 p-1 text-secondary-foreground disabled:opacity-30"
+          type="button"
+          aria-label="Add place"
+        >
+          {busyId === 'new' ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+        </button>
+      </div>
+
+      {error && (
+        <>
+          <SettingDivider />
+          <div className="px-1.5 py-2 text-[14px] font-medium text-red-500">{error}</div>
+        </>
+      )}
+    </SettingSection>
+  );
+}
@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, ChevronDown } from 'lucide-react';
+import {
+  fetchUsageSummary,
+  fetchProviderConfig,
+  fetchProviderCatalog,
+  saveBudget,
+  type BudgetConfig,
+  type ModelInfo,
+  type PeriodSpend,
+  type UsageSummary,
+} from '../api/settings.api';
+import { SettingSection, SettingRow, SettingDivider, SettingDescription } from './settings-ui';
+
+const PURPOSE_LABELS: Record<string, string> = {
+  agent: 'Answers',
+  visual_classifier: 'Camera check',
+  exchange_tags: 'Conversation tags',
+  photo_tags: 'Photo tags',
+  photo_analysis: 'Photo analysis',
+  history_index: 'History indexing',
+  history_search: 'History search',
+  translation: 'Translation',
+  notification_digest: 'Notification digests',
+};
+
+function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return '< $0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function PeriodRows({ period }: { period: PeriodSpend }) {
+  if (period.byPurpose.length === 0) {
+    return (
+      <div className="px-1.5 py-2 text-[14px] text-muted-foreground">No usage yet</div>
+    );
+  }
+
+  return (
+    <>
+      {period.byPurpose.map((p, index) => (
+        <React.Fragment key={p.purpose}>
+          {index > 0 && <SettingDivider />}
+          <SettingRow label={PURPOSE_LABELS[p.purpose] ?? p.purpose}>
+            <span className="text-[14px] text-muted-foreground">
+              {formatTokens(p.inputTokens + p.outputTokens)} tokens · {formatCost(p.costUsd)}
+            </span>
+          </SettingRow>
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Monthly budget — warns at 80%, and at 100% answers move to the cheap model
+ * while background features (photo analysis, tagging) pause.
+ */
+function BudgetSection({ initial, monthSpend }: { initial: BudgetConfig; monthSpend: number }) {
+  const [amount, setAmount] = useState(initial.monthlyBudgetUsd?.toString() ?? '');
+  const [cheapModel, setCheapModel] = useState(initial.cheapModel ?? '');
+  const [provider, setProvider] = useState('');
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    Promise.all([fetchProviderConfig(), fetchProviderCatalog()])
+      .then(([config, catalog]) => {
+        setProvider(config.llm.provider);
+        setModels(catalog[config.llm.provider]?.models || []);
+      })
+      .catch(() => {});
+  }, []);
+
+  const budget = parseFloat(amount);
+  const percentUsed = budget > 0 ? Math.round((monthSpend / budget) * 100) : null;
+
+  const handleSave = async () => {
+    if (amount && !(budget > 0)) {
+      setMessage({ type: 'error', text: 'Enter a positive amount' });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    const result = await saveBudget({
+      monthlyBudgetUsd: amount ? budget : null,
+      cheapModel: cheapModel || null,
+    }).catch(() => ({ success: false, error: 'Failed to save budget' }) as const);
+    setSaving(false);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to save budget' });
+      return;
+    }
+    setMessage({ type: 'success', text: 'Budget saved' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <SettingSection label={percentUsed !== null ? `Monthly Budget · ${percentUsed}% used` : 'Monthly Budget'}>
+      <SettingRow label="Budget (USD)">
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="1"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="No limit"
+          className="text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring w-28 text-right"
+        />
+      </SettingRow>
+      <SettingDivider />
+      <SettingRow label="Over budget, use">
+        {provider === 'custom' ? (
+          <input
+            value={cheapModel}
+            onChange={(e) => setCheapModel(e.target.value)}
+            placeholder="Same model"
+            className="text-base bg-input-background text-secondary-foreground rounded-lg px-3 h-8 border-none outline-none focus:ring-2 focus:ring-ring max-w-[55%]"
+          />
+        ) : (
+          <div className="relative flex items-center min-w-0 max-w-[55%]">
+            <select
+              value={cheapModel}
+              onChange={(e) => setCheapModel(e.target.value)}
+              className="appearance-none w-full text-base bg-input-background text-secondary-foreground rounded-lg pl-3 pr-7 h-8 border-none outline-none cursor-pointer focus:ring-2 focus:ring-ring"
+            >
+              <option value="">Same model</option>
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+            <ChevronDown
+              size={14}
+              className="absolute right-2 pointer-events-none text-muted-foreground"
+            />
+          </div>
+        )}
+      </SettingRow>
+      <SettingDivider />
+      <SettingDescription>
+        Your glasses will tell you at 80%. At 100%, answers switch to the model
+        above and photo analysis, tagging, and the camera check pause until next
+        month. Voice commands keep working.
+      </SettingDescription>
+      <SettingDivider />
+      <div className="flex items-center justify-between px-1.5 h-12">
+        {message ? (
+          <span
+            className={`text-[14px] font-medium ${
+              message.type === 'success' ? 'text-green-500' : 'text-red-500'
+            }`}
+          >
+            {message.text}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="shrink-0 text-[14px] font-semibold px-3 py-1.5 rounded-lg border border-border text-muted-foreground transition-all disabled:opacity-40 hover:bg-accent"
+          type="button"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : 'Save Budget'}
+        </button>
+      </div>
+    </SettingSection>
+  );
+}
+
+/**
+ * Estimated LLM spend for today and this month, by purpose.
+ * Users bring their own keys, so this shows what Any AI is costing them.
+ */
+export default function UsagePanel() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    fetchUsageSummary()
+      .then(setUsage)
+      .catch(() => {});
+  }, []);
+
+  if (!usage) return null;
+
+  return (
+    <div className="space-y-1">
+      <SettingSection label={`Today · ${formatCost(usage.today.costUsd)}`}>
+        <PeriodRows period={usage.today} />
+      </SettingSection>
+      <SettingSection label={`This Month · ${formatCost(usage.month.costUsd)}`}>
+        <PeriodRows period={usage.month} />
+      </SettingSection>
+      <SettingDescription>
+        Estimates from list prices (UTC days and months) — check your provider's
+        dashboard for exact billing.
+        {usage.month.hasUnpricedUsage && ' Custom/local models are counted in tokens only.'}
+      </SettingDescription>
+      <BudgetSection initial={usage.budget} monthSpend={usage.month.costUsd} />
+    </div>
+  );
+}
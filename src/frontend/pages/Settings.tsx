@@ -1,6 +1,16 @@
 import React, { useRef } from 'react';
 import { motion } from 'framer-motion';
 import ProviderSetup from '../components/ProviderSetup';
+import UsagePanel from '../components/UsagePanel';
+import MemoriesPanel from '../components/MemoriesPanel';
+import SavedPlacesPanel from '../components/SavedPlacesPanel';
+import EnvironmentAlertsPanel from '../components/EnvironmentAlertsPanel';
+import MeetingRemindersPanel from '../components/MeetingRemindersPanel';
+import NotificationRulesPanel from '../components/NotificationRulesPanel';
+import NotificationDigestPanel from '../components/NotificationDigestPanel';
+import FocusModePanel from '../components/FocusModePanel';
+import NotificationArchivePanel from '../components/NotificationArchivePanel';
+import AssistantsPanel from '../components/AssistantsPanel';
 
 interface SettingsProps {
   isDarkMode: boolean;
@@ -73,6 +83,49 @@ function Settings({
         {/* AI Provider Setup + Claude Bridge */}
         <ProviderSetup />
 
+        {/* Named assistants (own wake word, model, and persona) */}
+        <div className="border-t border-border my-2" />
+        <AssistantsPanel />
+
+        {/* Estimated LLM spend */}
+        <div className="border-t border-border my-2" />
+        <h3 className="text-[18px] font-bold px-1 mb-1.5 text-secondary-foreground">
+          Usage & Spend
+        </h3>
+        <UsagePanel />
+
+        {/* Long-term memories */}
+        <div className="border-t border-border my-2" />
+        <MemoriesPanel />
+
+        {/* Saved places */}
+        <div className="border-t border-border my-2" />
+        <SavedPlacesPanel />
+
+        {/* Air quality, pollen, and storm alerts */}
+        <div className="border-t border-border my-2" />
+        <EnvironmentAlertsPanel />
+
+        {/* Reminders before calendar events */}
+        <div className="border-t border-border my-2" />
+        <MeetingRemindersPanel />
+
+        {/* Notification triage rules */}
+        <div className="border-t border-border my-2" />
+        <NotificationRulesPanel />
+
+        {/* Scheduled notification digests */}
+        <div className="border-t border-border my-2" />
+        <NotificationDigestPanel />
+
+        {/* Do Not Disturb / focus mode */}
+        <div className="border-t border-border my-2" />
+        <FocusModePanel />
+
+        {/* Notification archive (history past the recent list) */}
+        <div className="border-t border-border my-2" />
+        <NotificationArchivePanel />
+
         {/* Version Info */}
         <div className="pt-8 text-center">
           <p className="text-[13px] text-gray-500">Any AI v0.8.0</p>
@@ -7,6 +7,8 @@
 
 import { AppServer, AppSession } from "@mentra/sdk";
 import { sessions } from "./manager/SessionManager";
+import { reminderScheduler } from "./manager/ReminderScheduler";
+import { notificationArchiveSweep } from "./manager/NotificationArchiveManager";
 import { broadcastChatEvent } from "./api/chat";
 import type { User } from "./session/User";
 export interface MentraAIConfig {
@@ -43,8 +45,8 @@ export class MentraAI extends AppServer {
       existingUser.setAppSession(session);
 
       // Re-attach event listeners
-      existingUser.transcription.setOnQueryReady(async (query, speakerId, prePhoto, isVisual) => {
-        return existingUser.queryProcessor.processQuery(query, speakerId, prePhoto, isVisual);
+      existingUser.transcription.setOnQueryReady(async (query, speakerId, prePhoto, isVisual, onOutputStart, assistantId) => {
+        return existingUser.queryProcessor.processQuery(query, speakerId, prePhoto, isVisual, onOutputStart, assistantId);
       });
 
       existingUser.transcription.setOnDeviceCommand(async (command) => {
@@ -107,8 +109,8 @@ export class MentraAI extends AppServer {
     user.setAppSession(session);
 
     // Set up transcription callback for query processing
-    user.transcription.setOnQueryReady(async (query, speakerId, prePhoto, isVisual) => {
-      return user.queryProcessor.processQuery(query, speakerId, prePhoto, isVisual);
+    user.transcription.setOnQueryReady(async (query, speakerId, prePhoto, isVisual, onOutputStart, assistantId) => {
+      return user.queryProcessor.processQuery(query, speakerId, prePhoto, isVisual, onOutputStart, assistantId);
     });
 
     // Set up device command callback (e.g. "take a photo" → camera roll)
@@ -252,5 +254,11 @@ export async function createMentraAIServer(config: MentraAIConfig): Promise<Ment
   // For now, just create the server
   const server = new MentraAI(config);
 
+  // Pending timers and reminders from before a restart
+  await reminderScheduler.start();
+
+  // Archived notifications past each user's retention period
+  notificationArchiveSweep.start();
+
   return server;
 }
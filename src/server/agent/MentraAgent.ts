@@ -1,35 +1,44 @@
 /**
  * Any AI Agent — Main AI agent using Vercel AI SDK
  *
- * Uses AI SDK generateText() with multi-provider model resolution.
+ * Uses AI SDK streamText() with multi-provider model resolution.
  * Accepts UserAIConfig for per-user provider/model selection.
+ * Text deltas are surfaced via onTextDelta so callers can start TTS
+ * before the full response is generated.
+ * The model is routed per query: response mode picks the first step's model,
+ * and steps after a tool call switch to the user's "tools" model.
  */
 
-import { generateText, stepCountIs } from "ai";
-import type { LanguageModel } from "ai";
-import { calculatorTool, thinkingTool, createPlacesTool, createDirectionsTool, resolveSearchTools } from "./tools";
+import { streamText, stepCountIs } from "ai";
+import { calculatorTool, thinkingTool, createPlaceTools, createDirectionsTool, createMemoryTools, createHistorySearchTool, createReminderTools, createNavigationTools, createSavedPlaceTools, createForecastTool, createNotificationRuleTools, createFocusTools, createNotificationArchiveTool, resolveSearchTools } from "./tools";
 import { buildSystemPrompt, classifyResponseMode, type AgentContext } from "./prompt";
+import { buildConversationMessages } from "./message-builder";
 import { ResponseMode, AGENT_SETTINGS } from "../constants/config";
-import { resolveLLMModel } from "./providers/registry";
-import type { UserAIConfig } from "./providers/types";
+import { resolveLLMChain, resolveLLMModel, routeModelId, isFallbackError, type ChainModel } from "./providers/registry";
+import type { UserAIConfig, ModelTask } from "./providers/types";
 import { DEFAULT_AI_CONFIG, getModelDisplayName } from "./providers/types";
+import type { ToolGroup } from "./assistants";
+import { LANGUAGES } from "../constants/languages";
 import type { LocationContext } from "../manager/LocationManager";
 import type { ConversationTurn, ExchangeGroup } from "../manager/ChatHistoryManager";
 import type { RecentPhoto } from "../manager/photo-analysis";
+import type { ModelUsage } from "../manager/usage-tracking";
+import type { MemoryManager } from "../manager/MemoryManager";
+import type { ReminderManager } from "../manager/ReminderManager";
+import type { NavigationManager } from "../manager/NavigationManager";
+import type { SavedPlacesManager } from "../manager/SavedPlacesManager";
+import type { LocationManager } from "../manager/LocationManager";
+import type { PlaceResultsManager } from "../manager/PlaceResultsManager";
+import type { NotificationRulesManager } from "../manager/NotificationRulesManager";
+import type { FocusManager } from "../manager/FocusManager";
+import type { NotificationArchiveManager } from "../manager/NotificationArchiveManager";
+import { resolveLocationBackend } from "../manager/location-providers";
+import type { HistorySearchManager } from "../manager/HistorySearchManager";
 
 // Re-export for consumers
 export type { UserAIConfig } from "./providers/types";
 export { DEFAULT_AI_CONFIG } from "./providers/types";
 
-/**
- * Content part for multimodal messages
- */
-export interface ContentPart {
-  type: "text" | "image";
-  text?: string;
-  image?: Buffer;
-}
-
 /**
  * Agent generation options
  */
@@ -49,10 +58,42 @@ export interface GenerateOptions {
     calendar: string;
     conversationHistory: ConversationTurn[];
     exchangeGroups?: ExchangeGroup[];
+    /** Earlier turns of the current exchange — sent as real user/assistant messages */
+    exchangeTurns?: ConversationTurn[];
     recentPhotos?: RecentPhoto[];
+    /** Saved long-term facts most relevant to this query */
+    memories?: string[];
+    /** The user's saved places ("home — 12 Main St") */
+    savedPlaces?: string[];
   };
   aiConfig?: UserAIConfig;
+  /** The user's long-term memory — enables the remember/recall/forget tools */
+  memory?: MemoryManager;
+  /** Embeddings index over older history — enables search_history when the user's provider can embed */
+  historySearch?: HistorySearchManager;
+  /** The user's timers and reminders — enables the set/list/cancel reminder tools */
+  reminders?: ReminderManager;
+  /** The user's navigation session — enables start/stop navigation (with the places tools) */
+  navigation?: NavigationManager;
+  /** The user's saved places — enables save/forget place and weather at a place; resolves names in directions */
+  savedPlaces?: SavedPlacesManager;
+  /** The user's location — enables the weather forecast tool */
+  locationManager?: LocationManager;
+  /** The session's last place search — enables nearby_places and place_details follow-ups */
+  placeResults?: PlaceResultsManager;
+  /** The user's notification triage rules — enables add/list/remove notification rule */
+  notificationRules?: NotificationRulesManager;
+  /** The user's focus mode — enables start/stop Do Not Disturb */
+  focus?: FocusManager;
+  /** The user's notification archive — enables search_notification_history */
+  notificationArchive?: NotificationArchiveManager;
+  /** Tool groups a named assistant enabled — undefined means all tools */
+  toolGroups?: ToolGroup[];
   onToolCall?: (toolName: string) => void;
+  /** Called with each text delta as it streams in */
+  onTextDelta?: (delta: string) => void;
+  /** Aborts the stream (e.g. when the user interrupts TTS) */
+  abortSignal?: AbortSignal;
 }
 
 /**
@@ -61,6 +102,12 @@ export interface GenerateOptions {
 export interface GenerateResult {
   response: string;
   toolCalls: number;
+  /** True if the stream was aborted before finishing — response is partial */
+  aborted?: boolean;
+  /** True if the model call failed — response is an error message for the user, not an answer */
+  failed?: boolean;
+  /** Token usage per model that worked on this turn (routing can use more than one) */
+  usage?: ModelUsage[];
 }
 
 /**
@@ -87,7 +134,8 @@ function resolveConfig(aiConfig?: UserAIConfig): UserAIConfig | null {
 }
 
 /**
- * Generate a response using AI SDK generateText()
+ * Generate a response using AI SDK streamText().
+ * Resolves with the full text once the stream ends (or the partial text if aborted).
  */
 export async function generateResponse(options: GenerateOptions): Promise<GenerateResult> {
   const { query, photos, context, aiConfig } = options;
@@ -120,14 +168,22 @@ export async function generateResponse(options: GenerateOptions): Promise<Genera
     conversationHistory: context.conversationHistory,
     exchangeGroups: context.exchangeGroups,
     recentPhotos: context.recentPhotos,
+    memories: context.memories,
+    savedPlaces: context.savedPlaces,
     aiConfig: config,
     googleCloudConfigured: !!config.googleCloudApiKey,
+    openLocationServices: resolveLocationBackend(config.locationBackend, !!config.googleCloudApiKey) === "open",
   };
 
-  // Resolve AI SDK model via ProviderRegistry
-  let model: LanguageModel;
+  // Resolve AI SDK models via ProviderRegistry (routed primary + fallback chain)
+  const task: ModelTask = responseMode;
+  let chain: ChainModel[];
+  let toolsModel: ChainModel["model"] | null = null;
   try {
-    model = resolveLLMModel(config);
+    chain = resolveLLMChain(config, task);
+    if (routeModelId(config, "tools") !== chain[0].modelId) {
+      toolsModel = resolveLLMModel(config, "tools");
+    }
   } catch (error) {
     console.error("Failed to resolve LLM model:", error);
     return {
@@ -136,81 +192,118 @@ export async function generateResponse(options: GenerateOptions): Promise<Genera
     };
   }
 
-  // Build content array
-  const content: ContentPart[] = [
-    { type: "text", text: query },
-  ];
-
-  // Add photos (current + previous)
-  if (photos && photos.length > 0) {
-    for (const photoBuffer of photos) {
-      content.push({
-        type: "image",
-        image: photoBuffer,
-      });
-    }
-  }
+  // Current exchange as alternating user/assistant messages, then the query (with photos)
+  const messages = buildConversationMessages(query, photos, context.exchangeTurns);
+  const system = buildSystemPrompt(agentContext);
 
   console.log(`🤖 Generating response for: "${query.slice(0, 50)}${query.length > 50 ? '...' : ''}"`);
-  console.log(`   Mode: ${responseMode}, Photos: ${photos?.length || 0}, hasPhotos: ${context.hasPhotos}, History: ${context.conversationHistory.length}`);
-  console.log(`   Provider: ${config.llmProvider}, Model: ${config.llmModel}`);
+  console.log(`   Mode: ${responseMode}, Photos: ${photos?.length || 0}, hasPhotos: ${context.hasPhotos}, History: ${context.conversationHistory.length}, Exchange turns: ${context.exchangeTurns?.length ?? 0}`);
+  console.log(`   Provider: ${config.llmProvider}, Model: ${chain[0].modelId}${toolsModel ? ` (tools: ${routeModelId(config, "tools")})` : ''}${chain.length > 1 ? `, Fallbacks: ${chain.length - 1}` : ''}`);
 
   let toolCallCount = 0;
+  // Tools that finished running (including ones that failed) — their side effects can't be undone
+  let toolsRun = 0;
+  let response = '';
+  let candidate = chain[0];
+  const usage = new Map<string, ModelUsage>();
 
   try {
-    const result = await generateText({
-      model,
-      system: buildSystemPrompt(agentContext),
-      messages: [
-        {
-          role: "user",
-          content: content as any,
-        },
-      ],
-      tools: {
-        // Provider-native web search (falls back to Jina for unsupported models)
-        ...resolveSearchTools({
-          provider: config.llmProvider,
-          modelId: config.llmModel,
-          apiKey: config.llmApiKey,
-          location: context.location ? {
-            city: context.location.city,
-            region: context.location.state,
-            country: context.location.country,
-          } : undefined,
-        }),
-        calculator: calculatorTool,
-        thinking: thinkingTool,
-        // Location-aware tools — only available when GPS is active AND Google Cloud key is configured
-        ...(context.location && config.googleCloudApiKey ? {
-          nearby_places: createPlacesTool(context.location.lat, context.location.lng, config.googleCloudApiKey),
-          directions: createDirectionsTool(context.location.lat, context.location.lng, config.googleCloudApiKey),
-        } : {}),
-      },
-      stopWhen: stepCountIs(AGENT_SETTINGS.maxSteps),
-      onStepFinish: ({ toolCalls }) => {
-        if (toolCalls && toolCalls.length > 0) {
-          toolCallCount += toolCalls.length;
-          console.log(`   Tool calls this step: ${toolCalls.length}`);
-          if (options.onToolCall) {
-            for (const tc of toolCalls) {
-              if (tc) options.onToolCall(tc.toolName);
+    for (let i = 0; i < chain.length; i++) {
+      candidate = chain[i];
+      // When a fallback answers, say so before its first words
+      let note = i > 0 ? `${chain[0].label} isn't available right now, so ${candidate.label} is answering. ` : '';
+      let usingToolsModel = false;
+
+      try {
+        const result = streamText({
+          model: candidate.model,
+          system,
+          messages,
+          tools: buildTools(candidate, config, context, options),
+          stopWhen: stepCountIs(AGENT_SETTINGS.maxSteps),
+          abortSignal: options.abortSignal,
+          // Once the primary has called a tool, finish the query on the "tools" model
+          prepareStep: ({ steps }) => {
+            if (i === 0 && toolsModel && steps.some(step => step.toolCalls.length > 0)) {
+              usingToolsModel = true;
+              return { model: toolsModel };
+            }
+            return {};
+          },
+          onStepFinish: ({ toolCalls, usage: stepUsage }) => {
+            const modelId = usingToolsModel ? routeModelId(config, "tools") : candidate.modelId;
+            const key = `${candidate.provider}:${modelId}`;
+            const entry = usage.get(key) ?? { provider: candidate.provider, model: modelId, inputTokens: 0, outputTokens: 0 };
+            entry.inputTokens += stepUsage.inputTokens ?? 0;
+            entry.outputTokens += stepUsage.outputTokens ?? 0;
+            usage.set(key, entry);
+
+            if (toolCalls && toolCalls.length > 0) {
+              toolCallCount += toolCalls.length;
+              console.log(`   Tool calls this step: ${toolCalls.length}`);
+              if (options.onToolCall) {
+                for (const tc of toolCalls) {
+                  if (tc) options.onToolCall(tc.toolName);
+                }
+              }
+            }
+          },
+        });
+
+        let newStep = false;
+        for await (const part of result.fullStream) {
+          if (part.type === "start-step") {
+            newStep = response.length > 0;
+          } else if (part.type === "text-delta") {
+            // Separate text from consecutive steps (e.g. a preamble before a tool call)
+            let delta = newStep && !/\s$/.test(response) ? ` ${part.text}` : part.text;
+            newStep = false;
+            if (note) {
+              delta = note + delta;
+              note = '';
             }
+            response += delta;
+            options.onTextDelta?.(delta);
+          } else if (part.type === "tool-result" || part.type === "tool-error") {
+            toolsRun++;
+          } else if (part.type === "error") {
+            throw part.error;
+          } else if (part.type === "abort") {
+            break;
           }
         }
-      },
-    });
+        break;
+      } catch (error) {
+        // Only fall back if nothing has been spoken or done yet — a half-answer can't be
+        // retried, and retrying after a tool ran would set the reminder (or save the memory) twice
+        const next = chain[i + 1];
+        if (options.abortSignal?.aborted || !next || response.length > 0 || toolsRun > 0 || !isFallbackError(error)) {
+          throw error;
+        }
+        console.warn(`⚠️ ${candidate.label} (${candidate.modelId}) failed — falling back to ${next.label} (${next.modelId}):`, error);
+      }
+    }
 
-    const response = typeof result.text === 'string' ? result.text : String(result.text || '');
+    if (options.abortSignal?.aborted) {
+      console.log(`🔇 Response stream aborted after ${response.length} chars`);
+      return { response, toolCalls: toolCallCount, aborted: true, usage: [...usage.values()] };
+    }
 
-    console.log(`✅ Response generated (${response.length} chars, ${toolCallCount} tool calls)`);
+    console.log(`✅ Response generated by ${candidate.label} (${response.length} chars, ${toolCallCount} tool calls)`);
 
     return {
       response,
       toolCalls: toolCallCount,
+      usage: [...usage.values()],
     };
 
   } catch (error) {
+    // Interrupted by the user — not an error, return what was generated so far
+    if (options.abortSignal?.aborted) {
+      console.log(`🔇 Response stream aborted after ${response.length} chars`);
+      return { response, toolCalls: toolCallCount, aborted: true, usage: [...usage.values()] };
+    }
+
     console.error("❌ Agent generation error:", error);
 
     // Detect Google Cloud / provider quota/billing errors and give actionable feedback
@@ -223,20 +316,22 @@ export async function generateResponse(options: GenerateOptions): Promise<Genera
       errLower.includes("rate limit") ||
       errLower.includes("429")
     ) {
-      const provider = config.llmProvider === "google" ? "Google Gemini" : config.llmProvider;
+      const provider = candidate.provider === "google" ? "Google Gemini" : candidate.label;
       return {
         response: `Your ${provider} API has reached its usage limit. Please check your billing or quota settings, or try switching to a different provider in Settings.`,
         toolCalls: toolCallCount,
+        failed: true,
       };
     }
     if (
       errLower.includes("billing") ||
       errLower.includes("payment")
     ) {
-      const provider = config.llmProvider === "google" ? "Google Gemini" : config.llmProvider;
+      const provider = candidate.provider === "google" ? "Google Gemini" : candidate.label;
       return {
         response: `Your ${provider} API requires billing to be enabled. Please check your account billing settings.`,
         toolCalls: toolCallCount,
+        failed: true,
       };
     }
     if (
@@ -248,6 +343,7 @@ export async function generateResponse(options: GenerateOptions): Promise<Genera
       return {
         response: "Your AI provider API key appears to be invalid. Please check your API key in Settings.",
         toolCalls: toolCallCount,
+        failed: true,
       };
     }
 
@@ -255,6 +351,72 @@ export async function generateResponse(options: GenerateOptions): Promise<Genera
   }
 }
 
+/**
+ * Build the tool set for one model in the chain — provider-native search
+ * depends on which provider/model is answering.
+ */
+function buildTools(
+  candidate: ChainModel,
+  config: UserAIConfig,
+  context: GenerateOptions["context"],
+  { memory, historySearch, reminders, navigation, savedPlaces, locationManager, placeResults, notificationRules, focus, notificationArchive, toolGroups }: Pick<
+    GenerateOptions,
+    "memory" | "historySearch" | "reminders" | "navigation" | "savedPlaces" | "locationManager" | "placeResults" | "notificationRules" | "focus" | "notificationArchive" | "toolGroups"
+  >,
+) {
+  const enabled = (group: ToolGroup) => !toolGroups || toolGroups.includes(group);
+  const locale = LANGUAGES[config.language ?? "en"].locale;
+  // Weather works with either location backend (Google or keyless open data)
+  const hasWeather = resolveLocationBackend(config.locationBackend, !!config.googleCloudApiKey) !== null;
+
+  return {
+    // Provider-native web search (falls back to Jina for unsupported models)
+    ...(enabled("web_search") ? resolveSearchTools({
+      provider: candidate.provider,
+      modelId: candidate.modelId,
+      apiKey: candidate.apiKey,
+      location: context.location ? {
+        city: context.location.city,
+        region: context.location.state,
+        country: context.location.country,
+      } : undefined,
+    }) : {}),
+    calculator: calculatorTool,
+    thinking: thinkingTool,
+    // Location-aware tools — only available when GPS is active AND Google Cloud key is configured
+    ...(enabled("places") && context.location && config.googleCloudApiKey && placeResults
+      ? createPlaceTools(placeResults, context.location.lat, context.location.lng)
+      : {}),
+    ...(enabled("places") && context.location && config.googleCloudApiKey ? {
+      directions: createDirectionsTool(context.location.lat, context.location.lng, config.googleCloudApiKey, locale, savedPlaces?.getAll()),
+    } : {}),
+    // Turn-by-turn navigation follows live GPS, so it doesn't need the location context
+    ...(enabled("places") && navigation && config.googleCloudApiKey ? createNavigationTools(navigation) : {}),
+    // Hourly/daily forecast — fetched on demand rather than put in the prompt
+    ...(enabled("places") && locationManager && hasWeather ? {
+      weather_forecast: createForecastTool(locationManager, savedPlaces?.getAll()),
+    } : {}),
+    // Saved places — save_place, forget_place, weather_at_place
+    ...(enabled("places") && savedPlaces ? createSavedPlaceTools(savedPlaces, hasWeather) : {}),
+    // Long-term memory — remember_fact, recall_facts, forget_fact
+    ...(enabled("memory") && memory ? createMemoryTools(memory) : {}),
+    // Semantic search over history older than the prompt window
+    ...(enabled("history") && historySearch?.isAvailable() ? {
+      search_history: createHistorySearchTool(historySearch, context.timezone),
+    } : {}),
+    // Timers, alarms, and reminders — set_timer, set_reminder, list_reminders, cancel_reminder
+    ...(enabled("reminders") && reminders ? createReminderTools(reminders, context.timezone) : {}),
+    // Notification triage — add_notification_rule, list_notification_rules, remove_notification_rule
+    ...(enabled("notifications") && notificationRules ? createNotificationRuleTools(notificationRules) : {}),
+    // Do Not Disturb — start_do_not_disturb, stop_do_not_disturb
+    ...(enabled("notifications") && focus ? createFocusTools(focus, context.timezone) : {}),
+    // Notification history — search_notification_history (opt-in archive)
+    ...(enabled("notifications") && notificationArchive
+      ? { search_notification_history: createNotificationArchiveTool(notificationArchive, context.timezone) }
+      : {}),
+  };
+}
+
 /**
  * Quick helper to get response mode from query
  */
@@ -0,0 +1,128 @@
+/**
+ * Assistants — named personas picked by wake word
+ *
+ * "Hey Chef" and "Hey Coder" can each answer with their own model, persona,
+ * custom instructions, and tool set. An assistant reuses an API key the user
+ * already saved for its provider (primary, vision, or a fallback) — without
+ * one it answers on the user's own model but keeps its persona and tools.
+ */
+
+import type { PersonaId } from "./personas";
+import { getModelDisplayName, type Provider, type UserAIConfig } from "./providers/types";
+
+/** Tool groups an assistant can turn off (calculator and thinking are always on) */
+export type ToolGroup = "web_search" | "places" | "memory" | "history" | "reminders" | "notifications";
+
+export const TOOL_GROUPS: Record<ToolGroup, string> = {
+  web_search: "Web search",
+  places: "Places, navigation & weather",
+  memory: "Long-term memory",
+  history: "History search",
+  reminders: "Timers & reminders",
+  notifications: "Notification rules, history & Do Not Disturb",
+};
+
+export const TOOL_GROUP_IDS = Object.keys(TOOL_GROUPS) as ToolGroup[];
+
+/** Most assistants a user can create */
+export const MAX_ASSISTANTS = 5;
+
+export interface Assistant {
+  id: string;
+  name: string;
+  wakeWord: string;
+  llmProvider: Provider;
+  llmModel: string;
+  persona: PersonaId;
+  customInstructions?: string;
+  /** Enabled tool groups — undefined means all tools */
+  tools?: ToolGroup[];
+}
+
+/** API key (and server, for custom providers) saved for a provider */
+export interface ProviderCredentials {
+  apiKey: string;
+  baseUrl?: string;
+  providerName?: string;
+}
+/** Wake words compare case-insensitively, ignoring surrounding spaces */
+/** Wake words compare case- and whitespace-insensitively */
+export function normalizeWakeWord(wakeWord: string): string {
+  return wakeWord.toLowerCase().trim();
+}
+
+/**
+ * Wake words to listen for: every assistant's plus the user's own, longest
+ * first so "Hey Chef Pro" isn't cut short by "Hey Chef".
+ */
+export function listWakeWords(assistants: Assistant[], defaultWakeWord?: string): string[] {
+  const words = assistants.map(a => a.wakeWord);
+  if (defaultWakeWord) words.push(defaultWakeWord);
+  return words.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * The assistant a detected wake word belongs to (undefined = the default assistant).
+ */
+export function matchAssistant(assistants: Assistant[], wakeWordUsed: string | undefined): Assistant | undefined {
+  if (!wakeWordUsed) return undefined;
+  const used = normalizeWakeWord(wakeWordUsed);
+  return assistants.find(a => normalizeWakeWord(a.wakeWord) === used);
+}
+
+/**
+ * Find a key the user already saved for a provider — the primary LLM,
+ * the vision provider, or any fallback. Null if there is none.
+ */
+export function findCredentials(config: UserAIConfig, provider: Provider): ProviderCredentials | null {
+  // Custom (local) servers may not need a key
+  const usable = (saved: Provider, apiKey: string) => saved === provider && (!!apiKey || provider === "custom");
+
+  if (usable(config.llmProvider, config.llmApiKey)) {
+    return { apiKey: config.llmApiKey, baseUrl: config.llmCustomBaseUrl, providerName: config.llmCustomProviderName };
+  }
+  if (usable(config.visionProvider, config.visionApiKey)) {
+    return { apiKey: config.visionApiKey, baseUrl: config.visionCustomBaseUrl, providerName: config.visionCustomProviderName };
+  }
+  const fallback = [...(config.llmFallbacks ?? []), ...(config.visionFallbacks ?? [])]
+    .find(f => usable(f.provider, f.apiKey));
+  if (fallback) {
+    return { apiKey: fallback.apiKey, baseUrl: fallback.customBaseUrl, providerName: fallback.customProviderName };
+  }
+  return null;
+}
+
+/**
+ * The AI config an assistant answers with: its name, persona, and custom
+ * instructions over the user's config, plus its own model when useModel is
+ * set and a key for its provider is on file. Per-task routing is dropped —
+ * the assistant's model answers every query.
+ */
+export function applyAssistant(config: UserAIConfig, assistant: Assistant, useModel = true): UserAIConfig {
+  const persona = {
+    ...config,
+    agentName: assistant.name,
+    persona: assistant.persona,
+    customInstructions: assistant.customInstructions,
+  };
+  if (!useModel) return persona;
+
+  const credentials = findCredentials(config, assistant.llmProvider);
+  if (!credentials || (assistant.llmProvider === "custom" && !credentials.baseUrl)) {
+    console.warn(`⚠️ No ${assistant.llmProvider} key on file for assistant "${assistant.name}" — using ${config.llmModel}`);
+    return persona;
+  }
+
+  return {
+    ...persona,
+    llmProvider: assistant.llmProvider,
+    llmModel: assistant.llmModel,
+    llmModelName: assistant.llmProvider === "custom"
+      ? credentials.providerName ?? assistant.llmModel
+      : getModelDisplayName(assistant.llmProvider, assistant.llmModel),
+    llmApiKey: credentials.apiKey,
+    llmCustomBaseUrl: credentials.baseUrl,
+    llmCustomProviderName: credentials.providerName,
+    modelRouting: undefined,
+  };
+}
@@ -9,16 +9,24 @@
  *
  * Intentionally broad — false positives are low-risk since 2 consecutive
  * hits are required before triggering auto-close.
+ *
+ * Checks the response language's pattern pack (the agent answers in the user's language).
  */
 
-const COMPREHENSION_FAILURE_PATTERN =
-  /(?:could\s+you\s+(?:repeat|say)\s+that|can\s+you\s+(?:repeat|say)\s+that|(?:i\s+)?didn'?t\s+(?:catch|understand|hear|get)\s+that|(?:i\s+)?couldn'?t\s+(?:catch|understand|hear|make\s+out)\s+(?:that|what\s+you\s+said)|(?:i'?m\s+)?(?:having\s+trouble|unable\s+to)\s+understand|(?:i'?m\s+)?not\s+sure\s+what\s+you\s+said|(?:can|could)\s+you\s+(?:please\s+)?(?:say|repeat)\s+(?:that|it)\s+again|sorry,?\s+(?:i\s+)?(?:didn'?t|couldn'?t)\s+(?:catch|understand|hear)|what\s+(?:was|did)\s+(?:that|you\s+say)|(?:please|could\s+you)\s+(?:try\s+)?(?:again|rephrase)|i\s+(?:missed|lost)\s+(?:that|what\s+you\s+said))/i;
+import type { Language } from "../constants/languages";
+
+const COMPREHENSION_FAILURE_PATTERNS: Record<Language, RegExp> = {
+  en: /(?:could\s+you\s+(?:repeat|say)\s+that|can\s+you\s+(?:repeat|say)\s+that|(?:i\s+)?didn'?t\s+(?:catch|understand|hear|get)\s+that|(?:i\s+)?couldn'?t\s+(?:catch|understand|hear|make\s+out)\s+(?:that|what\s+you\s+said)|(?:i'?m\s+)?(?:having\s+trouble|unable\s+to)\s+understand|(?:i'?m\s+)?not\s+sure\s+what\s+you\s+said|(?:can|could)\s+you\s+(?:please\s+)?(?:say|repeat)\s+(?:that|it)\s+again|sorry,?\s+(?:i\s+)?(?:didn'?t|couldn'?t)\s+(?:catch|understand|hear)|what\s+(?:was|did)\s+(?:that|you\s+say)|(?:please|could\s+you)\s+(?:try\s+)?(?:again|rephrase)|i\s+(?:missed|lost)\s+(?:that|what\s+you\s+said))/i,
+  es: /(?:no\s+(?:te\s+)?(?:he\s+)?(?:entend[ií]|o[ií]|escuch[eé]|capt[eé])|no\s+logr[eé]\s+(?:entender|escuchar)|(?:puedes|podr[ií]as|me\s+lo\s+puedes)\s+(?:repetir|decir\s+(?:eso\s+)?(?:otra\s+vez|de\s+nuevo))|rep[ií]te(?:lo|melo)|no\s+estoy\s+segur[oa]\s+de\s+(?:lo\s+que|qu[eé])\s+dijiste|(?:tengo|tuve)\s+problemas\s+para\s+entender|int[eé]ntalo\s+de\s+nuevo)/i,
+  de: /(?:(?:habe|hab)\s+(?:das|dich|es)\s+nicht\s+(?:verstanden|mitbekommen|geh[öo]rt)|nicht\s+verstanden|(?:kannst|k[öo]nntest)\s+du\s+(?:das\s+)?(?:bitte\s+)?(?:wiederholen|noch\s*(?:ein)?mal\s+sagen)|wie\s+bitte|nicht\s+sicher,?\s+was\s+du\s+gesagt|(?:probier|versuch)\s+es\s+(?:bitte\s+)?(?:noch\s*(?:ein)?mal|erneut))/i,
+  fr: /(?:je\s+n'ai\s+pas\s+(?:bien\s+)?(?:compris|entendu|saisi)|pas\s+(?:bien\s+)?compris|(?:peux|pourrais|pouvez|pourriez)-(?:tu|vous)\s+(?:le\s+)?r[ée]p[ée]ter|tu\s+peux\s+r[ée]p[ée]ter|je\s+ne\s+suis\s+pas\s+s[uû]re?\s+de\s+ce\s+que\s+(?:tu\s+as|vous\s+avez)\s+dit|(?:du\s+mal|de\s+la\s+peine)\s+[àa]\s+comprendre|(?:peux|pouvez)-(?:tu|vous)\s+reformuler)/i,
+};
 
 /**
  * Detect whether an AI response indicates a comprehension failure
  * (the agent couldn't understand the user's speech).
  */
-export function isComprehensionFailure(agentResponse: string): boolean {
+export function isComprehensionFailure(agentResponse: string, language: Language = "en"): boolean {
   if (!agentResponse) return false;
-  return COMPREHENSION_FAILURE_PATTERN.test(agentResponse);
+  return COMPREHENSION_FAILURE_PATTERNS[language].test(agentResponse);
 }
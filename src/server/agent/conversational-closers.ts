@@ -9,8 +9,12 @@
  * - Dismissal: "no thanks", "I'm good", "that's all" → silent → IDLE
  *
  * Guard: utterances > 8 words are NOT closers (e.g. "thanks for that, now can you also...")
+ *
+ * One pattern pack per language (see LANGUAGES) — the user's language picks it.
  */
 
+import type { Language } from "../constants/languages";
+
 export type CloserType = "gratitude" | "dismissal";
 
 export interface ConversationalCloser {
@@ -18,17 +22,25 @@ export interface ConversationalCloser {
 }
 
 // Anchored to full utterance (^...$) so "thanks for that, now..." doesn't match
-const GRATITUDE_PATTERN =
-  /^\s*(ok\s+)?(thanks|thank\s+you|thank\s+you\s+so\s+much|thanks\s+a\s+lot|much\s+appreciated|appreciate\s+it)\s*[.!]*\s*$/i;
-
-const DISMISSAL_PATTERN =
-  /^\s*(no\s+thanks?|no[\s,]+stop|i'?m\s+(good|done|finished|all\s+set)|that'?s\s+(all|it)|that'?ll\s+do|nope|nah|all\s+(good|set|done)|never\s*mind|nothing\s+else|no\s+more\s+questions|not\s+right\s+now|we'?re\s+good|good\s*bye|bye|see\s+ya?|later|ok\s+(bye|that'?s\s+it))\s*[.!]*\s*$/i;
+const GRATITUDE_PATTERNS: Record<Language, RegExp> = {
+  en: /^\s*(ok\s+)?(thanks|thank\s+you|thank\s+you\s+so\s+much|thanks\s+a\s+lot|much\s+appreciated|appreciate\s+it)\s*[.!]*\s*$/i,
+  es: /^\s*¡?\s*(ok\s+|vale\s+)?(gracias|muchas\s+gracias|mil\s+gracias|muchísimas\s+gracias|te\s+lo\s+agradezco|se\s+agradece)\s*[.!]*\s*$/i,
+  de: /^\s*(ok(ay)?\s+|gut\s+)?(danke|danke\s+schön|dankeschön|danke\s+sehr|vielen\s+dank|besten\s+dank|herzlichen\s+dank)\s*[.!]*\s*$/i,
+  fr: /^\s*(ok\s+|d'accord\s+)?(merci|merci\s+beaucoup|merci\s+bien|mille\s+mercis|je\s+te\s+remercie|c'est\s+gentil)\s*[.!]*\s*$/i,
+};
+
+const DISMISSAL_PATTERNS: Record<Language, RegExp> = {
+  en: /^\s*(no\s+thanks?|no[\s,]+stop|i'?m\s+(good|done|finished|all\s+set)|that'?s\s+(all|it)|that'?ll\s+do|nope|nah|all\s+(good|set|done)|never\s*mind|nothing\s+else|no\s+more\s+questions|not\s+right\s+now|we'?re\s+good|good\s*bye|bye|see\s+ya?|later|ok\s+(bye|that'?s\s+it))\s*[.!]*\s*$/i,
+  es: /^\s*(no,?\s+gracias|no[\s,]+para|eso\s+es\s+todo|es\s+todo|nada\s+más|nada\s+mas|estoy\s+bien|ya\s+está|ya\s+esta|listo|déjalo|dejalo|olvídalo|olvidalo|no\s+importa|ahora\s+no|adiós|adios|hasta\s+luego|chao|chau|nos\s+vemos|ok\s+(adiós|adios|eso\s+es\s+todo))\s*[.!]*\s*$/i,
+  de: /^\s*(nein,?\s+danke|nein[\s,]+stopp?|das\s+war'?s|das\s+ist\s+alles|das\s+reicht|passt\s+schon|alles\s+gut|schon\s+gut|nichts\s+mehr|vergiss\s+es|egal|nicht\s+jetzt|tschüss|tschüs|tschau|ciao|auf\s+wiedersehen|bis\s+später|bis\s+dann|ok\s+(tschüss|das\s+war'?s))\s*[.!]*\s*$/i,
+  fr: /^\s*(non,?\s+merci|non[\s,]+stop|c'est\s+tout|c'est\s+bon|ça\s+ira|ca\s+ira|rien\s+d'autre|laisse\s+tomber|pas\s+maintenant|au\s+revoir|à\s+plus|a\s+plus|salut|bonne\s+journée|ok\s+(au\s+revoir|c'est\s+tout))\s*[.!]*\s*$/i,
+};
 
 /**
  * Classify a transcribed query as a conversational closer, or null if it
  * should continue through the normal pipeline.
  */
-export function classifyCloser(query: string): ConversationalCloser | null {
+export function classifyCloser(query: string, language: Language = "en"): ConversationalCloser | null {
   const trimmed = query.trim();
   if (!trimmed) return null;
 
@@ -36,8 +48,8 @@ export function classifyCloser(query: string): ConversationalCloser | null {
   if (trimmed.split(/\s+/).length > 8) return null;
 
   // Check dismissal first (contains words like "no thanks" that overlap with gratitude)
-  if (DISMISSAL_PATTERN.test(trimmed)) return { type: "dismissal" };
-  if (GRATITUDE_PATTERN.test(trimmed)) return { type: "gratitude" };
+  if (DISMISSAL_PATTERNS[language].test(trimmed)) return { type: "dismissal" };
+  if (GRATITUDE_PATTERNS[language].test(trimmed)) return { type: "gratitude" };
 
   return null;
 }
@@ -4,42 +4,56 @@
  * Regex-based classification of voice commands that target hardware
  * features (camera, battery, etc.) rather than the AI agent pipeline.
  * Fast and deterministic — no LLM call required.
+ * One pattern pack per language (see LANGUAGES).
  */
 
+import type { Language } from "../constants/languages";
+
 export type DeviceCommand =
   | { type: "take_photo" }
   | { type: "check_battery" }
   | { type: "check_schedule" }
-  | { type: "check_notifications" };
-
-const TAKE_PHOTO_PATTERN =
-  /\b(take|snap|capture|shoot|grab|get)\b.*\b(a\s+)?(photo|picture|snapshot|pic|shot|image)\b/i;
-
-const CHECK_BATTERY_PATTERN =
-  /\b(battery|power|charge|charging)\b.*\b(level|percent|percentage|status|life|left|remaining)?\b/i;
-
-const CHECK_SCHEDULE_PATTERN =
-  /\b(what('s| is|s)|check|show|tell me|read)\b.*\b(my\s+)?(schedule|calendar|appointments|events|agenda)\b/i;
+  | { type: "check_notifications" }
+  | { type: "summarize_notifications" };
 
-const CHECK_NOTIFICATIONS_PATTERN =
-  /\b(what('s| is|s)|check|show|tell me|read|any)\b.*\b(my\s+)?(notifications?|alerts?|messages)\b/i;
+/** Patterns per command, per language — checked in order, first match wins */
+const DEVICE_COMMAND_PATTERNS: Record<Language, { type: DeviceCommand["type"]; pattern: RegExp }[]> = {
+  en: [
+    { type: "take_photo", pattern: /\b(take|snap|capture|shoot|grab|get)\b.*\b(a\s+)?(photo|picture|snapshot|pic|shot|image)\b/i },
+    { type: "check_battery", pattern: /\b(battery|power|charge|charging)\b.*\b(level|percent|percentage|status|life|left|remaining)?\b/i },
+    { type: "check_schedule", pattern: /\b(what('s| is|s)|check|show|tell me|read)\b.*\b(my\s+)?(schedule|calendar|appointments|events|agenda)\b/i },
+    { type: "summarize_notifications", pattern: /\b(summar(y|ise|ize)|digest|sum\s+up|catch\s+me\s+up)\b.*\b(notifications?|alerts?|messages)\b|\b(notification|message)\s+(digest|summary)\b/i },
+    { type: "check_notifications", pattern: /\b(what('s| is|s)|check|show|tell me|read|any)\b.*\b(my\s+)?(notifications?|alerts?|messages)\b/i },
+  ],
+  // Accented letters aren't word characters for \b, so words that may end in one use \s instead
+  es: [
+    { type: "take_photo", pattern: /\b(toma|tomar|saca|sacar|haz|hacer|captura|capturar)\s.*\b(foto|fotograf[ií]a|imagen|instant[aá]nea)/i },
+    { type: "check_battery", pattern: /\b(bater[ií]a|nivel\s+de\s+carga|cu[aá]nta\s+carga)/i },
+    { type: "check_schedule", pattern: /\b(qu[eé]|cu[aá]l(es)?|revisa|muestra|dime|lee|tengo)\s.*\b(agenda|calendario|citas|eventos|horario)\b/i },
+    { type: "summarize_notifications", pattern: /\b(resume|res[uú]meme|resumir|resumen)\b.*\b(notificaci[oó]n(es)?|alertas?|mensajes)/i },
+    { type: "check_notifications", pattern: /\b(qu[eé]|revisa|muestra|dime|lee|hay|tengo)\s.*\b(notificaci[oó]n(es)?|alertas?|mensajes)/i },
+  ],
+  de: [
+    { type: "take_photo", pattern: /\b(mach|mache|nimm|nehme|schie(ß|ss)e?|knipse?)\s.*\b(foto|bild|aufnahme|schnappschuss)|\bfotografiere\b/i },
+    { type: "check_battery", pattern: /\b(akku|batterie|ladestand|akkustand)/i },
+    { type: "check_schedule", pattern: /\b(was|welche|zeig|zeige|lies|habe?\s+ich)\b.*\b(termine?|kalender|zeitplan|tagesplan|agenda)/i },
+    { type: "summarize_notifications", pattern: /\b(fasse?|zusammenfassung)\b.*\b(benachrichtigungen?|nachrichten|mitteilungen)\b|\b(benachrichtigungen?|nachrichten|mitteilungen)\b.*\bzusammen/i },
+    { type: "check_notifications", pattern: /\b(was|welche|zeig|zeige|lies|gibt\s+es|habe?\s+ich|neue)\b.*\b(benachrichtigungen?|nachrichten|mitteilungen)\b/i },
+  ],
+  fr: [
+    { type: "take_photo", pattern: /\b(prends|prendre|fais|faire|capture|capturer)\b.*\b(une\s+)?(photo|image|capture)\b/i },
+    { type: "check_battery", pattern: /\b(batterie|niveau\s+de\s+charge|autonomie)\b/i },
+    { type: "check_schedule", pattern: /\b(qu'est-ce|quels?|quelles?|montre|lis|v[ée]rifie|ai-je|j'ai)\s.*(agenda|calendrier|rendez-vous|emploi\s+du\s+temps|programme|[ée]v[ée]nements)/i },
+    { type: "summarize_notifications", pattern: /\b(r[ée]sume|r[ée]sumer|r[ée]sum[ée])\s.*(notifications?|alertes?|messages)/i },
+    { type: "check_notifications", pattern: /\b(quels?|quelles?|montre|lis|v[ée]rifie|ai-je|j'ai|y\s+a-t-il)\s.*(notifications?|alertes?|messages)/i },
+  ],
+};
 
 /**
  * Classify a transcribed query as a device command, or null if it
  * should continue through the normal AI pipeline.
  */
-export function classifyDeviceCommand(query: string): DeviceCommand | null {
-  if (TAKE_PHOTO_PATTERN.test(query)) {
-    return { type: "take_photo" };
-  }
-  if (CHECK_BATTERY_PATTERN.test(query)) {
-    return { type: "check_battery" };
-  }
-  if (CHECK_SCHEDULE_PATTERN.test(query)) {
-    return { type: "check_schedule" };
-  }
-  if (CHECK_NOTIFICATIONS_PATTERN.test(query)) {
-    return { type: "check_notifications" };
-  }
-  return null;
+export function classifyDeviceCommand(query: string, language: Language = "en"): DeviceCommand | null {
+  const match = DEVICE_COMMAND_PATTERNS[language].find(({ pattern }) => pattern.test(query));
+  return match ? { type: match.type } : null;
 }
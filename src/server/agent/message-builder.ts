@@ -0,0 +1,68 @@
+/**
+ * Message Builder — converts conversation history into AI SDK messages
+ *
+ * The current exchange's earlier turns are sent as real alternating
+ * user/assistant messages (with their photos as image parts), so follow-ups
+ * like "and what about the second one?" resolve against the actual dialogue.
+ * Older exchanges stay as a summary in the system prompt.
+ */
+
+import type { ModelMessage, UserContent } from "ai";
+import type { ConversationTurn } from "../manager/ChatHistoryManager";
+import { CONVERSATION_SETTINGS } from "../constants/config";
+
+/**
+ * Build the message list for a query: earlier turns of the current exchange,
+ * followed by the current query (with any photos captured for it).
+ */
+export function buildConversationMessages(
+  query: string,
+  photos: Buffer[] | undefined,
+  exchangeTurns: ConversationTurn[] = [],
+): ModelMessage[] {
+  const turns = exchangeTurns.slice(-CONVERSATION_SETTINGS.maxExchangeMessageTurns);
+
+  // Only the most recent earlier photos are re-sent — older ones become a text note
+  const photoTurns = new Set(
+    turns.filter(turn => turn.photoDataUrl).slice(-CONVERSATION_SETTINGS.maxExchangeMessagePhotos),
+  );
+
+  const messages: ModelMessage[] = [];
+
+  for (const turn of turns) {
+    const image = photoTurns.has(turn) ? dataUrlToImagePart(turn.photoDataUrl!) : null;
+    if (image) {
+      messages.push({ role: "user", content: [{ type: "text", text: turn.query }, image] });
+    } else {
+      const photoNote = turn.hadPhoto ? " (with photo)" : "";
+      messages.push({ role: "user", content: `${turn.query}${photoNote}` });
+    }
+    messages.push({ role: "assistant", content: turn.response });
+  }
+
+  const content: UserContent = [{ type: "text", text: query }];
+  for (const photo of photos ?? []) {
+    content.push({ type: "image", image: photo });
+  }
+  messages.push({ role: "user", content });
+
+  return messages;
+}
+
+/**
+ * Drop everything belonging to an exchange — used to keep the current exchange
+ * out of the prompt summary once its turns are sent as messages.
+ */
+export function omitExchange<T extends { exchangeId?: string | null }>(items: T[], exchangeId: string | null): T[] {
+  if (!exchangeId) return items;
+  return items.filter(item => item.exchangeId !== exchangeId);
+}
+
+/**
+ * Convert a "data:image/jpeg;base64,..." URL into an AI SDK image part
+ */
+function dataUrlToImagePart(dataUrl: string): { type: "image"; image: Buffer; mediaType: string } | null {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.+)$/);
+  if (!match) return null;
+  return { type: "image", image: Buffer.from(match[2], "base64"), mediaType: match[1] };
+}
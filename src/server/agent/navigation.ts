@@ -0,0 +1,156 @@
+/**
+ * Turn-by-Turn Navigation — route steps, progress along the route, and the
+ * spoken phrases around Google's (already localized) maneuver instructions
+ *
+ * NavigationManager owns the live session.
+ */
+
+import type { Route } from "./tools/directions.tool";
+import type { Language } from "../constants/languages";
+import { NAVIGATION_SETTINGS } from "../constants/config";
+import { decodePolyline, distanceToPathMeters, type LatLng } from "../utils/geo";
+
+export interface NavigationStep {
+  /** e.g. "Turn left onto Main St" (in the user's language) */
+  instruction: string;
+  distanceMeters: number;
+  /** Step geometry — off-route detection measures against this */
+  path: LatLng[];
+  /** Where the step ends and the next maneuver happens */
+  end: LatLng;
+}
+
+export interface RouteProgress {
+  /** The step the user is on */
+  stepIndex: number;
+  /** Distance to the nearest point of the remaining route */
+  offRouteMeters: number;
+}
+
+/** Spoken around the maneuver instructions, per language */
+interface NavigationPhrases {
+  approaching: (distance: string, instruction: string) => string;
+  arrived: (place: string) => string;
+  rerouting: string;
+  stopped: string;
+  /** Metric unit words (English uses feet/miles) */
+  meters: string;
+  kilometers: string;
+}
+
+const PHRASES: Record<Language, NavigationPhrases> = {
+  en: {
+    approaching: (distance, instruction) => `In ${distance}, ${instruction}`,
+    arrived: (place) => `You've arrived at ${place}.`,
+    rerouting: "Rerouting.",
+    stopped: "Navigation stopped.",
+    meters: "meters",
+    kilometers: "kilometers",
+  },
+  es: {
+    approaching: (distance, instruction) => `En ${distance}, ${instruction}`,
+    arrived: (place) => `Has llegado a ${place}.`,
+    rerouting: "Recalculando la ruta.",
+    stopped: "Navegación detenida.",
+    meters: "metros",
+    kilometers: "kilómetros",
+  },
+  de: {
+    approaching: (distance, instruction) => `In ${distance}: ${instruction}`,
+    arrived: (place) => `Sie haben ${place} erreicht.`,
+    rerouting: "Route wird neu berechnet.",
+    stopped: "Navigation beendet.",
+    meters: "Meter",
+    kilometers: "Kilometer",
+  },
+  fr: {
+    approaching: (distance, instruction) => `Dans ${distance}, ${instruction}`,
+    arrived: (place) => `Vous êtes arrivé à ${place}.`,
+    rerouting: "Recalcul de l'itinéraire.",
+    stopped: "Navigation arrêtée.",
+    meters: "mètres",
+    kilometers: "kilomètres",
+  },
+};
+
+/** "Stop navigation", "cancel directions", "end the route" — per language */
+const STOP_PATTERNS: Record<Language, RegExp> = {
+  en: /^(?:please\s+)?(?:stop|end|cancel|quit|exit)\s+(?:the\s+)?(?:navigation|navigating|directions|route)\b/i,
+  es: /^(?:por\s+favor\s+)?(?:det[eé]n|detener|para|parar|termina|terminar|cancela|cancelar)\s+(?:la\s+)?(?:navegaci[oó]n|ruta)/i,
+  de: /^(?:bitte\s+)?(?:stopp|stoppe|stop|beende|beenden|abbrechen|brich)\s+(?:die\s+)?(?:navigation|route)|^(?:navigation|route)\s+(?:beenden|stoppen|abbrechen)/i,
+  fr: /^(?:s'il\s+te\s+pla[iî]t\s+)?(?:arr[eê]te|arr[eê]ter|termine|terminer|annule|annuler)\s+(?:la\s+)?(?:navigation|l'itin[ée]raire|itin[ée]raire)/i,
+};
+
+/**
+ * Whether a query ends turn-by-turn navigation.
+ */
+export function isStopNavigationCommand(query: string, language: Language = "en"): boolean {
+  return STOP_PATTERNS[language].test(query.trim());
+}
+
+/**
+ * Phrases for the user's language.
+ */
+export function navigationPhrases(language: Language = "en"): NavigationPhrases {
+  return PHRASES[language];
+}
+
+/**
+ * Flatten a Routes API route into navigation steps. Steps without geometry
+ * are dropped; steps without an instruction read "Continue".
+ */
+export function buildNavigationSteps(route: Route): NavigationStep[] {
+  const steps: NavigationStep[] = [];
+  for (const leg of route.legs ?? []) {
+    for (const step of leg.steps ?? []) {
+      const end = step.endLocation?.latLng;
+      const encoded = step.polyline?.encodedPolyline;
+      if (!end || !encoded) continue;
+      steps.push({
+        instruction: step.navigationInstruction?.instructions?.replace(/\s*\n\s*/g, ". ") || "Continue",
+        distanceMeters: step.distanceMeters ?? 0,
+        path: decodePolyline(encoded),
+        end: { lat: end.latitude, lng: end.longitude },
+      });
+    }
+  }
+  return steps;
+}
+
+/**
+ * Where the user is along the route. The current step only moves forward,
+ * and only a few steps at a time, so a route that doubles back on itself
+ * can't jump the user ahead. At a step boundary (equal distance) the
+ * earlier step wins until the user is clearly on the next one.
+ */
+export function locateOnRoute(steps: NavigationStep[], fromStep: number, point: LatLng): RouteProgress {
+  let stepIndex = fromStep;
+  let nearest = Infinity;
+  let offRouteMeters = Infinity;
+
+  for (let i = fromStep; i < steps.length; i++) {
+    const distance = distanceToPathMeters(point, steps[i].path);
+    offRouteMeters = Math.min(offRouteMeters, distance);
+    if (i <= fromStep + NAVIGATION_SETTINGS.stepLookahead && distance < nearest) {
+      nearest = distance;
+      stepIndex = i;
+    }
+  }
+
+  return { stepIndex, offRouteMeters };
+}
+
+/**
+ * Spoken distance — feet/miles in English, meters/kilometers otherwise.
+ */
+export function formatDistance(meters: number, language: Language = "en"): string {
+  if (language === "en") {
+    const feet = meters * 3.281;
+    if (feet < 1000) return `${Math.max(10, Math.round(feet / 10) * 10)} feet`;
+    const miles = meters / 1609.34;
+    return `${miles.toFixed(1)} miles`;
+  }
+  const { meters: m, kilometers: km } = PHRASES[language];
+  if (meters < 1000) return `${Math.max(10, Math.round(meters / 10) * 10)} ${m}`;
+  return `${(meters / 1000).toFixed(1)} ${km}`;
+}
@@ -7,10 +7,13 @@
 
 import { ResponseMode, WORD_LIMITS } from "../constants/config";
 import type { LocationContext } from "../manager/LocationManager";
+import { formatTemperature } from "../manager/location-providers/types";
 import type { ConversationTurn, ExchangeGroup } from "../manager/ChatHistoryManager";
 import type { RecentPhoto } from "../manager/photo-analysis";
 import type { UserAIConfig } from "./providers/types";
 import { PROVIDER_DISPLAY_NAMES } from "./providers/types";
+import { PERSONAS, sanitizeCustomInstructions } from "./personas";
+import { LANGUAGES, type Language } from "../constants/languages";
 
 /**
  * Context passed to the prompt builder
@@ -36,24 +39,42 @@ export interface AgentContext {
   conversationHistory: ConversationTurn[];
   exchangeGroups?: ExchangeGroup[];
   recentPhotos?: RecentPhoto[];
+  memories?: string[];       // Saved long-term facts relevant to this query
+  savedPlaces?: string[];    // Named places ("home — 12 Main St")
 
   // User's AI configuration
   aiConfig?: UserAIConfig;
 
   // Whether Google Cloud services are configured (location, weather, places, directions, timezone)
   googleCloudConfigured: boolean;
+
+  // Whether weather, addresses, and timezone come from the keyless open-data backend
+  openLocationServices?: boolean;
 }
 
 /**
  * Build the complete system prompt
  */
 export function buildSystemPrompt(context: AgentContext): string {
-  const sections = [
-    buildIdentitySection(context.aiConfig),
+  const sections = [buildIdentitySection(context.aiConfig)];
+
+  // User's standing instructions — placed before the length/format rules, which take precedence
+  const customInstructions = sanitizeCustomInstructions(context.aiConfig?.customInstructions);
+  if (customInstructions) {
+    sections.push(buildCustomInstructionsSection(customInstructions));
+  }
+
+  // Response language — English needs no instruction
+  const language = context.aiConfig?.language ?? "en";
+  if (language !== "en") {
+    sections.push(buildLanguageSection(language));
+  }
+
+  sections.push(
     buildDeviceCapabilitiesSection(context),
     buildResponseFormatSection(context),
     buildToolUsageSection(),
-  ];
+  );
 
   // Vision section — depends on camera AND whether photo was actually captured
   if (context.hasCamera && context.hasPhotos) {
@@ -84,7 +105,7 @@ export function buildSystemPrompt(context: AgentContext): string {
 }
 
 /**
- * Core identity section — dynamic based on user's AI config
+ * Core identity section — dynamic based on user's AI config and persona
  */
 function buildIdentitySection(config?: UserAIConfig): string {
   const agentName = config?.agentName || "Any AI";
@@ -92,6 +113,7 @@ function buildIdentitySection(config?: UserAIConfig): string {
   const providerName = (config?.llmProvider === "custom" && config?.llmCustomProviderName)
     ? config.llmCustomProviderName
     : PROVIDER_DISPLAY_NAMES[config?.llmProvider || "google"] || "Google";
+  const principles = (PERSONAS[config?.persona ?? "default"] ?? PERSONAS.default).principles;
 
   return `# ${agentName}
 
@@ -103,10 +125,30 @@ If someone asks about the glasses themselves, I mention that these are MentraOS
 
 ## Core Principles
 
-- Be direct and concise. Give the answer without filler, commentary, or playful remarks.
-- For factual questions, state the fact directly.
-- Never refuse reasonable requests - I always try my best.
-- Keep responses natural and conversational, like a helpful friend.`;
+${principles.map(p => `- ${p}`).join("\n")}`;
+}
+
+/**
+ * User's custom instructions — wrapped so they read as preferences, not prompt structure
+ */
+function buildCustomInstructionsSection(instructions: string): string {
+  return `## User's Custom Instructions
+
+The user gave me these standing instructions. I follow them, except where they conflict with the response length limit or the output formatting rules below — those always win.
+
+<custom_instructions>
+${instructions}
+</custom_instructions>`;
+}
+
+/**
+ * Response language section — the user speaks (and is transcribed) in this language
+ */
+function buildLanguageSection(language: Language): string {
+  const { name } = LANGUAGES[language];
+  return `## Language
+
+The user speaks ${name}. I always reply in ${name}, even when tool results, search snippets, or my notes below are in English. Names of places, products, and people stay as they are. I use the local conventions for dates, times, and numbers (24-hour clock, metric units unless asked otherwise).`;
 }
 
 /**
@@ -158,7 +200,8 @@ IMPORTANT: When the user asks "what can you do?" or "what can I do with these gl
 - Calculations and unit conversions
 - Check battery level and charging status ("what's my battery?")
 - Nearby places search and walking directions (if Google Cloud key configured)
-- Weather, air quality, and pollen reports (if Google Cloud key configured)
+- Weather reports and forecasts (Google Cloud key or the keyless open-data backend)
+- Air quality and pollen reports (if Google Cloud key configured)
 - Remember context from our conversation (up to 8 hours)
 - Follow-up questions without repeating the wake word
 
@@ -207,13 +250,29 @@ function buildToolUsageSection(): string {
 
 2. **Search for real-time data**: I ONLY use web search when the answer depends on CURRENT data I don't have (today's weather, live scores, recent news, business hours, obscure topics). CRITICAL: I search AT MOST ONCE per user query. One search call is enough — I never refine or repeat searches.
 
-3. **Nearby places**: Use the nearby_places tool when the user asks to find a specific type of place near them (restaurants, coffee shops, gas stations, etc.). This uses their exact GPS location for accurate results.
+3. **Nearby places**: Use the nearby_places tool when the user asks to find a specific type of place near them (restaurants, coffee shops, gas stations, "a vegan bakery"). This uses their exact GPS location for accurate results. For hours, "is it open now?", phone numbers, prices, or reviews I use place_details — for a place from the last list I pass its number ("the second one" → 2) instead of searching again, and with no place named it uses the one we were just talking about.
 
-4. **Directions**: Use the directions tool when the user asks how to get somewhere or wants navigation instructions. Defaults to walking directions.
+4. **Directions**: Use the directions tool when the user asks how to get somewhere. Defaults to walking directions. When they say "navigate to…" or "take me to…", I use start_navigation instead — it announces each turn as they walk, so I just confirm the destination and the first step.
 
 5. **Calculator for math**: Use the calculator tool for any arithmetic, conversions, or calculations.
 
-6. **Think through complex problems**: Use the thinking tool to reason step-by-step about complex questions before answering.`;
+6. **Think through complex problems**: Use the thinking tool to reason step-by-step about complex questions before answering.
+
+7. **Long-term memory**: When the user asks me to remember something, I save it with remember_fact. If they ask about something they told me before and it isn't in my context, I check recall_facts. When they say "forget that", I delete it with forget_fact — I never just pretend to forget.
+
+8. **Older history**: My context only covers the last 48 hours. If the user asks about something from further back ("that restaurant I asked about last month"), I use search_history when it's available.
+
+9. **Timers and reminders**: "Set a timer for 10 minutes" → set_timer. "Remind me at 3pm to call mom" or "wake me at 7" → set_reminder with the local time (today's date comes from my context). "Remind me to buy milk when I get to the grocery store" or "...when I leave work" → set_location_reminder. I use list_reminders and cancel_reminder when asked what's set or to cancel one. The glasses announce them when they're due — I never promise to remember on my own.
+
+10. **Saved places**: "Save this place as the gym" → save_place (no address means where they are now). When the user names a saved place ("directions home", "weather at work", "remind me when I get to the gym"), I pass that name straight to the tool. For weather at a saved place I use weather_at_place, not the weather in my context.
+
+11. **Forecasts**: My context only has the current weather. For later today, tomorrow, or the coming days ("will it rain this afternoon?", "weather this weekend?") I use weather_forecast.
+
+12. **Notification rules**: "Always tell me when Alice texts" → add_notification_rule with sender Alice and action announce. "Mute Candy Crush" → app Candy Crush, action ignore. "Show me anything about my delivery" → keywords with action hud. To change or drop a rule I list_notification_rules first, then remove_notification_rule by its number.
+
+13. **Do Not Disturb**: "Don't disturb me for an hour" or "focus mode until 3pm" → start_do_not_disturb (no duration means an hour). "I'm back" or "turn off do not disturb" → stop_do_not_disturb, and I pass on anything it says was held back.
+
+14. **Notification history**: The notifications above are only the recent ones. For older or dismissed ones ("what was that verification code from this morning?", "what did Alice text me yesterday?") → search_notification_history with the sender, app, words, and time range I can tell from the question.`;
 }
 
 /**
@@ -270,7 +329,7 @@ function buildContextSection(context: AgentContext): string {
     locationStr += `${loc.city}, ${loc.state}, ${loc.country}`;
 
     if (loc.weather) {
-      locationStr += ` | Weather: ${loc.weather.temperature}°F (${loc.weather.temperatureCelsius}°C), ${loc.weather.condition}`;
+      locationStr += ` | Weather: ${formatTemperature(loc.weather.temperature, loc.weather.temperatureCelsius)}, ${loc.weather.condition}`;
     }
     if (loc.airQuality) {
       locationStr += ` | Air Quality: AQI ${loc.airQuality.aqi} (${loc.airQuality.category})`;
@@ -304,6 +363,16 @@ function buildContextSection(context: AgentContext): string {
     sections.push(context.notifications);
   }
 
+  // Long-term facts the user asked us to remember
+  if (context.memories && context.memories.length > 0) {
+    sections.push(`**Things the User Asked You to Remember:**\n${context.memories.map(m => `- ${m}`).join("\n")}`);
+  }
+
+  // Saved places — the agent passes these names to directions, navigation, weather, and reminders
+  if (context.savedPlaces && context.savedPlaces.length > 0) {
+    sections.push(`**User's Saved Places:** (use these names as destinations, e.g. "home")\n${context.savedPlaces.map(p => `- ${p}`).join("\n")}`);
+  }
+
   // Recent photos with tags and analysis
   if (context.recentPhotos && context.recentPhotos.length > 0) {
     sections.push(formatRecentPhotosForPrompt(context.recentPhotos));
@@ -331,17 +400,27 @@ function buildContextSection(context: AgentContext): string {
  * Google Cloud services unavailable — guides agent to suggest adding key + web search fallback
  */
 function buildGoogleServicesUnavailableSection(context: AgentContext): string {
-  const lines = [
-    `## Location Services (Not Configured)`,
-    ``,
-    `Google Cloud services are NOT set up. This means weather, air quality, pollen, nearby places, directions, and timezone detection are unavailable.`,
-    ``,
-    `When the user asks about weather, nearby places, directions, air quality, pollen, or time:`,
-    `1. Try to answer using a web search as a fallback.`,
-    `2. Briefly mention that they can add a Google Cloud API key in Settings to enable these features directly.`,
-  ];
-
-  if (!context.timezone) {
+  const lines = context.openLocationServices
+    ? [
+        `## Location Services (Open Data)`,
+        ``,
+        `Google Cloud services are NOT set up. Weather, forecasts, the user's address, and timezone detection come from open data services instead. Air quality, pollen, nearby places, directions, and navigation are unavailable.`,
+        ``,
+        `When the user asks about nearby places, directions, air quality, or pollen:`,
+        `1. Try to answer using a web search as a fallback.`,
+        `2. Briefly mention that they can add a Google Cloud API key in Settings to enable these features directly.`,
+      ]
+    : [
+        `## Location Services (Not Configured)`,
+        ``,
+        `Google Cloud services are NOT set up. This means weather, air quality, pollen, nearby places, directions, and timezone detection are unavailable.`,
+        ``,
+        `When the user asks about weather, nearby places, directions, air quality, pollen, or time:`,
+        `1. Try to answer using a web search as a fallback.`,
+        `2. Briefly mention that they can add a Google Cloud API key in Settings to enable these features directly (weather, address, and timezone also work with the free open data backend in Settings).`,
+      ];
+
+  if (!context.timezone && !context.openLocationServices) {
     lines.push(``);
     lines.push(`**Timezone Note:** The current time shown may be in the server's timezone, not the user's local timezone. If the user asks about the time, mention that adding a Google Cloud API key in Settings will enable automatic timezone detection from their GPS location.`);
   }
@@ -3,33 +3,84 @@
  *
  * Resolves a user's AI config into an AI SDK LanguageModel instance.
  * API keys are passed directly to provider constructors (not env vars).
+ * Fallback chains (primary + ordered fallbacks) are resolved here too,
+ * with runWithFallback() moving down the chain on quota/billing/network errors.
+ * Per-task routing (routeModelId) swaps the primary LLM model for the user's
+ * fast or strong model depending on the kind of work.
+ * Embedding models for history search come from the user's own providers too
+ * (resolveEmbeddingModel).
  */
 
 import { createOpenAI } from "@ai-sdk/openai";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
-import type { LanguageModel } from "ai";
-import type { UserAIConfig, Provider } from "./types";
-import { MODEL_CATALOG } from "./types";
+import type { EmbeddingModel, LanguageModel } from "ai";
+import type { UserAIConfig, Provider, FallbackModelConfig, ModelTask } from "./types";
+import { MODEL_CATALOG, PROVIDER_DISPLAY_NAMES, DEFAULT_ROUTING_RULES, EMBEDDING_MODELS } from "./types";
+
+/**
+ * A resolved model in a fallback chain (primary first, then fallbacks in order)
+ */
+export interface ChainModel {
+  model: LanguageModel;
+  provider: Provider;
+  modelId: string;
+  apiKey: string;
+  baseURL?: string;
+  /** Name spoken to the user when this model answers, e.g. "Anthropic" or a custom server name */
+  label: string;
+}
+
+/**
+ * A resolved embedding model (for history search)
+ */
+export interface ResolvedEmbeddingModel {
+  model: EmbeddingModel;
+  provider: Provider;
+  modelId: string;
+}
+
+/**
+ * Pick the LLM model ID for a task from the user's routing rules.
+ * Falls back to the default llmModel when the tier has no model set
+ * or the routed model isn't in the provider's catalog.
+ */
+export function routeModelId(config: UserAIConfig, task?: ModelTask): string {
+  const routing = config.modelRouting;
+  if (!task || !routing) return config.llmModel;
+
+  const tier = routing.rules[task] ?? DEFAULT_ROUTING_RULES[task];
+  const modelId = tier === "fast" ? routing.fastModel : tier === "strong" ? routing.strongModel : undefined;
+  if (!modelId) return config.llmModel;
+
+  if (config.llmProvider !== "custom" && !MODEL_CATALOG[config.llmProvider]?.some((m) => m.id === modelId)) {
+    console.warn(`⚠️ Routed ${tier} model ${modelId} is not a ${config.llmProvider} model — using ${config.llmModel}`);
+    return config.llmModel;
+  }
+  return modelId;
+}
 
 /**
  * Resolve the user's LLM config into an AI SDK LanguageModel.
+ * With a task, the model is picked by the user's routing rules (see routeModelId).
  */
-export function resolveLLMModel(config: UserAIConfig): LanguageModel {
+export function resolveLLMModel(config: UserAIConfig, task?: ModelTask): LanguageModel {
+  const modelId = routeModelId(config, task);
+
   if (config.llmProvider === "custom") {
     if (!config.llmCustomBaseUrl) {
       throw new Error("Custom LLM provider requires a base URL");
     }
-    return createModelInstance("custom", config.llmModel, config.llmApiKey, config.llmCustomBaseUrl);
+    return createModelInstance("custom", modelId, config.llmApiKey, config.llmCustomBaseUrl);
   }
 
   const providerModels = MODEL_CATALOG[config.llmProvider];
-  const model = providerModels?.find((m) => m.id === config.llmModel);
+  const model = providerModels?.find((m) => m.id === modelId);
   if (!model) {
-    throw new Error(`Unknown LLM model: ${config.llmModel}`);
+    throw new Error(`Unknown LLM model: ${modelId}`);
   }
 
-  return createModelInstance(config.llmProvider, config.llmModel, config.llmApiKey);
+  return createModelInstance(config.llmProvider, modelId, config.llmApiKey);
 }
 
 /**
@@ -71,6 +122,166 @@ export function resolveVisionModel(config: UserAIConfig): {
   };
 }
 
+/**
+ * Resolve the embedding model used to index and search history.
+ * Uses the LLM provider when it has an embeddings API (custom servers need
+ * routing.embeddingModel set); otherwise the vision provider (e.g. an Anthropic
+ * LLM paired with Google vision). Returns null when neither can embed —
+ * history search is simply unavailable then.
+ */
+export function resolveEmbeddingModel(config: UserAIConfig): ResolvedEmbeddingModel | null {
+  const preferred = config.modelRouting?.embeddingModel;
+  const candidates: { provider: Provider; apiKey: string; baseURL?: string }[] = [
+    { provider: config.llmProvider, apiKey: config.llmApiKey, baseURL: config.llmCustomBaseUrl },
+    { provider: config.visionProvider, apiKey: config.visionApiKey, baseURL: config.visionCustomBaseUrl },
+  ];
+
+  for (const { provider, apiKey, baseURL } of candidates) {
+    if (provider === "custom") {
+      if (!baseURL || !preferred) continue;
+      return {
+        model: createOpenAI({ apiKey: apiKey || "not-needed", baseURL }).embedding(preferred),
+        provider,
+        modelId: preferred,
+      };
+    }
+
+    const models = EMBEDDING_MODELS[provider];
+    if (!models || !apiKey) continue;
+    const modelId = models.some((m) => m.id === preferred) ? preferred! : models[0].id;
+    return {
+      model: provider === "openai"
+        ? createOpenAI({ apiKey }).embedding(modelId)
+        : createGoogleGenerativeAI({ apiKey }).embedding(modelId),
+      provider,
+      modelId,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the user's LLM into a fallback chain: primary model first, then each
+ * configured fallback in order. Misconfigured fallbacks are skipped with a warning;
+ * a misconfigured primary throws (same as resolveLLMModel).
+ * The primary honors the task's routing rule; fallbacks are used as configured.
+ */
+export function resolveLLMChain(config: UserAIConfig, task?: ModelTask): ChainModel[] {
+  const chain: ChainModel[] = [{
+    model: resolveLLMModel(config, task),
+    provider: config.llmProvider,
+    modelId: routeModelId(config, task),
+    apiKey: config.llmApiKey,
+    baseURL: config.llmProvider === "custom" ? config.llmCustomBaseUrl : undefined,
+    label: providerLabel(config.llmProvider, config.llmCustomProviderName),
+  }];
+
+  for (const fallback of config.llmFallbacks ?? []) {
+    const resolved = resolveFallback(fallback, false);
+    if (resolved) chain.push(resolved);
+  }
+
+  return chain;
+}
+
+/**
+ * Resolve the user's vision model into a fallback chain (see resolveLLMChain).
+ * Fallbacks must be vision-capable catalog models or custom servers.
+ */
+export function resolveVisionChain(config: UserAIConfig): ChainModel[] {
+  const primary = resolveVisionModel(config);
+  const chain: ChainModel[] = [{
+    ...primary,
+    modelId: config.visionModel,
+    baseURL: config.visionProvider === "custom" ? config.visionCustomBaseUrl : undefined,
+    label: providerLabel(config.visionProvider, config.visionCustomProviderName),
+  }];
+
+  for (const fallback of config.visionFallbacks ?? []) {
+    const resolved = resolveFallback(fallback, true);
+    if (resolved) chain.push(resolved);
+  }
+
+  return chain;
+}
+
+/** Error message patterns that indicate a transient or account-level provider failure */
+const FALLBACK_ERROR_PATTERNS = [
+  /resource_exhausted/, /quota/, /rate.?limit/, /\b429\b/, /billing/, /payment/, /overloaded/,
+  /\b50[0234]\b/, /fetch failed/, /network/, /econnrefused|econnreset|etimedout|enotfound/, /timed? ?out/,
+];
+
+/**
+ * Whether a provider error should move on to the next model in the fallback chain.
+ * Quota/rate limits, billing, overload, server and network failures qualify —
+ * bad requests and invalid keys don't (the user needs to fix those).
+ */
+export function isFallbackError(error: unknown): boolean {
+  const statusCode = (error as { statusCode?: unknown })?.statusCode;
+  if (typeof statusCode === "number" && (statusCode === 402 || statusCode === 429 || statusCode >= 500)) {
+    return true;
+  }
+
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return FALLBACK_ERROR_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Run a call against each model in the chain until one succeeds.
+ * Only fallback-worthy errors (see isFallbackError) move on to the next model;
+ * anything else — or a failure of the last model — is rethrown.
+ */
+export async function runWithFallback<T>(
+  chain: ChainModel[],
+  purpose: string,
+  run: (candidate: ChainModel) => Promise<T>,
+): Promise<{ result: T; used: ChainModel }> {
+  for (let i = 0; i < chain.length; i++) {
+    const candidate = chain[i];
+    try {
+      return { result: await run(candidate), used: candidate };
+    } catch (error) {
+      const next = chain[i + 1];
+      if (!next || !isFallbackError(error)) throw error;
+      console.warn(`⚠️ ${purpose} failed on ${candidate.label} (${candidate.modelId}) — falling back to ${next.label} (${next.modelId}):`, error);
+    }
+  }
+  throw new Error(`No models configured for ${purpose}`);
+}
+
+/** Resolve one fallback entry, or null (with a warning) if it can't be used */
+function resolveFallback(fallback: FallbackModelConfig, requireVision: boolean): ChainModel | null {
+  try {
+    if (fallback.provider === "custom") {
+      if (!fallback.customBaseUrl) throw new Error("Custom fallback requires a base URL");
+    } else {
+      const modelInfo = MODEL_CATALOG[fallback.provider]?.find((m) => m.id === fallback.model);
+      if (!modelInfo) throw new Error(`Unknown fallback model: ${fallback.model}`);
+      if (requireVision && !modelInfo.supportsVision) throw new Error(`Model ${fallback.model} does not support vision`);
+      if (!fallback.apiKey) throw new Error(`No API key for fallback ${fallback.provider}`);
+    }
+
+    return {
+      model: createModelInstance(fallback.provider, fallback.model, fallback.apiKey, fallback.customBaseUrl),
+      provider: fallback.provider,
+      modelId: fallback.model,
+      apiKey: fallback.apiKey,
+      baseURL: fallback.customBaseUrl,
+      label: providerLabel(fallback.provider, fallback.customProviderName),
+    };
+  } catch (error) {
+    console.warn(`⚠️ Skipping fallback ${fallback.provider}/${fallback.model}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/** Name of a provider for spoken notes — custom servers use their user-supplied name */
+function providerLabel(provider: Provider, customName?: string): string {
+  if (provider === "custom" && customName) return customName;
+  return PROVIDER_DISPLAY_NAMES[provider];
+}
+
 /** Create an AI SDK LanguageModel for the given provider + model + key */
 function createModelInstance(provider: Provider, modelId: string, apiKey: string, baseURL?: string): LanguageModel {
   switch (provider) {
@@ -5,6 +5,10 @@
  * Replaces the Phase 1 shim in MentraAgent.ts.
  */
 
+import type { PersonaId } from "../personas";
+import type { Language } from "../../constants/languages";
+import type { LocationBackend } from "../../manager/location-providers/types";
+
 /** Supported AI providers ("none" = explicitly disabled, used for vision opt-out) */
 export type Provider = "openai" | "anthropic" | "google" | "custom" | "none";
 
@@ -50,6 +54,52 @@ export const MODEL_CATALOG: Record<Provider, ModelInfo[]> = {
   none: [],
 };
 
+/** Model pricing in USD per 1M tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices for catalog models (USD per 1M tokens) — used for spend estimates.
+ * Keep in sync with MODEL_CATALOG; custom/local models have no price.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  "gpt-5.2":      { input: 1.75, output: 14 },
+  "gpt-5.1":      { input: 1.25, output: 10 },
+  "gpt-5":        { input: 1.25, output: 10 },
+  "gpt-5-mini":   { input: 0.25, output: 2 },
+  "gpt-4o":       { input: 2.5,  output: 10 },
+  "gpt-4o-mini":  { input: 0.15, output: 0.6 },
+  "gpt-4.1":      { input: 2,    output: 8 },
+  "gpt-4.1-mini": { input: 0.4,  output: 1.6 },
+  // Anthropic
+  "claude-opus-4-6":            { input: 5, output: 25 },
+  "claude-sonnet-4-6":          { input: 3, output: 15 },
+  "claude-sonnet-4-5-20250929": { input: 3, output: 15 },
+  "claude-haiku-4-5-20251001":  { input: 1, output: 5 },
+  // Google
+  "gemini-2.5-flash":      { input: 0.3,  output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1,  output: 0.4 },
+  "gemini-2.5-pro":        { input: 1.25, output: 10 },
+  // Embeddings (history search) — input tokens only
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "gemini-embedding-001":   { input: 0.15, output: 0 },
+};
+
+/**
+ * Estimate the cost of a call in USD. Returns null for models without a
+ * known price (custom/local servers).
+ */
+export function estimateCost(provider: Provider, modelId: string, inputTokens: number, outputTokens: number): number | null {
+  if (provider === "custom" || provider === "none") return null;
+  const pricing = MODEL_PRICING[modelId];
+  if (!pricing) return null;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
 /** Display names for providers */
 export const PROVIDER_DISPLAY_NAMES: Record<Provider, string> = {
   openai: "OpenAI",
@@ -59,6 +109,78 @@ export const PROVIDER_DISPLAY_NAMES: Record<Provider, string> = {
   none: "None — Disabled",
 };
 
+/** Maximum number of fallback models per purpose (LLM / vision) */
+export const MAX_FALLBACKS = 3;
+
+/**
+ * One entry in a fallback chain as stored in user_settings.
+ * The API key lives in Vault — only its secret ID is stored here.
+ */
+export interface StoredFallbackEntry {
+  provider: Provider;
+  model: string;
+  apiKeyVaultId?: string | null;
+  customBaseUrl?: string;
+  customProviderName?: string;
+}
+
+/**
+ * A fallback model with its decrypted API key — tried in order
+ * when the primary provider fails with a quota, billing, or network error.
+ */
+export interface FallbackModelConfig {
+  provider: Provider;
+  model: string;
+  apiKey: string;
+  customBaseUrl?: string;
+  customProviderName?: string;
+}
+
+/** Work the LLM is used for — each can be routed to a faster or stronger model */
+export type ModelTask = "quick" | "standard" | "detailed" | "tools" | "classifier" | "tagging";
+
+/** Which model a task runs on — "default" is the user's selected llmModel */
+export type ModelTier = "default" | "fast" | "strong";
+
+export const MODEL_TASKS: ModelTask[] = ["quick", "standard", "detailed", "tools", "classifier", "tagging"];
+
+/**
+ * Per-task model routing. Fast/strong models come from the LLM provider
+ * (sharing its API key); a tier with no model set uses the default model.
+ */
+export interface ModelRoutingConfig {
+  fastModel?: string;
+  strongModel?: string;
+  rules: Partial<Record<ModelTask, ModelTier>>;
+  /** Embedding model for history search — defaults to the provider's first; required for custom servers */
+  embeddingModel?: string;
+}
+
+/**
+ * Embedding models per provider, default first. Used to index conversation
+ * and photo history for search_history. Anthropic has no embeddings API;
+ * custom servers accept any model ID the user sets.
+ */
+export const EMBEDDING_MODELS: Partial<Record<Provider, { id: string; name: string }[]>> = {
+  openai: [
+    { id: "text-embedding-3-small", name: "Text Embedding 3 Small" },
+    { id: "text-embedding-3-large", name: "Text Embedding 3 Large" },
+  ],
+  google: [
+    { id: "gemini-embedding-001", name: "Gemini Embedding" },
+  ],
+};
+
+/** Tier used for a task when the user hasn't set a rule for it */
+export const DEFAULT_ROUTING_RULES: Record<ModelTask, ModelTier> = {
+  quick: "fast",
+  standard: "default",
+  detailed: "strong",
+  tools: "strong",
+  classifier: "fast",
+  tagging: "fast",
+};
+
 /**
  * User's AI configuration — loaded from Supabase on session start,
  * held in memory on the User object for the session duration.
@@ -80,6 +202,9 @@ export interface UserAIConfig {
   /** Optional Google Cloud API key for location/weather/places/directions/timezone services */
   googleCloudApiKey?: string;
 
+  /** Backend for weather, addresses, and timezone — "auto" uses Google when a key is set; open data only when chosen */
+  locationBackend?: LocationBackend;
+
   /** Custom/local LLM server config */
   llmCustomBaseUrl?: string;
   llmCustomProviderName?: string;
@@ -88,6 +213,20 @@ export interface UserAIConfig {
   visionCustomBaseUrl?: string;
   visionCustomProviderName?: string;
 
+  /** Ordered fallback chains, tried after the primary provider fails */
+  llmFallbacks?: FallbackModelConfig[];
+  visionFallbacks?: FallbackModelConfig[];
+
+  /** Per-task model routing (response mode, tool use, background jobs) */
+  modelRouting?: ModelRoutingConfig;
+
+  /** Preset personality and the user's free-form standing instructions */
+  persona?: PersonaId;
+  customInstructions?: string;
+
+  /** Response language — defaults to English */
+  language?: Language;
+
   isConfigured: boolean;
 }
 
@@ -2,34 +2,104 @@
  * Directions Tool using Google Routes API
  *
  * Gets walking or driving directions from the user's current GPS location
- * to a destination address or place name.
+ * to a destination address, place name, or saved place ("home"). computeRoute() is shared with
+ * turn-by-turn navigation (NavigationManager), which also needs the step
+ * geometry.
  */
 
 import { tool } from "ai";
 import { z } from "zod";
+import { findSavedPlace, type SavedPlace } from "../../manager/SavedPlacesManager";
 
-interface RouteStep {
+interface LatLngJson {
+  latLng?: { latitude: number; longitude: number };
+}
+
+export interface RouteStep {
   navigationInstruction?: {
     maneuver?: string;
     instructions?: string;
   };
   distanceMeters?: number;
+  startLocation?: LatLngJson;
+  endLocation?: LatLngJson;
+  polyline?: { encodedPolyline?: string };
 }
 
 interface RouteLeg {
   steps?: RouteStep[];
 }
 
-interface Route {
+export interface Route {
   duration?: string;
   distanceMeters?: number;
   legs?: RouteLeg[];
 }
 
+export type TravelMode = "WALK" | "DRIVE";
+
+/**
+ * Compute a route from a point to an address or a point. Returns the first
+ * route, or a message to give the user when there isn't one.
+ */
+export async function computeRoute(
+  origin: { lat: number; lng: number },
+  destination: string | { lat: number; lng: number },
+  mode: TravelMode,
+  apiKey: string,
+  languageCode = "en-US",
+): Promise<Route | string> {
+  const response = await fetch("https://routes.googleapis.com/directions/v2:computeRoutes", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Api-Key": apiKey,
+      "X-Goog-FieldMask":
+        "routes.duration,routes.distanceMeters,routes.legs.steps.navigationInstruction,routes.legs.steps.distanceMeters," +
+        "routes.legs.steps.startLocation,routes.legs.steps.endLocation,routes.legs.steps.polyline",
+    },
+    body: JSON.stringify({
+      origin: {
+        location: { latLng: { latitude: origin.lat, longitude: origin.lng } },
+      },
+      destination: typeof destination === "string"
+        ? { address: destination }
+        : { location: { latLng: { latitude: destination.lat, longitude: destination.lng } } },
+      travelMode: mode,
+      computeAlternativeRoutes: false,
+      languageCode,
+    }),
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    console.error(`❌ Routes API error: ${response.status} — ${errText}`);
+    const lower = errText.toLowerCase();
+    if (response.status === 429 || lower.includes("quota") || lower.includes("resource_exhausted") || lower.includes("rate limit")) {
+      return "The Google Routes API has reached its usage limit. Please check your Google Cloud billing or quota settings.";
+    }
+    if (lower.includes("billing")) {
+      return "The Google Routes API requires billing to be enabled in your Google Cloud Console.";
+    }
+    if (response.status === 403) {
+      return "The Google Routes API isn't enabled for your API key. Please enable it in Google Cloud Console.";
+    }
+    return "Could not get directions. Try asking me to search the web instead.";
+  }
+
+  const data = await response.json();
+  const routes: Route[] = data.routes || [];
+  if (routes.length === 0) {
+    return `No route found to "${typeof destination === "string" ? destination : "that place"}".`;
+  }
+  return routes[0];
+}
+
 /**
  * Create a directions tool bound to the user's current coordinates.
+ * Saved place names resolve to their saved coordinates.
  */
-export function createDirectionsTool(lat: number, lng: number, apiKey: string) {
+export function createDirectionsTool(lat: number, lng: number, apiKey: string, languageCode = "en-US", savedPlaces: SavedPlace[] = []) {
   return tool({
     description:
       "Get walking or driving directions from the user's current location to a destination. " +
@@ -37,7 +107,7 @@ export function createDirectionsTool(lat: number, lng: number, apiKey: string) {
     inputSchema: z.object({
       destination: z
         .string()
-        .describe("The destination address or place name, e.g. 'Central Park' or '350 5th Ave, New York'"),
+        .describe("The destination address, place name, or saved place, e.g. 'Central Park', '350 5th Ave, New York', or 'home'"),
       mode: z
         .enum(["WALK", "DRIVE"])
         .optional()
@@ -47,52 +117,12 @@ export function createDirectionsTool(lat: number, lng: number, apiKey: string) {
       console.log(`🧭 Getting ${mode} directions to "${destination}" from ${lat},${lng}`);
 
       try {
-        const response = await fetch("https://routes.googleapis.com/directions/v2:computeRoutes", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-Goog-Api-Key": apiKey,
-            "X-Goog-FieldMask":
-              "routes.duration,routes.distanceMeters,routes.legs.steps.navigationInstruction,routes.legs.steps.distanceMeters",
-          },
-          body: JSON.stringify({
-            origin: {
-              location: { latLng: { latitude: lat, longitude: lng } },
-            },
-            destination: {
-              address: destination,
-            },
-            travelMode: mode,
-            computeAlternativeRoutes: false,
-            languageCode: "en-US",
-          }),
-        });
-
-        if (!response.ok) {
-          const errText = await response.text();
-          console.error(`❌ Routes API error: ${response.status} — ${errText}`);
-          const lower = errText.toLowerCase();
-          if (response.status === 429 || lower.includes("quota") || lower.includes("resource_exhausted") || lower.includes("rate limit")) {
-            return { results: "The Google Routes API has reached its usage limit. Please check your Google Cloud billing or quota settings." };
-          }
-          if (lower.includes("billing")) {
-            return { results: "The Google Routes API requires billing to be enabled in your Google Cloud Console." };
-          }
-          if (response.status === 403) {
-            return { results: "The Google Routes API isn't enabled for your API key. Please enable it in Google Cloud Console." };
-          }
-          return { results: "Could not get directions. Try asking me to search the web instead." };
+        const saved = findSavedPlace(savedPlaces, destination);
+        const route = await computeRoute({ lat, lng }, saved ?? destination, mode, apiKey, languageCode);
+        if (typeof route === "string") {
+          return { results: route };
         }
 
-        const data = await response.json();
-        const routes: Route[] = data.routes || [];
-
-        if (routes.length === 0) {
-          return { results: `No route found to "${destination}".` };
-        }
-
-        const route = routes[0];
-
         // Parse duration (comes as "300s" format)
         const durationSec = parseInt(route.duration?.replace("s", "") || "0", 10);
         const durationMin = Math.round(durationSec / 60);
@@ -0,0 +1,75 @@
+/**
+ * Do Not Disturb Tools
+ *
+ * start_do_not_disturb / stop_do_not_disturb over the user's focus mode
+ * ("don't disturb me for an hour", "I'm done focusing"). Bound to the
+ * session's FocusManager; clock times are read in the user's timezone.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { FocusManager } from "../../manager/FocusManager";
+import type { FocusReason } from "../../manager/focus";
+import { FOCUS_SETTINGS } from "../../constants/config";
+import { formatLocalDateTime, zonedTimeToUtc } from "../../utils/timezone";
+
+const STILL_ON: Record<Exclude<FocusReason, "manual">, string> = {
+  quiet_hours: "it stays on for your quiet hours",
+  busy_event: "it stays on until your current busy calendar event ends",
+};
+
+/**
+ * Create the Do Not Disturb tools bound to one user's focus mode.
+ */
+export function createFocusTools(focus: FocusManager, timezone?: string) {
+  return {
+    start_do_not_disturb: tool({
+      description:
+        "Turn on Do Not Disturb: reminders, alerts, notifications, and Claude Code messages are held back or skipped " +
+        "per the user's settings, and a summary plays when it ends. Use for \"don't disturb me for an hour\", " +
+        "\"focus mode until 3pm\", or \"do not disturb\" (one hour). Give 'minutes' or 'until'.",
+      inputSchema: z.object({
+        minutes: z.number().positive().optional().describe("How long, in minutes, e.g. 60"),
+        until: z.string().optional().describe("Local date and time it ends, as YYYY-MM-DDTHH:mm, e.g. '2026-03-14T15:00'"),
+      }),
+      execute: async ({ minutes, until }) => {
+        let end: Date | null;
+        if (until) {
+          if (!timezone) {
+            return { result: "The user's timezone isn't known yet (it comes from their location), so an end time can't be used. Ask for how many minutes instead." };
+          }
+          end = zonedTimeToUtc(until, timezone);
+          if (!end) return { result: "Give the end time as YYYY-MM-DDTHH:mm." };
+        } else {
+          end = new Date(Date.now() + (minutes ?? FOCUS_SETTINGS.defaultMinutes) * 60 * 1000);
+        }
+
+        if (end.getTime() <= Date.now()) return { result: "That time has already passed." };
+        if (end.getTime() - Date.now() > FOCUS_SETTINGS.maxMinutes * 60 * 1000) {
+          return { result: `Do Not Disturb can be set for up to ${FOCUS_SETTINGS.maxMinutes / 60} hours.` };
+        }
+
+        await focus.startManual(end.getTime());
+        if (!timezone) {
+          return { result: `Do Not Disturb is on for ${Math.round((end.getTime() - Date.now()) / 60000)} minutes.` };
+        }
+        return { result: `Do Not Disturb is on until ${formatLocalDateTime(end, timezone)}.` };
+      },
+    }),
+
+    stop_do_not_disturb: tool({
+      description:
+        "Turn off Do Not Disturb (\"I'm back\", \"turn off do not disturb\"). If the result includes what was held " +
+        "back, tell the user.",
+      inputSchema: z.object({}),
+      execute: async () => {
+        const wasManual = focus.getManualUntil() !== null;
+        const { stillOn, summary } = await focus.stopManual();
+        if (stillOn && stillOn !== "manual") {
+          return { result: `${wasManual ? "Your Do Not Disturb is off, but" : "Do Not Disturb wasn't turned on by voice —"} ${STILL_ON[stillOn]}.` };
+        }
+        return { result: summary ? `Do Not Disturb is off. ${summary}` : "Do Not Disturb is off. Nothing was held back." };
+      },
+    }),
+  };
+}
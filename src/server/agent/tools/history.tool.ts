@@ -0,0 +1,61 @@
+/**
+ * History Search Tool
+ *
+ * Semantic search over the user's full conversation and photo history —
+ * everything older than the 48h shown in the prompt. Bound to the session's
+ * HistorySearchManager (embeddings come from the user's own provider).
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { HistorySearchManager } from "../../manager/HistorySearchManager";
+
+const SOURCE_LABELS = {
+  turn: "conversation",
+  exchange: "conversation topics",
+  photo: "photo",
+} as const;
+
+/**
+ * Create a search_history tool bound to one user's history.
+ * Dates in results are formatted in the user's timezone when known.
+ */
+export function createHistorySearchTool(history: HistorySearchManager, timezone?: string) {
+  return tool({
+    description:
+      "Search the user's past conversations and photos, including ones older than the recent history in your context. " +
+      "Use when the user asks about something from earlier that isn't in your context, e.g. " +
+      "\"what was that restaurant I asked about last month?\" or \"what did that sign I photographed say?\".",
+    inputSchema: z.object({
+      query: z
+        .string()
+        .describe("What to look for, described in natural language, e.g. 'restaurant recommendation' or 'parking sign photo'"),
+    }),
+    execute: async ({ query }) => {
+      console.log(`🔎 Searching history: "${query}"`);
+
+      try {
+        const matches = await history.search(query);
+        if (matches.length === 0) {
+          return { results: "Nothing in the user's history matches that." };
+        }
+
+        return {
+          results: matches.map(match => ({
+            date: match.occurredAt.toLocaleDateString("en-US", {
+              timeZone: timezone,
+              year: "numeric",
+              month: "short",
+              day: "numeric",
+            }),
+            type: SOURCE_LABELS[match.sourceType],
+            content: match.content,
+          })),
+        };
+      } catch (error) {
+        console.error("❌ History search error:", error);
+        return { results: "History search is unavailable right now." };
+      }
+    },
+  });
+}
@@ -6,5 +6,14 @@ export { searchTool } from "./search.tool";
 export { resolveSearchTools } from "./native-search";
 export { calculatorTool } from "./calculator.tool";
 export { thinkingTool } from "./thinking.tool";
-export { createPlacesTool } from "./places.tool";
+export { createPlaceTools, findPlace } from "./places.tool";
 export { createDirectionsTool } from "./directions.tool";
+export { createMemoryTools } from "./memory.tool";
+export { createHistorySearchTool } from "./history.tool";
+export { createReminderTools } from "./reminder.tool";
+export { createNavigationTools } from "./navigation.tool";
+export { createSavedPlaceTools } from "./saved-places.tool";
+export { createForecastTool } from "./weather.tool";
+export { createNotificationRuleTools } from "./notification-rules.tool";
+export { createFocusTools } from "./focus.tool";
+export { createNotificationArchiveTool } from "./notification-archive.tool";
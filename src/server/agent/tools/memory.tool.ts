@@ -0,0 +1,72 @@
+/**
+ * Long-term Memory Tools
+ *
+ * remember_fact / recall_facts / forget_fact over the user's saved memories.
+ * Bound to the session's MemoryManager so the prompt context stays in sync.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { MemoryManager } from "../../manager/MemoryManager";
+
+/**
+ * Create the memory tools bound to one user's memories.
+ */
+export function createMemoryTools(memory: MemoryManager) {
+  return {
+    remember_fact: tool({
+      description:
+        "Save a durable fact about the user so you remember it in future conversations. " +
+        "Use when the user asks you to remember something (\"remember that my locker is 42\", \"I'm allergic to peanuts\"). " +
+        "Write the fact as a short, self-contained statement in the third person, e.g. 'User's locker number is 42'.",
+      inputSchema: z.object({
+        fact: z.string().describe("The fact to remember, as a short self-contained statement"),
+      }),
+      execute: async ({ fact }) => {
+        const saved = await memory.add(fact);
+        if (!saved) {
+          return { result: "Couldn't save that memory right now." };
+        }
+        return { result: `Remembered: ${saved.content}` };
+      },
+    }),
+
+    recall_facts: tool({
+      description:
+        "Look up facts the user asked you to remember earlier. " +
+        "Use when the user asks what they told you about something (\"what's my locker number?\", \"what did I tell you about Sam?\") " +
+        "and the answer isn't already in your context.",
+      inputSchema: z.object({
+        query: z.string().describe("Key words for what to look up, e.g. 'locker', 'allergies', 'wife'"),
+      }),
+      execute: async ({ query }) => {
+        const found = memory.recall(query);
+        if (found.length === 0) {
+          return { results: "No saved memories match that." };
+        }
+        return { results: found.map(m => m.content) };
+      },
+    }),
+
+    forget_fact: tool({
+      description:
+        "Permanently delete a fact the user asked you to remember. " +
+        "Use when the user says \"forget that\" or \"forget my locker number\". " +
+        "Describe the fact with its key words — the best matching memory is deleted.",
+      inputSchema: z.object({
+        fact: z.string().describe("Key words or the text of the memory to delete, e.g. 'locker number'"),
+      }),
+      execute: async ({ fact }) => {
+        const [match] = memory.recall(fact);
+        if (!match) {
+          return { result: "No saved memory matches that, so there's nothing to forget." };
+        }
+        const deleted = await memory.remove(match.id);
+        if (!deleted) {
+          return { result: "Couldn't delete that memory right now." };
+        }
+        return { result: `Forgot: ${match.content}` };
+      },
+    }),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Navigation Tools
+ *
+ * start_navigation / stop_navigation — turn-by-turn guidance that follows the
+ * user's GPS. Bound to the session's NavigationManager.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { NavigationManager } from "../../manager/NavigationManager";
+
+/**
+ * Create the navigation tools bound to one user's navigation session.
+ */
+export function createNavigationTools(navigation: NavigationManager) {
+  return {
+    start_navigation: tool({
+      description:
+        "Start turn-by-turn navigation to a place. Use when the user says \"navigate to…\" or \"take me to…\" " +
+        "(for a one-off \"how do I get to…\", use directions instead). Each turn is announced as the user approaches it, " +
+        "and the route is recalculated if they go off it.",
+      inputSchema: z.object({
+        destination: z.string().describe("Where to go, e.g. 'nearest pharmacy', 'Central Park', or '350 5th Ave, New York'"),
+        mode: z.enum(["WALK", "DRIVE"]).optional().describe("Travel mode — WALK (default) or DRIVE"),
+      }),
+      execute: async ({ destination, mode = "WALK" }) => {
+        return { result: await navigation.start(destination, mode) };
+      },
+    }),
+
+    stop_navigation: tool({
+      description: "Stop the turn-by-turn navigation that's running.",
+      inputSchema: z.object({}),
+      execute: async () => {
+        if (!navigation.isActive()) return { result: "Navigation isn't running." };
+        navigation.stop(false);
+        return { result: "Navigation stopped." };
+      },
+    }),
+  };
+}
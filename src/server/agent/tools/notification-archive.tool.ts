@@ -0,0 +1,74 @@
+/**
+ * Notification History Tool
+ *
+ * Searches the user's opt-in notification archive — notifications older
+ * than the recent ones in the prompt ("what was that verification code
+ * from this morning?"). Bound to the session's NotificationArchiveManager;
+ * times are read and shown in the user's timezone (shown in UTC until it's known).
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { NotificationArchiveManager } from "../../manager/NotificationArchiveManager";
+import { hasSearchFilter } from "../../manager/notification-archive";
+import { formatLocalDateTime, zonedTimeToUtc } from "../../utils/timezone";
+
+/**
+ * Create a search_notification_history tool bound to one user's archive.
+ */
+export function createNotificationArchiveTool(archive: NotificationArchiveManager, timezone?: string) {
+  return tool({
+    description:
+      "Search the user's notification history, including notifications older than the recent ones in your context " +
+      "or already dismissed. Use for \"what was that verification code from this morning?\" or \"what did Alice " +
+      "text me yesterday?\". Every given filter must match; give at least one.",
+    inputSchema: z.object({
+      app: z.string().optional().describe("App name, e.g. 'Messages' or 'Gmail'"),
+      sender: z.string().optional().describe("Sender or conversation name, e.g. 'Alice'"),
+      text: z.string().optional().describe("Words in the notification, e.g. 'verification code'"),
+      after: z.string().optional().describe("Local date and time, as YYYY-MM-DDTHH:mm — only notifications after it"),
+      before: z.string().optional().describe("Local date and time, as YYYY-MM-DDTHH:mm — only notifications before it"),
+    }),
+    execute: async ({ app, sender, text, after, before }) => {
+      if (!archive.isEnabled()) {
+        return { results: "The notification archive is off, so only the recent notifications in your context are available. The user can turn it on in Settings." };
+      }
+
+      if ((after || before) && !timezone) {
+        return { results: "The user's timezone isn't known yet (it comes from their location), so 'after' and 'before' can't be used. Search by app, sender, or text instead." };
+      }
+
+      const afterDate = after && timezone ? zonedTimeToUtc(after, timezone) : undefined;
+      const beforeDate = before && timezone ? zonedTimeToUtc(before, timezone) : undefined;
+      if (afterDate === null || beforeDate === null) {
+        return { results: "Give times as YYYY-MM-DDTHH:mm." };
+      }
+
+      const search = { app, sender, text, after: afterDate, before: beforeDate };
+      if (!hasSearchFilter(search)) {
+        return { results: "Give at least one of app, sender, text, after, or before to search the notification history." };
+      }
+
+      console.log(`🗄️ Searching notification history: ${JSON.stringify({ app, sender, text, after, before })}`);
+
+      try {
+        const matches = await archive.search(search);
+        if (matches.length === 0) {
+          return { results: `No notifications in the last ${archive.getConfig().retentionDays} days match that.` };
+        }
+
+        return {
+          results: matches.map(match => ({
+            time: timezone ? formatLocalDateTime(match.receivedAt, timezone) : match.receivedAt.toISOString(),
+            app: match.app,
+            from: match.title,
+            content: match.content,
+          })),
+        };
+      } catch (error) {
+        console.error("❌ Notification history search error:", error);
+        return { results: "Notification history is unavailable right now." };
+      }
+    },
+  });
+}
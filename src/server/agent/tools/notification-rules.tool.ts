@@ -0,0 +1,65 @@
+/**
+ * Notification Rule Tools
+ *
+ * add_notification_rule / list_notification_rules / remove_notification_rule
+ * over the user's notification triage rules ("always tell me when Alice
+ * texts", "mute Candy Crush"). Bound to the session's NotificationRulesManager.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { NotificationRulesManager } from "../../manager/NotificationRulesManager";
+import { describeRule, NOTIFICATION_ACTIONS } from "../../manager/notification-rules";
+
+/**
+ * Create the notification rule tools bound to one user's rules.
+ */
+export function createNotificationRuleTools(rules: NotificationRulesManager) {
+  return {
+    add_notification_rule: tool({
+      description:
+        "Add a rule for what happens to matching phone notifications. Use for \"always tell me when Alice texts\" " +
+        "(sender Alice, action announce), \"mute Candy Crush\" (app Candy Crush, action ignore), or " +
+        "\"show anything mentioning delivery on my display\" (keywords, action hud). Set at least one of app, sender, keywords, priority.",
+      inputSchema: z.object({
+        app: z.string().optional().describe("App name, e.g. 'WhatsApp', 'Gmail'"),
+        sender: z.string().optional().describe("Sender or contact name as shown in the notification title, e.g. 'Alice'"),
+        keywords: z.array(z.string()).optional().describe("Words in the title or text — any of them matches"),
+        priority: z.enum(["low", "normal", "high"]).optional().describe("Only notifications with this priority"),
+        action: z.enum(NOTIFICATION_ACTIONS as [string, ...string[]]).describe(
+          "announce = read it out right away; hud = show it on the display; digest = keep it quietly for later; ignore = drop it",
+        ),
+      }),
+      execute: async (input) => {
+        const result = await rules.add(input);
+        if (typeof result === "string") return { result };
+        return { result: `Added rule: ${describeRule(result)}.` };
+      },
+    }),
+
+    list_notification_rules: tool({
+      description: "List the user's notification rules, numbered (\"what notification rules do I have?\").",
+      inputSchema: z.object({}),
+      execute: async () => {
+        const list = rules.formatList();
+        return { result: list || "There are no notification rules." };
+      },
+    }),
+
+    remove_notification_rule: tool({
+      description:
+        "Delete a notification rule by its number from list_notification_rules (\"stop announcing Alice's texts\"). " +
+        "List the rules first to find the number.",
+      inputSchema: z.object({
+        number: z.number().int().min(1).describe("The rule's number from list_notification_rules"),
+      }),
+      execute: async ({ number }) => {
+        const rule = rules.getAll()[number - 1];
+        if (!rule) return { result: `There's no rule number ${number}.` };
+        const deleted = await rules.remove(rule.id);
+        if (!deleted) return { result: "Couldn't delete that rule right now." };
+        return { result: `Removed rule: ${describeRule(rule)}.` };
+      },
+    }),
+  };
+}
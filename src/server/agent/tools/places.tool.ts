@@ -1,104 +1,456 @@
 /**
- * Nearby Places Tool using Google Places API (New)
+ * Places Tools using Google Places API (New)
  *
- * Searches for places near the user's current GPS location.
- * Uses the Places API textSearch endpoint with location bias.
+ * nearby_places searches near the user's current GPS location (Places API
+ * textSearch with location bias, so "vegan bakery" and "coffee" both work).
+ * place_details adds hours, open-now, rating, phone, price level, and
+ * reviews for one place. Both go through the session's PlaceResultsManager,
+ * which keeps the last result list so "the second one" resolves without
+ * another search.
+ * findPlace() resolves a single place to coordinates (location reminders,
+ * navigation, and saved places).
  */
 
 import { tool } from "ai";
 import { z } from "zod";
+import type { PlaceResultsManager } from "../../manager/PlaceResultsManager";
+import type { Language } from "../../constants/languages";
+import { PLACES_SETTINGS } from "../../constants/config";
+import { formatDistance } from "../navigation";
+import { distanceMeters, type LatLng } from "../../utils/geo";
 
 interface PlaceResult {
+  id?: string;
   displayName?: { text: string };
   formattedAddress?: string;
   rating?: number;
   userRatingCount?: number;
-  currentOpeningHours?: { openNow?: boolean };
+  priceLevel?: string;
+  currentOpeningHours?: {
+    openNow?: boolean;
+    weekdayDescriptions?: string[];
+    nextOpenTime?: string;
+    nextCloseTime?: string;
+  };
+  regularOpeningHours?: { weekdayDescriptions?: string[] };
+  nationalPhoneNumber?: string;
+  internationalPhoneNumber?: string;
+  websiteUri?: string;
+  editorialSummary?: { text?: string };
+  reviews?: {
+    rating?: number;
+    text?: { text?: string };
+    relativePublishTimeDescription?: string;
+  }[];
+  location?: { latitude: number; longitude: number };
 }
 
+/** One place from a search */
+export interface PlaceSummary {
+  id: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  rating?: number;
+  ratingCount?: number;
+  /** "$" to "$$$$", or "free" */
+  priceLevel?: string;
+  openNow?: boolean;
+}
+
+/** A place with its details (place_details) */
+export interface PlaceDetails extends PlaceSummary {
+  phone?: string;
+  website?: string;
+  summary?: string;
+  /** "Monday: 7:00 AM – 9:00 PM", one per day (in the user's language) */
+  hours: string[];
+  /** RFC 3339 — when it next opens/closes */
+  nextOpenTime?: string;
+  nextCloseTime?: string;
+  reviews: { rating?: number; text: string; when?: string }[];
+}
+
+const SEARCH_FIELDS = [
+  "places.id",
+  "places.displayName",
+  "places.formattedAddress",
+  "places.location",
+  "places.rating",
+  "places.userRatingCount",
+  "places.priceLevel",
+  "places.currentOpeningHours.openNow",
+].join(",");
+
+const DETAILS_FIELDS = [
+  "id",
+  "displayName",
+  "formattedAddress",
+  "location",
+  "rating",
+  "userRatingCount",
+  "priceLevel",
+  "currentOpeningHours",
+  "regularOpeningHours",
+  "nationalPhoneNumber",
+  "internationalPhoneNumber",
+  "websiteUri",
+  "editorialSummary",
+  "reviews",
+].join(",");
+
+const PRICE_LEVELS: Record<string, string> = {
+  PRICE_LEVEL_FREE: "free",
+  PRICE_LEVEL_INEXPENSIVE: "$",
+  PRICE_LEVEL_MODERATE: "$$",
+  PRICE_LEVEL_EXPENSIVE: "$$$",
+  PRICE_LEVEL_VERY_EXPENSIVE: "$$$$",
+};
+
 /**
- * Create a places search tool bound to the user's current coordinates.
+ * What to tell the user when the Places API refuses a request.
  */
-export function createPlacesTool(lat: number, lng: number, apiKey: string) {
-  return tool({
-    description:
-      "Search for nearby places like restaurants, cafes, gas stations, pharmacies, etc. " +
-      "Use when the user asks to find a place near them. Returns the top results with name, address, rating, and open/closed status.",
-    inputSchema: z.object({
-      query: z
-        .string()
-        .describe("What kind of place to search for, e.g. 'coffee shop', 'gas station', 'Italian restaurant'"),
-      radius: z
-        .number()
-        .optional()
-        .describe("Search radius in meters (default 1000, max 5000)"),
-    }),
-    execute: async ({ query, radius = 1000 }) => {
-      console.log(`📍 Searching nearby places: "${query}" within ${radius}m of ${lat},${lng}`);
-
-      try {
-        const response = await fetch("https://places.googleapis.com/v1/places:searchText", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-Goog-Api-Key": apiKey,
-            "X-Goog-FieldMask":
-              "places.displayName,places.formattedAddress,places.rating,places.userRatingCount,places.currentOpeningHours",
-          },
-          body: JSON.stringify({
-            textQuery: query,
-            locationBias: {
-              circle: {
-                center: { latitude: lat, longitude: lng },
-                radius: Math.min(radius, 5000),
-              },
+function placesApiErrorMessage(status: number, body: string): string {
+  const lower = body.toLowerCase();
+  if (status === 429 || lower.includes("quota") || lower.includes("resource_exhausted") || lower.includes("rate limit")) {
+    return "The Google Places API has reached its usage limit. Please check your Google Cloud billing or quota settings.";
+  }
+  if (lower.includes("billing")) {
+    return "The Google Places API requires billing to be enabled in your Google Cloud Console.";
+  }
+  if (status === 403) {
+    return "The Google Places API isn't enabled for your API key. Please enable it in Google Cloud Console.";
+  }
+  return "Places search failed. Try asking me to search the web instead.";
+}
+
+/**
+ * A search result as a PlaceSummary (null without an ID or location).
+ */
+export function parsePlaceSummary(place: PlaceResult): PlaceSummary | null {
+  if (!place.id || !place.location) return null;
+  return {
+    id: place.id,
+    name: place.displayName?.text || "Unknown",
+    address: place.formattedAddress || "",
+    lat: place.location.latitude,
+    lng: place.location.longitude,
+    rating: place.rating,
+    ratingCount: place.userRatingCount,
+    priceLevel: place.priceLevel ? PRICE_LEVELS[place.priceLevel] : undefined,
+    openNow: place.currentOpeningHours?.openNow,
+  };
+}
+
+/**
+ * A Place Details response as PlaceDetails (null without an ID or location).
+ */
+export function parsePlaceDetails(place: PlaceResult): PlaceDetails | null {
+  const summary = parsePlaceSummary(place);
+  if (!summary) return null;
+  return {
+    ...summary,
+    phone: place.nationalPhoneNumber || place.internationalPhoneNumber,
+    website: place.websiteUri,
+    summary: place.editorialSummary?.text,
+    hours: place.currentOpeningHours?.weekdayDescriptions ?? place.regularOpeningHours?.weekdayDescriptions ?? [],
+    nextOpenTime: place.currentOpeningHours?.nextOpenTime,
+    nextCloseTime: place.currentOpeningHours?.nextCloseTime,
+    reviews: (place.reviews ?? [])
+      .filter(review => review.text?.text)
+      .slice(0, PLACES_SETTINGS.maxReviews)
+      .map(review => ({
+        rating: review.rating,
+        text: truncate(review.text!.text!.replace(/\s+/g, " ").trim(), PLACES_SETTINGS.reviewExcerptChars),
+        when: review.relativePublishTimeDescription,
+      })),
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+/** A place resolved to coordinates */
+export interface FoundPlace {
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Find the best-matching place for a query near a location ("the grocery
+ * store", "Trader Joe's on Main"). Without a location (e.g. an address typed
+ * in Settings) the search isn't biased. Returns null if nothing matched or
+ * the request failed.
+ */
+export async function findPlace(
+  query: string,
+  near: { lat: number; lng: number } | null,
+  radiusM: number,
+  apiKey: string,
+  languageCode = "en",
+): Promise<FoundPlace | null> {
+  try {
+    const response = await fetch("https://places.googleapis.com/v1/places:searchText", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": apiKey,
+        "X-Goog-FieldMask": "places.displayName,places.formattedAddress,places.location",
+      },
+      body: JSON.stringify({
+        textQuery: query,
+        ...(near ? {
+          locationBias: {
+            circle: {
+              center: { latitude: near.lat, longitude: near.lng },
+              radius: Math.min(radiusM, 50000),
             },
-            maxResultCount: 5,
-            languageCode: "en",
-          }),
-        });
-
-        if (!response.ok) {
-          const errText = await response.text();
-          console.error(`❌ Places API error: ${response.status} — ${errText}`);
-          const lower = errText.toLowerCase();
-          if (response.status === 429 || lower.includes("quota") || lower.includes("resource_exhausted") || lower.includes("rate limit")) {
-            return { results: "The Google Places API has reached its usage limit. Please check your Google Cloud billing or quota settings." };
-          }
-          if (lower.includes("billing")) {
-            return { results: "The Google Places API requires billing to be enabled in your Google Cloud Console." };
-          }
-          if (response.status === 403) {
-            return { results: "The Google Places API isn't enabled for your API key. Please enable it in Google Cloud Console." };
-          }
-          return { results: "Places search failed. Try asking me to search the web instead." };
-        }
+          },
+        } : {}),
+        maxResultCount: 1,
+        languageCode,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error(`❌ Places API error: ${response.status} — ${await response.text()}`);
+      return null;
+    }
+
+    const data = await response.json();
+    const place: PlaceResult | undefined = data.places?.[0];
+    if (!place?.location) return null;
+
+    return {
+      name: place.displayName?.text || query,
+      address: place.formattedAddress || "",
+      lat: place.location.latitude,
+      lng: place.location.longitude,
+    };
+  } catch (error) {
+    console.error("❌ Place lookup error:", error);
+    return null;
+  }
+}
 
-        const data = await response.json();
-        const places: PlaceResult[] = data.places || [];
+/**
+ * Text search near a location ("coffee", "vegan bakery"). Returns the
+ * places found, or a message for the user when the search failed.
+ */
+export async function searchPlaces(
+  query: string,
+  near: LatLng,
+  radiusM: number,
+  apiKey: string,
+  languageCode = "en",
+  openNow = false,
+): Promise<PlaceSummary[] | string> {
+  try {
+    const response = await fetch("https://places.googleapis.com/v1/places:searchText", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": apiKey,
+        "X-Goog-FieldMask": SEARCH_FIELDS,
+      },
+      body: JSON.stringify({
+        textQuery: query,
+        locationBias: {
+          circle: {
+            center: { latitude: near.lat, longitude: near.lng },
+            radius: Math.min(radiusM, PLACES_SETTINGS.maxRadiusM),
+          },
+        },
+        ...(openNow ? { openNow: true } : {}),
+        maxResultCount: PLACES_SETTINGS.maxResults,
+        languageCode,
+      }),
+    });
 
+    if (!response.ok) {
+      const errText = await response.text();
+      console.error(`❌ Places API error: ${response.status} — ${errText}`);
+      return placesApiErrorMessage(response.status, errText);
+    }
+
+    const data = await response.json();
+    return ((data.places || []) as PlaceResult[])
+      .map(parsePlaceSummary)
+      .filter((place): place is PlaceSummary => place !== null);
+  } catch (error) {
+    console.error("❌ Places search error:", error);
+    return "Places search failed due to an error.";
+  }
+}
+
+/**
+ * Hours, phone, price level, and reviews for one place. Returns a message
+ * for the user instead when the lookup failed.
+ */
+export async function fetchPlaceDetails(id: string, apiKey: string, languageCode = "en"): Promise<PlaceDetails | string> {
+  try {
+    const response = await fetch(
+      `https://places.googleapis.com/v1/places/${encodeURIComponent(id)}?languageCode=${languageCode}`,
+      {
+        headers: {
+          "X-Goog-Api-Key": apiKey,
+          "X-Goog-FieldMask": DETAILS_FIELDS,
+        },
+      },
+    );
+
+    if (!response.ok) {
+      const errText = await response.text();
+      console.error(`❌ Place Details API error: ${response.status} — ${errText}`);
+      return placesApiErrorMessage(response.status, errText);
+    }
+
+    return parsePlaceDetails(await response.json()) ?? "Couldn't get details for that place.";
+  } catch (error) {
+    console.error("❌ Place details error:", error);
+    return "Place details failed due to an error.";
+  }
+}
+
+/**
+ * Pick a place from the last result list — by 1-based position ("the second
+ * one" → 2) or by name ("Blue Bottle"). Returns undefined when it doesn't match.
+ */
+export function pickPlace(
+  results: PlaceSummary[],
+  reference: { position?: number; name?: string },
+): PlaceSummary | undefined {
+  if (reference.position !== undefined) {
+    // -1 is "the last one"
+    const index = reference.position < 0 ? results.length + reference.position : reference.position - 1;
+    return results[index];
+  }
+
+  const wanted = reference.name?.toLowerCase().trim();
+  if (!wanted) return undefined;
+  return results.find(place => place.name.toLowerCase() === wanted)
+    ?? results.find(place => place.name.toLowerCase().includes(wanted) || wanted.includes(place.name.toLowerCase()));
+}
+
+/**
+ * Numbered result list for the agent ("1. Blue Bottle 4.5★ (812 reviews) $$ — 0.2 miles").
+ */
+export function formatPlaceList(places: PlaceSummary[], origin: LatLng, language: Language = "en"): string {
+  return places.map((place, i) => {
+    const rating = place.rating ? ` ${place.rating}★` : "";
+    const reviews = place.ratingCount ? ` (${place.ratingCount} reviews)` : "";
+    const price = place.priceLevel ? ` ${place.priceLevel}` : "";
+    const open = place.openNow !== undefined ? (place.openNow ? " — Open now" : " — Closed") : "";
+    const distance = formatDistance(distanceMeters(origin, place), language);
+    return `${i + 1}. ${place.name}${rating}${reviews}${price} — ${distance}\n   ${place.address}${open}`;
+  }).join("\n\n");
+}
+
+/**
+ * Details for the agent, with the next opening/closing time in the user's
+ * timezone.
+ */
+export function formatPlaceDetails(details: PlaceDetails, locale = "en-US", timezone?: string): string {
+  const time = (iso: string) => {
+    const date = new Date(iso);
+    const clock = date.toLocaleTimeString(locale, { timeZone: timezone, hour: "numeric", minute: "2-digit" });
+    const sameDay = date.toLocaleDateString("en-CA", { timeZone: timezone }) === new Date().toLocaleDateString("en-CA", { timeZone: timezone });
+    return sameDay ? clock : `${date.toLocaleDateString(locale, { timeZone: timezone, weekday: "long" })} ${clock}`;
+  };
+
+  const status = details.openNow === undefined
+    ? null
+    : details.openNow
+      ? `Open now${details.nextCloseTime ? `, closes ${time(details.nextCloseTime)}` : ""}`
+      : `Closed now${details.nextOpenTime ? `, opens ${time(details.nextOpenTime)}` : ""}`;
+
+  const lines = [
+    details.name,
+    details.address,
+    status,
+    details.rating ? `Rating: ${details.rating}★${details.ratingCount ? ` (${details.ratingCount} reviews)` : ""}` : null,
+    details.priceLevel ? `Price: ${details.priceLevel}` : null,
+    details.phone ? `Phone: ${details.phone}` : null,
+    details.website ? `Website: ${details.website}` : null,
+    details.summary ? `About: ${details.summary}` : null,
+    details.hours.length > 0 ? `Hours:\n${details.hours.map(day => `  ${day}`).join("\n")}` : null,
+    details.reviews.length > 0
+      ? `Reviews:\n${details.reviews.map(r => `  - ${r.rating ? `${r.rating}★ ` : ""}${r.when ? `(${r.when}) ` : ""}"${r.text}"`).join("\n")}`
+      : null,
+  ];
+  return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * Create the place tools bound to the user's current coordinates and the
+ * session's result list. Results (names, addresses, hours) come back in the
+ * user's language.
+ */
+export function createPlaceTools(placeResults: PlaceResultsManager, lat: number, lng: number) {
+  const origin = { lat, lng };
+
+  return {
+    nearby_places: tool({
+      description:
+        "Search for places near the user — a kind of place ('coffee shop', 'gas station'), a specific want ('vegan bakery', " +
+        "'late-night pharmacy'), or a name. Returns a numbered list with rating, price, distance, and open/closed status. " +
+        "The list is remembered, so follow-ups like 'the second one' can use place_details.",
+      inputSchema: z.object({
+        query: z
+          .string()
+          .describe("What to search for, e.g. 'coffee shop', 'vegan bakery', 'Italian restaurant'"),
+        radius: z
+          .number()
+          .optional()
+          .describe(`Search radius in meters (default ${PLACES_SETTINGS.defaultRadiusM}, max ${PLACES_SETTINGS.maxRadiusM})`),
+        openNow: z
+          .boolean()
+          .optional()
+          .describe("Only places open right now"),
+      }),
+      execute: async ({ query, radius = PLACES_SETTINGS.defaultRadiusM, openNow = false }) => {
+        console.log(`📍 Searching nearby places: "${query}" within ${radius}m of ${lat},${lng}`);
+
+        const places = await placeResults.search(query, origin, radius, openNow);
+        if (typeof places === "string") return { results: places };
         if (places.length === 0) {
           return { results: `No results found for "${query}" near your location.` };
         }
 
-        const formatted = places.map((p, i) => {
-          const name = p.displayName?.text || "Unknown";
-          const addr = p.formattedAddress || "";
-          const rating = p.rating ? `${p.rating}★` : "";
-          const reviews = p.userRatingCount ? `(${p.userRatingCount} reviews)` : "";
-          const open = p.currentOpeningHours?.openNow !== undefined
-            ? (p.currentOpeningHours.openNow ? "Open now" : "Closed")
-            : "";
-          return `${i + 1}. ${name} ${rating} ${reviews}\n   ${addr}${open ? ` — ${open}` : ""}`;
-        }).join("\n\n");
-
         console.log(`✅ Places: found ${places.length} results`);
-        return { results: formatted };
-
-      } catch (error) {
-        console.error("❌ Places search error:", error);
-        return { results: "Places search failed due to an error." };
-      }
-    },
-  });
+        return { results: formatPlaceList(places, origin, placeResults.language) };
+      },
+    }),
+
+    place_details: tool({
+      description:
+        "Opening hours, open now / closing time, rating, phone number, price level, website, and recent reviews for one place. " +
+        "Refer to a place from the last nearby_places list by its number ('the second one' → position 2, 'the last one' → -1) " +
+        "or by name. With neither, uses the place the user was just talking about. A name not in the list is searched near the user.",
+      inputSchema: z.object({
+        position: z
+          .number()
+          .int()
+          .optional()
+          .describe("1-based position in the last nearby_places list (-1 for the last one)"),
+        name: z
+          .string()
+          .optional()
+          .describe("Place name, e.g. 'Blue Bottle' or 'the Louvre'"),
+      }),
+      execute: async ({ position, name }) => {
+        const place = await placeResults.resolve({ position, name }, origin);
+        if (typeof place === "string") return { result: place };
+
+        const details = await placeResults.getDetails(place);
+        if (typeof details === "string") return { result: details };
+
+        return { result: placeResults.formatDetails(details) };
+      },
+    }),
+  };
 }
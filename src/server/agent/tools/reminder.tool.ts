@@ -0,0 +1,137 @@
+/**
+ * Timer & Reminder Tools
+ *
+ * set_timer / set_reminder / set_location_reminder / list_reminders /
+ * cancel_reminder over the user's reminders. Bound to the session's
+ * ReminderManager; clock times are read in the user's timezone.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import { matchReminder, type Reminder, type ReminderManager } from "../../manager/ReminderManager";
+import { formatLocalDateTime, zonedTimeToUtc } from "../../utils/timezone";
+
+/** "10 minutes", "1 hour 30 minutes", "45 seconds" */
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.round(seconds % 60);
+  const parts = [
+    hours ? `${hours} hour${hours === 1 ? "" : "s"}` : "",
+    minutes ? `${minutes} minute${minutes === 1 ? "" : "s"}` : "",
+    secs ? `${secs} second${secs === 1 ? "" : "s"}` : "",
+  ].filter(Boolean);
+  return parts.join(" ") || "0 seconds";
+}
+
+/** "at <local clock time>" when the timezone is known, otherwise "in <how long>" */
+function formatDueTime(dueAt: Date, timezone?: string): string {
+  if (timezone) return `at ${formatLocalDateTime(dueAt, timezone)}`;
+  return `in ${formatDuration(Math.max(0, (dueAt.getTime() - Date.now()) / 1000))}`;
+}
+
+/**
+ * Create the reminder tools bound to one user's reminders.
+ */
+export function createReminderTools(reminders: ReminderManager, timezone?: string) {
+  const describe = (r: Reminder) => r.place
+    ? `${r.kind}: "${r.message}" when you ${r.place.trigger === "enter" ? "arrive at" : "leave"} ${r.place.name}`
+    : `${r.kind}: "${r.message}" ${r.dueAt ? formatDueTime(r.dueAt, r.timezone ?? timezone) : "at an unknown time"}`;
+
+  return {
+    set_timer: tool({
+      description:
+        "Start a countdown timer. Use for \"set a timer for 10 minutes\" or \"timer for the pasta, 8 minutes\". " +
+        "The glasses announce it when time is up.",
+      inputSchema: z.object({
+        seconds: z.number().positive().describe("Timer length in seconds, e.g. 600 for 10 minutes"),
+        label: z.string().optional().describe("What the timer is for, e.g. 'pasta' (optional)"),
+      }),
+      execute: async ({ seconds, label }) => {
+        const duration = formatDuration(seconds);
+        const message = label ? `${label} timer (${duration})` : `${duration} timer`;
+        const result = await reminders.create("timer", message, new Date(Date.now() + seconds * 1000));
+        if (typeof result === "string") return { result };
+        return { result: `Timer set for ${duration}${label ? ` (${label})` : ""}.` };
+      },
+    }),
+
+    set_reminder: tool({
+      description:
+        "Set a reminder or alarm for a clock time or a delay. Use for \"remind me at 3pm to call mom\", " +
+        "\"remind me in 20 minutes to check the oven\", or \"wake me at 7\" (kind 'alarm'). " +
+        "Give either 'at' (local time, using today's date from your context) or 'inMinutes'.",
+      inputSchema: z.object({
+        message: z.string().describe("What to remind the user of, e.g. 'call mom'. For alarms, a short label like 'wake up'"),
+        kind: z.enum(["reminder", "alarm"]).optional().describe("'alarm' for wake-up style alarms, otherwise 'reminder'"),
+        at: z.string().optional().describe("Local date and time in the user's timezone as YYYY-MM-DDTHH:mm, e.g. '2026-03-14T15:00'"),
+        inMinutes: z.number().positive().optional().describe("Minutes from now, e.g. 20"),
+      }),
+      execute: async ({ message, kind = "reminder", at, inMinutes }) => {
+        let dueAt: Date | null;
+        if (at) {
+          if (!timezone) {
+            return { result: "The user's timezone isn't known yet (it comes from their location), so a clock time can't be used. Ask how many minutes from now instead." };
+          }
+          dueAt = zonedTimeToUtc(at, timezone);
+          if (!dueAt) return { result: "Give the time as YYYY-MM-DDTHH:mm." };
+        } else if (inMinutes) {
+          dueAt = new Date(Date.now() + inMinutes * 60 * 1000);
+        } else {
+          return { result: "Say when — a time or how many minutes from now." };
+        }
+
+        const result = await reminders.create(kind, message, dueAt);
+        if (typeof result === "string") return { result };
+        return { result: `${kind === "alarm" ? "Alarm" : "Reminder"} set ${formatDueTime(dueAt, timezone)}: ${result.message}` };
+      },
+    }),
+
+    set_location_reminder: tool({
+      description:
+        "Set a reminder that fires when the user arrives at or leaves a place, e.g. \"remind me to buy milk when I get to " +
+        "the grocery store\" (when 'arrive') or \"remind me to grab my badge when I leave work\" (when 'leave'). " +
+        "The place is looked up near the user; use 'here' for where they are right now.",
+      inputSchema: z.object({
+        message: z.string().describe("What to remind the user of, e.g. 'buy milk'"),
+        place: z.string().describe("The place, e.g. 'the grocery store', 'Trader Joe's on Main St', or 'here'"),
+        when: z.enum(["arrive", "leave"]).describe("'arrive' to fire on getting there, 'leave' to fire on leaving"),
+        radiusMeters: z.number().positive().optional().describe("How close counts as being there, in meters (default 150)"),
+      }),
+      execute: async ({ message, place, when, radiusMeters }) => {
+        const resolved = await reminders.resolvePlace(place);
+        if (typeof resolved === "string") return { result: resolved };
+
+        const result = await reminders.createAtPlace(message, resolved, when === "arrive" ? "enter" : "exit", radiusMeters);
+        if (typeof result === "string") return { result };
+        return { result: `Reminder set for when you ${when === "arrive" ? "arrive at" : "leave"} ${resolved.name}: ${result.message}` };
+      },
+    }),
+
+    list_reminders: tool({
+      description: "List the user's pending timers, alarms, and reminders with their times or places.",
+      inputSchema: z.object({}),
+      execute: async () => {
+        const pending = reminders.list();
+        if (pending.length === 0) return { results: "No timers or reminders are set." };
+        return { results: pending.map(describe) };
+      },
+    }),
+
+    cancel_reminder: tool({
+      description:
+        "Cancel a pending timer, alarm, or reminder. Describe it with its key words " +
+        "(\"the pasta timer\", \"call mom\", \"the grocery store one\") — the best match is cancelled.",
+      inputSchema: z.object({
+        which: z.string().describe("Key words for the one to cancel, e.g. 'pasta timer' or 'call mom'"),
+      }),
+      execute: async ({ which }) => {
+        const match = matchReminder(reminders.list(), which);
+        if (!match) return { result: "No pending timer or reminder matches that." };
+        const cancelled = await reminders.cancel(match.id);
+        if (!cancelled) return { result: "Couldn't cancel that right now." };
+        return { result: `Cancelled ${describe(match)}` };
+      },
+    }),
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Saved Place Tools
+ *
+ * save_place / forget_place / weather_at_place over the user's saved places
+ * ("home", "work", "the gym"). Bound to the session's SavedPlacesManager.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { SavedPlacesManager } from "../../manager/SavedPlacesManager";
+import { formatTemperature } from "../../manager/location-providers/types";
+
+/**
+ * Create the saved place tools bound to one user's places. weather_at_place
+ * needs a location backend (withWeather).
+ */
+export function createSavedPlaceTools(savedPlaces: SavedPlacesManager, withWeather: boolean) {
+  return {
+    save_place: tool({
+      description:
+        "Save a named place the user can refer to later (\"save this place as the gym\", \"my work address is 1 Market St\"). " +
+        "Without an address, saves where the user is right now. Saving a name again moves it.",
+      inputSchema: z.object({
+        name: z.string().describe("Short name for the place, e.g. 'home', 'work', 'the gym'"),
+        address: z.string().optional().describe("Address or place to look up, e.g. '1 Market St, San Francisco'. Omit for the current location"),
+      }),
+      execute: async ({ name, address }) => {
+        const result = address ? await savedPlaces.saveAddress(name, address) : await savedPlaces.saveHere(name);
+        if (typeof result === "string") return { result };
+        return { result: `Saved "${result.name}"${result.address ? ` at ${result.address}` : ""}.` };
+      },
+    }),
+
+    forget_place: tool({
+      description: "Delete one of the user's saved places (\"forget my gym\").",
+      inputSchema: z.object({
+        name: z.string().describe("Name of the saved place, e.g. 'gym'"),
+      }),
+      execute: async ({ name }) => {
+        const place = savedPlaces.find(name);
+        if (!place) return { result: `There's no saved place called "${name}".` };
+        const deleted = await savedPlaces.remove(place.id);
+        if (!deleted) return { result: "Couldn't delete that place right now." };
+        return { result: `Forgot "${place.name}".` };
+      },
+    }),
+
+    ...(withWeather ? {
+      weather_at_place: tool({
+        description:
+          "Current weather at one of the user's saved places (\"what's the weather at home?\"). " +
+          "For weather where the user is now, use the weather in your context instead.",
+        inputSchema: z.object({
+          place: z.string().describe("Name of the saved place, e.g. 'home'"),
+        }),
+        execute: async ({ place }) => {
+          const saved = savedPlaces.find(place);
+          if (!saved) return { result: `There's no saved place called "${place}".` };
+
+          const weather = await savedPlaces.getWeather(saved);
+          if (!weather) return { result: `Couldn't get the weather at ${saved.name} right now.` };
+
+          const details = [
+            weather.humidity !== undefined ? `humidity ${weather.humidity}%` : null,
+            weather.wind ? `wind ${weather.wind}` : null,
+          ].filter(Boolean).join(", ");
+          return {
+            result: `Weather at ${saved.name}: ${formatTemperature(weather.temperature, weather.temperatureCelsius)}, ${weather.condition}${details ? `, ${details}` : ""}.`,
+          };
+        },
+      }),
+    } : {}),
+  };
+}
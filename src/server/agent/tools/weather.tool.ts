@@ -0,0 +1,73 @@
+/**
+ * Weather Forecast Tool — Google Weather or open data, per the user's location backend
+ *
+ * Hourly (next 24h) and daily (next 7 days) forecasts for the user's location
+ * or a saved place. Current conditions stay in the prompt context; forecasts
+ * are only fetched when the agent asks for them.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { LocationManager, WeatherForecast } from "../../manager/LocationManager";
+import { findSavedPlace, type SavedPlace } from "../../manager/SavedPlacesManager";
+import { formatTemperature } from "../../manager/location-providers/types";
+
+/** "Mon, Oct 19" (or just "Mon") for a YYYY-MM-DD date */
+function dayLabel(date: string, withDate = true): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", {
+    weekday: "short",
+    ...(withDate ? { month: "short", day: "numeric" } : {}),
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Format a forecast for the model — one line per hour, then one per day.
+ */
+export function formatForecast(forecast: WeatherForecast, placeLabel: string): string {
+  const hourly = forecast.hourly.map(h =>
+    `- ${dayLabel(h.date, false)} ${h.time}: ${formatTemperature(h.temperature, h.temperatureCelsius)}, ${h.condition}, ${h.precipitationChance}% chance of precipitation`,
+  );
+  const daily = forecast.daily.map(d =>
+    `- ${dayLabel(d.date)}: high ${formatTemperature(d.high, d.highCelsius)} / low ${formatTemperature(d.low, d.lowCelsius)}, ${d.condition}` +
+    `${d.nightCondition ? `, night: ${d.nightCondition}` : ""}, ${d.precipitationChance}% chance of precipitation`,
+  );
+
+  return [
+    `Forecast for ${placeLabel} (times are local there):`,
+    ...(hourly.length > 0 ? ["Next hours:", ...hourly] : []),
+    ...(daily.length > 0 ? ["Next days:", ...daily] : []),
+  ].join("\n");
+}
+
+/**
+ * Create the forecast tool bound to the user's location. Saved place names
+ * resolve to their saved coordinates.
+ */
+export function createForecastTool(location: LocationManager, savedPlaces: SavedPlace[] = []) {
+  return tool({
+    description:
+      "Get the hourly (next 24 hours) and daily (next 7 days) weather forecast. Use for questions about later today, " +
+      "tomorrow, or the coming days (\"will it rain this afternoon?\", \"what's the weather this weekend?\"). " +
+      "For right now, use the current weather in your context.",
+    inputSchema: z.object({
+      place: z.string().optional().describe("A saved place name like 'home' (omit for the user's current location)"),
+    }),
+    execute: async ({ place }) => {
+      const saved = place ? findSavedPlace(savedPlaces, place) : undefined;
+      if (place && !saved) {
+        return { results: `There's no saved place called "${place}". I can only forecast the user's location or a saved place.` };
+      }
+      if (!saved && !location.hasLocation()) {
+        return { results: "The user's location isn't available right now." };
+      }
+
+      const forecast = saved ? await location.getForecast(saved.lat, saved.lng) : await location.getForecast();
+      if (!forecast) {
+        return { results: location.lastApiError?.userMessage ?? "The forecast isn't available right now." };
+      }
+      return { results: formatForecast(forecast, saved ? saved.name : "the user's location") };
+    },
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * Live Translation — translate-mode voice command and the per-utterance LLM call
+ *
+ * "Translate Spanish to English" switches TranscriptionManager into translate
+ * mode (see TranslationManager): the other party's final transcripts are
+ * translated until the user says a closer.
+ */
+
+import { generateText } from "ai";
+import { resolveLLMModel, routeModelId } from "./providers/registry";
+import type { UserAIConfig } from "./providers/types";
+import { LANGUAGES, type Language } from "../constants/languages";
+import { TRANSLATION_SETTINGS } from "../constants/config";
+import { recordUsage, type UsageContext } from "../manager/usage-tracking";
+
+/** source = what the other party speaks, target = what the user hears/reads */
+export interface TranslationPair {
+  source: Language;
+  target: Language;
+}
+
+const TRANSLATE_VERB = /^(?:please\s+)?(?:translate|traduce|traducir|traduis|traduire|übersetze|übersetzen)\b/i;
+
+/** Language names as spoken in any supported language (accents stripped, lowercase) */
+const LANGUAGE_NAMES: Record<string, Language> = {
+  english: "en", ingles: "en", englisch: "en", anglais: "en",
+  spanish: "es", espanol: "es", castellano: "es", spanisch: "es", espagnol: "es",
+  german: "de", aleman: "de", deutsch: "de", allemand: "de",
+  french: "fr", frances: "fr", franzosisch: "fr", francais: "fr",
+};
+
+/** Filler words allowed around the language names ("from", "al", "ins", "vers", ...) */
+const CONNECTORS = new Set([
+  "from", "to", "into", "the", "and", "between", "for", "me", "please", "mode",
+  "de", "del", "al", "a", "el", "en", "y", "entre", "por", "favor", "modo",
+  "la", "le", "l", "vers", "et", "du", "pour", "moi",
+  "von", "vom", "nach", "ins", "in", "aus", "dem", "das", "und", "zwischen", "bitte",
+]);
+
+function normalize(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/** "Deutsche", "Spanischen" → the base name */
+function lookupLanguage(word: string): Language | undefined {
+  return LANGUAGE_NAMES[word] ?? LANGUAGE_NAMES[word.replace(/en?$/, "")];
+}
+
+/**
+ * Parse a translate-mode command. One language means the other party speaks
+ * it and the user hears their own language. Anything besides language names
+ * and filler ("translate hello into Spanish") is a normal question → null.
+ */
+export function parseTranslateCommand(query: string, userLanguage: Language): TranslationPair | null {
+  const trimmed = query.trim();
+  const verb = trimmed.match(TRANSLATE_VERB);
+  if (!verb) return null;
+
+  const words = normalize(trimmed.slice(verb[0].length)).split(/[^a-z]+/).filter(Boolean);
+  const languages: Language[] = [];
+  for (const word of words) {
+    const language = lookupLanguage(word);
+    if (language) {
+      languages.push(language);
+    } else if (!CONNECTORS.has(word)) {
+      return null;
+    }
+  }
+
+  if (languages.length === 1) languages.push(userLanguage);
+  const [source, target] = languages;
+  if (languages.length !== 2 || source === target) return null;
+  return { source, target };
+}
+
+/**
+ * Translate one utterance on the user's "quick" model. Returns null if the
+ * model returned nothing.
+ */
+export async function translateText(
+  text: string,
+  pair: TranslationPair,
+  aiConfig: UserAIConfig,
+  usage: UsageContext,
+): Promise<string | null> {
+  const result = await generateText({
+    model: resolveLLMModel(aiConfig, "quick"),
+    system: `You are a live interpreter. Translate the user's ${LANGUAGES[pair.source].name} speech into ${LANGUAGES[pair.target].name}. The text is a speech-to-text transcript, so quietly fix obvious transcription slips. Reply with ONLY the translation — no notes, quotes, or alternatives.`,
+    prompt: text,
+    maxOutputTokens: TRANSLATION_SETTINGS.maxTokens,
+    temperature: 0,
+  });
+  recordUsage(usage, "translation", aiConfig.llmProvider, routeModelId(aiConfig, "quick"), result.usage);
+  return result.text.trim() || null;
+}
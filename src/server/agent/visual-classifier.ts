@@ -2,15 +2,18 @@
  * Visual Query Classifier
  *
  * Determines whether a user query requires the camera photo to answer.
- * Uses the user's configured LLM provider for a fast, lightweight call (~200-300ms).
+ * Uses the user's configured LLM provider for a fast, lightweight call (~200-300ms),
+ * on the model their routing rules pick for the "classifier" task.
  *
  * Falls back to Gemini via env var if no user config, or returns false on error.
  */
 
 import { generateText } from "ai";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
-import { resolveLLMModel } from "./providers/registry";
+import { resolveLLMModel, routeModelId } from "./providers/registry";
 import type { UserAIConfig } from "./providers/types";
+import { recordUsage, isOverBudget, type UsageContext } from "../manager/usage-tracking";
+import { BUDGET_SETTINGS } from "../constants/config";
 
 const SYSTEM_PROMPT = `You classify queries from a user wearing smart glasses with a camera. The camera sees whatever the user is looking at.
 Answer ONLY "yes" or "no".
@@ -34,12 +37,18 @@ no: "where am I?", "what time is it?", "what's that smell?", "check this out", "
  * Classify whether a query requires visual context (photo from camera).
  * Uses the user's configured LLM provider if available.
  * Returns false on error (defaults to fast path / non-visual).
+ * Token usage is recorded when a usage context is given. Once that user's
+ * monthly budget is reached, a keyword check replaces the LLM call.
  */
-export async function isVisualQuery(query: string, aiConfig?: UserAIConfig): Promise<boolean> {
+export async function isVisualQuery(query: string, aiConfig?: UserAIConfig, usage?: UsageContext): Promise<boolean> {
+  if (usage && isOverBudget(usage.userId)) {
+    return BUDGET_SETTINGS.visualHintPattern.test(query);
+  }
+
   try {
     // Use AI SDK generateText with the user's configured model
     if (aiConfig?.isConfigured) {
-      const model = resolveLLMModel(aiConfig);
+      const model = resolveLLMModel(aiConfig, "classifier");
       const result = await generateText({
         model,
         system: SYSTEM_PROMPT,
@@ -47,6 +56,7 @@ export async function isVisualQuery(query: string, aiConfig?: UserAIConfig): Pro
         maxOutputTokens: 3,
         temperature: 0,
       });
+      if (usage) recordUsage(usage, "visual_classifier", aiConfig.llmProvider, routeModelId(aiConfig, "classifier"), result.usage);
       return result.text.trim().toLowerCase().startsWith("yes");
     }
 
@@ -0,0 +1,253 @@
+import type { Context } from "hono";
+import { and, asc, eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { isDbAvailable, db, assistants, userSettings } from "../db";
+import { TOOL_GROUPS, TOOL_GROUP_IDS, MAX_ASSISTANTS, normalizeWakeWord, type ToolGroup } from "../agent/assistants";
+import { DEFAULT_WAKE_WORDS } from "../utils/wake-word";
+import { isUuid } from "../utils/ids";
+import { PERSONA_IDS, MAX_CUSTOM_INSTRUCTIONS_LENGTH, type PersonaId } from "../agent/personas";
+import { MODEL_CATALOG, type Provider, type StoredFallbackEntry } from "../agent/providers/types";
+
+/** Longest assistant name / wake word we'll accept (characters) */
+const MAX_NAME_LENGTH = 40;
+
+const ASSISTANT_COLUMNS = {
+  id: assistants.id,
+  name: assistants.name,
+  wakeWord: assistants.wakeWord,
+  llmProvider: assistants.llmProvider,
+  llmModel: assistants.llmModel,
+  persona: assistants.persona,
+  customInstructions: assistants.customInstructions,
+  tools: assistants.tools,
+};
+
+type AssistantFields = {
+  name: string;
+  wakeWord: string;
+  llmProvider: Provider;
+  llmModel: string;
+  persona: PersonaId;
+  customInstructions: string | null;
+  tools: ToolGroup[] | null;
+};
+
+/**
+ * Providers the user has saved a key (or custom server) for — primary,
+ * vision, or fallback. Assistants can only use these.
+ */
+async function getSavedProviders(userId: string): Promise<{ providers: Provider[]; wakeWord: string | null }> {
+  const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+  if (!settings) return { providers: [], wakeWord: null };
+
+  const saved = new Set<Provider>();
+  if (settings.llmApiKeyVaultId || settings.llmProvider === "custom") saved.add(settings.llmProvider as Provider);
+  if (settings.visionApiKeyVaultId || settings.visionProvider === "custom") saved.add(settings.visionProvider as Provider);
+  for (const entry of [
+    ...((settings.llmFallbacks ?? []) as StoredFallbackEntry[]),
+    ...((settings.visionFallbacks ?? []) as StoredFallbackEntry[]),
+  ]) {
+    if (entry.apiKeyVaultId || entry.provider === "custom") saved.add(entry.provider);
+  }
+  saved.delete("none");
+
+  return { providers: [...saved], wakeWord: settings.wakeWord };
+}
+
+/** Validate an assistant from a request body — returns the cleaned fields or an error */
+function parseAssistant(body: Record<string, unknown>): AssistantFields | { error: string } {
+  const { name, wakeWord, llmProvider, llmModel, persona, customInstructions, tools } = body;
+
+  if (typeof name !== "string" || !name.trim()) return { error: "name is required" };
+  if (typeof wakeWord !== "string" || !wakeWord.trim()) return { error: "wakeWord is required" };
+  if (name.trim().length > MAX_NAME_LENGTH || wakeWord.trim().length > MAX_NAME_LENGTH) {
+    return { error: `name and wakeWord must be ${MAX_NAME_LENGTH} characters or fewer` };
+  }
+  if (typeof llmProvider !== "string" || typeof llmModel !== "string" || !llmModel) {
+    return { error: "llmProvider and llmModel are required" };
+  }
+  if (llmProvider !== "custom" && !MODEL_CATALOG[llmProvider as Provider]?.some(m => m.id === llmModel)) {
+    return { error: `Unknown ${llmProvider} model: ${llmModel}` };
+  }
+  if (persona !== undefined && !PERSONA_IDS.includes(persona as PersonaId)) {
+    return { error: `Unknown persona: ${persona}` };
+  }
+  if (customInstructions != null && typeof customInstructions !== "string") {
+    return { error: "customInstructions must be a string" };
+  }
+  if (customInstructions && customInstructions.length > MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+    return { error: `Custom instructions must be ${MAX_CUSTOM_INSTRUCTIONS_LENGTH} characters or fewer` };
+  }
+  if (tools != null && (!Array.isArray(tools) || tools.some(t => !TOOL_GROUP_IDS.includes(t as ToolGroup)))) {
+    return { error: `tools must be a list of: ${TOOL_GROUP_IDS.join(", ")}` };
+  }
+
+  return {
+    name: name.trim(),
+    wakeWord: wakeWord.trim(),
+    llmProvider: llmProvider as Provider,
+    llmModel,
+    persona: (persona as PersonaId | undefined) ?? "default",
+    customInstructions: customInstructions?.trim() || null,
+    tools: (tools as ToolGroup[] | null | undefined) ?? null,
+  };
+}
+
+/**
+ * Check an assistant against the user's other wake words and saved providers.
+ * Returns an error message, or null if it's fine to save.
+ */
+async function checkConflicts(userId: string, fields: AssistantFields, excludeId?: string): Promise<string | null> {
+  const { providers, wakeWord } = await getSavedProviders(userId);
+  if (!providers.includes(fields.llmProvider)) {
+    return `Add a ${fields.llmProvider} key under AI providers (primary, vision, or fallback) before using it for an assistant`;
+  }
+
+  // The built-in wake word is always listened for, even when the user saved their own
+  const wake = normalizeWakeWord(fields.wakeWord);
+  if ([wakeWord, ...DEFAULT_WAKE_WORDS].some(word => word && normalizeWakeWord(word) === wake)) {
+    return `"${fields.wakeWord}" is already your main wake word`;
+  }
+  const others = await db
+    .select({ id: assistants.id, wakeWord: assistants.wakeWord })
+    .from(assistants)
+    .where(eq(assistants.userId, userId));
+  if (others.some(a => a.id !== excludeId && normalizeWakeWord(a.wakeWord) === wake)) {
+    return `Another assistant already uses "${fields.wakeWord}"`;
+  }
+  if (!excludeId && others.length >= MAX_ASSISTANTS) {
+    return `At most ${MAX_ASSISTANTS} assistants are allowed`;
+  }
+  return null;
+}
+
+/** GET /assistants — the user's assistants, tool groups, and the providers they can use */
+export async function getAssistants(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  const toolGroups = TOOL_GROUP_IDS.map(id => ({ id, name: TOOL_GROUPS[id] }));
+  if (!isDbAvailable()) {
+    return c.json({ assistants: [], toolGroups, providers: [], maxAssistants: MAX_ASSISTANTS });
+  }
+
+  try {
+    const [rows, { providers }] = await Promise.all([
+      db
+        .select(ASSISTANT_COLUMNS)
+        .from(assistants)
+        .where(eq(assistants.userId, userId))
+        .orderBy(asc(assistants.createdAt)),
+      getSavedProviders(userId),
+    ]);
+
+    return c.json({ assistants: rows, toolGroups, providers, maxAssistants: MAX_ASSISTANTS });
+  } catch (error) {
+    console.error("Error fetching assistants:", error);
+    return c.json({ error: "Failed to fetch assistants" }, 500);
+  }
+}
+
+/**
+ * POST /assistants — Create a named assistant.
+ * Body: { name, wakeWord, llmProvider, llmModel, persona?, customInstructions?, tools? }
+ * tools: enabled tool groups, or null for all tools.
+ */
+export async function createAssistant(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const parsed = parseAssistant(await c.req.json());
+    if ("error" in parsed) return c.json({ error: parsed.error }, 400);
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const conflict = await checkConflicts(userId, parsed);
+    if (conflict) return c.json({ error: conflict }, 400);
+
+    const [assistant] = await db
+      .insert(assistants)
+      .values({ userId, ...parsed })
+      .returning(ASSISTANT_COLUMNS);
+
+    await sessions.get(userId)?.assistants.initialize();
+
+    return c.json({ success: true, assistant });
+  } catch (error) {
+    console.error("Error creating assistant:", error);
+    return c.json({ error: "Failed to save assistant" }, 500);
+  }
+}
+
+/**
+ * PUT /assistants/:id — Replace an assistant's settings.
+ * Body: same as POST /assistants
+ */
+export async function updateAssistant(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+  const id = c.req.param("id");
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isUuid(id)) return c.json({ error: "Assistant not found" }, 404);
+
+  try {
+    const parsed = parseAssistant(await c.req.json());
+    if ("error" in parsed) return c.json({ error: parsed.error }, 400);
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const conflict = await checkConflicts(userId, parsed, id);
+    if (conflict) return c.json({ error: conflict }, 400);
+
+    const [assistant] = await db
+      .update(assistants)
+      .set({ ...parsed, updatedAt: new Date() })
+      .where(and(eq(assistants.id, id), eq(assistants.userId, userId)))
+      .returning(ASSISTANT_COLUMNS);
+
+    if (!assistant) return c.json({ error: "Assistant not found" }, 404);
+
+    await sessions.get(userId)?.assistants.initialize();
+
+    return c.json({ success: true, assistant });
+  } catch (error) {
+    console.error("Error updating assistant:", error);
+    return c.json({ error: "Failed to update assistant" }, 500);
+  }
+}
+
+/** DELETE /assistants/:id — Delete an assistant (its past exchanges are kept) */
+export async function deleteAssistant(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+  const id = c.req.param("id");
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isUuid(id)) return c.json({ error: "Assistant not found" }, 404);
+
+  if (!isDbAvailable()) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+
+  try {
+    const deleted = await db
+      .delete(assistants)
+      .where(and(eq(assistants.id, id), eq(assistants.userId, userId)))
+      .returning({ id: assistants.id });
+
+    if (deleted.length === 0) return c.json({ error: "Assistant not found" }, 404);
+
+    await sessions.get(userId)?.assistants.initialize();
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting assistant:", error);
+    return c.json({ error: "Failed to delete assistant" }, 500);
+  }
+}
@@ -0,0 +1,87 @@
+import type { Context } from "hono";
+import { and, desc, eq, gte } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { ENVIRONMENT_ALERT_CONTEXT_TYPE } from "../manager/EnvironmentMonitor";
+import { DEFAULT_ENVIRONMENT_ALERTS, normalizeEnvironmentAlertConfig } from "../manager/environment-alerts";
+import { isDbAvailable, db, userContext, userSettings } from "../db";
+
+/** Alerts listed in Settings */
+const RECENT_ALERT_LIMIT = 20;
+
+/** GET /settings/environment-alerts — alert settings plus the alerts delivered this past week */
+export async function getEnvironmentAlerts(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ config: DEFAULT_ENVIRONMENT_ALERTS, recent: [] });
+
+  try {
+    const [settings] = await db
+      .select({ environmentAlerts: userSettings.environmentAlerts })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const stored = settings?.environmentAlerts ? normalizeEnvironmentAlertConfig(settings.environmentAlerts) : null;
+    const config = stored && typeof stored !== "string" ? stored : DEFAULT_ENVIRONMENT_ALERTS;
+
+    const rows = await db
+      .select({ data: userContext.data })
+      .from(userContext)
+      .where(
+        and(
+          eq(userContext.userId, userId),
+          eq(userContext.contextType, ENVIRONMENT_ALERT_CONTEXT_TYPE),
+          gte(userContext.expiresAt, new Date()),
+        ),
+      )
+      .orderBy(desc(userContext.createdAt))
+      .limit(RECENT_ALERT_LIMIT);
+
+    return c.json({ config, recent: rows.map(row => row.data) });
+  } catch (error) {
+    console.error("Error fetching environment alerts:", error);
+    return c.json({ error: "Failed to fetch environment alerts" }, 500);
+  }
+}
+
+/**
+ * PUT /settings/environment-alerts — Save the alert settings.
+ * Body: EnvironmentAlertConfig
+ */
+export async function saveEnvironmentAlerts(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const config = normalizeEnvironmentAlertConfig(await c.req.json());
+    if (typeof config === "string") {
+      return c.json({ error: config }, 400);
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select({ userId: userSettings.userId })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const updateFields = { environmentAlerts: config, updatedAt: new Date() };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    // Start or stop the live session's monitor
+    await sessions.get(userId)?.environment.initialize();
+
+    return c.json({ success: true, config });
+  } catch (error) {
+    console.error("Error saving environment alerts:", error);
+    return c.json({ error: "Failed to save environment alerts" }, 500);
+  }
+}
@@ -0,0 +1,77 @@
+import type { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { DEFAULT_FOCUS_CONFIG, normalizeFocusConfig } from "../manager/focus";
+import { isDbAvailable, db, userSettings } from "../db";
+
+/** Whether Do Not Disturb is on right now — null reason when there's no live session */
+function focusStatus(userId: string) {
+  const focus = sessions.peek(userId)?.focus;
+  return { reason: focus?.reason() ?? null, manualUntil: focus?.getManualUntil() ?? null };
+}
+
+/** GET /settings/focus-mode — the focus mode settings and current status */
+export async function getFocusMode(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ config: DEFAULT_FOCUS_CONFIG, status: focusStatus(userId) });
+
+  try {
+    const [settings] = await db
+      .select({ focusMode: userSettings.focusMode })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const stored = settings?.focusMode ? normalizeFocusConfig(settings.focusMode) : null;
+    return c.json({
+      config: stored && typeof stored !== "string" ? stored : DEFAULT_FOCUS_CONFIG,
+      status: focusStatus(userId),
+    });
+  } catch (error) {
+    console.error("Error fetching focus mode settings:", error);
+    return c.json({ error: "Failed to fetch focus mode settings" }, 500);
+  }
+}
+
+/**
+ * PUT /settings/focus-mode — Save the focus mode settings.
+ * Body: FocusConfig
+ */
+export async function saveFocusMode(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const config = normalizeFocusConfig(await c.req.json());
+    if (typeof config === "string") {
+      return c.json({ error: config }, 400);
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select({ userId: userSettings.userId })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const updateFields = { focusMode: config, updatedAt: new Date() };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    // Apply the new quiet hours and policies to the live session
+    await sessions.get(userId)?.focus.initialize();
+
+    return c.json({ success: true, config, status: focusStatus(userId) });
+  } catch (error) {
+    console.error("Error saving focus mode settings:", error);
+    return c.json({ error: "Failed to save focus mode settings" }, 500);
+  }
+}
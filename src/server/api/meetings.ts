@@ -0,0 +1,94 @@
+import type { Context } from "hono";
+import { and, eq, gte } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { CALENDAR_CONTEXT_TYPE } from "../manager/CalendarManager";
+import { DEFAULT_MEETING_REMINDERS, normalizeMeetingReminderConfig } from "../manager/meeting-reminders";
+import { isDbAvailable, db, userContext, userSettings } from "../db";
+
+/**
+ * GET /settings/meeting-reminders — reminder settings plus the calendars
+ * the phone's events have come from (for the calendar filter)
+ */
+export async function getMeetingReminders(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ config: DEFAULT_MEETING_REMINDERS, calendars: [] });
+
+  try {
+    const [settings] = await db
+      .select({ meetingReminders: userSettings.meetingReminders })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const stored = settings?.meetingReminders ? normalizeMeetingReminderConfig(settings.meetingReminders) : null;
+    const config = stored && typeof stored !== "string" ? stored : DEFAULT_MEETING_REMINDERS;
+
+    // Known calendars — from the live session, else from stored events
+    let calendars = sessions.peek(userId)?.calendar.getCalendarNames();
+    if (!calendars) {
+      const rows = await db
+        .select({ data: userContext.data })
+        .from(userContext)
+        .where(
+          and(
+            eq(userContext.userId, userId),
+            eq(userContext.contextType, CALENDAR_CONTEXT_TYPE),
+            gte(userContext.expiresAt, new Date()),
+          ),
+        );
+      calendars = [...new Set(rows
+        .map(row => (row.data as { calendarName?: string }).calendarName)
+        .filter((name): name is string => !!name))].sort();
+    }
+
+    // Calendars picked earlier stay listed even with no upcoming events
+    const names = [...new Set([...calendars, ...(config.calendars ?? [])])].sort();
+    return c.json({ config, calendars: names });
+  } catch (error) {
+    console.error("Error fetching meeting reminders:", error);
+    return c.json({ error: "Failed to fetch meeting reminders" }, 500);
+  }
+}
+
+/**
+ * PUT /settings/meeting-reminders — Save the reminder settings.
+ * Body: MeetingReminderConfig
+ */
+export async function saveMeetingReminders(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const config = normalizeMeetingReminderConfig(await c.req.json());
+    if (typeof config === "string") {
+      return c.json({ error: config }, 400);
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select({ userId: userSettings.userId })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const updateFields = { meetingReminders: config, updatedAt: new Date() };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    // Start or stop the live session's reminders
+    await sessions.get(userId)?.meetingReminders.initialize();
+
+    return c.json({ success: true, config });
+  } catch (error) {
+    console.error("Error saving meeting reminders:", error);
+    return c.json({ error: "Failed to save meeting reminders" }, 500);
+  }
+}
@@ -0,0 +1,141 @@
+import type { Context } from "hono";
+import { and, desc, eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { isDbAvailable, db, memories } from "../db";
+import { MEMORY_SETTINGS } from "../constants/config";
+import { isUuid } from "../utils/ids";
+
+const MEMORY_COLUMNS = {
+  id: memories.id,
+  content: memories.content,
+  createdAt: memories.createdAt,
+  updatedAt: memories.updatedAt,
+};
+
+/** Validate a memory's text from a request body — returns the trimmed text or an error */
+function parseContent(content: unknown): { content: string } | { error: string } {
+  if (typeof content !== "string" || !content.trim()) {
+    return { error: "content is required" };
+  }
+  if (content.trim().length > MEMORY_SETTINGS.maxLength) {
+    return { error: `content must be ${MEMORY_SETTINGS.maxLength} characters or fewer` };
+  }
+  return { content: content.trim() };
+}
+
+/** GET /memories — all saved memories, most recently updated first */
+export async function getMemories(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ memories: [] });
+
+  try {
+    const rows = await db
+      .select(MEMORY_COLUMNS)
+      .from(memories)
+      .where(eq(memories.userId, userId))
+      .orderBy(desc(memories.updatedAt));
+
+    return c.json({ memories: rows });
+  } catch (error) {
+    console.error("Error fetching memories:", error);
+    return c.json({ error: "Failed to fetch memories" }, 500);
+  }
+}
+
+/**
+ * POST /memories — Add a memory from Settings.
+ * Body: { content: string }
+ */
+export async function createMemory(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const parsed = parseContent((await c.req.json()).content);
+    if ("error" in parsed) return c.json({ error: parsed.error }, 400);
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [memory] = await db
+      .insert(memories)
+      .values({ userId, content: parsed.content })
+      .returning(MEMORY_COLUMNS);
+
+    await sessions.get(userId)?.memory.initialize();
+
+    return c.json({ success: true, memory });
+  } catch (error) {
+    console.error("Error creating memory:", error);
+    return c.json({ error: "Failed to save memory" }, 500);
+  }
+}
+
+/**
+ * PATCH /memories/:id — Edit a memory's text.
+ * Body: { content: string }
+ */
+export async function updateMemory(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+  const id = c.req.param("id");
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isUuid(id)) return c.json({ error: "Memory not found" }, 404);
+
+  try {
+    const parsed = parseContent((await c.req.json()).content);
+    if ("error" in parsed) return c.json({ error: parsed.error }, 400);
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [memory] = await db
+      .update(memories)
+      .set({ content: parsed.content, updatedAt: new Date() })
+      .where(and(eq(memories.id, id), eq(memories.userId, userId)))
+      .returning(MEMORY_COLUMNS);
+
+    if (!memory) return c.json({ error: "Memory not found" }, 404);
+
+    await sessions.get(userId)?.memory.initialize();
+
+    return c.json({ success: true, memory });
+  } catch (error) {
+    console.error("Error updating memory:", error);
+    return c.json({ error: "Failed to update memory" }, 500);
+  }
+}
+
+/** DELETE /memories/:id — Permanently delete a memory */
+export async function deleteMemory(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+  const id = c.req.param("id");
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isUuid(id)) return c.json({ error: "Memory not found" }, 404);
+
+  if (!isDbAvailable()) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+
+  try {
+    const deleted = await db
+      .delete(memories)
+      .where(and(eq(memories.id, id), eq(memories.userId, userId)))
+      .returning({ id: memories.id });
+
+    if (deleted.length === 0) return c.json({ error: "Memory not found" }, 404);
+
+    await sessions.get(userId)?.memory.initialize();
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting memory:", error);
+    return c.json({ error: "Failed to delete memory" }, 500);
+  }
+}
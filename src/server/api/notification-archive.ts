@@ -0,0 +1,173 @@
+import type { Context } from "hono";
+import { and, eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { pruneNotificationArchive, searchNotificationArchive } from "../manager/NotificationArchiveManager";
+import {
+  DEFAULT_NOTIFICATION_ARCHIVE,
+  normalizeNotificationArchiveConfig,
+  retentionCutoff,
+  type NotificationArchiveConfig,
+} from "../manager/notification-archive";
+import { isDbAvailable, db, notificationArchive, userSettings } from "../db";
+import { NOTIFICATION_ARCHIVE_SETTINGS } from "../constants/config";
+import { isUuid } from "../utils/ids";
+
+/** The user's stored archive settings (defaults when unset or invalid) */
+async function loadArchiveConfig(userId: string): Promise<NotificationArchiveConfig> {
+  const [settings] = await db
+    .select({ notificationArchive: userSettings.notificationArchive })
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId));
+
+  const stored = settings?.notificationArchive ? normalizeNotificationArchiveConfig(settings.notificationArchive) : null;
+  return stored && typeof stored !== "string" ? stored : DEFAULT_NOTIFICATION_ARCHIVE;
+}
+
+/** GET /settings/notification-archive — the archive settings */
+export async function getNotificationArchiveSettings(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ config: DEFAULT_NOTIFICATION_ARCHIVE });
+
+  try {
+    return c.json({ config: await loadArchiveConfig(userId) });
+  } catch (error) {
+    console.error("Error fetching notification archive settings:", error);
+    return c.json({ error: "Failed to fetch notification archive settings" }, 500);
+  }
+}
+
+/**
+ * PUT /settings/notification-archive — Save the archive settings.
+ * Turning the archive off deletes everything in it; a shorter retention
+ * period deletes what's now past it.
+ * Body: NotificationArchiveConfig
+ */
+export async function saveNotificationArchiveSettings(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const config = normalizeNotificationArchiveConfig(await c.req.json());
+    if (typeof config === "string") {
+      return c.json({ error: config }, 400);
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select({ userId: userSettings.userId })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const updateFields = { notificationArchive: config, updatedAt: new Date() };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    if (!config.enabled) {
+      await db.delete(notificationArchive).where(eq(notificationArchive.userId, userId));
+    } else {
+      await pruneNotificationArchive(userId, config);
+    }
+
+    // Start or stop archiving in the live session
+    await sessions.get(userId)?.notificationArchive.initialize();
+
+    return c.json({ success: true, config });
+  } catch (error) {
+    console.error("Error saving notification archive settings:", error);
+    return c.json({ error: "Failed to save notification archive settings" }, 500);
+  }
+}
+
+/**
+ * GET /notification-archive — Archived notifications, newest first.
+ * Query: q (words in the title or content), app, before (ISO time — the
+ * receivedAt of the last entry on the previous page)
+ */
+export async function getNotificationArchive(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ notifications: [], hasMore: false });
+
+  const before = c.req.query("before");
+  const beforeDate = before ? new Date(before) : undefined;
+  if (beforeDate && isNaN(beforeDate.getTime())) {
+    return c.json({ error: "before must be an ISO date" }, 400);
+  }
+
+  try {
+    const config = await loadArchiveConfig(userId);
+    const pageSize = NOTIFICATION_ARCHIVE_SETTINGS.pageSize;
+    const rows = await searchNotificationArchive(
+      userId,
+      { text: c.req.query("q") || undefined, app: c.req.query("app") || undefined, before: beforeDate },
+      retentionCutoff(config, Date.now()),
+      pageSize + 1,
+    );
+
+    return c.json({ notifications: rows.slice(0, pageSize), hasMore: rows.length > pageSize });
+  } catch (error) {
+    console.error("Error fetching notification archive:", error);
+    return c.json({ error: "Failed to fetch notification archive" }, 500);
+  }
+}
+
+/** DELETE /notification-archive/:id — Delete one archived notification */
+export async function deleteArchivedNotification(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+  const id = c.req.param("id");
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isUuid(id)) return c.json({ error: "Notification not found" }, 404);
+
+  if (!isDbAvailable()) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+
+  try {
+    const deleted = await db
+      .delete(notificationArchive)
+      .where(and(eq(notificationArchive.id, id), eq(notificationArchive.userId, userId)))
+      .returning({ id: notificationArchive.id });
+
+    if (deleted.length === 0) return c.json({ error: "Notification not found" }, 404);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting archived notification:", error);
+    return c.json({ error: "Failed to delete notification" }, 500);
+  }
+}
+
+/** DELETE /notification-archive — Delete the whole archive */
+export async function clearNotificationArchive(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  if (!isDbAvailable()) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+
+  try {
+    const deleted = await db
+      .delete(notificationArchive)
+      .where(eq(notificationArchive.userId, userId))
+      .returning({ id: notificationArchive.id });
+
+    return c.json({ success: true, deleted: deleted.length });
+  } catch (error) {
+    console.error("Error clearing notification archive:", error);
+    return c.json({ error: "Failed to clear notification archive" }, 500);
+  }
+}
@@ -0,0 +1,68 @@
+import type { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { DEFAULT_NOTIFICATION_DIGEST, normalizeNotificationDigestConfig } from "../manager/notification-digest";
+import { isDbAvailable, db, userSettings } from "../db";
+
+/** GET /settings/notification-digest — the scheduled digest settings */
+export async function getNotificationDigest(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ config: DEFAULT_NOTIFICATION_DIGEST });
+
+  try {
+    const [settings] = await db
+      .select({ notificationDigest: userSettings.notificationDigest })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const stored = settings?.notificationDigest ? normalizeNotificationDigestConfig(settings.notificationDigest) : null;
+    return c.json({ config: stored && typeof stored !== "string" ? stored : DEFAULT_NOTIFICATION_DIGEST });
+  } catch (error) {
+    console.error("Error fetching notification digest settings:", error);
+    return c.json({ error: "Failed to fetch notification digest settings" }, 500);
+  }
+}
+
+/**
+ * PUT /settings/notification-digest — Save the scheduled digest settings.
+ * Body: NotificationDigestConfig
+ */
+export async function saveNotificationDigest(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const config = normalizeNotificationDigestConfig(await c.req.json());
+    if (typeof config === "string") {
+      return c.json({ error: config }, 400);
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select({ userId: userSettings.userId })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const updateFields = { notificationDigest: config, updatedAt: new Date() };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    // Start or stop the live session's schedule
+    await sessions.get(userId)?.notificationDigest.initialize();
+
+    return c.json({ success: true, config });
+  } catch (error) {
+    console.error("Error saving notification digest settings:", error);
+    return c.json({ error: "Failed to save notification digest settings" }, 500);
+  }
+}
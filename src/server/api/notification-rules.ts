@@ -0,0 +1,102 @@
+import type { Context } from "hono";
+import { and, asc, eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { toNotificationRule } from "../manager/NotificationRulesManager";
+import { describeRule, normalizeRuleInput, type NotificationRule } from "../manager/notification-rules";
+import { isDbAvailable, db, notificationRules } from "../db";
+import { NOTIFICATION_RULE_SETTINGS } from "../constants/config";
+import { isUuid } from "../utils/ids";
+
+/** A rule as the webview shows it */
+function toResponse(rule: NotificationRule) {
+  return { ...rule, description: describeRule(rule) };
+}
+
+/** GET /notification-rules — the user's rules, oldest first */
+export async function getNotificationRules(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ rules: [] });
+
+  try {
+    const rows = await db
+      .select()
+      .from(notificationRules)
+      .where(eq(notificationRules.userId, userId))
+      .orderBy(asc(notificationRules.createdAt));
+
+    return c.json({ rules: rows.map(row => toResponse(toNotificationRule(row))) });
+  } catch (error) {
+    console.error("Error fetching notification rules:", error);
+    return c.json({ error: "Failed to fetch notification rules" }, 500);
+  }
+}
+
+/**
+ * POST /notification-rules — Add a rule from Settings.
+ * Body: { app?, sender?, keywords?: string[], priority?, action }
+ */
+export async function createNotificationRule(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const input = normalizeRuleInput(await c.req.json());
+    if (typeof input === "string") return c.json({ error: input }, 400);
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const existing = await db
+      .select({ id: notificationRules.id })
+      .from(notificationRules)
+      .where(eq(notificationRules.userId, userId));
+    if (existing.length >= NOTIFICATION_RULE_SETTINGS.maxRules) {
+      return c.json({ error: `You can have up to ${NOTIFICATION_RULE_SETTINGS.maxRules} rules` }, 400);
+    }
+
+    const [row] = await db
+      .insert(notificationRules)
+      .values({ userId, ...input })
+      .returning();
+
+    await sessions.get(userId)?.notificationRules.initialize();
+
+    return c.json({ success: true, rule: toResponse(toNotificationRule(row)) });
+  } catch (error) {
+    console.error("Error saving notification rule:", error);
+    return c.json({ error: "Failed to save rule" }, 500);
+  }
+}
+
+/** DELETE /notification-rules/:id — Delete a rule */
+export async function deleteNotificationRule(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+  const id = c.req.param("id");
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isUuid(id)) return c.json({ error: "Rule not found" }, 404);
+
+  if (!isDbAvailable()) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+
+  try {
+    const deleted = await db
+      .delete(notificationRules)
+      .where(and(eq(notificationRules.id, id), eq(notificationRules.userId, userId)))
+      .returning({ id: notificationRules.id });
+
+    if (deleted.length === 0) return c.json({ error: "Rule not found" }, 404);
+
+    await sessions.get(userId)?.notificationRules.initialize();
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting notification rule:", error);
+    return c.json({ error: "Failed to delete rule" }, 500);
+  }
+}
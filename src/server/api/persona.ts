@@ -0,0 +1,167 @@
+import type { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { isDbAvailable, db, userSettings } from "../db";
+import { buildSystemPrompt } from "../agent/prompt";
+import { PERSONAS, PERSONA_IDS, MAX_CUSTOM_INSTRUCTIONS_LENGTH, type PersonaId } from "../agent/personas";
+import { DEFAULT_AI_CONFIG, getModelDisplayName, type Provider, type UserAIConfig } from "../agent/providers/types";
+import { ResponseMode } from "../constants/config";
+import { isLocationBackend, resolveLocationBackend } from "../manager/location-providers";
+
+/** GET /settings/persona — the user's persona, custom instructions, and the available presets */
+export async function getPersona(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  const presets = PERSONA_IDS.map(id => ({ id, name: PERSONAS[id].name, description: PERSONAS[id].description }));
+
+  try {
+    let persona: PersonaId = "default";
+    let customInstructions = "";
+    if (isDbAvailable()) {
+      const [settings] = await db
+        .select({ persona: userSettings.persona, customInstructions: userSettings.customInstructions })
+        .from(userSettings)
+        .where(eq(userSettings.userId, userId));
+      persona = (settings?.persona as PersonaId | undefined) ?? "default";
+      customInstructions = settings?.customInstructions ?? "";
+    }
+
+    return c.json({ persona, customInstructions, presets, maxLength: MAX_CUSTOM_INSTRUCTIONS_LENGTH });
+  } catch (error) {
+    console.error("Error fetching persona:", error);
+    return c.json({ error: "Failed to fetch persona" }, 500);
+  }
+}
+
+/**
+ * PUT /settings/persona — Save the persona preset and custom instructions.
+ * Body: { persona: PersonaId, customInstructions: string }
+ */
+export async function savePersona(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const { persona, customInstructions } = (await c.req.json()) as {
+      persona?: string;
+      customInstructions?: string | null;
+    };
+
+    if (persona !== undefined && !PERSONA_IDS.includes(persona as PersonaId)) {
+      return c.json({ error: `Unknown persona: ${persona}` }, 400);
+    }
+    if (customInstructions != null && typeof customInstructions !== "string") {
+      return c.json({ error: "customInstructions must be a string" }, 400);
+    }
+    if (customInstructions && customInstructions.length > MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+      return c.json({ error: `Custom instructions must be ${MAX_CUSTOM_INSTRUCTIONS_LENGTH} characters or fewer` }, 400);
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const updateFields = {
+      persona: (persona as PersonaId | undefined) ?? "default",
+      customInstructions: customInstructions?.trim() || null,
+      updatedAt: new Date(),
+    };
+
+    const [existing] = await db
+      .select({ id: userSettings.id })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    // Refresh the live session's in-memory AI config
+    await sessions.get(userId)?.reloadAIConfig();
+
+    return c.json({ success: true, persona: updateFields.persona, customInstructions: updateFields.customInstructions ?? "" });
+  } catch (error) {
+    console.error("Error saving persona:", error);
+    return c.json({ error: "Failed to save persona" }, 500);
+  }
+}
+
+/**
+ * GET /settings/prompt-preview — The assembled system prompt with the user's
+ * persona and custom instructions, without live context (location, history, etc.).
+ * Query: ?mode=quick|standard|detailed&glasses=camera|display
+ * (glasses defaults to the connected device, or camera glasses)
+ */
+export async function getPromptPreview(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  const modeParam = c.req.query("mode");
+  const responseMode = Object.values(ResponseMode).includes(modeParam as ResponseMode)
+    ? modeParam as ResponseMode
+    : ResponseMode.STANDARD;
+
+  const glassesParam = c.req.query("glasses");
+  const user = sessions.get(userId);
+  const hasDisplay = glassesParam
+    ? glassesParam === "display"
+    : user?.appSession?.capabilities?.hasDisplay ?? false;
+
+  try {
+    let aiConfig: UserAIConfig = { ...DEFAULT_AI_CONFIG, llmApiKey: "", visionApiKey: "" };
+    let googleCloudConfigured = false;
+    let openLocationServices = true;
+    if (isDbAvailable()) {
+      const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+      if (settings) {
+        const llmProvider = (settings.llmProvider ?? "openai") as Provider;
+        const llmModel = settings.llmModel ?? "gpt-5-mini";
+        aiConfig = {
+          ...aiConfig,
+          agentName: settings.agentName,
+          wakeWord: settings.wakeWord,
+          llmProvider,
+          llmModel,
+          llmModelName: llmProvider === "custom" && settings.llmCustomProviderName
+            ? settings.llmCustomProviderName
+            : getModelDisplayName(llmProvider, llmModel),
+          llmCustomProviderName: settings.llmCustomProviderName ?? undefined,
+          persona: settings.persona as PersonaId,
+          customInstructions: settings.customInstructions ?? undefined,
+        };
+        googleCloudConfigured = !!settings.googleCloudApiKeyVaultId;
+        const locationBackend = isLocationBackend(settings.locationBackend) ? settings.locationBackend : "auto";
+        openLocationServices = resolveLocationBackend(locationBackend, googleCloudConfigured) === "open";
+      }
+    }
+
+    const prompt = buildSystemPrompt({
+      hasDisplay,
+      hasSpeakers: !hasDisplay,
+      hasCamera: !hasDisplay,
+      hasPhotos: !hasDisplay,
+      hasMicrophone: true,
+      glassesType: hasDisplay ? "display" : "camera",
+      responseMode,
+      location: null,
+      localTime: "",
+      notifications: "",
+      calendar: "",
+      conversationHistory: [],
+      aiConfig,
+      googleCloudConfigured,
+      openLocationServices,
+    });
+
+    return c.json({ prompt, responseMode, glasses: hasDisplay ? "display" : "camera" });
+  } catch (error) {
+    console.error("Error building prompt preview:", error);
+    return c.json({ error: "Failed to build prompt preview" }, 500);
+  }
+}
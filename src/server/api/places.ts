@@ -0,0 +1,136 @@
+import type { Context } from "hono";
+import { and, asc, eq } from "drizzle-orm";
+import { sessions } from "../manager/SessionManager";
+import { findSavedPlace } from "../manager/SavedPlacesManager";
+import { findPlace } from "../agent/tools/places.tool";
+import { isDbAvailable, db, savedPlaces, userSettings, getApiKey } from "../db";
+import { SAVED_PLACE_SETTINGS } from "../constants/config";
+import { isUuid } from "../utils/ids";
+
+const PLACE_COLUMNS = {
+  id: savedPlaces.id,
+  name: savedPlaces.name,
+  address: savedPlaces.address,
+  lat: savedPlaces.lat,
+  lng: savedPlaces.lng,
+};
+
+/** The user's Google Cloud key — from the live session, else from Vault */
+async function getGoogleApiKey(userId: string): Promise<string | null> {
+  const live = sessions.peek(userId)?.aiConfig?.googleCloudApiKey;
+  if (live) return live;
+
+  const [settings] = await db
+    .select({ vaultId: userSettings.googleCloudApiKeyVaultId })
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId));
+  return settings?.vaultId ? await getApiKey(settings.vaultId) : null;
+}
+
+/** GET /places — the user's saved places, by name */
+export async function getSavedPlaces(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isDbAvailable()) return c.json({ places: [] });
+
+  try {
+    const rows = await db
+      .select(PLACE_COLUMNS)
+      .from(savedPlaces)
+      .where(eq(savedPlaces.userId, userId))
+      .orderBy(asc(savedPlaces.name));
+
+    return c.json({ places: rows });
+  } catch (error) {
+    console.error("Error fetching saved places:", error);
+    return c.json({ error: "Failed to fetch saved places" }, 500);
+  }
+}
+
+/**
+ * POST /places — Save a place from Settings. The address is looked up with
+ * the user's Google Cloud key. Saving an existing name moves it.
+ * Body: { name: string, address: string }
+ */
+export async function createSavedPlace(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const body = await c.req.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const address = typeof body.address === "string" ? body.address.trim() : "";
+
+    if (!name) return c.json({ error: "name is required" }, 400);
+    if (name.length > SAVED_PLACE_SETTINGS.maxNameLength) {
+      return c.json({ error: `name must be ${SAVED_PLACE_SETTINGS.maxNameLength} characters or fewer` }, 400);
+    }
+    if (!address) return c.json({ error: "address is required" }, 400);
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const existing = await db.select(PLACE_COLUMNS).from(savedPlaces).where(eq(savedPlaces.userId, userId));
+    const replaces = findSavedPlace(existing, name);
+    if (!replaces && existing.length >= SAVED_PLACE_SETTINGS.maxPlaces) {
+      return c.json({ error: `You can save up to ${SAVED_PLACE_SETTINGS.maxPlaces} places` }, 400);
+    }
+
+    const apiKey = await getGoogleApiKey(userId);
+    if (!apiKey) return c.json({ error: "Add a Google Cloud API key to look up addresses" }, 400);
+
+    const found = await findPlace(address, null, SAVED_PLACE_SETTINGS.searchRadiusM, apiKey);
+    if (!found) return c.json({ error: "Couldn't find that address" }, 404);
+
+    const values = { name, address: found.address || found.name, lat: found.lat, lng: found.lng };
+    const [place] = replaces
+      ? await db
+          .update(savedPlaces)
+          .set({ ...values, updatedAt: new Date() })
+          .where(and(eq(savedPlaces.id, replaces.id), eq(savedPlaces.userId, userId)))
+          .returning(PLACE_COLUMNS)
+      : await db
+          .insert(savedPlaces)
+          .values({ userId, ...values })
+          .returning(PLACE_COLUMNS);
+
+    await sessions.get(userId)?.savedPlaces.initialize();
+
+    return c.json({ success: true, place, replacedId: replaces?.id });
+  } catch (error) {
+    console.error("Error saving place:", error);
+    return c.json({ error: "Failed to save place" }, 500);
+  }
+}
+
+/** DELETE /places/:id — Delete a saved place */
+export async function deleteSavedPlace(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+  const id = c.req.param("id");
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  if (!isUuid(id)) return c.json({ error: "Place not found" }, 404);
+
+  if (!isDbAvailable()) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+
+  try {
+    const deleted = await db
+      .delete(savedPlaces)
+      .where(and(eq(savedPlaces.id, id), eq(savedPlaces.userId, userId)))
+      .returning({ id: savedPlaces.id });
+
+    if (deleted.length === 0) return c.json({ error: "Place not found" }, 404);
+
+    await sessions.get(userId)?.savedPlaces.initialize();
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting saved place:", error);
+    return c.json({ error: "Failed to delete place" }, 500);
+  }
+}
@@ -12,9 +12,11 @@ import { userSettings } from "../db/schema";
 import { storeApiKey, deleteApiKey } from "../db/vault";
 import { eq } from "drizzle-orm";
 import { sessions } from "../manager/SessionManager";
-import { MODEL_CATALOG, PROVIDER_DISPLAY_NAMES } from "../agent/providers/types";
-import type { Provider } from "../agent/providers/types";
+import { MODEL_CATALOG, PROVIDER_DISPLAY_NAMES, MAX_FALLBACKS, MODEL_TASKS, DEFAULT_ROUTING_RULES, EMBEDDING_MODELS } from "../agent/providers/types";
+import type { Provider, StoredFallbackEntry, ModelRoutingConfig, ModelTask, ModelTier } from "../agent/providers/types";
 import { validateApiKey, validateCustomEndpoint as validateCustomEndpointFn } from "../agent/providers/registry";
+import { isLanguage } from "../constants/languages";
+import { isLocationBackend } from "../manager/location-providers";
 
 /** In-memory fallback store (used when DATABASE_URL is not configured) */
 const settingsStore = new Map<string, Record<string, any>>();
@@ -75,6 +77,14 @@ export async function updateSettings(c: Context) {
     const body = await c.req.json();
     const { userId: _bodyUserId, id: _id, createdAt: _ca, updatedAt: _ua, ...updates } = body;
 
+    if (updates.language !== undefined && !isLanguage(updates.language)) {
+      return c.json({ error: `Unsupported language: ${updates.language}` }, 400);
+    }
+
+    if (updates.locationBackend !== undefined && !isLocationBackend(updates.locationBackend)) {
+      return c.json({ error: `Unknown location backend: ${updates.locationBackend}` }, 400);
+    }
+
     if (isDbAvailable()) {
       const [existing] = await db
         .select()
@@ -129,8 +139,11 @@ export async function getProviderConfig(c: Context) {
       return c.json({
         agentName: "Any AI",
         wakeWord: "Hey Jarvis",
-        llm: { provider: "openai", model: "gpt-5-mini", isConfigured: false },
-        vision: { provider: "google", model: "gemini-2.5-flash", isConfigured: false },
+        language: "en",
+        locationBackend: "auto",
+        llm: { provider: "openai", model: "gpt-5-mini", isConfigured: false, fallbacks: [] },
+        vision: { provider: "google", model: "gemini-2.5-flash", isConfigured: false, fallbacks: [] },
+        routing: describeRouting(null),
         googleCloud: { isConfigured: false },
       });
     }
@@ -144,8 +157,11 @@ export async function getProviderConfig(c: Context) {
       return c.json({
         agentName: "Any AI",
         wakeWord: "Hey Jarvis",
-        llm: { provider: "openai", model: "gpt-5-mini", isConfigured: false },
-        vision: { provider: "google", model: "gemini-2.5-flash", isConfigured: false },
+        language: "en",
+        locationBackend: "auto",
+        llm: { provider: "openai", model: "gpt-5-mini", isConfigured: false, fallbacks: [] },
+        vision: { provider: "google", model: "gemini-2.5-flash", isConfigured: false, fallbacks: [] },
+        routing: describeRouting(null),
         googleCloud: { isConfigured: false },
       });
     }
@@ -153,12 +169,15 @@ export async function getProviderConfig(c: Context) {
     return c.json({
       agentName: settings.agentName,
       wakeWord: settings.wakeWord,
+      language: settings.language,
+      locationBackend: settings.locationBackend,
       llm: {
         provider: settings.llmProvider ?? "openai",
         model: settings.llmModel ?? "gpt-5-mini",
         isConfigured: !!settings.llmApiKeyVaultId || settings.llmProvider === "custom",
         customBaseUrl: settings.llmCustomBaseUrl ?? undefined,
         customProviderName: settings.llmCustomProviderName ?? undefined,
+        fallbacks: describeFallbacks(settings.llmFallbacks as StoredFallbackEntry[]),
       },
       vision: {
         provider: settings.visionProvider ?? "google",
@@ -166,7 +185,9 @@ export async function getProviderConfig(c: Context) {
         isConfigured: !!settings.visionApiKeyVaultId || settings.visionProvider === "custom" || settings.visionProvider === "none",
         customBaseUrl: settings.visionCustomBaseUrl ?? undefined,
         customProviderName: settings.visionCustomProviderName ?? undefined,
+        fallbacks: describeFallbacks(settings.visionFallbacks as StoredFallbackEntry[]),
       },
+      routing: describeRouting(settings.modelRouting as ModelRoutingConfig | null),
       googleCloud: {
         isConfigured: !!settings.googleCloudApiKeyVaultId,
       },
@@ -418,6 +439,231 @@ export async function deleteProviderConfig(c: Context) {
   }
 }
 
+/**
+ * PUT /api/settings/provider/fallbacks/:purpose — Replace the ordered fallback chain.
+ * Body: { fallbacks: [{ provider, model, apiKey?, baseUrl?, providerName? }] }
+ * Entries without a new apiKey reuse the key already on file for that provider
+ * (from the existing chain, or the primary config if it's the same provider).
+ */
+export async function saveProviderFallbacks(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const purpose = c.req.param("purpose") as "llm" | "vision";
+
+    if (purpose !== "llm" && purpose !== "vision") {
+      return c.json({ error: "purpose must be 'llm' or 'vision'" }, 400);
+    }
+
+    const body = await c.req.json();
+    const { fallbacks } = body as {
+      fallbacks: { provider: Provider; model: string; apiKey?: string; baseUrl?: string; providerName?: string }[];
+    };
+
+    if (!Array.isArray(fallbacks)) {
+      return c.json({ error: "fallbacks must be an array" }, 400);
+    }
+    if (fallbacks.length > MAX_FALLBACKS) {
+      return c.json({ error: `At most ${MAX_FALLBACKS} fallbacks are allowed` }, 400);
+    }
+
+    // Validate entries against the catalog before touching Vault
+    for (const entry of fallbacks) {
+      if (!entry.provider || !entry.model) {
+        return c.json({ error: "Each fallback needs a provider and model" }, 400);
+      }
+      if (entry.provider === "none") {
+        return c.json({ error: "'none' can't be used as a fallback" }, 400);
+      }
+      if (entry.provider === "custom") {
+        if (!entry.baseUrl) {
+          return c.json({ error: "Custom fallback requires a base URL" }, 400);
+        }
+        continue;
+      }
+      const modelInfo = MODEL_CATALOG[entry.provider]?.find(m => m.id === entry.model);
+      if (!modelInfo) {
+        return c.json({ error: `Unknown model: ${entry.model} for provider ${entry.provider}` }, 400);
+      }
+      if (purpose === "vision" && !modelInfo.supportsVision) {
+        return c.json({ error: `Model ${entry.model} does not support vision` }, 400);
+      }
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const existingChain = ((purpose === "llm" ? existing?.llmFallbacks : existing?.visionFallbacks) ?? []) as StoredFallbackEntry[];
+    const primaryProvider = purpose === "llm" ? existing?.llmProvider : existing?.visionProvider;
+    const primaryVaultId = purpose === "llm" ? existing?.llmApiKeyVaultId : existing?.visionApiKeyVaultId;
+
+    // Store new keys first — one Vault secret per provider per chain
+    const newKeyIds = new Map<Provider, string>();
+    for (const entry of fallbacks) {
+      if (!entry.apiKey || newKeyIds.has(entry.provider)) continue;
+      if (entry.provider !== "custom" && !(await validateApiKey(entry.provider, entry.apiKey))) {
+        return c.json({ success: false, error: `API key validation failed for fallback provider ${entry.provider}` }, 400);
+      }
+      newKeyIds.set(entry.provider, await storeApiKey(userId, entry.provider, `${purpose}-fallback`, entry.apiKey));
+    }
+
+    const chain: StoredFallbackEntry[] = [];
+    for (const entry of fallbacks) {
+      const vaultId = newKeyIds.get(entry.provider)
+        ?? existingChain.find(e => e.provider === entry.provider && e.apiKeyVaultId)?.apiKeyVaultId
+        ?? (primaryProvider === entry.provider ? primaryVaultId : null)
+        ?? null;
+
+      if (!vaultId && entry.provider !== "custom") {
+        return c.json({ error: `No API key on file for fallback provider ${entry.provider}. Please provide an API key.` }, 400);
+      }
+
+      chain.push({
+        provider: entry.provider,
+        model: entry.model,
+        apiKeyVaultId: vaultId,
+        ...(entry.provider === "custom"
+          ? { customBaseUrl: entry.baseUrl, customProviderName: entry.providerName || undefined }
+          : {}),
+      });
+    }
+
+    const updateFields = purpose === "llm"
+      ? { llmFallbacks: chain, updatedAt: new Date() }
+      : { visionFallbacks: chain, updatedAt: new Date() };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    // Remove fallback secrets that are no longer referenced (never the primary's key)
+    const keptIds = new Set(chain.map(e => e.apiKeyVaultId).filter(Boolean));
+    for (const old of existingChain) {
+      if (old.apiKeyVaultId && !keptIds.has(old.apiKeyVaultId) && old.apiKeyVaultId !== primaryVaultId && !newKeyIds.has(old.provider)) {
+        await deleteApiKey(old.apiKeyVaultId);
+      }
+    }
+
+    // Refresh the live session's in-memory AI config
+    await sessions.get(userId)?.reloadAIConfig();
+
+    return c.json({ success: true, purpose, fallbacks: describeFallbacks(chain) });
+  } catch (error) {
+    console.error("Error saving provider fallbacks:", error);
+    return c.json({ error: "Failed to save provider fallbacks" }, 500);
+  }
+}
+
+/** Public view of a stored fallback chain (never includes Vault IDs) */
+function describeFallbacks(entries: StoredFallbackEntry[] | null) {
+  return (entries ?? []).map(e => ({
+    provider: e.provider,
+    model: e.model,
+    isConfigured: !!e.apiKeyVaultId || e.provider === "custom",
+    customBaseUrl: e.customBaseUrl,
+    customProviderName: e.customProviderName,
+  }));
+}
+
+/** Routing config with every task's effective tier filled in */
+function describeRouting(routing: ModelRoutingConfig | null) {
+  return {
+    fastModel: routing?.fastModel,
+    strongModel: routing?.strongModel,
+    rules: { ...DEFAULT_ROUTING_RULES, ...routing?.rules },
+    embeddingModel: routing?.embeddingModel,
+  };
+}
+
+/**
+ * PUT /api/settings/provider/routing — Save per-task model routing.
+ * Body: { fastModel?, strongModel?, rules: { [task]: "default" | "fast" | "strong" }, embeddingModel? }
+ * Fast/strong models must belong to the user's LLM provider (any ID for custom servers).
+ * embeddingModel picks the history search embedding model (required for custom servers).
+ */
+export async function saveModelRouting(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body = await c.req.json();
+    const { fastModel, strongModel, rules, embeddingModel } = body as {
+      fastModel?: string;
+      strongModel?: string;
+      rules?: Record<string, string>;
+      embeddingModel?: string;
+    };
+
+    const cleanRules: Partial<Record<ModelTask, ModelTier>> = {};
+    for (const [task, tier] of Object.entries(rules ?? {})) {
+      if (!MODEL_TASKS.includes(task as ModelTask)) {
+        return c.json({ error: `Unknown task: ${task}` }, 400);
+      }
+      if (tier !== "default" && tier !== "fast" && tier !== "strong") {
+        return c.json({ error: `Invalid tier for ${task}: ${tier}` }, 400);
+      }
+      cleanRules[task as ModelTask] = tier;
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const llmProvider = (existing?.llmProvider ?? "openai") as Provider;
+    if (llmProvider !== "custom") {
+      for (const modelId of [fastModel, strongModel]) {
+        if (modelId && !MODEL_CATALOG[llmProvider]?.some(m => m.id === modelId)) {
+          return c.json({ error: `Unknown model: ${modelId} for provider ${llmProvider}` }, 400);
+        }
+      }
+      if (embeddingModel && !Object.values(EMBEDDING_MODELS).some(models => models?.some(m => m.id === embeddingModel))) {
+        return c.json({ error: `Unknown embedding model: ${embeddingModel}` }, 400);
+      }
+    }
+
+    const modelRouting: ModelRoutingConfig = {
+      fastModel: fastModel || undefined,
+      strongModel: strongModel || undefined,
+      rules: cleanRules,
+      embeddingModel: embeddingModel || undefined,
+    };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, modelRouting, updatedAt: new Date() });
+    } else {
+      await db.update(userSettings).set({ modelRouting, updatedAt: new Date() }).where(eq(userSettings.userId, userId));
+    }
+
+    // Refresh the live session's in-memory AI config
+    await sessions.get(userId)?.reloadAIConfig();
+
+    return c.json({ success: true, routing: describeRouting(modelRouting) });
+  } catch (error) {
+    console.error("Error saving model routing:", error);
+    return c.json({ error: "Failed to save model routing" }, 500);
+  }
+}
+
 /**
  * POST /api/settings/google-cloud — Save Google Cloud API key (validates, stores in Vault)
  */
@@ -584,12 +830,17 @@ export async function validateCustomEndpoint(c: Context) {
  * GET /api/providers/catalog — Static model catalog for frontend
  */
 export async function getProviderCatalog(c: Context) {
-  const providers: Record<string, { name: string; models: typeof MODEL_CATALOG[Provider] }> = {};
+  const providers: Record<string, {
+    name: string;
+    models: typeof MODEL_CATALOG[Provider];
+    embeddingModels: { id: string; name: string }[];
+  }> = {};
 
   for (const [key, models] of Object.entries(MODEL_CATALOG)) {
     providers[key] = {
       name: PROVIDER_DISPLAY_NAMES[key as Provider],
       models,
+      embeddingModels: EMBEDDING_MODELS[key as Provider] ?? [],
     };
   }
 
@@ -0,0 +1,89 @@
+import type { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getUsageSummary } from "../manager/usage-tracking";
+import { sessions } from "../manager/SessionManager";
+import { isDbAvailable, db, userSettings } from "../db";
+import { MODEL_CATALOG, type Provider } from "../agent/providers/types";
+
+/** GET /usage — today's and this month's LLM spend by purpose, plus the monthly budget */
+export async function getUsage(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const summary = await getUsageSummary(userId);
+
+    let budget = { monthlyBudgetUsd: null as number | null, cheapModel: null as string | null };
+    if (isDbAvailable()) {
+      const [settings] = await db
+        .select({ monthlyBudgetUsd: userSettings.monthlyBudgetUsd, budgetCheapModel: userSettings.budgetCheapModel })
+        .from(userSettings)
+        .where(eq(userSettings.userId, userId));
+      budget = {
+        monthlyBudgetUsd: settings?.monthlyBudgetUsd ?? null,
+        cheapModel: settings?.budgetCheapModel ?? null,
+      };
+    }
+
+    return c.json({ ...summary, budget });
+  } catch (error) {
+    console.error("Error fetching usage summary:", error);
+    return c.json({ error: "Failed to fetch usage" }, 500);
+  }
+}
+
+/**
+ * PUT /usage/budget — Set the monthly budget and the cheap model used once it's reached.
+ * Body: { monthlyBudgetUsd: number | null, cheapModel: string | null }
+ */
+export async function saveBudget(c: Context) {
+  const userId = c.get("authUserId") as string | undefined;
+
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const { monthlyBudgetUsd, cheapModel } = (await c.req.json()) as {
+      monthlyBudgetUsd?: number | null;
+      cheapModel?: string | null;
+    };
+
+    if (monthlyBudgetUsd != null && (typeof monthlyBudgetUsd !== "number" || !(monthlyBudgetUsd > 0))) {
+      return c.json({ error: "monthlyBudgetUsd must be a positive number or null" }, 400);
+    }
+
+    if (!isDbAvailable()) {
+      return c.json({ error: "Database not available" }, 503);
+    }
+
+    const [existing] = await db
+      .select({ llmProvider: userSettings.llmProvider })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    const llmProvider = (existing?.llmProvider ?? "openai") as Provider;
+    if (cheapModel && llmProvider !== "custom" && !MODEL_CATALOG[llmProvider]?.some(m => m.id === cheapModel)) {
+      return c.json({ error: `Unknown model: ${cheapModel} for provider ${llmProvider}` }, 400);
+    }
+
+    const updateFields = {
+      monthlyBudgetUsd: monthlyBudgetUsd ?? null,
+      budgetCheapModel: cheapModel || null,
+      updatedAt: new Date(),
+    };
+
+    if (!existing) {
+      await db.insert(userSettings).values({ userId, ...updateFields });
+    } else {
+      await db.update(userSettings).set(updateFields).where(eq(userSettings.userId, userId));
+    }
+
+    // Refresh the live session's budget state
+    await sessions.get(userId)?.budget.initialize();
+
+    return c.json({ success: true, budget: { monthlyBudgetUsd: updateFields.monthlyBudgetUsd, cheapModel: updateFields.budgetCheapModel } });
+  } catch (error) {
+    console.error("Error saving budget:", error);
+    return c.json({ error: "Failed to save budget" }, 500);
+  }
+}
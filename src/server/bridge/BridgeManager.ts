@@ -10,13 +10,16 @@
 import type { User } from "../session/User";
 import type { BridgeNotifyResponse, ParkedRequest } from "./types";
 import { classifyBridgeDeferral, classifyBridgeAcceptance } from "./bridge-commands";
-import { db } from "../db/client";
+import { db, isDbAvailable } from "../db/client";
 import { bridgeRequests } from "../db/schema";
 
 const DEFAULT_TIMEOUT_MS = 600_000; // 10 minutes
 const WARNING_BEFORE_TIMEOUT_MS = 60_000; // warn 60s before timeout
 const WARM_CONVERSATION_MS = 30_000; // skip announcement if last response was within 30s
 
+/** What the Do Not Disturb summary says about a message parked while it was on */
+const HELD_NOTICE = "Claude Code sent you a message. Say \"I'm ready\" to hear it.";
+
 export class BridgeManager {
   /** The currently parked request (in-memory only) */
   private parkedRequest: ParkedRequest | null = null;
@@ -40,6 +43,9 @@ export class BridgeManager {
    *   2. DELIVER:  Speak the full message → listen for the user's actual response
    *
    * Parks if the user defers or stays silent at either stage.
+   * With Do Not Disturb on, parks without announcing (the focus summary
+   * mentions it until it's answered or expires) or refuses the request,
+   * per the user's bridge policy.
    * Returns a Promise that resolves when the user responds or timeout expires.
    */
   handleNotify(
@@ -56,6 +62,11 @@ export class BridgeManager {
       return Promise.reject(new Error("A request is already parked. Wait for it to resolve or timeout."));
     }
 
+    const focus = this.user.focus.gate("bridge", HELD_NOTICE);
+    if (focus === "drop") {
+      return Promise.reject(new Error("The user has Do Not Disturb on. Try again later."));
+    }
+
     // Generate or reuse conversation ID
     if (!this.conversationId) {
       this.conversationId = crypto.randomUUID();
@@ -76,7 +87,7 @@ export class BridgeManager {
 
         const setupResponseListening = () => {
           this.user.transcription.bridgeResponseCallback = (transcript: string) => {
-            const deferral = classifyBridgeDeferral(transcript);
+            const deferral = classifyBridgeDeferral(transcript, this.user.language);
 
             if (!transcript || deferral) {
               // User deferred after hearing the message — park
@@ -108,8 +119,8 @@ export class BridgeManager {
       // --- Stage 1: Announce that a message has arrived ---
       const setupAnnouncementListening = () => {
         this.user.transcription.bridgeResponseCallback = (transcript: string) => {
-          const deferral = classifyBridgeDeferral(transcript);
-          const acceptance = classifyBridgeAcceptance(transcript);
+          const deferral = classifyBridgeDeferral(transcript, this.user.language);
+          const acceptance = classifyBridgeAcceptance(transcript, this.user.language);
 
           if (!transcript || deferral) {
             // User is busy or silent — park without delivering the message
@@ -126,6 +137,13 @@ export class BridgeManager {
         this.user.transcription.activateListening();
       };
 
+      if (focus === "queue") {
+        // Do Not Disturb — wait quietly until the user asks for it
+        console.log(`📬 [BRIDGE] Do Not Disturb on — parking without announcing for ${this.user.userId}`);
+        this.parkRequest(requestId, message, conversationId, resolve, reject, timeoutMs);
+        return;
+      }
+
       if (isWarmConversation) {
         // Active back-and-forth — skip announcement, deliver directly
         console.log(`📬 [BRIDGE] Warm conversation (${Date.now() - this.lastResponseTime}ms since last response) — delivering directly`);
@@ -191,7 +209,7 @@ export class BridgeManager {
     if (timeoutMs > WARNING_BEFORE_TIMEOUT_MS * 2) {
       warningTimer = setTimeout(() => {
         const session = this.user.appSession;
-        if (session && this.parkedRequest) {
+        if (session && this.parkedRequest && !this.user.focus.isActive()) {
           session.audio.speak("Claude's message expires in one minute. Ask about it if you'd like to respond.").catch(() => {});
           session.layouts.showTextWall("Claude's message expires soon", { durationMs: 5000 });
         }
@@ -235,7 +253,7 @@ export class BridgeManager {
     this.speakSafe(session, `Claude says: ${parked.message}`, () => {
       // Set up replay callback
       this.user.transcription.bridgeResponseCallback = (transcript: string) => {
-        const deferral = classifyBridgeDeferral(transcript);
+        const deferral = classifyBridgeDeferral(transcript, this.user.language);
 
         if (!transcript || deferral) {
           // Still not ready — re-park, keep waiting
@@ -247,6 +265,7 @@ export class BridgeManager {
           this.parkedRequest = null;
           clearTimeout(p.timeoutTimer);
           if (p.warningTimer) clearTimeout(p.warningTimer);
+          this.user.focus.withdraw("bridge", HELD_NOTICE);
 
           this.lastResponseTime = Date.now();
           this.logRequest(p.requestId, p.message, transcript, p.conversationId, "responded");
@@ -317,6 +336,7 @@ export class BridgeManager {
     if (parked && parked.requestId === requestId) {
       if (parked.warningTimer) clearTimeout(parked.warningTimer);
       this.parkedRequest = null;
+      this.user.focus.withdraw("bridge", HELD_NOTICE);
     }
 
     // Clear pending timer if still set
@@ -328,8 +348,10 @@ export class BridgeManager {
     // Store to DB as timeout
     this.logRequest(requestId, message, undefined, conversationId, "timeout");
 
-    // Notify user on glasses
-    this.user.appSession?.audio.speak("Claude's request has timed out.").catch(() => {});
+    // Notify user on glasses — unless Do Not Disturb is on
+    if (!this.user.focus.isActive()) {
+      this.user.appSession?.audio.speak("Claude's request has timed out.").catch(() => {});
+    }
 
     resolve({
       status: "timeout",
@@ -351,6 +373,8 @@ export class BridgeManager {
     conversationId: string,
     status: string,
   ): void {
+    if (!isDbAvailable()) return;
+
     db.insert(bridgeRequests)
       .values({
         id: requestId,
@@ -375,6 +399,7 @@ export class BridgeManager {
       const p = this.parkedRequest;
       clearTimeout(p.timeoutTimer);
       if (p.warningTimer) clearTimeout(p.warningTimer);
+      this.user.focus.withdraw("bridge", HELD_NOTICE);
 
       this.logRequest(p.requestId, p.message, undefined, p.conversationId, "timeout");
       p.resolve({
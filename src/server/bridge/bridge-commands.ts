@@ -1,20 +1,27 @@
 /**
  * Bridge voice command classifiers — regex-based, fast, deterministic.
- * Follows the same pattern as conversational-closers.ts and device-commands.ts.
+ * Follows the same pattern as conversational-closers.ts and device-commands.ts,
+ * including one pattern pack per language.
  */
 
+import type { Language } from "../constants/languages";
+
 // --- Deferral detection (user is busy, defer the Claude message) ---
 
 export type BridgeDeferral = { type: "busy" };
 
-const BRIDGE_DEFERRAL_PATTERN =
-  /^\s*(i'?m\s+(busy|occupied|in\s+a\s+meeting|driving|not\s+available)|not\s+(now|right\s+now)|later|hold\s+(on|that)|save\s+(it|that)|come\s+back\s+later|can'?t\s+(talk|respond)\s*(right\s+now)?)\s*[.!]*\s*$/i;
+const BRIDGE_DEFERRAL_PATTERNS: Record<Language, RegExp> = {
+  en: /^\s*(i'?m\s+(busy|occupied|in\s+a\s+meeting|driving|not\s+available)|not\s+(now|right\s+now)|later|hold\s+(on|that)|save\s+(it|that)|come\s+back\s+later|can'?t\s+(talk|respond)\s*(right\s+now)?)\s*[.!]*\s*$/i,
+  es: /^\s*(estoy\s+(ocupad[oa]|en\s+una\s+reuni[oó]n|conduciendo|manejando)|ahora\s+no|m[aá]s\s+tarde|luego|espera|esp[eé]rate|gu[aá]rdalo|vuelve\s+(luego|m[aá]s\s+tarde)|no\s+puedo\s+(hablar|responder)(\s+ahora)?)\s*[.!]*\s*$/i,
+  de: /^\s*(ich\s+bin\s+(besch[äa]ftigt|in\s+einem\s+meeting|in\s+einer\s+besprechung|am\s+fahren|unterwegs)|nicht\s+jetzt|jetzt\s+nicht|sp[äa]ter|warte|speicher\s+(es|das)|komm\s+sp[äa]ter\s+wieder|ich\s+kann\s+(gerade\s+)?nicht\s+(reden|antworten))\s*[.!]*\s*$/i,
+  fr: /^\s*(je\s+suis\s+(occup[ée]e?|en\s+r[ée]union|en\s+train\s+de\s+conduire|au\s+volant)|pas\s+maintenant|plus\s+tard|attends|garde-le|reviens\s+plus\s+tard|je\s+ne\s+peux\s+pas\s+(parler|r[ée]pondre)(\s+maintenant)?)\s*[.!]*\s*$/i,
+};
 
-export function classifyBridgeDeferral(query: string): BridgeDeferral | null {
+export function classifyBridgeDeferral(query: string, language: Language = "en"): BridgeDeferral | null {
   const trimmed = query.trim();
   if (!trimmed) return null;
   if (trimmed.split(/\s+/).length > 10) return null; // guard: too long to be a deferral
-  if (BRIDGE_DEFERRAL_PATTERN.test(trimmed)) return { type: "busy" };
+  if (BRIDGE_DEFERRAL_PATTERNS[language].test(trimmed)) return { type: "busy" };
   return null;
 }
 
@@ -22,14 +29,18 @@ export function classifyBridgeDeferral(query: string): BridgeDeferral | null {
 
 export type BridgeAcceptance = { type: "accept" };
 
-const BRIDGE_ACCEPTANCE_PATTERN =
-  /^\s*(let'?s?\s+hear\s+it|go\s+ahead|what\s+(is\s+it|did\s+(they|claude|he|she)\s+(say|ask|want|need))|sure|yes|yeah|yep|ok(ay)?|read\s+it|tell\s+me|shoot|let'?s?\s+go|i'?m\s+listening|what'?s?\s+up|bring\s+it|lay\s+it\s+on\s+me|great[,!]?\s+let'?s?\s+hear\s+it)\s*[.!?]*\s*$/i;
+const BRIDGE_ACCEPTANCE_PATTERNS: Record<Language, RegExp> = {
+  en: /^\s*(let'?s?\s+hear\s+it|go\s+ahead|what\s+(is\s+it|did\s+(they|claude|he|she)\s+(say|ask|want|need))|sure|yes|yeah|yep|ok(ay)?|read\s+it|tell\s+me|shoot|let'?s?\s+go|i'?m\s+listening|what'?s?\s+up|bring\s+it|lay\s+it\s+on\s+me|great[,!]?\s+let'?s?\s+hear\s+it)\s*[.!?]*\s*$/i,
+  es: /^\s*¿?\s*(adelante|dime|cu[eé]ntame|s[ií]|claro|vale|ok(ay)?|de\s+acuerdo|l[eé]elo|qu[eé]\s+(dice|dijo|quiere|necesita)(\s+claude)?|te\s+escucho|a\s+ver|venga|dale)\s*[.!?]*\s*$/i,
+  de: /^\s*(los|leg\s+los|schie(ß|ss)\s+los|ja|klar|ok(ay)?|gut|lies\s+(es\s+)?vor|erz[äa]hl|was\s+(ist\s+es|gibt'?s|(sagt|will|braucht)\s+(er|sie|claude))|ich\s+h[öo]re|na\s+gut|sicher)\s*[.!?]*\s*$/i,
+  fr: /^\s*(vas-y|allez-y|dis-moi|oui|ouais|d'accord|ok(ay)?|bien\s+s[uû]r|lis-le|je\s+t'[ée]coute|qu'est-ce\s+qu'(il|elle|claude)\s+(dit|veut|demande)|c'est\s+quoi|volontiers)\s*[.!?]*\s*$/i,
+};
 
-export function classifyBridgeAcceptance(query: string): BridgeAcceptance | null {
+export function classifyBridgeAcceptance(query: string, language: Language = "en"): BridgeAcceptance | null {
   const trimmed = query.trim();
   if (!trimmed) return null;
   if (trimmed.split(/\s+/).length > 12) return null; // guard: too long to be acceptance
-  if (BRIDGE_ACCEPTANCE_PATTERN.test(trimmed)) return { type: "accept" };
+  if (BRIDGE_ACCEPTANCE_PATTERNS[language].test(trimmed)) return { type: "accept" };
   return null;
 }
 
@@ -37,10 +48,14 @@ export function classifyBridgeAcceptance(query: string): BridgeAcceptance | null
 
 export type BridgeCommand = { type: "check_messages" };
 
-const BRIDGE_CHECK_MESSAGES_PATTERN =
-  /\b(i'?m\s+ready(\s+now)?|check\s+(my\s+)?messages?|what\s+did\s+claude\s+(need|ask|want|say|send|write)|what\s+(did|does)\s+claude\s+code\s+(need|ask|want|say|send|have)|claude('?s)?\s+(message|question|request|update)|pending\s+messages?|any\s+(messages?|updates?)\s+from\s+claude|does\s+claude(\s+code)?\s+have\s+(a\s+)?(message|something|anything|an?\s+update)|did\s+claude(\s+code)?\s+(say|send|ask|want|write|leave)\s+(something|anything|a\s+message|me\s+something)|anything\s+from\s+claude(\s+code)?|claude(\s+code)?\s+(waiting|pending)|go\s+back\s+to\s+claude(\s+code)?|get\s+back\s+to\s+claude(\s+code)?|respond\s+to\s+claude(\s+code)?|reply\s+to\s+claude(\s+code)?)\b/i;
+const BRIDGE_CHECK_MESSAGES_PATTERNS: Record<Language, RegExp> = {
+  en: /\b(i'?m\s+ready(\s+now)?|check\s+(my\s+)?messages?|what\s+did\s+claude\s+(need|ask|want|say|send|write)|what\s+(did|does)\s+claude\s+code\s+(need|ask|want|say|send|have)|claude('?s)?\s+(message|question|request|update)|pending\s+messages?|any\s+(messages?|updates?)\s+from\s+claude|does\s+claude(\s+code)?\s+have\s+(a\s+)?(message|something|anything|an?\s+update)|did\s+claude(\s+code)?\s+(say|send|ask|want|write|leave)\s+(something|anything|a\s+message|me\s+something)|anything\s+from\s+claude(\s+code)?|claude(\s+code)?\s+(waiting|pending)|go\s+back\s+to\s+claude(\s+code)?|get\s+back\s+to\s+claude(\s+code)?|respond\s+to\s+claude(\s+code)?|reply\s+to\s+claude(\s+code)?)\b/i,
+  es: /(estoy\s+list[oa]|revisa\s+(mis\s+)?mensajes|mensajes?\s+(pendientes|de\s+claude)|qu[eé]\s+(dijo|quer[ií]a|necesita|pregunt[oó])\s+claude|algo\s+de\s+claude|volver\s+a\s+claude|responder\s+a\s+claude)/i,
+  de: /(ich\s+bin\s+(jetzt\s+)?bereit|nachrichten\s+pr[üu]fen|pr[üu]fe?\s+(meine\s+)?nachrichten|was\s+(wollte|brauchte|sagte|fragte)\s+claude|nachrichte?n?\s+von\s+claude|ausstehende\s+nachrichten|zur[üu]ck\s+zu\s+claude|claude\s+antworten)/i,
+  fr: /(je\s+suis\s+pr[eê]te?|v[ée]rifie\s+(mes\s+)?messages|messages?\s+(en\s+attente|de\s+claude)|qu'est-ce\s+que\s+claude\s+(voulait|a\s+dit|a\s+demand[ée])|quelque\s+chose\s+de\s+claude|retour\s+[àa]\s+claude|r[ée]pondre\s+[àa]\s+claude)/i,
+};
 
-export function classifyBridgeCommand(query: string): BridgeCommand | null {
-  if (BRIDGE_CHECK_MESSAGES_PATTERN.test(query)) return { type: "check_messages" };
+export function classifyBridgeCommand(query: string, language: Language = "en"): BridgeCommand | null {
+  if (BRIDGE_CHECK_MESSAGES_PATTERNS[language].test(query)) return { type: "check_messages" };
   return null;
 }
@@ -154,6 +154,9 @@ bridgeApi.post("/notify", requirePaired, async (c) => {
     if (err.message?.includes("already parked")) {
       return c.json({ error: err.message }, 409);
     }
+    if (err.message?.includes("Do Not Disturb")) {
+      return c.json({ error: err.message }, 503);
+    }
     return c.json({ error: err.message || "Internal error" }, 500);
   }
 });
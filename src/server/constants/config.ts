@@ -2,6 +2,11 @@
  * Any AI Configuration Constants
  */
 
+import { readFileSync } from "node:fs";
+
+/** App version from package.json, e.g. "0.8.0" */
+const APP_VERSION: string = JSON.parse(readFileSync(new URL("../../../package.json", import.meta.url), "utf8")).version;
+
 /**
  * Response mode determines the length and depth of responses
  */
@@ -37,6 +42,10 @@ export const CONVERSATION_SETTINGS = {
   maxTurns: 30,
   // Maximum age of turns to include (8 hours in ms)
   maxAgeMs: 8 * 60 * 60 * 1000,
+  // Maximum earlier turns of the current exchange sent as real messages
+  maxExchangeMessageTurns: 10,
+  // Maximum earlier photos of the current exchange re-sent as image parts
+  maxExchangeMessagePhotos: 2,
 };
 
 /**
@@ -53,6 +62,30 @@ export const LOCATION_CACHE_SETTINGS = {
   airQualityCacheDurationMs: 30 * 60 * 1000,
   // Pollen cache duration (2 hours in ms)
   pollenCacheDurationMs: 2 * 60 * 60 * 1000,
+  // Forecast cache duration (1 hour in ms) — hourly and daily forecasts, per ~1km area
+  forecastCacheDurationMs: 60 * 60 * 1000,
+  // Hours in the hourly forecast
+  forecastHours: 24,
+  // Days in the daily forecast
+  forecastDays: 7,
+};
+
+/**
+ * Keyless location backend — Open-Meteo-compatible weather and a
+ * Nominatim-compatible reverse geocoder. Self-hosters can point these at
+ * their own instances.
+ */
+export const OPEN_LOCATION_SETTINGS = {
+  // Weather API base URL (forecasts are read from {base}/v1/forecast)
+  weatherBaseUrl: (process.env.OPEN_METEO_BASE_URL || "https://api.open-meteo.com").replace(/\/$/, ""),
+  // Geocoder base URL (addresses are read from {base}/reverse)
+  geocoderBaseUrl: (process.env.NOMINATIM_BASE_URL || "https://nominatim.openstreetmap.org").replace(/\/$/, ""),
+  // Air quality API base URL (US AQI for environment alerts is read from {base}/v1/air-quality)
+  airQualityBaseUrl: (process.env.OPEN_METEO_AIR_QUALITY_BASE_URL || "https://air-quality-api.open-meteo.com").replace(/\/$/, ""),
+  // Nominatim's usage policy requires a User-Agent that identifies the app
+  userAgent: `AnyAI/${APP_VERSION} (+https://github.com/cclavio/Any-AI)`,
+  // Per-request timeout
+  requestTimeoutMs: 5000,
 };
 
 /**
@@ -100,6 +133,254 @@ export const EXCHANGE_SETTINGS = {
   tagMaxTokens: 100,
 };
 
+/**
+ * Monthly spend cap settings
+ */
+export const BUDGET_SETTINGS = {
+  // Fraction of the monthly budget that triggers the spoken warning
+  warningThreshold: 0.8,
+  // Words that suggest a query is about what the user sees (used instead of the classifier LLM when over budget)
+  visualHintPattern: /\b(this|that|these|those|look(ing)?|see|read|what am i|in front of me)\b/i,
+};
+
+/**
+ * Long-term memory settings
+ */
+export const MEMORY_SETTINGS = {
+  // Most relevant facts injected into the system prompt per query
+  promptLimit: 8,
+  // Facts returned by the recall_facts tool
+  recallLimit: 10,
+  // Longest fact we'll store (characters) — memories are short facts, not notes
+  maxLength: 300,
+};
+
+/**
+ * History search (embeddings) settings
+ */
+export const HISTORY_SEARCH_SETTINGS = {
+  // Most entries embedded per catch-up pass (older history is backfilled over later passes)
+  maxEmbedPerPass: 300,
+  // Sources read per page while looking for unindexed ones, and most pages per pass
+  pageSize: 200,
+  maxPagesPerPass: 10,
+  // Entries sent per embeddings API call
+  batchSize: 32,
+  // Longest text embedded per entry (characters)
+  maxContentLength: 2000,
+  // Matches returned by the search_history tool
+  resultLimit: 5,
+  // Minimum cosine similarity for a match to be returned
+  minScore: 0.3,
+  // Incremental passes also re-check this far back (photos are analyzed after capture, tags after an exchange ends)
+  lookbackMs: 60 * 60 * 1000,
+};
+
+/**
+ * Timers, alarms, and reminders
+ */
+export const REMINDER_SETTINGS = {
+  // Most pending reminders per user
+  maxPending: 50,
+  // Longest message we'll store (characters)
+  maxMessageLength: 200,
+  // Furthest ahead a reminder can be set
+  maxAheadMs: 365 * 24 * 60 * 60 * 1000,
+  // The scheduler wakes at least this often, even with nothing due sooner
+  maxSleepMs: 60 * 60 * 1000,
+  // How long a delivered reminder stays on the HUD
+  displayMs: 10000,
+  // Wait after (re)connecting before delivering queued reminders, so the welcome message plays first
+  reconnectDelayMs: 3000,
+  // Wait before retrying a reminder that wasn't delivered (failed, or Do Not Disturb skipped it)
+  retryDelayMs: 60 * 1000,
+  // Location reminders: default circle around the place (meters)
+  geofenceRadiusM: 150,
+  // Smallest/largest circle the agent can ask for (meters)
+  minGeofenceRadiusM: 50,
+  maxGeofenceRadiusM: 2000,
+  // Hysteresis — leaving only counts beyond radius + this, so GPS jitter at the edge doesn't double-fire
+  geofenceMarginM: 75,
+  // Places searched for a location reminder are looked up within this distance of the user (meters)
+  placeSearchRadiusM: 10000,
+};
+
+/**
+ * Notification triage rules (announce / HUD / digest / ignore)
+ */
+export const NOTIFICATION_RULE_SETTINGS = {
+  // Most rules per user
+  maxRules: 50,
+  // Most keywords in one rule
+  maxKeywords: 10,
+  // Longest app, sender, or keyword (characters)
+  maxFieldLength: 60,
+  // Longest notification text read out or shown (characters)
+  maxAnnouncementChars: 200,
+  // How long an announced notification stays on the HUD
+  displayMs: 8000,
+  // Rule hits are kept in user_context this long
+  hitTtlMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Do Not Disturb / focus mode — gates proactive speech
+ */
+export const FOCUS_SETTINGS = {
+  // How often the focus state is re-checked (to notice it ending) while the glasses are connected
+  checkIntervalMs: 30 * 1000,
+  // "Don't disturb me" with no duration, and the longest a voice request can set
+  defaultMinutes: 60,
+  maxMinutes: 24 * 60,
+  // Most held-back outputs kept for the summary (oldest are dropped first)
+  maxHeld: 20,
+  // Held-back outputs read out in full in the summary — the rest are counted
+  summaryItems: 5,
+  // How long the summary stays on the HUD
+  displayMs: 15000,
+};
+
+/**
+ * Notification digests — "summarize my notifications" and the scheduled digest
+ */
+export const NOTIFICATION_DIGEST_SETTINGS = {
+  // Most notifications (newest first) sent to the LLM for one digest
+  maxNotifications: 30,
+  // Longest notification text sent to the LLM (characters)
+  maxContentChars: 200,
+  // Longest digest (tokens)
+  maxTokens: 200,
+  // Minutes between scheduled digests — default and allowed range
+  defaultIntervalMinutes: 60,
+  minIntervalMinutes: 15,
+  maxIntervalMinutes: 8 * 60,
+  // How often the schedule is checked while the glasses are connected
+  checkIntervalMs: 60 * 1000,
+  // How long a scheduled digest stays on the HUD
+  displayMs: 15000,
+};
+
+/**
+ * Notification archive — opt-in long-term notification history
+ */
+export const NOTIFICATION_ARCHIVE_SETTINGS = {
+  // Days notifications are kept — default and allowed range
+  defaultRetentionDays: 30,
+  minRetentionDays: 1,
+  maxRetentionDays: 365,
+  // Longest notification text archived (characters)
+  maxContentChars: 1000,
+  // Most matches the search tool returns to the model
+  maxResults: 10,
+  // Entries per page in the Settings browser
+  pageSize: 50,
+  // How often every user's entries past the retention period are deleted
+  pruneIntervalMs: 60 * 60 * 1000,
+};
+
+/**
+ * Proactive upcoming-meeting reminders (opt-in, from the phone's calendar)
+ */
+export const MEETING_REMINDER_SETTINGS = {
+  // How often upcoming events are checked while the glasses are connected
+  checkIntervalMs: 30 * 1000,
+  // Minutes before the start a reminder plays — default and allowed range
+  defaultLeadMinutes: 10,
+  minLeadMinutes: 1,
+  maxLeadMinutes: 120,
+  // Most calendars the filter can list
+  maxCalendars: 30,
+  // How long a reminder stays on the HUD
+  displayMs: 10000,
+};
+
+/**
+ * Proactive environment alerts (opt-in background monitor)
+ */
+export const ENVIRONMENT_ALERT_SETTINGS = {
+  // How often conditions are re-checked while the glasses are connected
+  checkIntervalMs: 15 * 60 * 1000,
+  // Wait after connecting before the first check, so the welcome message plays first
+  startDelayMs: 60 * 1000,
+  // The same kind of alert isn't repeated within this window
+  kindCooldownMs: 4 * 60 * 60 * 1000,
+  // Minimum time between any two alerts
+  minGapMs: 30 * 60 * 1000,
+  // Hourly forecast entries checked for storms (the current hour and the next)
+  stormLookaheadHours: 2,
+  // How long an alert stays on the HUD
+  displayMs: 10000,
+  // Delivered alerts are kept in user_context this long
+  logTtlMs: 7 * 24 * 60 * 60 * 1000,
+  // Defaults for a new config — US AQI, and the Universal Pollen Index (0–5, 4 = High)
+  defaultAqiThreshold: 150,
+  defaultPollenThreshold: 4,
+};
+
+/**
+ * Place search and details (nearby_places / place_details tools)
+ */
+export const PLACES_SETTINGS = {
+  // Results per search
+  maxResults: 5,
+  // Search radius when the user doesn't give one, and the most allowed (meters)
+  defaultRadiusM: 1000,
+  maxRadiusM: 5000,
+  // Place details are reused within a session for this long — hours and
+  // open-now change, so not forever
+  detailsCacheMs: 15 * 60 * 1000,
+  // Reviews read out per place
+  maxReviews: 3,
+  // Longest review excerpt (characters)
+  reviewExcerptChars: 200,
+};
+
+/**
+ * Saved places (home, work, favorites)
+ */
+export const SAVED_PLACE_SETTINGS = {
+  // Most saved places per user
+  maxPlaces: 30,
+  // Longest place name (characters)
+  maxNameLength: 40,
+  // Addresses are looked up within this distance of the user (meters)
+  searchRadiusM: 50000,
+  // "Save this place" uses the last geocoded address only if it was this close (meters)
+  addressMatchM: 100,
+};
+
+/**
+ * Live translation mode settings
+ */
+export const TRANSLATION_SETTINGS = {
+  // Longest translation per utterance (tokens)
+  maxTokens: 300,
+  // Translations are spoken quietly so they don't talk over the conversation
+  speakVolume: 0.6,
+  // How long a translation stays on the HUD
+  displayMs: 8000,
+};
+
+/**
+ * Turn-by-turn navigation settings
+ */
+export const NAVIGATION_SETTINGS = {
+  // Announce the next maneuver this far before it (meters)
+  announceDistanceM: { WALK: 30, DRIVE: 250 },
+  // Within this distance of the destination counts as arrived (meters)
+  arrivalM: 25,
+  // Farther than this from the route counts as off-route (meters)
+  offRouteM: 50,
+  // Consecutive off-route fixes before re-routing, so one bad fix doesn't
+  offRouteFixes: 3,
+  // Minimum time between re-routes
+  rerouteCooldownMs: 20000,
+  // How many steps ahead progress can jump in one fix
+  stepLookahead: 3,
+  // Destinations are looked up within this distance of the user (meters)
+  placeSearchRadiusM: 20000,
+};
+
 /**
  * Comprehension failure auto-close settings
  */
@@ -0,0 +1,36 @@
+/**
+ * Languages — supported response languages and their locale data
+ *
+ * The user's language picks the classifier pattern packs (closers, device
+ * commands, bridge replies, comprehension failures), the TTS normalizer,
+ * date/time formatting, the transcription language, and the prompt's
+ * response-language instruction.
+ */
+
+export type Language = "en" | "es" | "de" | "fr";
+
+export const LANGUAGE_IDS: Language[] = ["en", "es", "de", "fr"];
+
+export interface LanguageInfo {
+  /** English name — used in the prompt's response-language instruction */
+  name: string;
+  /** Name in the language itself — shown in Settings */
+  nativeName: string;
+  /** BCP 47 locale for date formatting, transcription, and Google APIs */
+  locale: string;
+  /** Local greetings that can stand in for a wake word's "Hey" ("Oye Jarvis") */
+  wakePrefixes: string[];
+  /** Spoken reply to "thanks" */
+  youreWelcome: string;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { name: "English", nativeName: "English", locale: "en-US", wakePrefixes: [], youreWelcome: "You're welcome!" },
+  es: { name: "Spanish", nativeName: "Español", locale: "es-ES", wakePrefixes: ["Oye", "Hola"], youreWelcome: "¡De nada!" },
+  de: { name: "German", nativeName: "Deutsch", locale: "de-DE", wakePrefixes: ["Hallo", "Hei"], youreWelcome: "Gern geschehen!" },
+  fr: { name: "French", nativeName: "Français", locale: "fr-FR", wakePrefixes: ["Salut", "Dis"], youreWelcome: "Je vous en prie !" },
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && LANGUAGE_IDS.includes(value as Language);
+}
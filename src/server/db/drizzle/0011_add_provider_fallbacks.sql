@@ -0,0 +1,6 @@
+-- Ordered fallback chains for LLM and vision providers.
+-- Each entry: { provider, model, apiKeyVaultId?, customBaseUrl?, customProviderName? }
+-- Keys are stored in Vault — only secret IDs live in these arrays.
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS llm_fallbacks JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS vision_fallbacks JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,5 @@
+-- Per-task model routing for the LLM provider.
+-- Shape: { fastModel?, strongModel?, rules: { quick?, standard?, detailed?, tools?, classifier?, tagging? } }
+-- Each rule is "default" | "fast" | "strong". NULL = every task uses llm_model.
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS model_routing JSONB;
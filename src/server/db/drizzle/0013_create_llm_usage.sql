@@ -0,0 +1,25 @@
+-- Migration: Create llm_usage table
+-- One row per LLM call (agent turns, visual classifier, exchange/photo tagging, photo analysis)
+-- with token counts and an estimated cost so users can see what their keys are spending.
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  purpose TEXT NOT NULL,  -- 'agent' | 'visual_classifier' | 'exchange_tags' | 'photo_tags' | 'photo_analysis'
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd DOUBLE PRECISION,  -- NULL when the model has no known price (custom/local)
+  turn_id UUID REFERENCES conversation_turns(id) ON DELETE SET NULL,
+  exchange_id UUID REFERENCES exchanges(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_llm_usage_user_created ON llm_usage (user_id, created_at DESC);
+
+-- RLS
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_llm_usage" ON llm_usage
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
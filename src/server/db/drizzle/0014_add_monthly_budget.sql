@@ -0,0 +1,8 @@
+-- Monthly spend caps.
+-- monthly_budget_usd: NULL = no cap. budget_cheap_model: LLM model (same provider) used once the cap is hit.
+-- budget_alert_month/level: highest alert already spoken ("YYYY-MM", 80 or 100) so each is said once per month.
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS monthly_budget_usd DOUBLE PRECISION;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS budget_cheap_model TEXT;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS budget_alert_month TEXT;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS budget_alert_level INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,20 @@
+-- Migration: Create memories table
+-- Durable facts the user asked the assistant to remember ("my locker is 42",
+-- "I'm allergic to peanuts"). Unlike conversation history these never expire —
+-- rows are only removed when the user asks to forget them or deletes them in Settings.
+
+CREATE TABLE IF NOT EXISTS memories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_memories_user ON memories (user_id, updated_at DESC);
+
+-- RLS
+ALTER TABLE memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_memories" ON memories
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,28 @@
+-- Migration: Create history_embeddings table (pgvector)
+-- Embeddings of conversation turns, exchange tags, and photo analyses so the
+-- search_history tool can find things older than the 48h prompt window.
+-- Vectors come from the user's own provider, so the dimension varies by model —
+-- the column is unconstrained and searches are filtered to one model per user.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS history_embeddings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  source_type TEXT NOT NULL,  -- 'turn' | 'exchange' | 'photo'
+  source_id UUID NOT NULL,
+  model TEXT NOT NULL,        -- embedding model (vectors from different models aren't comparable)
+  content TEXT NOT NULL,
+  embedding vector NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id, model)
+);
+
+CREATE INDEX idx_history_embeddings_user_model ON history_embeddings (user_id, model);
+
+-- RLS
+ALTER TABLE history_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_history_embeddings" ON history_embeddings
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
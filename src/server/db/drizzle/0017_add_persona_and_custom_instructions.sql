@@ -0,0 +1,8 @@
+-- Migration: Add persona and custom instructions to user_settings
+-- persona picks a preset personality for the system prompt's Core Principles;
+-- custom_instructions is free-form text ("I'm a nurse, use metric units").
+-- Neither can override the prompt's word limits or TTS/HUD formatting rules.
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS persona TEXT NOT NULL DEFAULT 'default',  -- 'default' | 'concise' | 'friendly' | 'tutor'
+  ADD COLUMN IF NOT EXISTS custom_instructions TEXT;
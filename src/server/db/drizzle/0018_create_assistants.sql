@@ -0,0 +1,31 @@
+-- Migration: Create assistants table
+-- Named assistants with their own wake word, model, persona, and tool set
+-- ("Hey Chef" → cooking persona on Gemini, "Hey Coder" → terse Claude).
+-- Assistants reuse an API key the user already saved (primary, vision, or a
+-- fallback), so no Vault secrets are stored here. exchanges.assistant_id
+-- records which assistant answered; NULL means the default assistant.
+
+CREATE TABLE IF NOT EXISTS assistants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  wake_word TEXT NOT NULL,
+  llm_provider TEXT NOT NULL,                  -- 'openai' | 'anthropic' | 'google' | 'custom'
+  llm_model TEXT NOT NULL,
+  persona TEXT NOT NULL DEFAULT 'default',     -- same presets as user_settings.persona
+  custom_instructions TEXT,
+  tools TEXT[],                                -- enabled tool groups; NULL = all tools
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_assistants_user_wake_word ON assistants (user_id, lower(wake_word));
+
+ALTER TABLE exchanges
+  ADD COLUMN IF NOT EXISTS assistant_id UUID REFERENCES assistants(id) ON DELETE SET NULL;
+
+-- RLS
+ALTER TABLE assistants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_assistants" ON assistants
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,6 @@
+-- Migration: Add language to user_settings
+-- Picks the transcription language, the classifier pattern packs, TTS number
+-- formatting, and the language the assistant replies in.
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';  -- 'en' | 'es' | 'de' | 'fr'
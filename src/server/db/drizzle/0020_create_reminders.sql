@@ -0,0 +1,26 @@
+-- Migration: Create reminders table
+-- Timers ("10 minutes"), alarms ("wake me at 7"), and reminders ("at 3pm, call mom").
+-- The scheduler loads pending rows on startup, so they survive restarts. A due
+-- reminder stays pending while the glasses are disconnected and is delivered
+-- on reconnect.
+
+CREATE TABLE IF NOT EXISTS reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL,                        -- 'timer' | 'alarm' | 'reminder'
+  message TEXT NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  timezone TEXT,                             -- user's IANA timezone when it was set
+  status TEXT NOT NULL DEFAULT 'pending',    -- 'pending' | 'delivered' | 'cancelled'
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reminders_pending ON reminders (due_at) WHERE status = 'pending';
+CREATE INDEX idx_reminders_user ON reminders (user_id, status, due_at);
+
+-- RLS
+ALTER TABLE reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_reminders" ON reminders
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
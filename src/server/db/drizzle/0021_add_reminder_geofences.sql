@@ -0,0 +1,13 @@
+-- Migration: Location-triggered reminders
+-- "Remind me to buy milk when I get to the grocery store" / "...when I leave
+-- work". A location reminder has no due time; it fires when the user enters
+-- or leaves a circle around the place.
+
+ALTER TABLE reminders ALTER COLUMN due_at DROP NOT NULL;
+
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS place_name TEXT,
+  ADD COLUMN IF NOT EXISTS lat DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS lng DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS radius_m INTEGER,
+  ADD COLUMN IF NOT EXISTS trigger TEXT;  -- 'enter' | 'exit' (location reminders only)
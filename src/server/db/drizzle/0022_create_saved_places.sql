@@ -0,0 +1,24 @@
+-- Migration: Create saved_places table
+-- Named places ("home", "work", "the gym") saved from Settings or by voice.
+-- Directions, navigation, weather, and location reminders accept these names,
+-- and they're listed in the system prompt so the agent can resolve "home".
+
+CREATE TABLE IF NOT EXISTS saved_places (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  address TEXT,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One place per name per user (saving "Home" again moves it)
+CREATE UNIQUE INDEX idx_saved_places_user_name ON saved_places (user_id, lower(name));
+
+-- RLS
+ALTER TABLE saved_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_saved_places" ON saved_places
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
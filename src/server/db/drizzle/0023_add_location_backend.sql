@@ -0,0 +1,7 @@
+-- Migration: Add location_backend to user_settings
+-- Picks the backend for reverse geocoding, weather, forecasts, and timezone
+-- detection. 'auto' keeps Google Cloud when the user has a key and falls back
+-- to keyless open data (Open-Meteo + Nominatim) when they don't.
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS location_backend TEXT NOT NULL DEFAULT 'auto';  -- 'auto' | 'google' | 'open'
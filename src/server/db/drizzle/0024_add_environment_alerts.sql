@@ -0,0 +1,8 @@
+-- Migration: Add environment_alerts to user_settings
+-- Settings for the opt-in background monitor that speaks a short alert when
+-- the air quality, pollen for the user's allergens, or an incoming storm
+-- crosses a threshold. Delivered alerts are logged to user_context
+-- (context_type 'environment_alert').
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS environment_alerts JSONB;  -- EnvironmentAlertConfig, NULL = off
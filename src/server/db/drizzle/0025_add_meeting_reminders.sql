@@ -0,0 +1,8 @@
+-- Migration: Add meeting_reminders to user_settings
+-- Settings for opt-in reminders before the phone's calendar events: lead
+-- time, which calendars trigger them, and the travel mode used to estimate
+-- travel time to the event's location. Delivered reminders are logged to
+-- user_context (context_type 'meeting_reminder') so they don't repeat.
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS meeting_reminders JSONB;  -- MeetingReminderConfig, NULL = off
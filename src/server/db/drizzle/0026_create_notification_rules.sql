@@ -0,0 +1,26 @@
+-- Migration: Create notification_rules table
+-- Triage rules for phone notifications, added from Settings or by voice
+-- ("always tell me when Alice texts"). A rule matches on app, sender (the
+-- notification title), keywords, and/or priority, and sets what happens:
+-- announce right away, show on the HUD, keep for the digest, or ignore.
+-- Rule hits are logged to user_context (context_type 'notification_rule_hit').
+
+CREATE TABLE IF NOT EXISTS notification_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  app TEXT,
+  sender TEXT,
+  keywords JSONB NOT NULL DEFAULT '[]',
+  priority TEXT,                       -- 'low' | 'normal' | 'high', NULL = any
+  action TEXT NOT NULL,                -- 'announce' | 'hud' | 'digest' | 'ignore'
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_rules_user ON notification_rules (user_id);
+
+-- RLS
+ALTER TABLE notification_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_notification_rules" ON notification_rules
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
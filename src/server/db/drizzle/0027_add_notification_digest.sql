@@ -0,0 +1,7 @@
+-- Migration: Add notification_digest to user_settings
+-- Settings for the opt-in scheduled notification digest: a short LLM summary
+-- of the notifications that arrived since the last one, delivered every
+-- interval_minutes while the glasses are connected.
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS notification_digest JSONB;  -- NotificationDigestConfig, NULL = off
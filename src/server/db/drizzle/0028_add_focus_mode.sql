@@ -0,0 +1,9 @@
+-- Migration: Add focus_mode to user_settings
+-- Do Not Disturb settings: quiet hours, whether busy calendar events turn it
+-- on, and what each proactive source (bridge, reminders, meeting reminders,
+-- environment alerts, announced notifications, digests) does while it's on.
+-- A voice-requested Do Not Disturb is kept in user_context
+-- (context_type 'focus_mode') until it ends.
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS focus_mode JSONB;  -- FocusConfig, NULL = defaults
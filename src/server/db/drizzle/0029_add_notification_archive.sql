@@ -0,0 +1,30 @@
+-- Migration: Create notification_archive table
+-- Opt-in long-term copy of phone notifications. The recent list in
+-- user_context expires after 4 hours; archived notifications are kept for
+-- the user's retention period (user_settings.notification_archive) so
+-- "what was that verification code from this morning?" can be answered.
+-- Dismissing a notification on the phone doesn't remove it from the archive.
+
+CREATE TABLE IF NOT EXISTS notification_archive (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  notification_id TEXT NOT NULL,
+  app TEXT NOT NULL,
+  title TEXT NOT NULL,                 -- usually the sender or conversation
+  content TEXT NOT NULL,
+  priority TEXT NOT NULL,              -- 'low' | 'normal' | 'high'
+  received_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, notification_id)
+);
+
+CREATE INDEX idx_notification_archive_user_received ON notification_archive (user_id, received_at DESC);
+
+-- RLS
+ALTER TABLE notification_archive ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_role_full_access_notification_archive" ON notification_archive
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS notification_archive JSONB;  -- NotificationArchiveConfig, NULL = off
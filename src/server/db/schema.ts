@@ -5,11 +5,23 @@
  *   - user_settings: Extended with AI provider configuration
  *   - conversations: One row per user per day
  *   - conversation_turns: Individual Q&A pairs (normalized from Mongoose embedded array)
+ *   - llm_usage: Token usage and estimated cost per LLM call
+ *   - history_embeddings: pgvector embeddings for searching older history
+ *   - reminders: Timers, alarms, and reminders waiting to be delivered
+ *   - saved_places: Named places (home, work, favorites)
+ *   - notification_archive: Opt-in long-term notification history
  *
  * API keys are NOT stored here — only Vault secret IDs (UUIDs).
  */
 
-import { pgTable, text, timestamp, boolean, integer, uuid, date, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, boolean, integer, uuid, date, jsonb, doublePrecision, unique, customType } from "drizzle-orm/pg-core";
+
+/** pgvector column with no fixed dimension (embedding size depends on the user's model) */
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => "vector",
+  toDriver: (value) => JSON.stringify(value),
+  fromDriver: (value) => JSON.parse(value) as number[],
+});
 
 /**
  * User settings — extended with AI provider configuration.
@@ -26,6 +38,11 @@ export const userSettings = pgTable("user_settings", {
   // Personalization
   agentName: text("agent_name").notNull().default("Any AI"),
   wakeWord: text("wake_word").notNull().default("Hey Jarvis"),
+  // Preset personality (PersonaId) and free-form standing instructions for the system prompt
+  persona: text("persona").notNull().default("default"),
+  customInstructions: text("custom_instructions"),
+  // Response language (Language) — also picks transcription, classifiers, and TTS formatting
+  language: text("language").notNull().default("en"),
 
   // LLM provider config
   llmProvider: text("llm_provider").default("openai"),
@@ -45,6 +62,33 @@ export const userSettings = pgTable("user_settings", {
 
   // Google Cloud API key (optional — enables location, weather, places, directions, timezone)
   googleCloudApiKeyVaultId: text("google_cloud_api_key_vault_id"),
+  // Weather/geocoding/timezone backend (LocationBackend) — "auto" = Google with a key, else open data
+  locationBackend: text("location_backend").notNull().default("auto"),
+
+  // Ordered fallback chains — tried when the primary provider fails (StoredFallbackEntry[])
+  llmFallbacks: jsonb("llm_fallbacks").notNull().default([]),
+  visionFallbacks: jsonb("vision_fallbacks").notNull().default([]),
+
+  // Per-task model routing — fast/strong models from the LLM provider (ModelRoutingConfig)
+  modelRouting: jsonb("model_routing"),
+
+  // Monthly spend cap (USD, NULL = no cap) and the cheap LLM model used once it's reached
+  monthlyBudgetUsd: doublePrecision("monthly_budget_usd"),
+  budgetCheapModel: text("budget_cheap_model"),
+  // Highest budget alert spoken this month (80 or 100) — so each is said only once
+  budgetAlertMonth: text("budget_alert_month"),
+  budgetAlertLevel: integer("budget_alert_level").notNull().default(0),
+
+  // Proactive environment alerts — AQI, pollen, storms (EnvironmentAlertConfig, NULL = never set up)
+  environmentAlerts: jsonb("environment_alerts"),
+  // Proactive upcoming-meeting reminders (MeetingReminderConfig, NULL = never set up)
+  meetingReminders: jsonb("meeting_reminders"),
+  // Scheduled notification digests (NotificationDigestConfig, NULL = never set up)
+  notificationDigest: jsonb("notification_digest"),
+  // Do Not Disturb schedule and per-source policies (FocusConfig, NULL = defaults)
+  focusMode: jsonb("focus_mode"),
+  // Opt-in notification archive (NotificationArchiveConfig, NULL = off)
+  notificationArchive: jsonb("notification_archive"),
 
   // Tracks whether user has completed provider setup
   isAiConfigured: boolean("is_ai_configured").notNull().default(false),
@@ -92,9 +136,153 @@ export const exchanges = pgTable("exchanges", {
   endedAt: timestamp("ended_at", { withTimezone: true }),
   endReason: text("end_reason"),
   tags: text("tags").array().default([]),
+  /** Assistant that answered (picked by wake word) — NULL = the default assistant */
+  assistantId: uuid("assistant_id").references(() => assistants.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * LLM usage — one row per model call (or per model within a streamed agent turn).
+ * Purpose: agent | visual_classifier | exchange_tags | photo_tags | photo_analysis | history_index | history_search | translation | notification_digest
+ * cost_usd is an estimate from MODEL_PRICING — NULL for custom/local models.
+ */
+export const llmUsage = pgTable("llm_usage", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  purpose: text("purpose").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd"),
+  turnId: uuid("turn_id").references(() => conversationTurns.id, { onDelete: "set null" }),
+  exchangeId: uuid("exchange_id").references(() => exchanges.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Memories — durable facts the user asked the assistant to remember.
+ * Never expire; deleted only on "forget that" or from Settings.
+ */
+export const memories = pgTable("memories", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  content: text("content").notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+/**
+ * Assistants — named personas with their own wake word, model, and tool set.
+ * They reuse an API key the user already saved for that provider.
+ * tools: enabled tool groups (see TOOL_GROUPS) — NULL = all tools.
+ */
+export const assistants = pgTable("assistants", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  wakeWord: text("wake_word").notNull(),
+  llmProvider: text("llm_provider").notNull(),
+  llmModel: text("llm_model").notNull(),
+  persona: text("persona").notNull().default("default"),
+  customInstructions: text("custom_instructions"),
+  tools: text("tools").array(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Reminders — timers, alarms, and reminders, delivered by the reminder scheduler.
+ * Location reminders have no due_at; they fire from the GPS stream instead.
+ * Status: pending → delivered | cancelled (due + pending = waiting for the glasses to reconnect)
+ */
+export const reminders = pgTable("reminders", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  kind: text("kind").notNull(),
+  message: text("message").notNull(),
+  dueAt: timestamp("due_at", { withTimezone: true }),
+  timezone: text("timezone"),
+  // Location reminders — fire on entering/leaving the circle instead of at due_at
+  placeName: text("place_name"),
+  lat: doublePrecision("lat"),
+  lng: doublePrecision("lng"),
+  radiusM: integer("radius_m"),
+  trigger: text("trigger"),
+  status: text("status").notNull().default("pending"),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Saved places — "home", "work", "the gym". Names are unique per user
+ * (case-insensitive, enforced by index).
+ */
+export const savedPlaces = pgTable("saved_places", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  address: text("address"),
+  lat: doublePrecision("lat").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Notification rules — how phone notifications are triaged (announce, HUD,
+ * digest, ignore). Added from Settings or by voice ("always tell me when
+ * Alice texts"). Hits are logged to user_context (notification_rule_hit).
+ */
+export const notificationRules = pgTable("notification_rules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  app: text("app"),
+  sender: text("sender"),
+  keywords: jsonb("keywords").notNull().default([]),
+  priority: text("priority"),
+  action: text("action").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Notification archive — opt-in long-term copy of phone notifications, kept
+ * for the user's retention period (past the 4-hour recent list). Searched by
+ * the search_notification_history tool and browsed from Settings.
+ */
+export const notificationArchive = pgTable("notification_archive", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  notificationId: text("notification_id").notNull(),
+  app: text("app").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  priority: text("priority").notNull(),
+  receivedAt: timestamp("received_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.userId, table.notificationId),
+]);
+
+/**
+ * History embeddings — one vector per conversation turn, tagged exchange, or
+ * analyzed photo, per embedding model. Searched by the search_history tool.
+ */
+export const historyEmbeddings = pgTable("history_embeddings", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  sourceType: text("source_type").notNull(),
+  sourceId: uuid("source_id").notNull(),
+  model: text("model").notNull(),
+  content: text("content").notNull(),
+  embedding: vector("embedding").notNull(),
+  occurredAt: timestamp("occurred_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.sourceType, table.sourceId, table.model),
+]);
+
 /**
  * Generic user context — ephemeral data like calendar events, notifications, etc.
  * Rows expire based on expires_at and can be cleaned up periodically.
@@ -0,0 +1,76 @@
+/**
+ * AssistantManager — The user's named assistants ("Hey Chef", "Hey Coder")
+ *
+ * Each assistant has its own wake word, model, persona, and tool set.
+ * TranscriptionManager listens for every assistant's wake word; the match
+ * picks the assistant for the whole exchange (follow-ups keep it), and
+ * QueryProcessor answers with its config (see applyAssistant).
+ *
+ * Data flow:
+ *   Session start → initialize() → load from DB
+ *   Settings change → initialize() again (from the assistants API)
+ *   Wake word → match(wakeWordUsed) → assistant ID on the exchange and query
+ */
+
+import type { User } from "../session/User";
+import type { PersonaId } from "../agent/personas";
+import type { Provider } from "../agent/providers/types";
+import { listWakeWords, matchAssistant, type Assistant, type ToolGroup } from "../agent/assistants";
+import { db, isDbAvailable } from "../db/client";
+import { assistants } from "../db/schema";
+import { asc, eq } from "drizzle-orm";
+
+export class AssistantManager {
+  private assistants: Assistant[] = [];
+
+  constructor(private user: User) {}
+
+  /**
+   * Load the user's assistants from the database.
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const rows = await db
+        .select()
+        .from(assistants)
+        .where(eq(assistants.userId, this.user.userId))
+        .orderBy(asc(assistants.createdAt));
+
+      this.assistants = rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        wakeWord: row.wakeWord,
+        llmProvider: row.llmProvider as Provider,
+        llmModel: row.llmModel,
+        persona: row.persona as PersonaId,
+        customInstructions: row.customInstructions ?? undefined,
+        tools: (row.tools as ToolGroup[] | null) ?? undefined,
+      }));
+      if (rows.length > 0) {
+        console.log(`🎭 [ASSISTANTS] Loaded ${rows.length} assistants for ${this.user.userId}`);
+      }
+    } catch (error) {
+      console.warn(`🎭 [ASSISTANTS] Failed to load assistants for ${this.user.userId}:`, error);
+    }
+  }
+
+  getAll(): Assistant[] {
+    return [...this.assistants];
+  }
+
+  get(id: string | undefined): Assistant | undefined {
+    return id ? this.assistants.find(a => a.id === id) : undefined;
+  }
+
+  /** Every wake word to listen for — the assistants' and the user's own */
+  getWakeWords(): string[] {
+    return listWakeWords(this.assistants, this.user.aiConfig?.wakeWord);
+  }
+
+  /** The assistant a detected wake word belongs to (undefined = the default assistant) */
+  match(wakeWordUsed: string | undefined): Assistant | undefined {
+    return matchAssistant(this.assistants, wakeWordUsed);
+  }
+}
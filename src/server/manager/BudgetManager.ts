@@ -0,0 +1,158 @@
+/**
+ * BudgetManager — Monthly spend cap
+ *
+ * Tracks this month's estimated LLM spend (from llm_usage) against the
+ * user's monthly budget:
+ *   - At 80% the glasses say so once per month.
+ *   - At 100% answers switch to the user's cheap model (if one is set) and
+ *     non-essential background LLM work is skipped — photo auto-analysis,
+ *     exchange/photo tagging, and the visual classifier call.
+ * Device commands never use the LLM, so they keep working.
+ */
+
+import type { User } from "../session/User";
+import type { UserAIConfig } from "../agent/providers/types";
+import { getModelDisplayName } from "../agent/providers/types";
+import { BUDGET_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { llmUsage, userSettings } from "../db/schema";
+import { and, eq, gte, sum } from "drizzle-orm";
+
+export type BudgetStatus = "unlimited" | "ok" | "warning" | "exceeded";
+
+/** "YYYY-MM" in UTC — matches the monthly period in usage-tracking */
+function monthKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export class BudgetManager {
+  private monthlyBudgetUsd: number | null = null;
+  private cheapModel: string | null = null;
+  private month = monthKey();
+  private monthSpendUsd = 0;
+  /** Highest alert already spoken this month (0, 80, or 100) */
+  private alertLevel = 0;
+
+  constructor(private user: User) {}
+
+  /**
+   * Load the budget, this month's spend, and alert state from the DB.
+   * Called on session start and again after the budget is changed in Settings.
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const month = monthKey();
+      const [settings] = await db
+        .select({
+          monthlyBudgetUsd: userSettings.monthlyBudgetUsd,
+          budgetCheapModel: userSettings.budgetCheapModel,
+          budgetAlertMonth: userSettings.budgetAlertMonth,
+          budgetAlertLevel: userSettings.budgetAlertLevel,
+        })
+        .from(userSettings)
+        .where(eq(userSettings.userId, this.user.userId));
+
+      const [spend] = await db
+        .select({ total: sum(llmUsage.costUsd) })
+        .from(llmUsage)
+        .where(and(eq(llmUsage.userId, this.user.userId), gte(llmUsage.createdAt, new Date(`${month}-01T00:00:00Z`))));
+
+      this.month = month;
+      this.monthSpendUsd = Number(spend?.total ?? 0);
+      this.setBudget(settings?.monthlyBudgetUsd ?? null, settings?.budgetCheapModel ?? null);
+      this.alertLevel = settings?.budgetAlertMonth === month ? settings.budgetAlertLevel : 0;
+    } catch (error) {
+      console.warn(`💰 [BUDGET] Failed to load budget for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Set the monthly budget (null = no cap) and the cheap model used once it's reached.
+   */
+  setBudget(monthlyBudgetUsd: number | null, cheapModel: string | null): void {
+    this.monthlyBudgetUsd = monthlyBudgetUsd;
+    this.cheapModel = cheapModel;
+  }
+
+  /**
+   * Add the estimated cost of a call that was just recorded.
+   */
+  addSpend(costUsd: number): void {
+    this.rollMonth();
+    this.monthSpendUsd += costUsd;
+  }
+
+  getStatus(): BudgetStatus {
+    this.rollMonth();
+    if (!this.monthlyBudgetUsd) return "unlimited";
+    if (this.monthSpendUsd >= this.monthlyBudgetUsd) return "exceeded";
+    if (this.monthSpendUsd >= this.monthlyBudgetUsd * BUDGET_SETTINGS.warningThreshold) return "warning";
+    return "ok";
+  }
+
+  /** True once this month's spend has reached the budget — background LLM work should be skipped */
+  isExceeded(): boolean {
+    return this.getStatus() === "exceeded";
+  }
+
+  /**
+   * The AI config to answer with. Once the budget is reached and a cheap model
+   * is set, every task runs on the cheap model instead of the routed models,
+   * with no fallback models — an error shouldn't hand the turn to a pricier one.
+   */
+  applyBudget(config: UserAIConfig | undefined): UserAIConfig | undefined {
+    if (!config || !this.cheapModel || !this.isExceeded()) return config;
+    return {
+      ...config,
+      llmModel: this.cheapModel,
+      llmModelName: config.llmProvider === "custom" ? config.llmModelName : getModelDisplayName(config.llmProvider, this.cheapModel),
+      modelRouting: undefined,
+      llmFallbacks: undefined,
+    };
+  }
+
+  /**
+   * Return the spoken alert for a newly crossed threshold (80% or 100%),
+   * or null. Each alert is returned once per month.
+   */
+  takeAlert(): string | null {
+    const status = this.getStatus();
+    const level = status === "exceeded" ? 100 : status === "warning" ? 80 : 0;
+    if (level <= this.alertLevel) return null;
+
+    this.alertLevel = level;
+    this.persistAlert(level);
+
+    if (level === 80) {
+      return "Heads up, you've used 80 percent of your monthly AI budget.";
+    }
+    const cheapModelName = this.cheapModel && this.user.aiConfig
+      ? getModelDisplayName(this.user.aiConfig.llmProvider, this.cheapModel)
+      : null;
+    return cheapModelName
+      ? `You've reached your monthly AI budget. I'll answer with ${cheapModelName} and pause background features until next month.`
+      : "You've reached your monthly AI budget. I'll pause background features like photo analysis until next month.";
+  }
+
+  /** Start a fresh period when the month changes */
+  private rollMonth(): void {
+    const month = monthKey();
+    if (month === this.month) return;
+    this.month = month;
+    this.monthSpendUsd = 0;
+    this.alertLevel = 0;
+  }
+
+  /** Remember the spoken alert so it isn't repeated after a reconnect */
+  private persistAlert(level: number): void {
+    if (!isDbAvailable()) return;
+    db.update(userSettings)
+      .set({ budgetAlertMonth: this.month, budgetAlertLevel: level })
+      .where(eq(userSettings.userId, this.user.userId))
+      .catch((error) => {
+        console.warn(`💰 [BUDGET] Failed to save alert level for ${this.user.userId}:`, error);
+      });
+  }
+}
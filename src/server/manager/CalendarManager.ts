@@ -15,11 +15,14 @@ import { db, isDbAvailable } from "../db/client";
 import { userContext } from "../db/schema";
 import { and, eq, gte, sql } from "drizzle-orm";
 
-const CONTEXT_TYPE = "calendar_event";
+export const CALENDAR_CONTEXT_TYPE = "calendar_event";
 
 /**
  * CalendarEvent shape from the MentraOS SDK.
  * dtStart/dtEnd/timeStamp arrive as strings (epoch ms or ISO) from the SDK.
+ * location, calendarName, and busy aren't in the SDK type yet — kept when a
+ * phone client sends them (meeting reminders use them for travel time and the
+ * calendar filter; focus mode uses busy).
  */
 export interface CalendarEvent {
   eventId: string;
@@ -28,17 +31,24 @@ export interface CalendarEvent {
   dtEnd: string;
   timezone: string;
   timeStamp: string;
+  location?: string;
+  calendarName?: string;
+  /** Shown as busy (vs. free) on the calendar */
+  busy?: boolean;
 }
 
 /**
  * Internal storage shape (enriched with receive time)
  */
-interface StoredCalendarEvent {
+export interface StoredCalendarEvent {
   eventId: string;
   title: string;
   dtStart: number;
   dtEnd: number;
   timezone?: string;
+  location?: string;
+  calendarName?: string;
+  busy?: boolean;
   receivedAt: number;
   contextId?: string;
 }
@@ -63,7 +73,7 @@ export class CalendarManager {
         .where(
           and(
             eq(userContext.userId, this.user.userId),
-            eq(userContext.contextType, CONTEXT_TYPE),
+            eq(userContext.contextType, CALENDAR_CONTEXT_TYPE),
             gte(userContext.expiresAt, new Date()),
           ),
         );
@@ -77,6 +87,9 @@ export class CalendarManager {
           dtStart: data.dtStart as number,
           dtEnd: data.dtEnd as number,
           timezone: data.timezone as string | undefined,
+          location: data.location as string | undefined,
+          calendarName: data.calendarName as string | undefined,
+          busy: data.busy as boolean | undefined,
           receivedAt: data.receivedAt as number,
           contextId: row.id,
         };
@@ -141,6 +154,9 @@ export class CalendarManager {
       dtStart,
       dtEnd,
       timezone: event.timezone || undefined,
+      location: event.location?.trim() || undefined,
+      calendarName: event.calendarName?.trim() || undefined,
+      busy: typeof event.busy === "boolean" ? event.busy : undefined,
       receivedAt: Date.now(),
     };
 
@@ -154,7 +170,7 @@ export class CalendarManager {
           .insert(userContext)
           .values({
             userId: this.user.userId,
-            contextType: CONTEXT_TYPE,
+            contextType: CALENDAR_CONTEXT_TYPE,
             contextKey: event.eventId,
             data: stored,
             expiresAt: new Date(dtEnd),
@@ -256,6 +272,17 @@ export class CalendarManager {
     return parts.join(". ") + ".";
   }
 
+  /**
+   * Names of the calendars events have come from (for the reminder filter).
+   */
+  getCalendarNames(): string[] {
+    const names = new Set<string>();
+    for (const e of this.events.values()) {
+      if (e.calendarName) names.add(e.calendarName);
+    }
+    return [...names].sort();
+  }
+
   /**
    * Get the user_context UUIDs for currently active (non-expired) calendar events.
    */
@@ -27,6 +27,7 @@ export interface ConversationTurn {
   photoDataUrl?: string;
   photoId?: string;
   contextIds?: string[];
+  exchangeId?: string | null;
 }
 
 /**
@@ -68,9 +69,10 @@ export class ChatHistoryManager {
   }
 
   /**
-   * Add a conversation turn — writes to both memory and DB
+   * Add a conversation turn — writes to both memory and DB.
+   * Returns the persisted turn ID (null when the DB is unavailable or the write failed).
    */
-  async addTurn(query: string, response: string, hadPhoto: boolean = false, photoDataUrl?: string, photoId?: string, contextIds?: string[], exchangeId?: string | null): Promise<void> {
+  async addTurn(query: string, response: string, hadPhoto: boolean = false, photoDataUrl?: string, photoId?: string, contextIds?: string[], exchangeId?: string | null): Promise<string | null> {
     const turn: ConversationTurn = {
       query,
       response,
@@ -79,6 +81,7 @@ export class ChatHistoryManager {
       photoDataUrl,
       photoId,
       contextIds,
+      exchangeId,
     };
 
     this.recentTurns.push(turn);
@@ -89,6 +92,7 @@ export class ChatHistoryManager {
     }
 
     // Persist to DB if available
+    let turnId: string | null = null;
     if (isDbAvailable()) {
       try {
         const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
@@ -104,7 +108,7 @@ export class ChatHistoryManager {
             .returning();
         }
 
-        await db.insert(conversationTurns).values({
+        const [row] = await db.insert(conversationTurns).values({
           conversationId: convo.id,
           query,
           response,
@@ -112,7 +116,8 @@ export class ChatHistoryManager {
           photoId,
           contextIds: contextIds ?? [],
           exchangeId: exchangeId ?? null,
-        });
+        }).returning({ id: conversationTurns.id });
+        turnId = row.id;
       } catch (error) {
         console.error("Failed to persist conversation turn:", error);
         // In-memory turn was already added — don't throw
@@ -121,6 +126,7 @@ export class ChatHistoryManager {
 
     // Buffer turn for exchange tag generation
     this.user.exchange.recordTurn(query, response);
+    return turnId;
   }
 
   /**
@@ -142,6 +148,15 @@ export class ChatHistoryManager {
     return recent.slice(-maxTurns);
   }
 
+  /**
+   * Get the in-memory turns belonging to an exchange, oldest first.
+   * In-memory turns keep their photo data URLs, so earlier photos can be re-sent to the model.
+   */
+  getExchangeTurns(exchangeId: string | null): ConversationTurn[] {
+    if (!exchangeId) return [];
+    return this.recentTurns.filter(turn => turn.exchangeId === exchangeId);
+  }
+
   /**
    * Format conversation history for the prompt
    */
@@ -188,6 +203,7 @@ export class ChatHistoryManager {
         hadPhoto: t.hadPhoto,
         photoId: t.photoId ?? undefined,
         contextIds: t.contextIds ?? [],
+        exchangeId: t.exchangeId,
       }));
     } catch (error) {
       console.error("Failed to fetch history by date:", error);
@@ -252,6 +268,7 @@ export class ChatHistoryManager {
           hadPhoto: row.hadPhoto,
           photoId: row.photoId ?? undefined,
           contextIds: row.contextIds ?? [],
+          exchangeId: row.exchangeId,
         };
 
         if (row.exchangeId) {
@@ -27,6 +27,8 @@ export class DeviceCommandHandler {
         return this.checkSchedule();
       case "check_notifications":
         return this.checkNotifications();
+      case "summarize_notifications":
+        return this.summarizeNotifications();
     }
   }
 
@@ -79,6 +81,13 @@ export class DeviceCommandHandler {
     return this.user.notifications.formatNotificationReadout();
   }
 
+  /**
+   * Spoken LLM digest of recent notifications (cached until they change).
+   */
+  private summarizeNotifications(): Promise<string> {
+    return this.user.notificationDigest.summarize();
+  }
+
   /**
    * Persist a photo to Supabase Storage + insert metadata row.
    * Returns the photo row UUID, or undefined if storage/DB unavailable.
@@ -117,7 +126,8 @@ export class DeviceCommandHandler {
     if (!aiConfig?.isConfigured) return;
 
     // Step 1: Vision analysis
-    const analysis = await analyzePhoto(photo.buffer, aiConfig);
+    const usage = { userId: this.user.userId };
+    const analysis = await analyzePhoto(photo.buffer, aiConfig, usage);
     if (!analysis) return;
 
     // Update analysis on DB row
@@ -125,7 +135,7 @@ export class DeviceCommandHandler {
     console.log(`📸 [DEVICE-CMD] Photo analyzed: ${photoId}`);
 
     // Step 2: Generate tags from analysis (fire-and-forget)
-    generatePhotoTags(photoId, analysis, aiConfig).catch((err) => {
+    generatePhotoTags(photoId, analysis, aiConfig, usage).catch((err) => {
       console.warn(`📸 [DEVICE-CMD] Tag generation failed for ${photoId}:`, err);
     });
   }
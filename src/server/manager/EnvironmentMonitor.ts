@@ -0,0 +1,210 @@
+/**
+ * EnvironmentMonitor — Proactive air quality, pollen, and storm alerts
+ *
+ * Opt-in from Settings. While the glasses are connected, conditions at the
+ * user's location are re-checked every ENVIRONMENT_ALERT_SETTINGS.checkIntervalMs
+ * and a short alert is spoken (or shown on the HUD) when one crosses the
+ * user's thresholds: the US AQI over their limit, high pollen for their
+ * allergens, or a thunderstorm in the next hour. Alerts are rate-limited per
+ * kind and overall, held back during quiet hours, and logged to user_context
+ * so the limits survive a reconnect.
+ *
+ * Data flow:
+ *   Settings → DB (user_settings.environment_alerts) → initialize()
+ *   setAppSession → start() → check() every interval
+ *   check() → fetchUsAqi + LocationManager pollen/forecast → evaluateEnvironment() → selectAlerts() → announce()
+ *   clearAppSession / cleanup → stop()
+ */
+
+import type { User } from "../session/User";
+import {
+  DEFAULT_ENVIRONMENT_ALERTS,
+  evaluateEnvironment,
+  isQuietHours,
+  normalizeEnvironmentAlertConfig,
+  selectAlerts,
+  type EnvironmentAlert,
+  type EnvironmentAlertConfig,
+  type EnvironmentAlertKind,
+} from "./environment-alerts";
+import { fetchUsAqi } from "./location-providers";
+import { PeriodicCheck, playProactive } from "./proactive-output";
+import { ENVIRONMENT_ALERT_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { userContext, userSettings } from "../db/schema";
+import { and, eq, gte } from "drizzle-orm";
+
+export const ENVIRONMENT_ALERT_CONTEXT_TYPE = "environment_alert";
+
+export class EnvironmentMonitor {
+  private config: EnvironmentAlertConfig = DEFAULT_ENVIRONMENT_ALERTS;
+
+  /** When each kind of alert was last delivered (ms) */
+  private lastAlertAt = new Map<EnvironmentAlertKind, number>();
+
+  /** Kinds Do Not Disturb already held back or skipped while it's been on — asked about once */
+  private gatedKinds = new Set<EnvironmentAlertKind>();
+
+  /** The first check waits a minute so the welcome message plays first */
+  private checks = new PeriodicCheck({
+    run: () => this.check(),
+    intervalMs: ENVIRONMENT_ALERT_SETTINGS.checkIntervalMs,
+    startDelayMs: ENVIRONMENT_ALERT_SETTINGS.startDelayMs,
+    onError: (error) => console.warn(`🌪️ [ENV] Check failed for ${this.user.userId}:`, error),
+  });
+
+  constructor(private user: User) {}
+
+  /**
+   * Load the alert settings and recent alerts from the DB.
+   * Called on session start and again after the settings are changed.
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const [settings] = await db
+        .select({ environmentAlerts: userSettings.environmentAlerts })
+        .from(userSettings)
+        .where(eq(userSettings.userId, this.user.userId));
+
+      const config = settings?.environmentAlerts
+        ? normalizeEnvironmentAlertConfig(settings.environmentAlerts)
+        : DEFAULT_ENVIRONMENT_ALERTS;
+      this.config = typeof config === "string" ? DEFAULT_ENVIRONMENT_ALERTS : config;
+
+      const rows = await db
+        .select({ data: userContext.data })
+        .from(userContext)
+        .where(
+          and(
+            eq(userContext.userId, this.user.userId),
+            eq(userContext.contextType, ENVIRONMENT_ALERT_CONTEXT_TYPE),
+            gte(userContext.createdAt, new Date(Date.now() - ENVIRONMENT_ALERT_SETTINGS.kindCooldownMs)),
+          ),
+        );
+
+      for (const row of rows) {
+        const data = row.data as { kind: EnvironmentAlertKind; deliveredAt: number };
+        if (data.deliveredAt > (this.lastAlertAt.get(data.kind) ?? 0)) {
+          this.lastAlertAt.set(data.kind, data.deliveredAt);
+        }
+      }
+
+      if (this.config.enabled) console.log(`🌪️ [ENV] Alerts on for ${this.user.userId}`);
+      this.checks.apply(this.config.enabled && !!this.user.appSession);
+    } catch (error) {
+      console.warn(`🌪️ [ENV] Failed to load alert settings for ${this.user.userId}:`, error);
+    }
+  }
+
+  /** The current alert settings */
+  getConfig(): EnvironmentAlertConfig {
+    return this.config;
+  }
+
+  /**
+   * Start checking (glasses connected).
+   */
+  start(): void {
+    this.checks.apply(this.config.enabled);
+  }
+
+  /**
+   * Stop checking (glasses disconnected or alerts turned off).
+   */
+  stop(): void {
+    this.checks.stop();
+  }
+
+  /**
+   * Refresh conditions at the user's location and announce any alerts the
+   * thresholds and rate limits allow.
+   */
+  async check(): Promise<void> {
+    const session = this.user.appSession;
+    if (!session || !this.config.enabled) return;
+    if (isQuietHours(new Date(), this.config.quietHours, this.user.location.getTimezone() ?? undefined)) return;
+
+    const location = this.user.location;
+    if (!location.hasLocation()) {
+      const latest = await session.location.getLatestLocation({ accuracy: "low" }).catch(() => null);
+      if (latest) location.updateCoordinates(latest.lat, latest.lng);
+    }
+    const coords = location.getCoordinates();
+    if (!coords) return;
+
+    const wantsPollen = this.config.allergens.length > 0;
+    const [usAqi, context, forecast] = await Promise.all([
+      this.config.aqiThreshold !== null ? fetchUsAqi(coords.lat, coords.lng) : Promise.resolve(null),
+      wantsPollen ? location.fetchContext({ pollen: true }) : Promise.resolve(null),
+      this.config.storms ? location.getForecast() : Promise.resolve(null),
+    ]);
+    // A background check shouldn't leave an error for the next question to explain
+    location.clearApiError();
+
+    const alerts = evaluateEnvironment(
+      {
+        usAqi,
+        pollen: context?.pollen ?? null,
+        nextHours: forecast?.hourly.slice(0, ENVIRONMENT_ALERT_SETTINGS.stormLookaheadHours) ?? [],
+      },
+      this.config,
+      this.user.language,
+    );
+
+    const now = Date.now();
+    const focused = this.user.focus.isActive();
+    if (!focused) this.gatedKinds.clear();
+    for (const alert of selectAlerts(alerts, this.lastAlertAt, now)) {
+      if (this.gatedKinds.has(alert.kind)) continue;
+      // Held back or skipped by Do Not Disturb doesn't use up the rate limits
+      if (!(await this.announce(alert))) {
+        if (focused) this.gatedKinds.add(alert.kind);
+        continue;
+      }
+      this.lastAlertAt.set(alert.kind, now);
+      await this.log(alert, coords, now);
+    }
+  }
+
+  /**
+   * Play an alert. Returns false when it wasn't delivered (disconnected or
+   * Do Not Disturb).
+   */
+  private async announce(alert: EnvironmentAlert): Promise<boolean> {
+    const played = await playProactive(this.user, {
+      source: "environment",
+      text: alert.message,
+      displayMs: ENVIRONMENT_ALERT_SETTINGS.displayMs,
+    });
+    if (played) console.log(`🌪️ [ENV] ${alert.kind} alert for ${this.user.userId}: "${alert.message}"`);
+    return played;
+  }
+
+  /**
+   * Record a delivered alert in user_context.
+   */
+  private async log(alert: EnvironmentAlert, coords: { lat: number; lng: number }, deliveredAt: number): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      await db.insert(userContext).values({
+        userId: this.user.userId,
+        contextType: ENVIRONMENT_ALERT_CONTEXT_TYPE,
+        contextKey: `${alert.kind}:${deliveredAt}`,
+        data: { ...alert, lat: coords.lat, lng: coords.lng, deliveredAt },
+        expiresAt: new Date(deliveredAt + ENVIRONMENT_ALERT_SETTINGS.logTtlMs),
+      });
+    } catch (error) {
+      console.warn(`🌪️ [ENV] Failed to log alert for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Session gone.
+   */
+  destroy(): void {
+    this.stop();
+  }
+}
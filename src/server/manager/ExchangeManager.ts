@@ -13,10 +13,11 @@ import { db, isDbAvailable } from "../db/client";
 import { exchanges } from "../db/schema";
 import { eq } from "drizzle-orm";
 import { generateText } from "ai";
-import { resolveLLMModel } from "../agent/providers/registry";
+import { resolveLLMModel, routeModelId } from "../agent/providers/registry";
 import { EXCHANGE_SETTINGS } from "../constants/config";
+import { recordUsage } from "./usage-tracking";
 
-export type EndReason = "closer_gratitude" | "closer_dismissal" | "follow_up_timeout" | "session_disconnect" | "comprehension_failure";
+export type EndReason = "closer_gratitude" | "closer_dismissal" | "follow_up_timeout" | "session_disconnect" | "comprehension_failure" | "translation";
 
 interface BufferedTurn {
   query: string;
@@ -31,19 +32,20 @@ export class ExchangeManager {
 
   /**
    * Start a new exchange — inserts a row and stores the UUID.
+   * assistantId records which named assistant the wake word picked.
    */
-  async startExchange(): Promise<void> {
+  async startExchange(assistantId?: string): Promise<void> {
     if (!isDbAvailable()) return;
 
     try {
       const [row] = await db
         .insert(exchanges)
-        .values({ userId: this.user.userId })
+        .values({ userId: this.user.userId, assistantId: assistantId ?? null })
         .returning({ id: exchanges.id });
 
       this.currentExchangeId = row.id;
       this.turnBuffer = [];
-      console.log(`🔄 Exchange started: ${row.id} for ${this.user.userId}`);
+      console.log(`🔄 Exchange started: ${row.id} for ${this.user.userId}${assistantId ? ` (assistant ${assistantId})` : ""}`);
     } catch (error) {
       console.error(`Failed to start exchange for ${this.user.userId}:`, error);
     }
@@ -73,8 +75,9 @@ export class ExchangeManager {
 
   /**
    * End the current exchange — sets ended_at, end_reason, and triggers async tag generation.
+   * Fixed tags (e.g. a translate-mode exchange) are stored as-is instead of generated.
    */
-  async endExchange(reason: EndReason): Promise<void> {
+  async endExchange(reason: EndReason, tags?: string[]): Promise<void> {
     const exchangeId = this.currentExchangeId;
     if (!exchangeId || !isDbAvailable()) {
       this.currentExchangeId = null;
@@ -88,6 +91,7 @@ export class ExchangeManager {
         .set({
           endedAt: new Date(),
           endReason: reason,
+          ...(tags ? { tags } : {}),
         })
         .where(eq(exchanges.id, exchangeId));
 
@@ -98,7 +102,7 @@ export class ExchangeManager {
 
     // Fire-and-forget tag generation if we had turns
     const turns = [...this.turnBuffer];
-    if (turns.length > 0) {
+    if (turns.length > 0 && !tags) {
       this.generateTags(exchangeId, turns).catch((err) => {
         console.warn(`Tag generation failed for exchange ${exchangeId}:`, err);
       });
@@ -109,15 +113,20 @@ export class ExchangeManager {
   }
 
   /**
-   * Generate topic tags for a completed exchange via lightweight LLM call.
+   * Generate topic tags for a completed exchange via lightweight LLM call
+   * (on the user's "tagging" model).
    */
   private async generateTags(exchangeId: string, turns: BufferedTurn[]): Promise<void> {
     const aiConfig = this.user.aiConfig;
     if (!aiConfig?.isConfigured) return;
+    if (this.user.budget.isExceeded()) {
+      console.log(`💰 Tag generation skipped for exchange ${exchangeId} — monthly budget reached`);
+      return;
+    }
 
     let model;
     try {
-      model = resolveLLMModel(aiConfig);
+      model = resolveLLMModel(aiConfig, "tagging");
     } catch {
       return; // Can't resolve model — skip tagging
     }
@@ -138,6 +147,8 @@ export class ExchangeManager {
         ],
       });
 
+      recordUsage({ userId: this.user.userId, exchangeId }, "exchange_tags", aiConfig.llmProvider, routeModelId(aiConfig, "tagging"), result.usage);
+
       const text = result.text.trim();
       // Extract JSON array from response (handle markdown code blocks)
       const jsonMatch = text.match(/\[[\s\S]*?\]/);
@@ -0,0 +1,274 @@
+/**
+ * FocusManager — Do Not Disturb / focus mode for everything the glasses say
+ * without being asked
+ *
+ * Focus mode is on while a voice request lasts ("don't disturb me for an
+ * hour"), during the quiet hours set in Settings, and — opt-in — during
+ * calendar events shown as busy. Proactive sources (Claude Code bridge,
+ * reminders, meeting reminders, environment alerts, announced notifications,
+ * scheduled digests) ask gate() before playing; each source's policy decides
+ * whether it plays anyway, is held back, or is skipped. When focus mode ends,
+ * a summary of what was held back is delivered.
+ *
+ * The voice request is kept in user_context, so it survives a restart.
+ *
+ * Data flow:
+ *   Settings → DB (user_settings.focus_mode) → initialize()
+ *   start_do_not_disturb tool → startManual() → user_context
+ *   Proactive source → gate(source, text) → deliver | queue (held) | drop (counted)
+ *   setAppSession → start() → check() every interval → focus ended → playProactive(summary)
+ *   stop_do_not_disturb tool → stopManual() → summary returned to the agent
+ */
+
+import type { User } from "../session/User";
+import {
+  DEFAULT_FOCUS_CONFIG,
+  focusReason,
+  formatHeldSummary,
+  normalizeFocusConfig,
+  type FocusConfig,
+  type FocusPolicy,
+  type FocusReason,
+  type FocusSource,
+  type HeldOutput,
+} from "./focus";
+import { PeriodicCheck, playProactive } from "./proactive-output";
+import { FOCUS_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { userContext, userSettings } from "../db/schema";
+import { and, eq, gte, sql } from "drizzle-orm";
+
+export const FOCUS_CONTEXT_TYPE = "focus_mode";
+const MANUAL_KEY = "manual";
+
+export class FocusManager {
+  private config: FocusConfig = DEFAULT_FOCUS_CONFIG;
+
+  /** End of the voice-requested Do Not Disturb (epoch ms) */
+  private manualUntil: number | null = null;
+
+  /** Outputs held back for the summary, oldest first */
+  private held: HeldOutput[] = [];
+
+  /** Outputs skipped, per source */
+  private dropped: Partial<Record<FocusSource, number>> = {};
+
+  /** Focus state at the last check — the summary plays when it turns off */
+  private wasActive = false;
+
+  private checks = new PeriodicCheck({
+    run: () => this.check(),
+    intervalMs: FOCUS_SETTINGS.checkIntervalMs,
+    onError: (error) => console.warn(`🔕 [FOCUS] Check failed for ${this.user.userId}:`, error),
+  });
+
+  constructor(private user: User) {}
+
+  /**
+   * Load the focus settings and any voice-requested Do Not Disturb.
+   * Called on session start and again after the settings are changed.
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const [settings] = await db
+        .select({ focusMode: userSettings.focusMode })
+        .from(userSettings)
+        .where(eq(userSettings.userId, this.user.userId));
+
+      const config = settings?.focusMode ? normalizeFocusConfig(settings.focusMode) : DEFAULT_FOCUS_CONFIG;
+      this.config = typeof config === "string" ? DEFAULT_FOCUS_CONFIG : config;
+
+      const [manual] = await db
+        .select({ expiresAt: userContext.expiresAt })
+        .from(userContext)
+        .where(
+          and(
+            eq(userContext.userId, this.user.userId),
+            eq(userContext.contextType, FOCUS_CONTEXT_TYPE),
+            eq(userContext.contextKey, MANUAL_KEY),
+            gte(userContext.expiresAt, new Date()),
+          ),
+        );
+      if (manual?.expiresAt) this.manualUntil = manual.expiresAt.getTime();
+
+      // Keep a pending summary when reloading after a settings change
+      this.wasActive = this.wasActive || this.isActive();
+      if (this.isActive()) {
+        console.log(`🔕 [FOCUS] Do Not Disturb is on for ${this.user.userId} (${this.reason()})`);
+      }
+    } catch (error) {
+      console.warn(`🔕 [FOCUS] Failed to load focus settings for ${this.user.userId}:`, error);
+    }
+  }
+
+  /** The current focus settings */
+  getConfig(): FocusConfig {
+    return this.config;
+  }
+
+  /** Why Do Not Disturb is on, or null when it's off */
+  reason(): FocusReason | null {
+    return focusReason(
+      this.config,
+      {
+        manualUntil: this.manualUntil,
+        events: this.user.calendar.getActiveEvents(),
+        timezone: this.user.location.getTimezone() ?? undefined,
+      },
+      Date.now(),
+    );
+  }
+
+  isActive(): boolean {
+    return this.reason() !== null;
+  }
+
+  /** End of the voice-requested Do Not Disturb, if one is running */
+  getManualUntil(): number | null {
+    return this.manualUntil !== null && this.manualUntil > Date.now() ? this.manualUntil : null;
+  }
+
+  /**
+   * Ask before a proactive output plays. Returns what to do with it — on
+   * "queue" the text is kept for the summary, on "drop" it's counted.
+   */
+  gate(source: FocusSource, text: string): FocusPolicy {
+    const reason = this.reason();
+    if (!reason) return "deliver";
+
+    const policy = this.config.policies[source];
+    if (policy === "queue") {
+      this.held.push({ source, text, at: Date.now() });
+      if (this.held.length > FOCUS_SETTINGS.maxHeld) this.held.shift();
+    } else if (policy === "drop") {
+      this.dropped[source] = (this.dropped[source] ?? 0) + 1;
+    }
+    if (policy !== "deliver") {
+      console.log(`🔕 [FOCUS] ${policy === "queue" ? "Held" : "Skipped"} ${source} for ${this.user.userId} (${reason})`);
+    }
+    this.wasActive = true;
+    return policy;
+  }
+
+  /**
+   * Forget a held output that no longer applies — a Claude Code message
+   * answered or expired before Do Not Disturb ended.
+   */
+  withdraw(source: FocusSource, text: string): void {
+    const index = this.held.findIndex(item => item.source === source && item.text === text);
+    if (index !== -1) this.held.splice(index, 1);
+  }
+
+  /**
+   * Turn Do Not Disturb on until the given time (voice request).
+   */
+  async startManual(until: number): Promise<void> {
+    this.manualUntil = until;
+    this.wasActive = true;
+    console.log(`🔕 [FOCUS] Do Not Disturb on for ${this.user.userId} until ${new Date(until).toISOString()}`);
+
+    if (!isDbAvailable()) return;
+    try {
+      await db
+        .insert(userContext)
+        .values({
+          userId: this.user.userId,
+          contextType: FOCUS_CONTEXT_TYPE,
+          contextKey: MANUAL_KEY,
+          data: { until },
+          expiresAt: new Date(until),
+        })
+        .onConflictDoUpdate({
+          target: [userContext.userId, userContext.contextType, userContext.contextKey],
+          set: { data: { until }, expiresAt: new Date(until), updatedAt: sql`now()` },
+        });
+    } catch (error) {
+      console.warn(`🔕 [FOCUS] Failed to save Do Not Disturb for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * End the voice-requested Do Not Disturb. Returns the summary of what was
+   * held back when focus mode is now fully off (the caller says it), and
+   * the reason it's still on otherwise.
+   */
+  async stopManual(): Promise<{ stillOn: FocusReason | null; summary: string | null }> {
+    this.manualUntil = null;
+
+    if (isDbAvailable()) {
+      try {
+        await db
+          .delete(userContext)
+          .where(
+            and(
+              eq(userContext.userId, this.user.userId),
+              eq(userContext.contextType, FOCUS_CONTEXT_TYPE),
+              eq(userContext.contextKey, MANUAL_KEY),
+            ),
+          );
+      } catch (error) {
+        console.warn(`🔕 [FOCUS] Failed to clear Do Not Disturb for ${this.user.userId}:`, error);
+      }
+    }
+
+    const stillOn = this.reason();
+    if (stillOn) return { stillOn, summary: null };
+
+    console.log(`🔕 [FOCUS] Do Not Disturb off for ${this.user.userId}`);
+    this.wasActive = false;
+    return { stillOn: null, summary: this.takeSummary() };
+  }
+
+  /**
+   * Start watching for focus mode to end (glasses connected).
+   */
+  start(): void {
+    this.checks.start();
+  }
+
+  /**
+   * Stop watching (glasses disconnected). Held outputs are kept for the
+   * next session.
+   */
+  stop(): void {
+    this.checks.stop();
+  }
+
+  /**
+   * Deliver the summary once focus mode has ended.
+   */
+  async check(): Promise<void> {
+    const active = this.isActive();
+    if (active || !this.wasActive) {
+      this.wasActive = active;
+      return;
+    }
+    if (!this.user.appSession) return; // Delivered once the glasses are back
+    this.wasActive = false;
+
+    console.log(`🔕 [FOCUS] Do Not Disturb ended for ${this.user.userId}`);
+    const summary = this.takeSummary();
+    if (summary && await playProactive(this.user, { text: summary, displayMs: FOCUS_SETTINGS.displayMs })) {
+      console.log(`🔕 [FOCUS] Summary for ${this.user.userId}: "${summary}"`);
+    }
+  }
+
+  /**
+   * The summary of held and skipped outputs — and forget them.
+   */
+  private takeSummary(): string | null {
+    const summary = formatHeldSummary(this.held, this.dropped, FOCUS_SETTINGS.summaryItems, this.user.language);
+    this.held = [];
+    this.dropped = {};
+    return summary;
+  }
+
+  /**
+   * Session gone.
+   */
+  destroy(): void {
+    this.stop();
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * HistorySearchManager — Semantic search over the full conversation and photo history
+ *
+ * The prompt only carries 48h of exchanges and 24h of photos. This manager
+ * embeds conversation turns, exchange tags, and photo analyses with the user's
+ * own embedding model (see resolveEmbeddingModel) and stores them in the
+ * history index, so the search_history tool can find older things
+ * ("what was that restaurant I asked about last month?").
+ *
+ * Indexing is a catch-up pass over whatever isn't indexed yet, reading
+ * history newest first a page at a time:
+ *   Session start / AI config change → backfill pass (continues from where the last one stopped)
+ *   After each query → incremental pass over recent sources
+ * Passes are skipped while the monthly budget is used up.
+ */
+
+import { embed, embedMany } from "ai";
+import type { User } from "../session/User";
+import { resolveEmbeddingModel } from "../agent/providers/registry";
+import { HISTORY_SEARCH_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { conversations, conversationTurns, exchanges, photos } from "../db/schema";
+import { and, desc, eq, gte, isNotNull, lt, sql } from "drizzle-orm";
+import { getHistoryIndex, historyKey, type HistoryEntry, type HistoryMatch } from "./history-index";
+import { recordUsage, isOverBudget } from "./usage-tracking";
+
+export class HistorySearchManager {
+  /** The pass in progress (passes never overlap) */
+  private running: Promise<void> | null = null;
+  /** Embedding model the backfill below refers to — a new model starts over */
+  private indexedModel: string | null = null;
+  /** True once backfill passes reached the oldest history — later passes only look at recent sources */
+  private backfilled = false;
+  /** Where the backfill continues: sources older than this haven't been checked yet */
+  private backfillCursor: Date | undefined;
+  /** When the backfill began — the first incremental pass covers everything since */
+  private backfillStartedAt: Date | null = null;
+  private lastPassAt: Date | null = null;
+
+  constructor(private user: User) {}
+
+  /** Whether the user's providers can embed (otherwise search_history isn't offered) */
+  isAvailable(): boolean {
+    return !!this.user.aiConfig?.isConfigured && resolveEmbeddingModel(this.user.aiConfig) !== null;
+  }
+
+  /**
+   * Index anything not yet embedded. Never throws; concurrent calls share one pass.
+   */
+  catchUp(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runPass().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Find the history entries most similar to the query.
+   */
+  async search(query: string): Promise<HistoryMatch[]> {
+    if (!isDbAvailable()) return [];
+    const config = this.user.aiConfig;
+    const embedding = config?.isConfigured ? resolveEmbeddingModel(config) : null;
+    if (!embedding) return [];
+
+    const { embedding: vector, usage } = await embed({ model: embedding.model, value: query });
+    void recordUsage({ userId: this.user.userId }, "history_search", embedding.provider, embedding.modelId, { inputTokens: usage.tokens });
+
+    const matches = await getHistoryIndex().search(this.user.userId, embedding.modelId, vector, HISTORY_SEARCH_SETTINGS.resultLimit);
+    return matches.filter(match => match.score >= HISTORY_SEARCH_SETTINGS.minScore);
+  }
+
+  private async runPass(): Promise<void> {
+    const config = this.user.aiConfig;
+    if (!isDbAvailable() || !config?.isConfigured) return;
+
+    const embedding = resolveEmbeddingModel(config);
+    if (!embedding) return;
+    if (isOverBudget(this.user.userId)) return;
+
+    if (embedding.modelId !== this.indexedModel) {
+      this.indexedModel = embedding.modelId;
+      this.backfilled = false;
+      this.backfillCursor = undefined;
+      this.backfillStartedAt = null;
+    }
+
+    const startedAt = new Date();
+    const since = this.backfilled && this.lastPassAt
+      ? new Date(this.lastPassAt.getTime() - HISTORY_SEARCH_SETTINGS.lookbackMs)
+      : undefined;
+    if (!since && !this.backfillStartedAt) this.backfillStartedAt = startedAt;
+
+    try {
+      const index = getHistoryIndex();
+      const maxEmbed = HISTORY_SEARCH_SETTINGS.maxEmbedPerPass;
+      const batch: HistoryEntry[] = [];
+      let cursor = since ? undefined : this.backfillCursor;
+      let exhausted = false;
+
+      // Page back through history until a batch is full, the pages run out, or history does
+      for (let page = 0; page < HISTORY_SEARCH_SETTINGS.maxPagesPerPass && batch.length < maxEmbed; page++) {
+        const sources = await this.loadSources(HISTORY_SEARCH_SETTINGS.pageSize, since, cursor);
+        const indexed = await index.getIndexedKeys(this.user.userId, embedding.modelId, sources);
+        for (const entry of sources) {
+          cursor = entry.occurredAt;
+          if (indexed.has(historyKey(entry.sourceType, entry.sourceId))) continue;
+          batch.push(entry);
+          if (batch.length === maxEmbed) break;
+        }
+        if (sources.length < HISTORY_SEARCH_SETTINGS.pageSize && batch.length < maxEmbed) {
+          exhausted = true;
+          break;
+        }
+      }
+
+      for (let i = 0; i < batch.length; i += HISTORY_SEARCH_SETTINGS.batchSize) {
+        const chunk = batch.slice(i, i + HISTORY_SEARCH_SETTINGS.batchSize);
+        const { embeddings, usage } = await embedMany({ model: embedding.model, values: chunk.map(entry => entry.content) });
+        void recordUsage({ userId: this.user.userId }, "history_index", embedding.provider, embedding.modelId, { inputTokens: usage.tokens });
+        await index.add(this.user.userId, embedding.modelId, chunk.map((entry, j) => ({ ...entry, embedding: embeddings[j] })));
+      }
+
+      if (since) {
+        this.lastPassAt = startedAt;
+      } else if (exhausted) {
+        // Reached the oldest history — from now on only look back to when the backfill began
+        this.backfilled = true;
+        this.backfillCursor = undefined;
+        this.lastPassAt = this.backfillStartedAt;
+        this.backfillStartedAt = null;
+      } else {
+        this.backfillCursor = cursor;
+      }
+      if (batch.length > 0) {
+        console.log(`🔎 [HISTORY] Indexed ${batch.length} entries for ${this.user.userId} with ${embedding.modelId}${!since && !exhausted ? " (backfill continues)" : ""}`);
+      }
+    } catch (error) {
+      console.warn(`🔎 [HISTORY] Indexing failed for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Load up to `limit` pieces of indexable history, newest first — optionally
+   * only since a time and/or before a cursor.
+   */
+  private async loadSources(limit: number, since?: Date, before?: Date): Promise<HistoryEntry[]> {
+    const userId = this.user.userId;
+    const maxLength = HISTORY_SEARCH_SETTINGS.maxContentLength;
+
+    const [turnRows, exchangeRows, photoRows] = await Promise.all([
+      db
+        .select({
+          id: conversationTurns.id,
+          query: conversationTurns.query,
+          response: conversationTurns.response,
+          timestamp: conversationTurns.timestamp,
+        })
+        .from(conversationTurns)
+        .innerJoin(conversations, eq(conversationTurns.conversationId, conversations.id))
+        .where(and(
+          eq(conversations.userId, userId),
+          since ? gte(conversationTurns.timestamp, since) : undefined,
+          before ? lt(conversationTurns.timestamp, before) : undefined,
+        ))
+        .orderBy(desc(conversationTurns.timestamp))
+        .limit(limit),
+      db
+        .select({ id: exchanges.id, tags: exchanges.tags, startedAt: exchanges.startedAt })
+        .from(exchanges)
+        .where(and(
+          eq(exchanges.userId, userId),
+          isNotNull(exchanges.endedAt),
+          sql`cardinality(${exchanges.tags}) > 0`,
+          since ? gte(exchanges.endedAt, since) : undefined,
+          before ? lt(exchanges.startedAt, before) : undefined,
+        ))
+        .orderBy(desc(exchanges.startedAt))
+        .limit(limit),
+      db
+        .select({ id: photos.id, analysis: photos.analysis, tags: photos.tags, capturedAt: photos.capturedAt })
+        .from(photos)
+        .where(and(
+          eq(photos.userId, userId),
+          isNotNull(photos.analysis),
+          since ? gte(photos.capturedAt, since) : undefined,
+          before ? lt(photos.capturedAt, before) : undefined,
+        ))
+        .orderBy(desc(photos.capturedAt))
+        .limit(limit),
+    ]);
+
+    const entries: HistoryEntry[] = [
+      ...turnRows.map(row => ({
+        sourceType: "turn" as const,
+        sourceId: row.id,
+        content: `User: ${row.query}\nAssistant: ${row.response}`.slice(0, maxLength),
+        occurredAt: row.timestamp,
+      })),
+      ...exchangeRows.map(row => ({
+        sourceType: "exchange" as const,
+        sourceId: row.id,
+        content: `Conversation topics: ${(row.tags ?? []).join(", ")}`,
+        occurredAt: row.startedAt,
+      })),
+      ...photoRows.map(row => ({
+        sourceType: "photo" as const,
+        sourceId: row.id,
+        content: `Photo${row.tags?.length ? ` [${row.tags.join(", ")}]` : ""}: ${row.analysis}`.slice(0, maxLength),
+        occurredAt: row.capturedAt,
+      })),
+    ];
+
+    return entries
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+      .slice(0, limit);
+  }
+}
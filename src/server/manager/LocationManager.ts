@@ -4,29 +4,27 @@
  * Features:
  * - Per-session caching to prevent excessive API calls
  * - Lazy geocoding (only fetch when needed)
- * - Google Maps integration for reverse geocoding
- * - Google Weather API integration
+ * - Pluggable backend for geocoding, weather, forecasts, and timezone:
+ *   Google Cloud with the user's key, or keyless open data (Open-Meteo +
+ *   Nominatim) — see location-providers/
+ * - Google Air Quality and Pollen APIs (Google key only)
+ * - Feeds each GPS update to the user's location reminders
  */
 
-import { Client } from "@googlemaps/google-maps-services-js";
 import type { User } from "../session/User";
 import { isLocationQuery, isWeatherQuery, isAirQualityQuery, isPollenQuery, isTimeQuery } from "../utils/location-keywords";
 import { LOCATION_CACHE_SETTINGS } from "../constants/config";
+import { LANGUAGES } from "../constants/languages";
 import { classifyGoogleCloudError, classifyThrownGoogleError, type GoogleCloudError } from "../utils/google-cloud-errors";
+import {
+  createLocationProvider,
+  resolveLocationBackend,
+  type LocationProvider,
+  type WeatherCondition,
+  type WeatherForecast,
+} from "./location-providers";
 
-// Google Maps client
-const mapsClient = new Client({});
-
-/**
- * Weather condition data
- */
-export interface WeatherCondition {
-  temperature: number;         // Fahrenheit
-  temperatureCelsius: number;  // Celsius
-  condition: string;           // e.g., "Sunny", "Cloudy"
-  humidity?: number;
-  wind?: string;
-}
+export type { WeatherCondition, HourlyForecast, DailyForecast, WeatherForecast } from "./location-providers";
 
 /**
  * Air quality data
@@ -96,9 +94,16 @@ export class LocationManager {
   private lastGeocodedLat: number | null = null;
   private lastGeocodedLng: number | null = null;
 
+  // Forecasts by ~1km area ("lat,lng" to 2 decimals), separate from cachedContext
+  private forecastCache: Map<string, WeatherForecast> = new Map();
+
   // Last Google Cloud API error (cleared on next successful call)
   private _lastApiError: GoogleCloudError | null = null;
 
+  // Backend for geocoding/weather/timezone, rebuilt when the settings behind it change
+  private _provider: LocationProvider | null = null;
+  private providerSettings = "";
+
   constructor(private user: User) {
     console.log(`📍 LocationManager init for ${user.userId}`);
   }
@@ -123,6 +128,31 @@ export class LocationManager {
     return !!this.googleApiKey;
   }
 
+  /**
+   * The geocoding/weather/timezone backend for the user's settings — Google
+   * when a key is set (unless they chose open data), open data otherwise.
+   * Null when they chose Google but have no key.
+   */
+  private get provider(): LocationProvider | null {
+    const backend = resolveLocationBackend(this.user.aiConfig?.locationBackend, !!this.googleApiKey);
+    const locale = LANGUAGES[this.user.language].locale;
+    const settings = `${backend}|${backend === "google" ? this.googleApiKey : ""}|${locale}`;
+
+    if (settings !== this.providerSettings) {
+      this.providerSettings = settings;
+      this._provider = backend
+        ? createLocationProvider(backend, { googleApiKey: this.googleApiKey ?? undefined, locale })
+        : null;
+      if (this._provider) console.log(`📍 Location backend for ${this.user.userId}: ${this._provider.backend}`);
+    }
+    return this._provider;
+  }
+
+  /** Whether weather, forecasts, and addresses are available (any backend) */
+  hasWeatherServices(): boolean {
+    return this.provider !== null;
+  }
+
   /**
    * Update raw coordinates (called when SDK sends location update)
    */
@@ -131,10 +161,14 @@ export class LocationManager {
     this.currentLng = lng;
     console.log(`📍 Location updated for ${this.user.userId}: ${lat}, ${lng}`);
 
+    // Location reminders fire on entering/leaving their place
+    this.user.reminders.checkLocation(lat, lng);
+
     // If no timezone set yet (MentraOS didn't provide one), auto-detect from GPS
-    if (!this.userTimezone && this.googleApiKey) {
+    const provider = this.provider;
+    if (!this.userTimezone && provider) {
       console.log(`🕐 Attempting timezone auto-detect from GPS for ${this.user.userId}...`);
-      this.fetchTimezoneFromCoordinates(lat, lng).then((tz) => {
+      provider.getTimezone(lat, lng).then((tz) => {
         if (tz && !this.userTimezone) {
           this.setTimezone(tz);
           console.log(`🕐 Timezone auto-detected from GPS: ${tz}`);
@@ -146,8 +180,8 @@ export class LocationManager {
       });
     } else if (this.userTimezone) {
       console.log(`🕐 Timezone already set: ${this.userTimezone}, skipping auto-detect`);
-    } else if (!this.googleApiKey) {
-      console.warn(`⚠️ Cannot auto-detect timezone: Google Cloud API key not configured`);
+    } else {
+      console.warn(`⚠️ Cannot auto-detect timezone: location services not configured`);
     }
   }
 
@@ -199,6 +233,18 @@ export class LocationManager {
    * Only makes API calls if cache is invalid
    */
   async fetchContextIfNeeded(query: string): Promise<LocationContext | null> {
+    return this.fetchContext({
+      weather: this.queryNeedsWeather(query),
+      airQuality: this.queryNeedsAirQuality(query),
+      pollen: this.queryNeedsPollen(query),
+    });
+  }
+
+  /**
+   * Fetch location context with the given optional data (with caching).
+   * Also used by the environment monitor, which has no query.
+   */
+  async fetchContext(include: { weather?: boolean; airQuality?: boolean; pollen?: boolean }): Promise<LocationContext | null> {
     if (!this.hasLocation()) {
       console.log(`⚠️ No location available for ${this.user.userId}`);
       return null;
@@ -211,9 +257,9 @@ export class LocationManager {
     const needsGeocoding = this.shouldRefreshGeocoding(lat, lng);
 
     // Check if we need to refresh weather
-    const needsWeather = this.queryNeedsWeather(query) && this.shouldRefreshWeather();
-    const needsAirQuality = this.queryNeedsAirQuality(query) && this.shouldRefreshAirQuality();
-    const needsPollen = this.queryNeedsPollen(query) && this.shouldRefreshPollen();
+    const needsWeather = !!include.weather && this.shouldRefreshWeather();
+    const needsAirQuality = !!include.airQuality && this.shouldRefreshAirQuality();
+    const needsPollen = !!include.pollen && this.shouldRefreshPollen();
 
     // Return cached if nothing needs refresh
     if (!needsGeocoding && !needsWeather && !needsAirQuality && !needsPollen && this.cachedContext) {
@@ -307,156 +353,115 @@ export class LocationManager {
   }
 
   /**
-   * Refresh geocoding data from Google Maps API
+   * Refresh geocoding data from the location backend
    */
   private async refreshGeocoding(lat: number, lng: number): Promise<void> {
-    if (!this.googleApiKey) {
-      console.warn('⚠️ Google Cloud API key not configured');
+    const provider = this.provider;
+    if (!provider) {
+      console.warn('⚠️ Location services not configured');
       this.initializeContextWithDefaults(lat, lng);
       return;
     }
 
-    console.log(`🌐 Fetching geocoding for ${lat}, ${lng}`);
-
-    try {
-      const response = await mapsClient.reverseGeocode({
-        params: {
-          latlng: { lat, lng },
-          key: this.googleApiKey!,
-        },
-        timeout: 5000,
-      });
+    console.log(`🌐 Fetching geocoding for ${lat}, ${lng} (${provider.backend})`);
 
-      if (response.data.status !== 'OK' || !response.data.results?.length) {
-        const status = response.data.status;
-        if (status === 'REQUEST_DENIED' || status === 'OVER_QUERY_LIMIT') {
-          this._lastApiError = {
-            kind: status === 'OVER_QUERY_LIMIT' ? 'quota_exceeded' : 'permission_denied',
-            api: 'Geocoding',
-            status: 0,
-            message: `Geocoding status: ${status}`,
-            userMessage: status === 'OVER_QUERY_LIMIT'
-              ? 'Your Google Cloud Geocoding API has reached its usage limit. You may need to check your Google Cloud billing or quota settings.'
-              : 'The Google Cloud Geocoding API access was denied. Please check your API key permissions.',
-          };
-          console.warn(`⚠️ Geocoding failed: ${status} — ${this._lastApiError.kind}`);
-        } else {
-          console.warn(`⚠️ Geocoding failed: ${status}`);
-        }
-        this.initializeContextWithDefaults(lat, lng);
-        return;
-      }
+    const address = await provider.reverseGeocode(lat, lng);
+    this._lastApiError = provider.lastError;
+    if (!address) {
+      this.initializeContextWithDefaults(lat, lng);
+      return;
+    }
 
-      const result = response.data.results[0];
-      const components = result.address_components;
-
-      // Parse address components
-      let streetNumber = '';
-      let route = '';
-      let neighborhood = '';
-      let city = 'Unknown';
-      let state = 'Unknown';
-      let country = 'Unknown';
-
-      for (const component of components) {
-        const types = component.types as string[];
-
-        if (types.includes('street_number')) {
-          streetNumber = component.long_name;
-        } else if (types.includes('route')) {
-          route = component.long_name;
-        } else if (types.includes('neighborhood') || types.includes('sublocality')) {
-          neighborhood = component.long_name;
-        } else if (types.includes('locality')) {
-          city = component.long_name;
-        } else if (types.includes('administrative_area_level_1')) {
-          state = component.long_name;
-        } else if (types.includes('country')) {
-          country = component.long_name;
-        }
-      }
+    // Update or create context
+    this.cachedContext = {
+      lat,
+      lng,
+      ...address,
+      geocodedAt: Date.now(),
+      weatherFetchedAt: this.cachedContext?.weatherFetchedAt || 0,
+      airQualityFetchedAt: this.cachedContext?.airQualityFetchedAt || 0,
+      pollenFetchedAt: this.cachedContext?.pollenFetchedAt || 0,
+      weather: this.cachedContext?.weather,
+      airQuality: this.cachedContext?.airQuality,
+      pollen: this.cachedContext?.pollen,
+    };
 
-      const streetAddress = [streetNumber, route].filter(Boolean).join(' ') || undefined;
-
-      // Update or create context
-      const now = Date.now();
-      this.cachedContext = {
-        lat,
-        lng,
-        city,
-        state,
-        country,
-        streetAddress,
-        neighborhood: neighborhood || undefined,
-        geocodedAt: now,
-        weatherFetchedAt: this.cachedContext?.weatherFetchedAt || 0,
-        airQualityFetchedAt: this.cachedContext?.airQualityFetchedAt || 0,
-        pollenFetchedAt: this.cachedContext?.pollenFetchedAt || 0,
-        weather: this.cachedContext?.weather,
-        airQuality: this.cachedContext?.airQuality,
-        pollen: this.cachedContext?.pollen,
-      };
-
-      this.lastGeocodedLat = lat;
-      this.lastGeocodedLng = lng;
-      this._lastApiError = null; // Clear on success
-
-      console.log(`✅ Geocoding complete: ${city}, ${state}`);
+    this.lastGeocodedLat = lat;
+    this.lastGeocodedLng = lng;
 
-    } catch (error) {
-      this._lastApiError = classifyThrownGoogleError(error, "Geocoding");
-      console.error('❌ Geocoding error:', this._lastApiError.message);
-      this.initializeContextWithDefaults(lat, lng);
-    }
+    console.log(`✅ Geocoding complete: ${address.city}, ${address.state}`);
   }
 
   /**
    * Refresh weather data from Google Weather API
    */
   private async refreshWeather(lat: number, lng: number): Promise<void> {
-    if (!this.googleApiKey || !this.cachedContext) return;
+    if (!this.cachedContext) return;
 
-    console.log(`🌤️ Fetching weather for ${lat}, ${lng}`);
+    const weather = await this.fetchWeather(lat, lng);
+    if (weather && this.cachedContext) {
+      this.cachedContext.weather = weather;
+      this.cachedContext.weatherFetchedAt = Date.now();
+    }
+  }
 
-    try {
-      const url = `https://weather.googleapis.com/v1/currentConditions:lookup?key=${this.googleApiKey}&location.latitude=${lat}&location.longitude=${lng}`;
+  /**
+   * Current weather somewhere other than the user's location (e.g. a saved
+   * place). Not cached.
+   */
+  async getWeatherAt(lat: number, lng: number): Promise<WeatherCondition | null> {
+    return this.fetchWeather(lat, lng);
+  }
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: { 'Accept': 'application/json' },
-      });
+  /**
+   * Fetch current conditions from the location backend
+   */
+  private async fetchWeather(lat: number, lng: number): Promise<WeatherCondition | null> {
+    const provider = this.provider;
+    if (!provider) return null;
 
-      if (!response.ok) {
-        this._lastApiError = await classifyGoogleCloudError(response, "Weather");
-        console.warn(`⚠️ Weather API error: ${response.status} — ${this._lastApiError.kind}: ${this._lastApiError.message}`);
-        return;
-      }
+    console.log(`🌤️ Fetching weather for ${lat}, ${lng} (${provider.backend})`);
 
-      const data = await response.json();
+    const weather = await provider.getCurrentWeather(lat, lng);
+    this._lastApiError = provider.lastError;
+    if (weather) console.log(`✅ Weather: ${weather.temperature}°F, ${weather.condition}`);
+    return weather;
+  }
 
-      const tempCelsius = Math.round(data.temperature?.degrees ?? 0);
-      const tempFahrenheit = Math.round(tempCelsius * 9 / 5 + 32);
-      const condition = data.condition?.description || 'Unknown';
-      const humidity = data.humidity;
-      const windSpeed = data.wind?.speed?.value ? Math.round(data.wind.speed.value * 2.237) : undefined;
-      const windDir = data.wind?.direction?.degrees ? this.getWindDirection(data.wind.direction.degrees) : undefined;
-
-      this.cachedContext.weather = {
-        temperature: tempFahrenheit,
-        temperatureCelsius: tempCelsius,
-        condition,
-        humidity,
-        wind: windSpeed && windDir ? `${windSpeed} mph ${windDir}` : undefined,
-      };
-      this.cachedContext.weatherFetchedAt = Date.now();
-      this._lastApiError = null; // Clear on success
+  /**
+   * Hourly (24h) and daily (7 days) forecast for the user's location, or
+   * for given coordinates (e.g. a saved place). Cached per ~1km area.
+   */
+  async getForecast(lat?: number, lng?: number): Promise<WeatherForecast | null> {
+    const coords = lat !== undefined && lng !== undefined ? { lat, lng } : this.getCoordinates();
+    const provider = this.provider;
+    if (!coords || !provider) return null;
+
+    const key = `${coords.lat.toFixed(2)},${coords.lng.toFixed(2)}`;
+    const cached = this.forecastCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < LOCATION_CACHE_SETTINGS.forecastCacheDurationMs) {
+      console.log(`📦 Using cached forecast for ${this.user.userId}`);
+      return cached;
+    }
 
-      console.log(`✅ Weather: ${tempFahrenheit}°F, ${condition}`);
+    console.log(`🌦️ Fetching forecast for ${coords.lat}, ${coords.lng} (${provider.backend})`);
 
-    } catch (error) {
-      this._lastApiError = classifyThrownGoogleError(error, "Weather");
-      console.error('❌ Weather error:', this._lastApiError.message);
+    const result = await provider.getForecast(coords.lat, coords.lng);
+    this._lastApiError = provider.lastError;
+    if (!result) return null;
+
+    const forecast: WeatherForecast = { ...result, fetchedAt: Date.now() };
+
+    // Drop stale areas so the cache doesn't grow over a long session
+    for (const [area, entry] of this.forecastCache) {
+      if (Date.now() - entry.fetchedAt >= LOCATION_CACHE_SETTINGS.forecastCacheDurationMs) {
+        this.forecastCache.delete(area);
+      }
     }
+    this.forecastCache.set(key, forecast);
+
+    console.log(`✅ Forecast: ${forecast.hourly.length} hours, ${forecast.daily.length} days`);
+    return forecast;
   }
 
   /**
@@ -573,16 +578,6 @@ export class LocationManager {
     this.lastGeocodedLng = lng;
   }
 
-  /**
-   * Convert wind direction degrees to cardinal direction
-   */
-  private getWindDirection(degrees: number): string {
-    const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
-                        'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
-    const index = Math.round(degrees / 22.5) % 16;
-    return directions[index];
-  }
-
   /**
    * Set timezone (called from SDK settings or auto-detected from GPS)
    */
@@ -593,44 +588,19 @@ export class LocationManager {
     }
   }
 
-  /**
-   * Fetch timezone from coordinates using Google Maps Timezone API.
-   * Used as fallback when MentraOS doesn't provide userTimezone.
-   */
-  private async fetchTimezoneFromCoordinates(lat: number, lng: number): Promise<string | null> {
-    if (!this.googleApiKey) return null;
-
-    try {
-      const response = await mapsClient.timezone({
-        params: {
-          location: { lat, lng },
-          timestamp: Math.floor(Date.now() / 1000),
-          key: this.googleApiKey,
-        },
-        timeout: 5000,
-      });
-
-      if (response.data.status === 'OK' && response.data.timeZoneId) {
-        return response.data.timeZoneId;
-      }
-      console.warn(`⚠️ Timezone API returned: ${response.data.status}`);
-      return null;
-    } catch (error) {
-      console.warn('⚠️ Timezone lookup from GPS failed:', error);
-      return null;
-    }
-  }
-
   /**
    * Clean up (called on session end)
    */
   destroy(): void {
     this.cachedContext = null;
+    this.forecastCache.clear();
     this.currentLat = null;
     this.currentLng = null;
     this.lastGeocodedLat = null;
     this.lastGeocodedLng = null;
     this._lastApiError = null;
+    this._provider = null;
+    this.providerSettings = "";
     console.log(`🗑️ LocationManager cleaned up for ${this.user.userId}`);
   }
 }
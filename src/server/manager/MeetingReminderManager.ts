@@ -0,0 +1,192 @@
+/**
+ * MeetingReminderManager — Proactive reminders for upcoming calendar events
+ *
+ * Opt-in from Settings. While the glasses are connected, the phone's calendar
+ * events (CalendarManager) are checked every
+ * MEETING_REMINDER_SETTINGS.checkIntervalMs, and the user's lead time before
+ * each one the glasses announce its title and start time — plus, when the
+ * event has a location, how long it takes to get there from the current GPS
+ * fix (Routes API, needs the Google Cloud key). Delivered reminders are
+ * logged to user_context, so they don't repeat after a reconnect or restart.
+ *
+ * Data flow:
+ *   Settings → DB (user_settings.meeting_reminders) → initialize()
+ *   setAppSession → start() → check() every interval
+ *   check() → dueMeetings() → travelMinutes() → playProactive() → log()
+ *   clearAppSession / cleanup → stop()
+ */
+
+import type { User } from "../session/User";
+import type { StoredCalendarEvent } from "./CalendarManager";
+import {
+  DEFAULT_MEETING_REMINDERS,
+  dueMeetings,
+  formatMeetingReminder,
+  meetingReminderKey,
+  normalizeMeetingReminderConfig,
+  type MeetingReminderConfig,
+} from "./meeting-reminders";
+import { PeriodicCheck, playProactive } from "./proactive-output";
+import { computeRoute } from "../agent/tools/directions.tool";
+import { LANGUAGES } from "../constants/languages";
+import { MEETING_REMINDER_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { userContext, userSettings } from "../db/schema";
+import { and, eq, gte } from "drizzle-orm";
+
+export const MEETING_REMINDER_CONTEXT_TYPE = "meeting_reminder";
+
+export class MeetingReminderManager {
+  private config: MeetingReminderConfig = DEFAULT_MEETING_REMINDERS;
+
+  /** meetingReminderKey()s already announced */
+  private delivered = new Set<string>();
+
+  private checks = new PeriodicCheck({
+    run: () => this.check(),
+    intervalMs: MEETING_REMINDER_SETTINGS.checkIntervalMs,
+    onError: (error) => console.warn(`📅 [MEETINGS] Check failed for ${this.user.userId}:`, error),
+  });
+
+  constructor(private user: User) {}
+
+  /**
+   * Load the reminder settings and the reminders already delivered.
+   * Called on session start and again after the settings are changed.
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const [settings] = await db
+        .select({ meetingReminders: userSettings.meetingReminders })
+        .from(userSettings)
+        .where(eq(userSettings.userId, this.user.userId));
+
+      const config = settings?.meetingReminders
+        ? normalizeMeetingReminderConfig(settings.meetingReminders)
+        : DEFAULT_MEETING_REMINDERS;
+      this.config = typeof config === "string" ? DEFAULT_MEETING_REMINDERS : config;
+
+      // Logged until their event ends
+      const rows = await db
+        .select({ contextKey: userContext.contextKey })
+        .from(userContext)
+        .where(
+          and(
+            eq(userContext.userId, this.user.userId),
+            eq(userContext.contextType, MEETING_REMINDER_CONTEXT_TYPE),
+            gte(userContext.expiresAt, new Date()),
+          ),
+        );
+      for (const row of rows) this.delivered.add(row.contextKey);
+
+      if (this.config.enabled) {
+        console.log(`📅 [MEETINGS] Reminders on for ${this.user.userId} (${this.config.leadMinutes} min before)`);
+      }
+      this.checks.apply(this.config.enabled && !!this.user.appSession);
+    } catch (error) {
+      console.warn(`📅 [MEETINGS] Failed to load reminder settings for ${this.user.userId}:`, error);
+    }
+  }
+
+  /** The current reminder settings */
+  getConfig(): MeetingReminderConfig {
+    return this.config;
+  }
+
+  /**
+   * Start checking (glasses connected).
+   */
+  start(): void {
+    this.checks.apply(this.config.enabled);
+  }
+
+  /**
+   * Stop checking (glasses disconnected or reminders turned off).
+   */
+  stop(): void {
+    this.checks.stop();
+  }
+
+  /**
+   * Announce every event whose reminder is due.
+   */
+  async check(): Promise<void> {
+    if (!this.user.appSession || !this.config.enabled) return;
+
+    const now = Date.now();
+    for (const event of dueMeetings(this.user.calendar.getActiveEvents(), this.config, this.delivered, now)) {
+      this.delivered.add(meetingReminderKey(event));
+
+      const minutes = event.location ? await this.travelMinutes(event.location) : null;
+      const text = formatMeetingReminder(
+        event,
+        Date.now(),
+        minutes !== null ? { minutes, mode: this.config.travelMode } : undefined,
+        this.user.location.getTimezone() ?? undefined,
+        this.user.language,
+      );
+
+      if (await playProactive(this.user, { source: "meetings", text, displayMs: MEETING_REMINDER_SETTINGS.displayMs })) {
+        console.log(`📅 [MEETINGS] Reminded ${this.user.userId}: "${text}"`);
+      }
+      await this.log(event, text);
+    }
+  }
+
+  /**
+   * Travel time from the current GPS fix to an event's location (saved
+   * place names like "office" work too), or null when it can't be worked out.
+   */
+  private async travelMinutes(location: string): Promise<number | null> {
+    const apiKey = this.user.aiConfig?.googleCloudApiKey;
+    const origin = this.user.location.getCoordinates();
+    if (!apiKey || !origin) return null;
+
+    const saved = this.user.savedPlaces.find(location);
+    try {
+      const route = await computeRoute(
+        origin,
+        saved ? { lat: saved.lat, lng: saved.lng } : location,
+        this.config.travelMode,
+        apiKey,
+        LANGUAGES[this.user.language].locale,
+      );
+      if (typeof route === "string" || !route.duration) return null;
+      return Math.max(1, Math.round(parseInt(route.duration.replace("s", ""), 10) / 60));
+    } catch (error) {
+      console.warn(`📅 [MEETINGS] Travel time lookup failed for ${this.user.userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a delivered reminder in user_context (kept until the event ends).
+   */
+  private async log(event: StoredCalendarEvent, text: string): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      await db
+        .insert(userContext)
+        .values({
+          userId: this.user.userId,
+          contextType: MEETING_REMINDER_CONTEXT_TYPE,
+          contextKey: meetingReminderKey(event),
+          data: { eventId: event.eventId, title: event.title, dtStart: event.dtStart, message: text, deliveredAt: Date.now() },
+          expiresAt: new Date(event.dtEnd),
+        })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.warn(`📅 [MEETINGS] Failed to log reminder for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Session gone.
+   */
+  destroy(): void {
+    this.stop();
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * MemoryManager — Long-term personal memory
+ *
+ * Durable facts the user asked the assistant to remember ("my locker is 42",
+ * "I'm allergic to peanuts"). Unlike conversation history (48h) and photos
+ * (24h), memories never expire — they're removed only when the user says
+ * "forget that" or deletes them in Settings.
+ *
+ * Data flow:
+ *   remember_fact tool → add() → in-memory list + DB insert
+ *   Query → getRelevant(query) → system prompt context
+ *   forget_fact tool / Settings → remove() → in-memory list + DB delete
+ *   Server restart → initialize() → hydrate from DB
+ */
+
+import type { User } from "../session/User";
+import { MEMORY_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { memories } from "../db/schema";
+import { and, desc, eq } from "drizzle-orm";
+
+export interface Memory {
+  id: string;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Words too common to say anything about relevance */
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "at", "be", "did", "do", "does", "for", "from", "has", "have",
+  "i", "i'm", "in", "is", "it", "me", "my", "of", "on", "or", "so", "that", "the", "this",
+  "to", "was", "what", "when", "where", "who", "with", "you", "your", "about", "tell", "told",
+  "remember", "know",
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/'s$/, ""))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/** Same word, or close enough ("allergic" / "allergies") */
+function wordsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  return a.length >= 5 && b.length >= 5 && a.slice(0, 5) === b.slice(0, 5);
+}
+
+/**
+ * Score a memory against a query — the number of query keywords it mentions.
+ */
+export function scoreMemory(content: string, query: string): number {
+  const memoryWords = tokenize(content);
+  return [...new Set(tokenize(query))]
+    .filter(queryWord => memoryWords.some(word => wordsMatch(queryWord, word)))
+    .length;
+}
+
+/**
+ * Order memories by relevance to the query, most recently updated first on ties.
+ * With matchesOnly, memories that share no keywords with the query are dropped.
+ */
+export function rankMemories(list: Memory[], query: string, limit: number, matchesOnly = false): Memory[] {
+  return list
+    .map(memory => ({ memory, score: scoreMemory(memory.content, query) }))
+    .filter(entry => !matchesOnly || entry.score > 0)
+    .sort((a, b) => b.score - a.score || b.memory.updatedAt.getTime() - a.memory.updatedAt.getTime())
+    .slice(0, limit)
+    .map(entry => entry.memory);
+}
+
+export class MemoryManager {
+  /** All of the user's memories, most recently updated first */
+  private memories: Memory[] = [];
+
+  constructor(private user: User) {}
+
+  /**
+   * Hydrate from DB on session start (and after edits in Settings).
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const rows = await db
+        .select({
+          id: memories.id,
+          content: memories.content,
+          createdAt: memories.createdAt,
+          updatedAt: memories.updatedAt,
+        })
+        .from(memories)
+        .where(eq(memories.userId, this.user.userId))
+        .orderBy(desc(memories.updatedAt));
+
+      this.memories = rows;
+      if (rows.length > 0) {
+        console.log(`🧠 [MEMORY] Loaded ${rows.length} memories for ${this.user.userId}`);
+      }
+    } catch (error) {
+      console.warn(`🧠 [MEMORY] Failed to load memories for ${this.user.userId}:`, error);
+    }
+  }
+
+  /** All memories, most recently updated first */
+  getAll(): Memory[] {
+    return [...this.memories];
+  }
+
+  /**
+   * The facts worth putting in the system prompt for this query —
+   * relevant ones first, topped up with the most recent.
+   */
+  getForPrompt(query: string): string[] {
+    return rankMemories(this.memories, query, MEMORY_SETTINGS.promptLimit).map(m => m.content);
+  }
+
+  /**
+   * Facts that mention the query's keywords (or the most recent ones if the query is empty).
+   */
+  recall(query: string): Memory[] {
+    const matchesOnly = query.trim().length > 0;
+    return rankMemories(this.memories, query, MEMORY_SETTINGS.recallLimit, matchesOnly);
+  }
+
+  /**
+   * Remember a new fact. Returns the stored memory, or null if it couldn't be saved.
+   */
+  async add(content: string): Promise<Memory | null> {
+    const trimmed = content.trim().slice(0, MEMORY_SETTINGS.maxLength);
+    if (!trimmed || !isDbAvailable()) return null;
+
+    try {
+      const [row] = await db
+        .insert(memories)
+        .values({ userId: this.user.userId, content: trimmed })
+        .returning({
+          id: memories.id,
+          content: memories.content,
+          createdAt: memories.createdAt,
+          updatedAt: memories.updatedAt,
+        });
+      this.memories.unshift(row);
+      console.log(`🧠 [MEMORY] Remembered for ${this.user.userId}: "${trimmed}"`);
+      return row;
+    } catch (error) {
+      console.warn(`🧠 [MEMORY] Failed to save memory for ${this.user.userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a memory by id. Returns true if a row was removed.
+   */
+  async remove(id: string): Promise<boolean> {
+    if (!isDbAvailable()) return false;
+
+    try {
+      const deleted = await db
+        .delete(memories)
+        .where(and(eq(memories.id, id), eq(memories.userId, this.user.userId)))
+        .returning({ id: memories.id });
+      this.memories = this.memories.filter(m => m.id !== id);
+      if (deleted.length > 0) {
+        console.log(`🧠 [MEMORY] Forgot memory ${id} for ${this.user.userId}`);
+      }
+      return deleted.length > 0;
+    } catch (error) {
+      console.warn(`🧠 [MEMORY] Failed to delete memory ${id} for ${this.user.userId}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * NavigationManager — Turn-by-turn navigation that follows GPS progress
+ *
+ * "Navigate to the nearest pharmacy" resolves the place (saved places like
+ * "home" first), computes a route, and keeps its steps here. While
+ * navigating, a high-accuracy location stream tracks progress along the
+ * route: the next maneuver is announced as the user approaches it (spoken, or
+ * on the HUD for display glasses), going off-route for a few fixes in a row
+ * re-routes from where they are, and reaching the destination ends the
+ * session. "Stop navigation" ends it early.
+ *
+ * Data flow:
+ *   start_navigation tool → start() → findPlace() + computeRoute() → steps + location stream
+ *   GPS fix → handleLocation() → locateOnRoute() → announce / re-route / arrive
+ *   "Stop navigation" (TranscriptionManager) → stop()
+ */
+
+import type { User } from "../session/User";
+import { findPlace } from "../agent/tools/places.tool";
+import { computeRoute, type Route, type TravelMode } from "../agent/tools/directions.tool";
+import {
+  buildNavigationSteps,
+  formatDistance,
+  locateOnRoute,
+  navigationPhrases,
+  type NavigationStep,
+} from "../agent/navigation";
+import { LANGUAGES } from "../constants/languages";
+import { NAVIGATION_SETTINGS } from "../constants/config";
+import { formatForTTS } from "../utils/tts-formatter";
+import { distanceMeters, type LatLng } from "../utils/geo";
+
+interface Destination extends LatLng {
+  name: string;
+}
+
+export class NavigationManager {
+  private destination: Destination | null = null;
+  private mode: TravelMode = "WALK";
+  private steps: NavigationStep[] = [];
+  private stepIndex = 0;
+
+  /** Highest step whose upcoming maneuver has been announced */
+  private announcedStep = -1;
+
+  /** Consecutive fixes farther than offRouteM from the route */
+  private offRouteFixes = 0;
+  private rerouting = false;
+  private lastRerouteAt = 0;
+
+  /** Last text put on the HUD, so unchanged fixes don't redraw it */
+  private lastHudText = "";
+
+  private unsubscribeLocation: (() => void) | null = null;
+
+  constructor(private user: User) {}
+
+  /**
+   * Whether a navigation session is running.
+   */
+  isActive(): boolean {
+    return this.destination !== null;
+  }
+
+  /**
+   * Start navigating to a place ("the nearest pharmacy", "Central Park").
+   * Returns a summary for the agent to read out, or why it couldn't start.
+   */
+  async start(query: string, mode: TravelMode): Promise<string> {
+    const session = this.user.appSession;
+    if (!session) return "The glasses aren't connected.";
+
+    const apiKey = this.user.aiConfig?.googleCloudApiKey;
+    if (!apiKey) return "Navigation needs a Google Cloud API key in Settings.";
+
+    let origin = this.user.location.getCoordinates();
+    if (!origin) {
+      const latest = await session.location.getLatestLocation({ accuracy: "high" }).catch(() => null);
+      if (latest) origin = { lat: latest.lat, lng: latest.lng };
+    }
+    if (!origin) return "I don't have your location right now, so I can't navigate.";
+
+    const locale = LANGUAGES[this.user.language].locale;
+    const saved = this.user.savedPlaces.find(query);
+    const place = saved
+      ? { name: saved.name, address: saved.address ?? "", lat: saved.lat, lng: saved.lng }
+      : await findPlace(query, origin, NAVIGATION_SETTINGS.placeSearchRadiusM, apiKey, locale);
+    if (!place) return `I couldn't find "${query}" near you.`;
+
+    const route = await computeRoute(origin, place, mode, apiKey, locale);
+    if (typeof route === "string") return route;
+
+    const steps = buildNavigationSteps(route);
+    if (steps.length === 0) return `No route found to ${place.name}.`;
+
+    this.close();
+    this.destination = { name: place.name, lat: place.lat, lng: place.lng };
+    this.mode = mode;
+    this.setRoute(steps);
+
+    this.unsubscribeLocation = session.location.subscribeToStream({ accuracy: "realtime" }, (data) => {
+      this.handleLocation({ lat: data.lat, lng: data.lng });
+    });
+
+    this.showStep(distanceMeters(origin, steps[0].end));
+    console.log(`🧭 [NAV] ${mode} to ${place.name} for ${this.user.userId} (${steps.length} steps)`);
+
+    return `Navigating to ${place.name}${place.address ? ` (${place.address})` : ""}: ${summarize(route, this.user.language)}. ` +
+      `First: ${steps[0].instruction}. I'll announce each turn as you get close. Say "stop navigation" to end.`;
+  }
+
+  /**
+   * A GPS fix while navigating — arrive, re-route, advance, or announce.
+   */
+  private handleLocation(point: LatLng): void {
+    const destination = this.destination;
+    if (!destination || this.rerouting) return;
+
+    if (distanceMeters(point, destination) <= NAVIGATION_SETTINGS.arrivalM) {
+      this.arrive();
+      return;
+    }
+
+    const progress = locateOnRoute(this.steps, this.stepIndex, point);
+    if (progress.offRouteMeters > NAVIGATION_SETTINGS.offRouteM) {
+      this.offRouteFixes++;
+      if (
+        this.offRouteFixes >= NAVIGATION_SETTINGS.offRouteFixes &&
+        Date.now() - this.lastRerouteAt > NAVIGATION_SETTINGS.rerouteCooldownMs
+      ) {
+        this.reroute(point).catch((error) => console.warn(`🧭 [NAV] Re-route failed for ${this.user.userId}:`, error));
+      }
+      return;
+    }
+    this.offRouteFixes = 0;
+    this.stepIndex = progress.stepIndex;
+
+    const toManeuver = distanceMeters(point, this.steps[this.stepIndex].end);
+    const next = this.steps[this.stepIndex + 1];
+    if (next && this.announcedStep < this.stepIndex && toManeuver <= NAVIGATION_SETTINGS.announceDistanceM[this.mode]) {
+      this.announcedStep = this.stepIndex;
+      const phrases = navigationPhrases(this.user.language);
+      this.announce(phrases.approaching(formatDistance(toManeuver, this.user.language), next.instruction));
+      return;
+    }
+
+    this.showStep(toManeuver);
+  }
+
+  /**
+   * Off the route — compute a new one from here to the same destination.
+   */
+  private async reroute(point: LatLng): Promise<void> {
+    const destination = this.destination;
+    const apiKey = this.user.aiConfig?.googleCloudApiKey;
+    if (!destination || !apiKey) return;
+
+    this.rerouting = true;
+    this.lastRerouteAt = Date.now();
+    console.log(`🧭 [NAV] Off route for ${this.user.userId} — re-routing`);
+    this.announce(navigationPhrases(this.user.language).rerouting);
+
+    try {
+      const route = await computeRoute(point, destination, this.mode, apiKey, LANGUAGES[this.user.language].locale);
+      const steps = typeof route === "string" ? [] : buildNavigationSteps(route);
+      // Navigation may have been stopped while the route was computing
+      if (steps.length === 0 || this.destination !== destination) return;
+
+      this.setRoute(steps);
+      this.announce(steps[0].instruction);
+    } finally {
+      this.rerouting = false;
+    }
+  }
+
+  private setRoute(steps: NavigationStep[]): void {
+    this.steps = steps;
+    this.stepIndex = 0;
+    this.announcedStep = -1;
+    this.offRouteFixes = 0;
+    this.lastHudText = "";
+  }
+
+  /**
+   * Speak on speaker glasses; show on the HUD for display glasses.
+   */
+  private announce(text: string): void {
+    const session = this.user.appSession;
+    if (!session) return;
+
+    if (session.capabilities?.hasDisplay) {
+      this.lastHudText = text;
+      session.layouts.showTextWall(text);
+    } else {
+      session.audio.speak(formatForTTS(text, this.user.language)).catch((error) => {
+        console.debug("Navigation speech failed:", error);
+      });
+    }
+  }
+
+  /**
+   * Current step and distance to its maneuver on the HUD (display glasses only).
+   */
+  private showStep(toManeuver: number): void {
+    const session = this.user.appSession;
+    const destination = this.destination;
+    if (!session?.capabilities?.hasDisplay || !destination) return;
+
+    const step = this.steps[this.stepIndex];
+    const text = `${step.instruction}\n${formatDistance(toManeuver, this.user.language)} · ${destination.name}`;
+    if (text === this.lastHudText) return;
+    this.lastHudText = text;
+    session.layouts.showTextWall(text);
+  }
+
+  private arrive(): void {
+    const name = this.destination?.name ?? "";
+    console.log(`🧭 [NAV] Arrived at ${name} for ${this.user.userId}`);
+    this.close();
+    this.announce(navigationPhrases(this.user.language).arrived(name));
+  }
+
+  /**
+   * End navigation early ("stop navigation"). Pass announce = false when the
+   * agent confirms it in its own answer (the stop_navigation tool).
+   */
+  stop(announce = true): void {
+    if (!this.isActive()) return;
+    console.log(`🧭 [NAV] Stopped for ${this.user.userId}`);
+    this.close();
+    this.user.appSession?.layouts.clearView();
+    if (announce) this.announce(navigationPhrases(this.user.language).stopped);
+  }
+
+  /**
+   * Drop the route and the location stream.
+   */
+  private close(): void {
+    this.unsubscribeLocation?.();
+    this.unsubscribeLocation = null;
+    this.destination = null;
+    this.steps = [];
+    this.stepIndex = 0;
+    this.announcedStep = -1;
+    this.offRouteFixes = 0;
+    this.rerouting = false;
+    this.lastHudText = "";
+  }
+
+  /**
+   * Session gone.
+   */
+  destroy(): void {
+    this.close();
+  }
+}
+
+/** "0.8 miles, about 15 min" */
+function summarize(route: Route, language: User["language"]): string {
+  const minutes = Math.max(1, Math.round(parseInt(route.duration?.replace("s", "") || "0", 10) / 60));
+  return `${formatDistance(route.distanceMeters ?? 0, language)}, about ${minutes} min`;
+}
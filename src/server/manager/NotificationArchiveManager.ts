@@ -0,0 +1,223 @@
+/**
+ * NotificationArchiveManager — Opt-in long-term notification history
+ *
+ * The recent list (NotificationManager) keeps 50 notifications for 4 hours
+ * and is what the prompt sees. With the archive on, every stored
+ * notification is also copied to the notification_archive table and kept
+ * for the user's retention period, so "what was that verification code
+ * from this morning?" can be answered with the search_notification_history
+ * tool. Dismissing a notification on the phone doesn't remove it here;
+ * entries are deleted from Settings or when they pass the retention period
+ * (on session start, after a settings save, and by an hourly sweep over
+ * every user, connected or not).
+ *
+ * Data flow:
+ *   Settings → DB (user_settings.notification_archive) → pruneNotificationArchive() → initialize()
+ *   NotificationManager.addNotification() → archive() → notification_archive upsert
+ *   search_notification_history tool → search() → searchNotificationArchive()
+ *   Settings browser → api/notification-archive.ts → searchNotificationArchive()
+ *   Server start → notificationArchiveSweep → sweepNotificationArchives() → pruneNotificationArchive() per user
+ */
+
+import type { User } from "../session/User";
+import type { StoredNotification } from "./NotificationManager";
+import {
+  containsPattern,
+  DEFAULT_NOTIFICATION_ARCHIVE,
+  hasSearchFilter,
+  normalizeNotificationArchiveConfig,
+  retentionCutoff,
+  searchTerms,
+  type ArchiveSearch,
+  type NotificationArchiveConfig,
+} from "./notification-archive";
+import { PeriodicCheck } from "./proactive-output";
+import { NOTIFICATION_ARCHIVE_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { notificationArchive, userSettings } from "../db/schema";
+import { and, desc, eq, gte, ilike, isNotNull, lt, or, type SQL } from "drizzle-orm";
+
+/**
+ * An archived notification as the tool and the webview see it
+ */
+export interface ArchivedNotification {
+  id: string;
+  app: string;
+  title: string;
+  content: string;
+  priority: "low" | "normal" | "high";
+  receivedAt: Date;
+}
+
+/**
+ * Search one user's archive, newest first. Entries older than the
+ * retention cutoff are left out even before they're pruned.
+ */
+export async function searchNotificationArchive(
+  userId: string,
+  search: ArchiveSearch,
+  cutoff: Date,
+  limit: number,
+): Promise<ArchivedNotification[]> {
+  const after = search.after && search.after > cutoff ? search.after : cutoff;
+  const conditions: (SQL | undefined)[] = [
+    eq(notificationArchive.userId, userId),
+    gte(notificationArchive.receivedAt, after),
+  ];
+  if (search.before) conditions.push(lt(notificationArchive.receivedAt, search.before));
+  if (search.app) conditions.push(ilike(notificationArchive.app, containsPattern(search.app)));
+  if (search.sender) conditions.push(ilike(notificationArchive.title, containsPattern(search.sender)));
+  for (const term of searchTerms(search.text)) {
+    const pattern = containsPattern(term);
+    conditions.push(or(ilike(notificationArchive.title, pattern), ilike(notificationArchive.content, pattern)));
+  }
+
+  const rows = await db
+    .select()
+    .from(notificationArchive)
+    .where(and(...conditions))
+    .orderBy(desc(notificationArchive.receivedAt))
+    .limit(limit);
+
+  return rows.map(row => ({
+    id: row.id,
+    app: row.app,
+    title: row.title,
+    content: row.content,
+    priority: row.priority as ArchivedNotification["priority"],
+    receivedAt: row.receivedAt,
+  }));
+}
+
+/**
+ * Delete one user's entries past their retention period.
+ */
+export async function pruneNotificationArchive(userId: string, config: NotificationArchiveConfig): Promise<void> {
+  try {
+    const deleted = await db
+      .delete(notificationArchive)
+      .where(
+        and(
+          eq(notificationArchive.userId, userId),
+          lt(notificationArchive.receivedAt, retentionCutoff(config, Date.now())),
+        ),
+      )
+      .returning({ id: notificationArchive.id });
+
+    if (deleted.length > 0) {
+      console.log(`🗄️ [ARCHIVE] Deleted ${deleted.length} archived notifications past ${config.retentionDays} days for ${userId}`);
+    }
+  } catch (error) {
+    console.warn(`🗄️ [ARCHIVE] Failed to prune archive for ${userId}:`, error);
+  }
+}
+
+/**
+ * Prune every user who has the archive on — whether or not their glasses
+ * are connected.
+ */
+export async function sweepNotificationArchives(): Promise<void> {
+  if (!isDbAvailable()) return;
+
+  const rows = await db
+    .select({ userId: userSettings.userId, notificationArchive: userSettings.notificationArchive })
+    .from(userSettings)
+    .where(isNotNull(userSettings.notificationArchive));
+
+  for (const row of rows) {
+    const config = normalizeNotificationArchiveConfig(row.notificationArchive);
+    if (typeof config !== "string" && config.enabled) {
+      await pruneNotificationArchive(row.userId, config);
+    }
+  }
+}
+
+/** The hourly sweep — started with the server */
+export const notificationArchiveSweep = new PeriodicCheck({
+  run: sweepNotificationArchives,
+  intervalMs: NOTIFICATION_ARCHIVE_SETTINGS.pruneIntervalMs,
+  startDelayMs: 0,
+  onError: (error) => console.warn("🗄️ [ARCHIVE] Sweep failed:", error),
+});
+
+export class NotificationArchiveManager {
+  private config: NotificationArchiveConfig = DEFAULT_NOTIFICATION_ARCHIVE;
+
+  constructor(private user: User) {}
+
+  /**
+   * Load the archive settings. Called on session start and again after the
+   * settings are changed.
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const [settings] = await db
+        .select({ notificationArchive: userSettings.notificationArchive })
+        .from(userSettings)
+        .where(eq(userSettings.userId, this.user.userId));
+
+      const config = settings?.notificationArchive
+        ? normalizeNotificationArchiveConfig(settings.notificationArchive)
+        : DEFAULT_NOTIFICATION_ARCHIVE;
+      this.config = typeof config === "string" ? DEFAULT_NOTIFICATION_ARCHIVE : config;
+
+      if (this.config.enabled) {
+        console.log(`🗄️ [ARCHIVE] Notification archive on for ${this.user.userId} (${this.config.retentionDays} days)`);
+        await pruneNotificationArchive(this.user.userId, this.config);
+      }
+    } catch (error) {
+      console.warn(`🗄️ [ARCHIVE] Failed to load archive settings for ${this.user.userId}:`, error);
+    }
+  }
+
+  /** The current archive settings */
+  getConfig(): NotificationArchiveConfig {
+    return this.config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Copy a stored notification to the archive (when it's on).
+   */
+  async archive(notification: StoredNotification): Promise<void> {
+    if (!this.config.enabled || !isDbAvailable()) return;
+
+    const fields = {
+      app: notification.app,
+      title: notification.title,
+      content: notification.content.slice(0, NOTIFICATION_ARCHIVE_SETTINGS.maxContentChars),
+      priority: notification.priority,
+      receivedAt: new Date(notification.receivedAt),
+    };
+
+    try {
+      await db
+        .insert(notificationArchive)
+        .values({ userId: this.user.userId, notificationId: notification.notificationId, ...fields })
+        .onConflictDoUpdate({
+          target: [notificationArchive.userId, notificationArchive.notificationId],
+          set: fields,
+        });
+    } catch (error) {
+      console.warn(`🗄️ [ARCHIVE] Failed to archive notification for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Search the archive, newest first. A search with no filters finds nothing.
+   */
+  async search(search: ArchiveSearch): Promise<ArchivedNotification[]> {
+    if (!isDbAvailable() || !hasSearchFilter(search)) return [];
+    return searchNotificationArchive(
+      this.user.userId,
+      search,
+      retentionCutoff(this.config, Date.now()),
+      NOTIFICATION_ARCHIVE_SETTINGS.maxResults,
+    );
+  }
+}
@@ -6,13 +6,17 @@
  * user_context table in Supabase for cross-restart hydration.
  *
  * Data flow:
- *   Phone → SDK onPhoneNotifications → addNotification() → in-memory Map + DB upsert
+ *   Phone → SDK onPhoneNotifications → addNotification() → triage rules → in-memory Map + DB upsert
+ *                                                        → NotificationArchiveManager (opt-in long-term copy)
  *   Phone → SDK onPhoneNotificationDismissed → removeNotification() → Map delete + DB delete
  *   Server restart → initialize() → hydrate from DB → in-memory Map
  */
 
 import type { User } from "../session/User";
 import type { PhoneNotification, PhoneNotificationDismissed } from "@mentra/sdk";
+import { formatNotificationAnnouncement, type NotificationFields } from "./notification-rules";
+import { playProactive } from "./proactive-output";
+import { NOTIFICATION_RULE_SETTINGS } from "../constants/config";
 import { db, isDbAvailable } from "../db/client";
 import { userContext } from "../db/schema";
 import { and, eq, gte, sql } from "drizzle-orm";
@@ -24,7 +28,7 @@ const MAX_NOTIFICATIONS = 50;
 /**
  * Internal storage shape (enriched with receive time and DB row ID)
  */
-interface StoredNotification {
+export interface StoredNotification {
   notificationId: string;
   app: string;
   title: string;
@@ -86,9 +90,22 @@ export class NotificationManager {
 
   /**
    * Add a notification from SDK push.
+   * Triage rules decide first: ignored ones are dropped, announced ones are
+   * read out (or shown on the HUD) right away. Everything else is only stored.
+   * An update to a notification already stored isn't announced again.
    * Writes to in-memory Map + DB upsert.
    */
   async addNotification(notification: PhoneNotification): Promise<void> {
+    const action = this.user.notificationRules.apply(notification.notificationId, notification);
+    if (action === "ignore") {
+      console.log(`📱 Notification ignored by rule: ${notification.app} — "${notification.title}" for ${this.user.userId}`);
+      return;
+    }
+    const isUpdate = this.notifications.has(notification.notificationId);
+    if ((action === "announce" || action === "hud") && !isUpdate) {
+      this.deliver(notification, action);
+    }
+
     const stored: StoredNotification = {
       notificationId: notification.notificationId,
       app: notification.app,
@@ -139,6 +156,8 @@ export class NotificationManager {
         console.warn(`Failed to persist notification for ${this.user.userId}:`, error);
       }
     }
+
+    await this.user.notificationArchive.archive(stored);
   }
 
   /**
@@ -152,7 +171,7 @@ export class NotificationManager {
 
   /**
    * Remove a notification when dismissed on the phone.
-   * Deletes from in-memory Map + DB.
+   * Deletes from in-memory Map + DB; an archived copy is kept.
    */
   async removeNotification(dismissed: PhoneNotificationDismissed): Promise<void> {
     this.notifications.delete(dismissed.notificationId);
@@ -173,6 +192,21 @@ export class NotificationManager {
     }
   }
 
+  /**
+   * Read out or show a notification a rule flagged. HUD-only rules do
+   * nothing on glasses without a display — the notification is still stored.
+   * Do Not Disturb can hold it back or skip it.
+   */
+  private deliver(notification: NotificationFields, action: "announce" | "hud"): void {
+    playProactive(this.user, {
+      source: "notifications",
+      text: formatNotificationAnnouncement(notification),
+      displayMs: NOTIFICATION_RULE_SETTINGS.displayMs,
+      silent: true,
+      hudOnly: action === "hud",
+    }).catch((error) => console.debug("Notification announcement failed:", error));
+  }
+
   /**
    * Get all stored notifications sorted by receivedAt (newest first).
    */
@@ -217,8 +251,7 @@ export class NotificationManager {
    * Format a TTS-friendly spoken readout for the "check notifications" voice command.
    * Groups by app, reads count and highlights the most recent.
    */
-  formatNotificationReadout(): string {
-    const recent = this.getRecentNotifications();
+  formatNotificationReadout(recent: StoredNotification[] = this.getRecentNotifications()): string {
     if (recent.length === 0) {
       return "You have no recent notifications.";
     }
@@ -0,0 +1,174 @@
+/**
+ * NotificationRulesManager — The user's notification triage rules
+ *
+ * Added from Settings or by voice ("always tell me when Alice texts", "mute
+ * Candy Crush"). NotificationManager asks apply() what to do with each
+ * incoming notification; every rule hit is logged to user_context so it's
+ * clear afterwards why something was read out or dropped.
+ *
+ * Data flow:
+ *   add_notification_rule tool / Settings → add() → DB insert + in-memory list
+ *   Phone notification → NotificationManager.addNotification() → apply() → matchRule() → hit logged
+ *   remove_notification_rule tool / Settings → remove() → DB delete + in-memory list
+ */
+
+import type { User } from "../session/User";
+import {
+  describeRule,
+  matchRule,
+  normalizeRuleInput,
+  type NotificationAction,
+  type NotificationFields,
+  type NotificationRule,
+  type NotificationPriority,
+} from "./notification-rules";
+import { NOTIFICATION_RULE_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { notificationRules, userContext } from "../db/schema";
+import { and, asc, eq } from "drizzle-orm";
+
+export const RULE_HIT_CONTEXT_TYPE = "notification_rule_hit";
+
+/** A stored row as a NotificationRule */
+export function toNotificationRule(row: typeof notificationRules.$inferSelect): NotificationRule {
+  return {
+    id: row.id,
+    app: row.app,
+    sender: row.sender,
+    keywords: (row.keywords as string[]) ?? [],
+    priority: row.priority as NotificationPriority | null,
+    action: row.action as NotificationAction,
+    createdAt: row.createdAt,
+  };
+}
+
+export class NotificationRulesManager {
+  /** The user's rules, oldest first */
+  private rules: NotificationRule[] = [];
+
+  constructor(private user: User) {}
+
+  /**
+   * Hydrate from DB on session start (and after edits in Settings).
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const rows = await db
+        .select()
+        .from(notificationRules)
+        .where(eq(notificationRules.userId, this.user.userId))
+        .orderBy(asc(notificationRules.createdAt));
+      this.rules = rows.map(toNotificationRule);
+
+      if (this.rules.length > 0) {
+        console.log(`🔔 [RULES] Loaded ${this.rules.length} notification rules for ${this.user.userId}`);
+      }
+    } catch (error) {
+      console.warn(`🔔 [RULES] Failed to load notification rules for ${this.user.userId}:`, error);
+    }
+  }
+
+  /** All rules, oldest first */
+  getAll(): NotificationRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Add a rule. Returns an error message instead when it can't be saved.
+   */
+  async add(raw: unknown): Promise<NotificationRule | string> {
+    const input = normalizeRuleInput(raw);
+    if (typeof input === "string") return input;
+    if (!isDbAvailable()) return "Notification rules aren't available right now.";
+    if (this.rules.length >= NOTIFICATION_RULE_SETTINGS.maxRules) {
+      return `You already have ${NOTIFICATION_RULE_SETTINGS.maxRules} notification rules. Remove one first.`;
+    }
+
+    try {
+      const [row] = await db
+        .insert(notificationRules)
+        .values({ userId: this.user.userId, ...input })
+        .returning();
+
+      const rule = toNotificationRule(row);
+      this.rules.push(rule);
+      console.log(`🔔 [RULES] Added "${describeRule(rule)}" for ${this.user.userId}`);
+      return rule;
+    } catch (error) {
+      console.warn(`🔔 [RULES] Failed to add rule for ${this.user.userId}:`, error);
+      return "Couldn't save that rule right now.";
+    }
+  }
+
+  /**
+   * Delete a rule. Returns true if it was deleted.
+   */
+  async remove(id: string): Promise<boolean> {
+    if (!isDbAvailable()) return false;
+
+    try {
+      const deleted = await db
+        .delete(notificationRules)
+        .where(and(eq(notificationRules.id, id), eq(notificationRules.userId, this.user.userId)))
+        .returning({ id: notificationRules.id });
+
+      this.rules = this.rules.filter(rule => rule.id !== id);
+      return deleted.length > 0;
+    } catch (error) {
+      console.warn(`🔔 [RULES] Failed to delete rule ${id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * What to do with an incoming notification — "digest" when no rule
+   * matches. Logs the hit when one does, without holding up the notification.
+   */
+  apply(notificationId: string, notification: NotificationFields): NotificationAction {
+    const rule = matchRule(this.rules, notification);
+    if (!rule) return "digest";
+
+    console.log(`🔔 [RULES] "${describeRule(rule)}" matched ${notification.app} — "${notification.title}"`);
+    void this.logHit(rule, notificationId, notification);
+    return rule.action;
+  }
+
+  /**
+   * Record a rule hit in user_context.
+   */
+  private async logHit(rule: NotificationRule, notificationId: string, notification: NotificationFields): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      await db
+        .insert(userContext)
+        .values({
+          userId: this.user.userId,
+          contextType: RULE_HIT_CONTEXT_TYPE,
+          contextKey: `${notificationId}:${rule.id}`,
+          data: {
+            ruleId: rule.id,
+            rule: describeRule(rule),
+            action: rule.action,
+            notificationId,
+            app: notification.app,
+            title: notification.title,
+            at: Date.now(),
+          },
+          expiresAt: new Date(Date.now() + NOTIFICATION_RULE_SETTINGS.hitTtlMs),
+        })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.warn(`🔔 [RULES] Failed to log rule hit for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Rules for the agent ("1. Announce WhatsApp from Alice").
+   */
+  formatList(): string {
+    return this.rules.map((rule, i) => `${i + 1}. ${describeRule(rule)}`).join("\n");
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * PlaceResultsManager — The session's last place search and looked-up details
+ *
+ * nearby_places keeps its result list here, so follow-ups ("call the second
+ * one", "how late is it open?") resolve against it without searching again.
+ * Details are cached per place for PLACES_SETTINGS.detailsCacheMs, and the
+ * place the user last asked about is remembered so "is it open now?" needs
+ * no name at all. Everything is dropped when the glasses disconnect.
+ *
+ * Data flow:
+ *   nearby_places tool → search() → Places textSearch → results
+ *   place_details tool → resolve() (list / last place / findPlace-style search) → getDetails() → cache or Place Details
+ */
+
+import type { User } from "../session/User";
+import {
+  fetchPlaceDetails,
+  formatPlaceDetails,
+  pickPlace,
+  searchPlaces,
+  type PlaceDetails,
+  type PlaceSummary,
+} from "../agent/tools/places.tool";
+import { LANGUAGES, type Language } from "../constants/languages";
+import { PLACES_SETTINGS } from "../constants/config";
+import type { LatLng } from "../utils/geo";
+
+export class PlaceResultsManager {
+  /** The last nearby_places result list, in the order it was read out */
+  private results: PlaceSummary[] = [];
+
+  /** Looked-up details by place ID */
+  private details = new Map<string, { details: PlaceDetails; fetchedAt: number }>();
+
+  /** The place the user last asked about */
+  private current: PlaceSummary | null = null;
+
+  constructor(private user: User) {}
+
+  get language(): Language {
+    return this.user.language;
+  }
+
+  private get locale(): string {
+    return LANGUAGES[this.user.language].locale;
+  }
+
+  /** The last result list */
+  getResults(): PlaceSummary[] {
+    return [...this.results];
+  }
+
+  /**
+   * Search near the user and remember the list. Returns a message for the
+   * user instead when the search failed.
+   */
+  async search(query: string, origin: LatLng, radiusM: number, openNow: boolean): Promise<PlaceSummary[] | string> {
+    const apiKey = this.user.aiConfig?.googleCloudApiKey;
+    if (!apiKey) return "Place search needs a Google Cloud API key in Settings.";
+
+    const places = await searchPlaces(query, origin, radiusM, apiKey, this.locale, openNow);
+    if (typeof places === "string") return places;
+
+    this.results = places;
+    this.current = places.length === 1 ? places[0] : null;
+    return places;
+  }
+
+  /**
+   * The place a follow-up refers to: a position in the last list, a name
+   * (from the list, else searched near the user), or with neither the place
+   * last asked about (or the only result).
+   */
+  async resolve(reference: { position?: number; name?: string }, origin: LatLng): Promise<PlaceSummary | string> {
+    if (reference.position !== undefined) {
+      const place = pickPlace(this.results, reference);
+      if (place) return place;
+      return this.results.length > 0
+        ? `There are only ${this.results.length} places in the last search.`
+        : "There's no recent place search to pick from.";
+    }
+
+    if (reference.name?.trim()) {
+      const listed = pickPlace(this.results, reference);
+      if (listed) return listed;
+
+      const found = await this.search(reference.name, origin, PLACES_SETTINGS.maxRadiusM, false);
+      if (typeof found === "string") return found;
+      return found[0] ?? `I couldn't find "${reference.name}" near you.`;
+    }
+
+    if (this.current) return this.current;
+    if (this.results.length === 1) return this.results[0];
+    return this.results.length > 0
+      ? "Which place? Say its number from the list or its name."
+      : "Which place? There's no recent place search.";
+  }
+
+  /**
+   * Details for a place — from the cache when fresh, else the Places API.
+   */
+  async getDetails(place: PlaceSummary): Promise<PlaceDetails | string> {
+    this.current = place;
+
+    const cached = this.details.get(place.id);
+    if (cached && Date.now() - cached.fetchedAt < PLACES_SETTINGS.detailsCacheMs) {
+      console.log(`📦 Using cached details for ${place.name}`);
+      return cached.details;
+    }
+
+    const apiKey = this.user.aiConfig?.googleCloudApiKey;
+    if (!apiKey) return "Place details need a Google Cloud API key in Settings.";
+
+    console.log(`📍 Fetching details for ${place.name} (${place.id})`);
+    const details = await fetchPlaceDetails(place.id, apiKey, this.locale);
+    if (typeof details === "string") return details;
+
+    this.details.set(place.id, { details, fetchedAt: Date.now() });
+    return details;
+  }
+
+  /**
+   * Details for the agent, with times in the user's timezone.
+   */
+  formatDetails(details: PlaceDetails): string {
+    return formatPlaceDetails(details, this.locale, this.user.location.getTimezone() ?? undefined);
+  }
+
+  /**
+   * Session gone.
+   */
+  destroy(): void {
+    this.results = [];
+    this.details.clear();
+    this.current = null;
+  }
+}
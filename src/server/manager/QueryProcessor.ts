@@ -10,10 +10,16 @@ import type { StoredPhoto } from "./PhotoManager";
 import { generateResponse, type GenerateOptions } from "../agent/MentraAgent";
 import { broadcastChatEvent } from "../api/chat";
 import { formatForTTS } from "../utils/tts-formatter";
+import { formatForDisplay } from "../utils/text-wrapper";
+import { LANGUAGES } from "../constants/languages";
+import { SentenceChunker } from "../utils/sentence-chunker";
 import { getDefaultSoundUrl } from "../constants/config";
 import { isDbAvailable, db, photos } from "../db";
 import { eq } from "drizzle-orm";
 import { generatePhotoTags, getRecentPhotosForPrompt } from "./photo-analysis";
+import { recordUsage, type ModelUsage } from "./usage-tracking";
+import { omitExchange } from "../agent/message-builder";
+import { applyAssistant } from "../agent/assistants";
 
 const PROCESSING_SOUND_URL = process.env.PROCESSING_SOUND_URL || getDefaultSoundUrl('processing.mp3');
 const ERROR_SOUND_URL = getDefaultSoundUrl('error.mp3');
@@ -27,11 +33,21 @@ export interface QueryResult {
   ttsComplete: Promise<void>;
 }
 
+/**
+ * State for a response that is being streamed to the glasses.
+ * Cancelled when the user interrupts TTS.
+ */
+interface StreamingOutput {
+  abortController: AbortController;
+  cancelled: boolean;
+}
+
 /**
  * QueryProcessor — handles the full query processing pipeline.
  */
 export class QueryProcessor {
   private processingSoundLooping = false;
+  private activeOutput: StreamingOutput | null = null;
 
   constructor(private user: User) {}
 
@@ -39,8 +55,11 @@ export class QueryProcessor {
    * Process a user query and return the response.
    * prePhoto is a photo pre-captured at wake word time (already awaited).
    * isVisual indicates whether the query was classified as needing the camera photo.
+   * onOutputStart fires when the first streamed chunk is sent to the glasses
+   * (TranscriptionManager uses it to enable TTS interrupts before generation finishes).
+   * assistantId picks the named assistant that answers (its model, persona, and tools).
    */
-  async processQuery(query: string, speakerId?: string, prePhoto?: StoredPhoto | null, isVisual?: boolean): Promise<QueryResult> {
+  async processQuery(query: string, speakerId?: string, prePhoto?: StoredPhoto | null, isVisual?: boolean, onOutputStart?: () => void, assistantId?: string): Promise<QueryResult> {
     const session = this.user.appSession;
     if (!session) {
       console.error(`No active session for ${this.user.userId}`);
@@ -100,7 +119,8 @@ export class QueryProcessor {
     if (hasCamera) {
       if (prePhoto) {
         console.log(`📸 Using pre-captured photo for ${this.user.userId}`);
-        photoBuffers = this.user.photo.getPhotosForContext();
+        // Only the current photo — earlier photos in this exchange are re-sent with their turns
+        photoBuffers = [prePhoto.buffer];
         photoDataUrl = `data:${prePhoto.mimeType};base64,${prePhoto.buffer.toString("base64")}`;
         sourcePhoto = prePhoto;
         lap('PHOTO-FROM-CACHE');
@@ -114,7 +134,7 @@ export class QueryProcessor {
         ]);
         clearTimeout(timeoutId!);
         if (currentPhoto) {
-          photoBuffers = this.user.photo.getPhotosForContext();
+          photoBuffers = [currentPhoto.buffer];
           photoDataUrl = `data:${currentPhoto.mimeType};base64,${currentPhoto.buffer.toString("base64")}`;
           sourcePhoto = currentPhoto;
         } else {
@@ -248,8 +268,12 @@ export class QueryProcessor {
     // Step 4: Build agent context (using snapshotted capabilities from pipeline start)
     const hasPhotos = photoDataUrl !== undefined; // current query's photo, not stale ones
 
+    // The current exchange is sent as real messages; everything older stays in the prompt summary
+    const activeExchangeId = this.user.exchange.getCurrentExchangeId();
+    const exchangeTurns = this.user.chatHistory.getExchangeTurns(activeExchangeId);
+
     // Load exchange-grouped history and recent photos for prompt context
-    const exchangeGroups = await this.user.chatHistory.getHistoryGroupedByExchange();
+    const exchangeGroups = omitExchange(await this.user.chatHistory.getHistoryGroupedByExchange(), activeExchangeId);
     const recentPhotos = await getRecentPhotosForPrompt(
       this.user.userId,
       this.user.aiConfig,
@@ -270,31 +294,99 @@ export class QueryProcessor {
       timezone: this.user.location.getTimezone() ?? undefined,
       notifications: this.user.notifications.formatForPrompt(),
       calendar: this.user.calendar.formatForPrompt(),
-      conversationHistory: this.user.chatHistory.getRecentTurns(),
+      conversationHistory: omitExchange(this.user.chatHistory.getRecentTurns(), activeExchangeId),
       exchangeGroups,
+      exchangeTurns,
       recentPhotos,
+      memories: this.user.memory.getForPrompt(query),
+      savedPlaces: this.user.savedPlaces.formatForPrompt(),
     };
     lap('BUILD-CONTEXT');
 
-    // Step 5: Generate response (pass user's AI config for multi-provider routing)
+    // Step 5: Stream response (pass user's AI config for multi-provider routing).
+    // Each completed sentence is sent to the glasses as soon as it's ready.
     this.showStatus("Thinking...", hasDisplay);
+    const output: StreamingOutput = { abortController: new AbortController(), cancelled: false };
+    this.activeOutput = output;
+    const chunker = new SentenceChunker();
+    let streamedText = '';
+    let outputStarted = false;
+    let speechQueue: Promise<void> = Promise.resolve();
+
+    const sendChunk = (chunk: string) => {
+      if (output.cancelled) return;
+      if (!outputStarted) {
+        outputStarted = true;
+        this.stopProcessingSound();
+        lap('FIRST-CHUNK');
+        onOutputStart?.();
+      }
+      if (hasDisplay) {
+        this.showStreamingText(streamedText.trim());
+      }
+      if (hasSpeakers) {
+        speechQueue = speechQueue.then(() => this.speakChunk(chunk, output));
+      }
+    };
+
+    // Over budget → answer on the user's cheap model (if set). A named assistant
+    // keeps its persona and tools either way, but only uses its own model within budget.
+    const assistant = this.user.assistants.get(assistantId);
+    const budgetConfig = this.user.budget.applyBudget(this.user.aiConfig);
+    const aiConfig = assistant && budgetConfig
+      ? applyAssistant(budgetConfig, assistant, budgetConfig === this.user.aiConfig)
+      : budgetConfig;
+
     let response: string;
+    let usage: ModelUsage[] = [];
+    let failed = false;
     try {
       const result = await generateResponse({
         query,
         photos: photoBuffers.length > 0 ? photoBuffers : undefined,
         context,
-        aiConfig: this.user.aiConfig,
+        aiConfig,
+        toolGroups: assistant?.tools,
+        memory: this.user.memory,
+        historySearch: this.user.historySearch,
+        reminders: this.user.reminders,
+        navigation: this.user.navigation,
+        savedPlaces: this.user.savedPlaces,
+        locationManager: this.user.location,
+        placeResults: this.user.placeResults,
+        notificationRules: this.user.notificationRules,
+        focus: this.user.focus,
+        notificationArchive: this.user.notificationArchive,
+        abortSignal: output.abortController.signal,
         onToolCall: (toolName) => {
           if (toolName === 'search' || toolName === 'web_search' || toolName === 'google_search') {
             this.showStatus("Searching...", hasDisplay);
           }
         },
+        onTextDelta: (delta) => {
+          streamedText += delta;
+          for (const sentence of chunker.push(delta)) {
+            sendChunk(sentence);
+          }
+        },
       });
       response = result.response;
+      usage = result.usage ?? [];
+      failed = result.failed === true;
+      if (result.aborted) {
+        console.log(`🔇 Response interrupted for ${this.user.userId} — keeping partial response`);
+      }
     } catch (error) {
       console.error(`Agent error for ${this.user.userId}:`, error);
       response = "Sorry, something went wrong on my end. You can ask me something else.";
+      failed = true;
+    }
+    if (failed && outputStarted) {
+      // Part of an answer was already spoken — discard the half-sentence left in
+      // the chunker and say the failure message after it
+      chunker.flush();
+      streamedText = response;
+      sendChunk(response);
     }
     lap('AI-GENERATE-RESPONSE');
 
@@ -312,27 +404,43 @@ export class QueryProcessor {
     broadcastChatEvent(this.user.userId, { type: "idle" });
     lap('SSE-BROADCAST-AI-MSG');
 
-    // Step 6: Format response for output
-    const formattedResponse = this.formatResponse(
-      response,
-      context.hasSpeakers,
-      context.hasDisplay
-    );
-
-    // Step 7: Stop processing sound loop and start output (don't await — TranscriptionManager controls TTS lifecycle for interrupt support)
-    this.stopProcessingSound();
-    const ttsComplete = this.outputResponse(formattedResponse, context.hasSpeakers, context.hasDisplay);
+    // Step 6: Send the rest of the output (don't await — TranscriptionManager controls TTS lifecycle for interrupt support)
+    let ttsComplete: Promise<void>;
+    if (outputStarted) {
+      // Streamed — flush the trailing partial sentence and wait for the queue to drain
+      const rest = chunker.flush();
+      if (rest) sendChunk(rest);
+      ttsComplete = speechQueue;
+    } else {
+      // Nothing streamed (setup/quota messages, or a response with no sentence break
+      // until the very end) — output the whole response in one go
+      this.stopProcessingSound();
+      const formattedResponse = this.formatResponse(
+        response,
+        context.hasSpeakers,
+        context.hasDisplay
+      );
+      ttsComplete = output.cancelled
+        ? Promise.resolve()
+        : this.outputResponse(formattedResponse, context.hasSpeakers, context.hasDisplay);
+    }
+    ttsComplete = ttsComplete.finally(() => {
+      if (this.activeOutput === output) this.activeOutput = null;
+    });
     lap('OUTPUT-TO-GLASSES-STARTED');
 
     // Write photo analysis to DB BEFORE clearing the pipeline — ensures the analysis
     // is available for the next query's getRecentPhotosForPrompt() call.
     // Tag generation remains fire-and-forget (non-critical for context).
-    if (photoId) {
+    if (photoId && !failed) {
       try {
         await this.updatePhotoAnalysis(photoId, response);
         const aiConfig = this.user.aiConfig;
         if (aiConfig?.isConfigured) {
-          generatePhotoTags(photoId, response, aiConfig).catch((err) => {
+          generatePhotoTags(photoId, response, aiConfig, {
+            userId: this.user.userId,
+            exchangeId: this.user.exchange.getCurrentExchangeId(),
+          }).catch((err) => {
             console.warn(`📸 [QP] Tag generation failed for ${photoId}:`, err);
           });
         }
@@ -341,21 +449,55 @@ export class QueryProcessor {
       }
     }
 
-    // Step 8: Save to chat history (with active context IDs and exchange ID for traceability)
+    // Step 7: Save to chat history (with active context IDs and exchange ID for traceability).
+    // A failed turn isn't saved — the error message isn't an answer to remember.
     const hadPhoto = photoBuffers.length > 0;
     const contextIds = [
       ...this.user.calendar.getActiveContextIds(),
       ...this.user.notifications.getActiveContextIds(),
     ];
     const exchangeId = this.user.exchange.getCurrentExchangeId();
-    await this.user.chatHistory.addTurn(query, response, hadPhoto, photoDataUrl, photoId, contextIds, exchangeId);
+    const turnId = failed
+      ? null
+      : await this.user.chatHistory.addTurn(query, response, hadPhoto, photoDataUrl, photoId, contextIds, exchangeId);
     lap('SAVE-HISTORY');
 
+    // Step 8: Record token usage against the saved turn, then speak any newly crossed budget alert
+    await Promise.all(usage.map(entry =>
+      recordUsage({ userId: this.user.userId, exchangeId, turnId }, "agent", entry.provider, entry.model, entry),
+    ));
+    const budgetAlert = this.user.budget.takeAlert();
+    if (budgetAlert) {
+      console.log(`💰 Budget alert for ${this.user.userId}: ${budgetAlert}`);
+      ttsComplete = ttsComplete.then(() => {
+        if (output.cancelled) return;
+        return this.outputResponse(budgetAlert, hasSpeakers, hasDisplay);
+      });
+    }
+
+    // Index the new turn (and any photos/exchanges finished since) for history search
+    this.user.historySearch.catchUp();
+
     console.log(`⏱️ [PIPELINE-DONE] Total: ${Date.now() - pipelineStart}ms`);
 
     return { response, ttsComplete };
   }
 
+  /**
+   * Cancel the response currently being streamed to the glasses.
+   * Aborts generation and drops any sentences not yet spoken.
+   * Called by TranscriptionManager when the user interrupts TTS.
+   */
+  cancelOutput(): void {
+    const output = this.activeOutput;
+    if (!output || output.cancelled) return;
+
+    output.cancelled = true;
+    output.abortController.abort();
+    this.stopProcessingSound();
+    console.log(`🔇 Streaming output cancelled for ${this.user.userId}`);
+  }
+
   /**
    * Show a status message on the HUD (display glasses only)
    */
@@ -410,6 +552,8 @@ export class QueryProcessor {
       console.warn(`⚠️ No timezone set for ${this.user.userId} — time will use server default (likely UTC)`);
     }
 
+    const locale = LANGUAGES[this.user.language].locale;
+
     try {
       const now = new Date();
       const options: Intl.DateTimeFormatOptions = {
@@ -419,25 +563,25 @@ export class QueryProcessor {
         day: "numeric",
         hour: "numeric",
         minute: "2-digit",
-        hour12: true,
+        hour12: this.user.language === "en",
       };
 
       if (timezone) {
         options.timeZone = timezone;
       }
 
-      const dateTimeStr = now.toLocaleString("en-US", options);
+      const dateTimeStr = now.toLocaleString(locale, options);
       console.log(`🕐 Local date/time for ${this.user.userId}: ${dateTimeStr} (tz=${timezone ?? 'server-default'})`);
       return dateTimeStr;
     } catch {
-      return new Date().toLocaleString("en-US", {
+      return new Date().toLocaleString(locale, {
         weekday: "long",
         year: "numeric",
         month: "long",
         day: "numeric",
         hour: "numeric",
         minute: "2-digit",
-        hour12: true,
+        hour12: this.user.language === "en",
       });
     }
   }
@@ -452,11 +596,11 @@ export class QueryProcessor {
   ): string {
     // For speaker-only glasses, format for TTS
     if (hasSpeakers && !hasDisplay) {
-      return formatForTTS(response);
+      return formatForTTS(response, this.user.language);
     }
 
-    // For HUD glasses or mixed, return as-is
-    return response;
+    // For HUD glasses or mixed, plain text for the display
+    return formatForDisplay(response);
   }
 
   /**
@@ -491,6 +635,40 @@ export class QueryProcessor {
     console.log(`📸 [QP] Photo analysis updated: ${photoId}`);
   }
 
+  /**
+   * Update the HUD with the response text streamed so far, formatted the
+   * same way as a response shown all at once
+   */
+  private showStreamingText(text: string): void {
+    const session = this.user.appSession;
+    const display = formatForDisplay(text).trim();
+    if (!session || !display) return;
+    try {
+      session.layouts.showTextWall(display, { durationMs: 10000 });
+    } catch (error) {
+      console.debug("Display output failed:", error);
+    }
+  }
+
+  /**
+   * Speak one streamed chunk. Skipped if the output was cancelled while it was queued.
+   */
+  private async speakChunk(chunk: string, output: StreamingOutput): Promise<void> {
+    const session = this.user.appSession;
+    if (!session || output.cancelled) return;
+
+    try {
+      await session.audio.speak(formatForTTS(chunk, this.user.language));
+    } catch (error) {
+      console.debug("Speech output failed:", error);
+      // Play error tone so user knows something went wrong, and drop the rest of the response
+      output.cancelled = true;
+      if (ERROR_SOUND_URL) {
+        session.audio.playAudio({ audioUrl: ERROR_SOUND_URL }).catch(() => {});
+      }
+    }
+  }
+
   /**
    * Output the response (speak and/or display)
    */
@@ -0,0 +1,384 @@
+/**
+ * ReminderManager — The user's timers, alarms, and reminders
+ *
+ * "Set a timer for 10 minutes", "wake me at 7", "remind me at 3pm to call
+ * mom". Times are in the user's timezone (LocationManager.getTimezone()).
+ * The process-wide ReminderScheduler decides when each one is due; this
+ * manager stores them and delivers them through the glasses.
+ *
+ * Location reminders ("remind me to buy milk when I get to the grocery
+ * store", "...when I leave work") have no due time: the place is resolved to
+ * a circle, and LocationManager's GPS updates call checkLocation(), which
+ * fires them on entering or leaving it.
+ *
+ * Data flow:
+ *   set_timer / set_reminder tool → create() → DB insert + scheduler
+ *   Due → scheduler → deliver() → playProactive() → marked delivered
+ *   Due while disconnected → stays pending → reconnect → deliverQueued()
+ *   Due during Do Not Disturb that skips reminders → stays pending → scheduler retries
+ *   cancel_reminder tool → cancel() → DB + scheduler
+ *   set_location_reminder tool → resolvePlace() → createAtPlace() → DB
+ *   GPS update → checkLocation() → enter/exit → deliver()
+ */
+
+import type { User } from "../session/User";
+import { reminderScheduler } from "./ReminderScheduler";
+import { playProactive } from "./proactive-output";
+import { REMINDER_SETTINGS } from "../constants/config";
+import { LANGUAGES, type Language } from "../constants/languages";
+import { findPlace } from "../agent/tools/places.tool";
+import { distanceMeters, nextGeofenceState, type GeofenceState } from "../utils/geo";
+import { db, isDbAvailable } from "../db/client";
+import { reminders } from "../db/schema";
+import { and, asc, eq } from "drizzle-orm";
+
+export type ReminderKind = "timer" | "alarm" | "reminder" | "location";
+
+/** Fire on arriving at the place or on leaving it */
+export type GeofenceTrigger = "enter" | "exit";
+
+/** The circle a location reminder watches */
+export interface Geofence {
+  name: string;
+  lat: number;
+  lng: number;
+  radiusM: number;
+  trigger: GeofenceTrigger;
+}
+
+export interface Reminder {
+  id: string;
+  kind: ReminderKind;
+  message: string;
+  /** null for location reminders */
+  dueAt: Date | null;
+  timezone: string | null;
+  place?: Geofence;
+}
+
+/** Spoken words meaning "where I am now" */
+const HERE = /^(?:here|this place|this spot|(?:my )?current location|where i am(?: now)?)$/i;
+
+/** How a due reminder is announced, per language */
+const ANNOUNCEMENTS: Record<Language, Record<ReminderKind, (message: string) => string>> = {
+  en: {
+    timer: (message) => `Time's up: ${message}.`,
+    alarm: (message) => `Alarm: ${message}.`,
+    reminder: (message) => `Reminder: ${message}.`,
+    location: (message) => `Reminder: ${message}.`,
+  },
+  es: {
+    timer: (message) => `Se acabó el tiempo: ${message}.`,
+    alarm: (message) => `Alarma: ${message}.`,
+    reminder: (message) => `Recordatorio: ${message}.`,
+    location: (message) => `Recordatorio: ${message}.`,
+  },
+  de: {
+    timer: (message) => `Die Zeit ist um: ${message}.`,
+    alarm: (message) => `Wecker: ${message}.`,
+    reminder: (message) => `Erinnerung: ${message}.`,
+    location: (message) => `Erinnerung: ${message}.`,
+  },
+  fr: {
+    timer: (message) => `C'est l'heure : ${message}.`,
+    alarm: (message) => `Alarme : ${message}.`,
+    reminder: (message) => `Rappel : ${message}.`,
+    location: (message) => `Rappel : ${message}.`,
+  },
+};
+
+/** Soonest first; location reminders (no time) last */
+function byDueAt(a: Reminder, b: Reminder): number {
+  return (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity);
+}
+
+/**
+ * Pick the pending reminder a description refers to ("the pasta timer",
+ * "call mom", "the grocery store one"). Words are matched against the kind,
+ * message, and place; ties go to the soonest. With a single pending reminder, any description picks it.
+ */
+export function matchReminder(list: Reminder[], description: string): Reminder | undefined {
+  const words = description.toLowerCase().split(/[^a-z0-9']+/).filter(word => word.length > 2);
+  const scored = list
+    .map(reminder => {
+      const text = `${reminder.kind} ${reminder.message} ${reminder.place?.name ?? ""}`.toLowerCase();
+      return { reminder, score: words.filter(word => text.includes(word)).length };
+    })
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score || byDueAt(a.reminder, b.reminder));
+
+  if (scored.length > 0) return scored[0].reminder;
+  return list.length === 1 ? list[0] : undefined;
+}
+
+export class ReminderManager {
+  /** Pending reminders, soonest first */
+  private pending: Reminder[] = [];
+
+  /** Inside/outside for each location reminder, from this session's GPS fixes */
+  private geofenceStates: Map<string, GeofenceState> = new Map();
+
+  constructor(private user: User) {}
+
+  /**
+   * Load the user's pending reminders from the database.
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const rows = await db
+        .select({
+          id: reminders.id,
+          kind: reminders.kind,
+          message: reminders.message,
+          dueAt: reminders.dueAt,
+          timezone: reminders.timezone,
+          placeName: reminders.placeName,
+          lat: reminders.lat,
+          lng: reminders.lng,
+          radiusM: reminders.radiusM,
+          trigger: reminders.trigger,
+        })
+        .from(reminders)
+        .where(and(eq(reminders.userId, this.user.userId), eq(reminders.status, "pending")))
+        .orderBy(asc(reminders.dueAt));
+
+      this.pending = rows.map(({ placeName, lat, lng, radiusM, trigger, ...row }) => ({
+        ...row,
+        kind: row.kind as ReminderKind,
+        place: lat !== null && lng !== null ? {
+          name: placeName ?? "",
+          lat,
+          lng,
+          radiusM: radiusM ?? REMINDER_SETTINGS.geofenceRadiusM,
+          trigger: trigger as GeofenceTrigger,
+        } : undefined,
+      }));
+      console.log(`⏰ [REMINDERS] Loaded ${this.pending.length} pending for ${this.user.userId}`);
+    } catch (error) {
+      console.warn(`⏰ [REMINDERS] Failed to load reminders for ${this.user.userId}:`, error);
+    }
+  }
+
+  /**
+   * Pending reminders, soonest first (location reminders last).
+   */
+  list(): Reminder[] {
+    return this.pending;
+  }
+
+  /**
+   * Save and schedule a reminder. Returns an error message instead when it
+   * can't be set.
+   */
+  async create(kind: ReminderKind, message: string, dueAt: Date): Promise<Reminder | string> {
+    const trimmed = message.trim().slice(0, REMINDER_SETTINGS.maxMessageLength);
+    if (!trimmed) return "A reminder needs something to remind you of.";
+    if (Number.isNaN(dueAt.getTime()) || dueAt.getTime() <= Date.now()) return "That time has already passed.";
+    if (dueAt.getTime() - Date.now() > REMINDER_SETTINGS.maxAheadMs) return "Reminders can be set up to a year ahead.";
+    if (this.pending.length >= REMINDER_SETTINGS.maxPending) return `You already have ${REMINDER_SETTINGS.maxPending} reminders set. Cancel one first.`;
+    if (!isDbAvailable()) return "Reminders aren't available right now.";
+
+    try {
+      const timezone = this.user.location.getTimezone();
+      const [row] = await db
+        .insert(reminders)
+        .values({ userId: this.user.userId, kind, message: trimmed, dueAt, timezone })
+        .returning({ id: reminders.id });
+
+      const reminder: Reminder = { id: row.id, kind, message: trimmed, dueAt, timezone };
+      this.pending = [...this.pending, reminder].sort(byDueAt);
+      reminderScheduler.schedule({ id: row.id, userId: this.user.userId, dueAt });
+      console.log(`⏰ [REMINDERS] ${kind} set for ${this.user.userId} at ${dueAt.toISOString()}: "${trimmed}"`);
+      return reminder;
+    } catch (error) {
+      console.warn(`⏰ [REMINDERS] Failed to save reminder for ${this.user.userId}:`, error);
+      return "Couldn't set that reminder right now.";
+    }
+  }
+
+  /**
+   * Resolve a spoken place into a geofence center: "here" is the current GPS
+   * fix, a saved place ("work") is used as saved, anything else is searched
+   * near the user. Returns an error message instead when it can't be resolved.
+   */
+  async resolvePlace(query: string): Promise<{ name: string; lat: number; lng: number } | string> {
+    const trimmed = query.trim();
+    const saved = this.user.savedPlaces.find(trimmed);
+    if (saved) {
+      return { name: saved.name, lat: saved.lat, lng: saved.lng };
+    }
+
+    const coords = this.user.location.getCoordinates();
+    if (!coords) return "I don't have your location right now, so I can't set a location reminder.";
+
+    if (HERE.test(trimmed)) {
+      return { name: "this location", ...coords };
+    }
+
+    const apiKey = this.user.aiConfig?.googleCloudApiKey;
+    if (!apiKey) return "Finding places needs a Google Cloud API key in Settings.";
+
+    const place = await findPlace(trimmed, coords, REMINDER_SETTINGS.placeSearchRadiusM, apiKey, LANGUAGES[this.user.language].locale);
+    if (!place) return `I couldn't find "${trimmed}" near you.`;
+    return { name: place.name, lat: place.lat, lng: place.lng };
+  }
+
+  /**
+   * Save a location reminder that fires on entering or leaving the place.
+   * Returns an error message instead when it can't be set.
+   */
+  async createAtPlace(
+    message: string,
+    place: { name: string; lat: number; lng: number },
+    trigger: GeofenceTrigger,
+    radiusM: number = REMINDER_SETTINGS.geofenceRadiusM,
+  ): Promise<Reminder | string> {
+    const trimmed = message.trim().slice(0, REMINDER_SETTINGS.maxMessageLength);
+    if (!trimmed) return "A reminder needs something to remind you of.";
+    if (this.pending.length >= REMINDER_SETTINGS.maxPending) return `You already have ${REMINDER_SETTINGS.maxPending} reminders set. Cancel one first.`;
+    if (!isDbAvailable()) return "Reminders aren't available right now.";
+
+    const radius = Math.round(Math.min(Math.max(radiusM, REMINDER_SETTINGS.minGeofenceRadiusM), REMINDER_SETTINGS.maxGeofenceRadiusM));
+    const geofence: Geofence = { ...place, radiusM: radius, trigger };
+
+    try {
+      const [row] = await db
+        .insert(reminders)
+        .values({
+          userId: this.user.userId,
+          kind: "location",
+          message: trimmed,
+          placeName: place.name,
+          lat: place.lat,
+          lng: place.lng,
+          radiusM: radius,
+          trigger,
+        })
+        .returning({ id: reminders.id });
+
+      const reminder: Reminder = { id: row.id, kind: "location", message: trimmed, dueAt: null, timezone: null, place: geofence };
+      this.pending = [...this.pending, reminder].sort(byDueAt);
+
+      // Where the user is now is the starting state — "when I leave work" said at work waits for the exit
+      const coords = this.user.location.getCoordinates();
+      const state = coords && nextGeofenceState(undefined, distanceMeters(coords, geofence), radius, REMINDER_SETTINGS.geofenceMarginM);
+      if (state) this.geofenceStates.set(row.id, state);
+
+      console.log(`📍 [REMINDERS] Location reminder set for ${this.user.userId} (${trigger} ${place.name}, ${radius}m): "${trimmed}"`);
+      return reminder;
+    } catch (error) {
+      console.warn(`⏰ [REMINDERS] Failed to save location reminder for ${this.user.userId}:`, error);
+      return "Couldn't set that reminder right now.";
+    }
+  }
+
+  /**
+   * Check a GPS fix against the location reminders and deliver any whose
+   * enter/exit just happened. With no earlier fix this session (e.g. after a
+   * reconnect), being inside fires an arrival; a departure needs the user to
+   * have been seen inside first.
+   */
+  checkLocation(lat: number, lng: number): void {
+    for (const reminder of this.pending) {
+      const place = reminder.place;
+      if (!place) continue;
+
+      const previous = this.geofenceStates.get(reminder.id);
+      const state = nextGeofenceState(previous, distanceMeters({ lat, lng }, place), place.radiusM, REMINDER_SETTINGS.geofenceMarginM);
+      if (!state || state === previous) continue;
+      this.geofenceStates.set(reminder.id, state);
+
+      const fired = place.trigger === "enter" ? state === "inside" : state === "outside" && previous === "inside";
+      if (!fired) continue;
+
+      console.log(`📍 [REMINDERS] ${place.trigger === "enter" ? "Arrived at" : "Left"} ${place.name} — firing ${reminder.id}`);
+      this.deliver(reminder.id).catch((error) => {
+        console.error(`⏰ [REMINDERS] Delivery failed for ${reminder.id}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Cancel a pending reminder. Returns true if it was cancelled.
+   */
+  async cancel(id: string): Promise<boolean> {
+    if (!this.pending.some(r => r.id === id) || !isDbAvailable()) return false;
+
+    try {
+      await db
+        .update(reminders)
+        .set({ status: "cancelled" })
+        .where(and(eq(reminders.id, id), eq(reminders.userId, this.user.userId)));
+
+      this.pending = this.pending.filter(r => r.id !== id);
+      this.geofenceStates.delete(id);
+      reminderScheduler.unschedule(id);
+      console.log(`⏰ [REMINDERS] Cancelled ${id} for ${this.user.userId}`);
+      return true;
+    } catch (error) {
+      console.warn(`⏰ [REMINDERS] Failed to cancel reminder ${id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Announce a due reminder on the glasses and mark it delivered. Returns
+   * false when it's left pending: the glasses aren't connected, or Do Not
+   * Disturb skips reminders right now. Held back for the Do Not Disturb
+   * summary counts as delivered. Put back if announcing it throws.
+   */
+  async deliver(id: string): Promise<boolean> {
+    const reminder = this.pending.find(r => r.id === id);
+    if (!this.user.appSession || !reminder) return false;
+    if (this.user.focus.isActive() && this.user.focus.getConfig().policies.reminders === "drop") return false;
+
+    // Take it off the list first so a reconnect and the scheduler can't both deliver it
+    this.pending = this.pending.filter(r => r.id !== id);
+    this.geofenceStates.delete(id);
+    const announcement = ANNOUNCEMENTS[this.user.language][reminder.kind](reminder.message);
+
+    let played: boolean;
+    try {
+      played = await playProactive(this.user, { source: "reminders", text: announcement, displayMs: REMINDER_SETTINGS.displayMs });
+    } catch (error) {
+      this.pending = [...this.pending, reminder].sort(byDueAt);
+      throw error;
+    }
+
+    // Not played with the glasses still connected means Do Not Disturb held it for its summary
+    if (!played && !this.user.appSession) {
+      this.pending = [...this.pending, reminder].sort(byDueAt);
+      return false;
+    }
+    if (played) console.log(`⏰ [REMINDERS] Delivered to ${this.user.userId}: "${announcement}"`);
+
+    if (!isDbAvailable()) return true;
+    try {
+      await db
+        .update(reminders)
+        .set({ status: "delivered", deliveredAt: new Date() })
+        .where(eq(reminders.id, id));
+    } catch (error) {
+      console.warn(`⏰ [REMINDERS] Failed to mark ${id} delivered:`, error);
+    }
+    return true;
+  }
+
+  /**
+   * Deliver reminders that came due while the glasses were disconnected.
+   * Any Do Not Disturb skips go back to the scheduler to retry.
+   */
+  async deliverQueued(): Promise<void> {
+    const due = this.pending.filter(r => r.dueAt && r.dueAt.getTime() <= Date.now());
+    if (due.length > 0) {
+      console.log(`⏰ [REMINDERS] Delivering ${due.length} queued reminder(s) to ${this.user.userId}`);
+    }
+    for (const reminder of due) {
+      if (!(await this.deliver(reminder.id)) && this.user.appSession) {
+        reminderScheduler.schedule({ id: reminder.id, userId: this.user.userId, dueAt: new Date(Date.now() + REMINDER_SETTINGS.retryDelayMs) });
+      }
+    }
+  }
+}
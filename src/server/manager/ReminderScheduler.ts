@@ -0,0 +1,142 @@
+/**
+ * ReminderScheduler — process-wide clock for timers, alarms, and reminders
+ *
+ * Keeps every user's pending reminders in one list and sleeps until the next
+ * one is due. On startup it reloads pending rows from the database, so
+ * reminders survive restarts. When one is due, the user's ReminderManager
+ * delivers it; if the glasses aren't connected it stays pending and is
+ * delivered on reconnect (ReminderManager.deliverQueued()). Location
+ * reminders aren't scheduled here — the user's GPS updates fire them.
+ */
+
+import { sessions } from "./SessionManager";
+import { REMINDER_SETTINGS } from "../constants/config";
+import { db, isDbAvailable } from "../db/client";
+import { reminders } from "../db/schema";
+import { and, eq, isNotNull } from "drizzle-orm";
+
+interface ScheduledReminder {
+  id: string;
+  userId: string;
+  dueAt: Date;
+}
+
+export class ReminderScheduler {
+  private scheduled: Map<string, ScheduledReminder> = new Map();
+  private timer: Timer | null = null;
+
+  /** Handed to a ReminderManager and not yet delivered — stays scheduled in case it fails */
+  private delivering: Set<string> = new Set();
+
+  /**
+   * Load every pending reminder from the database and start the clock.
+   * Overdue ones fire right away (and wait for their user to reconnect).
+   */
+  async start(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      const rows = await db
+        .select({ id: reminders.id, userId: reminders.userId, dueAt: reminders.dueAt })
+        .from(reminders)
+        .where(and(eq(reminders.status, "pending"), isNotNull(reminders.dueAt)));
+
+      for (const { id, userId, dueAt } of rows) {
+        if (dueAt) this.scheduled.set(id, { id, userId, dueAt });
+      }
+      console.log(`⏰ [REMINDERS] Scheduler started with ${rows.length} pending`);
+      this.arm();
+    } catch (error) {
+      console.error("⏰ [REMINDERS] Failed to load pending reminders:", error);
+    }
+  }
+
+  /**
+   * Add (or move) a reminder.
+   */
+  schedule(reminder: ScheduledReminder): void {
+    this.scheduled.set(reminder.id, reminder);
+    this.arm();
+  }
+
+  /**
+   * Drop a cancelled reminder.
+   */
+  unschedule(id: string): void {
+    if (this.scheduled.delete(id)) this.arm();
+  }
+
+  /**
+   * Sleep until the next due reminder (at most maxSleepMs, so long waits
+   * don't overflow setTimeout and clock drift is corrected).
+   */
+  private arm(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.scheduled.size === 0) return;
+
+    const waiting = [...this.scheduled.values()].filter(r => !this.delivering.has(r.id));
+    if (waiting.length === 0) return;
+
+    const next = Math.min(...waiting.map(r => r.dueAt.getTime()));
+    const delay = Math.min(Math.max(next - Date.now(), 0), REMINDER_SETTINGS.maxSleepMs);
+    this.timer = setTimeout(() => this.fire(), delay);
+  }
+
+  /**
+   * Hand every due reminder to its user's ReminderManager. A reminder leaves
+   * the schedule once it's delivered or its user goes offline; otherwise
+   * (Do Not Disturb skipped it, or delivery failed) it's retried later.
+   */
+  private fire(): void {
+    this.timer = null;
+    const now = Date.now();
+
+    for (const reminder of [...this.scheduled.values()]) {
+      if (reminder.dueAt.getTime() > now || this.delivering.has(reminder.id)) continue;
+
+      const user = sessions.peek(reminder.userId);
+      if (!user?.appSession) {
+        this.scheduled.delete(reminder.id);
+        console.log(`⏰ [REMINDERS] ${reminder.id} is due but ${reminder.userId} is offline — queued for reconnect`);
+        continue;
+      }
+
+      this.delivering.add(reminder.id);
+      user.reminders.deliver(reminder.id)
+        .then((delivered) => {
+          if (delivered) {
+            this.scheduled.delete(reminder.id);
+          } else if (!user.appSession) {
+            this.scheduled.delete(reminder.id);
+            console.log(`⏰ [REMINDERS] ${reminder.userId} went offline before ${reminder.id} played — queued for reconnect`);
+          } else {
+            this.retryLater(reminder);
+          }
+        })
+        .catch((error) => {
+          console.error(`⏰ [REMINDERS] Delivery failed for ${reminder.id} — retrying:`, error);
+          this.retryLater(reminder);
+        })
+        .finally(() => {
+          this.delivering.delete(reminder.id);
+          this.arm();
+        });
+    }
+
+    this.arm();
+  }
+
+  /**
+   * Try a reminder again after the retry delay, unless it was cancelled
+   * in the meantime.
+   */
+  private retryLater(reminder: ScheduledReminder): void {
+    if (this.scheduled.has(reminder.id)) {
+      this.scheduled.set(reminder.id, { ...reminder, dueAt: new Date(Date.now() + REMINDER_SETTINGS.retryDelayMs) });
+    }
+  }
+}
+
+/** Singleton — started once by the app server */
+export const reminderScheduler = new ReminderScheduler();
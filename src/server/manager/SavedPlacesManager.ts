@@ -0,0 +1,207 @@
+/**
+ * SavedPlacesManager — Named places ("home", "work", "the gym")
+ *
+ * Saved from Settings or by voice ("save this place as the gym"). Directions,
+ * navigation, weather, and location reminders check these names before
+ * searching, and the list goes in the system prompt so the agent can resolve
+ * "home" by itself.
+ *
+ * Data flow:
+ *   save_place tool → saveHere() / saveAddress() → save() → DB upsert + in-memory list
+ *   Settings → DB → initialize()
+ *   "directions home" → find("home") → coordinates
+ *   forget_place tool → remove() → DB delete + in-memory list
+ */
+
+import type { User } from "../session/User";
+import type { WeatherCondition } from "./LocationManager";
+import { findPlace } from "../agent/tools/places.tool";
+import { SAVED_PLACE_SETTINGS } from "../constants/config";
+import { LANGUAGES } from "../constants/languages";
+import { distanceMeters } from "../utils/geo";
+import { db, isDbAvailable } from "../db/client";
+import { savedPlaces } from "../db/schema";
+import { and, asc, eq } from "drizzle-orm";
+
+export interface SavedPlace {
+  id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Normalize a spoken place name: "My Home", "the gym.", "at work" → "home",
+ * "gym", "work".
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s-]/gu, " ")
+    .trim()
+    .replace(/^(?:(?:at|to|from|near)\s+)?(?:(?:my|our|the)\s+)?/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The saved place a name refers to, if any.
+ */
+export function findSavedPlace(list: SavedPlace[], name: string): SavedPlace | undefined {
+  const wanted = normalizePlaceName(name);
+  if (!wanted) return undefined;
+  return list.find(place => normalizePlaceName(place.name) === wanted);
+}
+
+export class SavedPlacesManager {
+  /** The user's saved places, by name */
+  private places: SavedPlace[] = [];
+
+  constructor(private user: User) {}
+
+  /**
+   * Hydrate from DB on session start (and after edits in Settings).
+   */
+  async initialize(): Promise<void> {
+    if (!isDbAvailable()) return;
+
+    try {
+      this.places = await db
+        .select({
+          id: savedPlaces.id,
+          name: savedPlaces.name,
+          address: savedPlaces.address,
+          lat: savedPlaces.lat,
+          lng: savedPlaces.lng,
+        })
+        .from(savedPlaces)
+        .where(eq(savedPlaces.userId, this.user.userId))
+        .orderBy(asc(savedPlaces.name));
+
+      if (this.places.length > 0) {
+        console.log(`📌 [PLACES] Loaded ${this.places.length} saved places for ${this.user.userId}`);
+      }
+    } catch (error) {
+      console.warn(`📌 [PLACES] Failed to load saved places for ${this.user.userId}:`, error);
+    }
+  }
+
+  /** All saved places, by name */
+  getAll(): SavedPlace[] {
+    return [...this.places];
+  }
+
+  /**
+   * The saved place a name refers to ("home", "my gym"), if any.
+   */
+  find(name: string): SavedPlace | undefined {
+    return findSavedPlace(this.places, name);
+  }
+
+  /**
+   * Saved places for the system prompt ("home — 12 Main St").
+   */
+  formatForPrompt(): string[] {
+    return this.places.map(place => place.address ? `${place.name} — ${place.address}` : place.name);
+  }
+
+  /**
+   * Save a place, replacing one with the same name. Returns an error message
+   * instead when it can't be saved.
+   */
+  async save(name: string, location: { address: string | null; lat: number; lng: number }): Promise<SavedPlace | string> {
+    const trimmed = name.trim().slice(0, SAVED_PLACE_SETTINGS.maxNameLength);
+    if (!normalizePlaceName(trimmed)) return "A saved place needs a name.";
+    if (!isDbAvailable()) return "Saved places aren't available right now.";
+
+    const existing = this.find(trimmed);
+    if (!existing && this.places.length >= SAVED_PLACE_SETTINGS.maxPlaces) {
+      return `You already have ${SAVED_PLACE_SETTINGS.maxPlaces} saved places. Remove one first.`;
+    }
+
+    try {
+      const values = { name: trimmed, address: location.address, lat: location.lat, lng: location.lng };
+      const [row] = existing
+        ? await db
+            .update(savedPlaces)
+            .set({ ...values, updatedAt: new Date() })
+            .where(and(eq(savedPlaces.id, existing.id), eq(savedPlaces.userId, this.user.userId)))
+            .returning({ id: savedPlaces.id })
+        : await db
+            .insert(savedPlaces)
+            .values({ userId: this.user.userId, ...values })
+            .returning({ id: savedPlaces.id });
+
+      const place: SavedPlace = { id: row.id, ...values };
+      this.places = [...this.places.filter(p => p.id !== row.id), place].sort((a, b) => a.name.localeCompare(b.name));
+      console.log(`📌 [PLACES] Saved "${trimmed}" for ${this.user.userId} (${location.lat}, ${location.lng})`);
+      return place;
+    } catch (error) {
+      console.warn(`📌 [PLACES] Failed to save place for ${this.user.userId}:`, error);
+      return "Couldn't save that place right now.";
+    }
+  }
+
+  /**
+   * Save where the user is right now ("save this place as the gym").
+   */
+  async saveHere(name: string): Promise<SavedPlace | string> {
+    const coords = this.user.location.getCoordinates();
+    if (!coords) return "I don't have your location right now, so I can't save this place.";
+
+    // Use the geocoded address only if it was for (about) this spot
+    const context = this.user.location.getCachedContext();
+    const address = context && distanceMeters(coords, context) <= SAVED_PLACE_SETTINGS.addressMatchM
+      ? [context.streetAddress, context.city !== "Unknown" ? context.city : undefined].filter(Boolean).join(", ") || null
+      : null;
+
+    return this.save(name, { address, ...coords });
+  }
+
+  /**
+   * Save a place by address or name ("123 Main St", "Planet Fitness on 5th"),
+   * looked up near the user.
+   */
+  async saveAddress(name: string, address: string): Promise<SavedPlace | string> {
+    const apiKey = this.user.aiConfig?.googleCloudApiKey;
+    if (!apiKey) return "Looking up an address needs a Google Cloud API key in Settings.";
+
+    const place = await findPlace(
+      address,
+      this.user.location.getCoordinates(),
+      SAVED_PLACE_SETTINGS.searchRadiusM,
+      apiKey,
+      LANGUAGES[this.user.language].locale,
+    );
+    if (!place) return `I couldn't find "${address}".`;
+
+    return this.save(name, { address: place.address || place.name, lat: place.lat, lng: place.lng });
+  }
+
+  /**
+   * Current weather at a saved place.
+   */
+  async getWeather(place: SavedPlace): Promise<WeatherCondition | null> {
+    return this.user.location.getWeatherAt(place.lat, place.lng);
+  }
+
+  /**
+   * Delete a saved place. Returns true if it was deleted.
+   */
+  async remove(id: string): Promise<boolean> {
+    if (!isDbAvailable()) return false;
+
+    try {
+      await db
+        .delete(savedPlaces)
+        .where(and(eq(savedPlaces.id, id), eq(savedPlaces.userId, this.user.userId)));
+
+      this.places = this.places.filter(p => p.id !== id);
+      return true;
+    } catch (error) {
+      console.warn(`📌 [PLACES] Failed to delete place ${id}:`, error);
+      return false;
+    }
+  }
+}
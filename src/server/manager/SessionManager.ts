@@ -38,6 +38,11 @@ export class SessionManager {
     return user;
   }
 
+  /** Look up a user without cancelling a pending removal (for background jobs) */
+  peek(userId: string): User | undefined {
+    return this.users.get(userId);
+  }
+
   /**
    * Soft disconnect — clear the glasses session but keep the User
    * alive for a grace period so reconnects are seamless.
@@ -8,6 +8,9 @@ import { classifyDeviceCommand, type DeviceCommand } from "../agent/device-comma
 import { classifyCloser } from "../agent/conversational-closers";
 import { classifyBridgeCommand } from "../bridge/bridge-commands";
 import { isComprehensionFailure } from "../agent/comprehension-failure";
+import { parseTranslateCommand } from "../agent/translation";
+import { isStopNavigationCommand } from "../agent/navigation";
+import { LANGUAGES } from "../constants/languages";
 import { getDefaultSoundUrl, COMPREHENSION_SETTINGS } from "../constants/config";
 
 interface SSEWriter {
@@ -19,8 +22,11 @@ interface SSEWriter {
 /**
  * Callback signature for when a query is ready to be processed.
  * Includes pre-captured photo (taken at wake word time) and visual classification.
+ * onOutputStart must be called when the response starts playing (streamed output),
+ * so speech can interrupt TTS while the rest of the response is still generating.
+ * assistantId is the named assistant whose wake word started the exchange (undefined = default).
  */
-export type OnQueryReadyCallback = (query: string, speakerId?: string, prePhoto?: StoredPhoto | null, isVisual?: boolean) => Promise<QueryResult>;
+export type OnQueryReadyCallback = (query: string, speakerId?: string, prePhoto?: StoredPhoto | null, isVisual?: boolean, onOutputStart?: () => void, assistantId?: string) => Promise<QueryResult>;
 
 /**
  * Callback for when a device command (e.g. "take a photo") is detected.
@@ -52,6 +58,8 @@ export class TranscriptionManager {
   private processingStartedAt: number = 0; // timestamp when isProcessing was set true
   private readonly STUCK_PROCESSING_MS = 30_000; // 30s max before auto-reset
   private activeSpeakerId: string | undefined = undefined;
+  // Named assistant picked by the wake word — kept for follow-ups in the same exchange
+  private activeAssistantId: string | undefined = undefined;
 
   // Transcript accumulation
   private currentTranscript: string = '';
@@ -119,11 +127,7 @@ export class TranscriptionManager {
     // destroy() was called during clearAppSession() before re-setup
     this.destroyed = false;
 
-    this.unsubscribe = session.events.onTranscription(
-      (data: TranscriptionData) => {
-        this.handleTranscription(data);
-      },
-    );
+    this.subscribe(session);
 
     this.sttEventCount = 0;
 
@@ -131,6 +135,30 @@ export class TranscriptionManager {
     console.log(`🎤 TranscriptionManager ready for ${this.user.userId} (wake word: "${wakeWord}")`);
   }
 
+  /**
+   * Subscribe to transcription in the user's language (English uses the default stream)
+   */
+  private subscribe(session: AppSession): void {
+    const handler = (data: TranscriptionData) => {
+      this.handleTranscription(data);
+    };
+    const language = this.user.language;
+    this.unsubscribe = language === "en"
+      ? session.events.onTranscription(handler)
+      : session.events.onTranscriptionForLanguage(LANGUAGES[language].locale, handler);
+  }
+
+  /**
+   * Re-subscribe after the user changes their language mid-session
+   */
+  refreshLanguage(): void {
+    const session = this.user.appSession;
+    if (!session || this.destroyed) return;
+    this.unsubscribe?.();
+    this.subscribe(session);
+    console.log(`🌐 Transcription language for ${this.user.userId} is now ${LANGUAGES[this.user.language].locale}`);
+  }
+
   /**
    * Handle incoming transcription data
    */
@@ -151,6 +179,12 @@ export class TranscriptionManager {
     // Broadcast to SSE clients
     this.broadcast(text, isFinal ?? false);
 
+    // Translate mode — no wake word; final transcripts go to the translator until the user's closer
+    if (this.user.translation.isActive()) {
+      if (isFinal) await this.handleTranslationTranscript(text, speakerId);
+      return;
+    }
+
     // During AI generation (before TTS), ignore entirely — unless stuck
     if (this.isProcessing && !this.isSpeaking) {
       // Stuck-state watchdog: if isProcessing has been true for >30s, force reset
@@ -171,6 +205,7 @@ export class TranscriptionManager {
       console.log(`🔇 TTS interrupt: "${text.slice(0, 40)}"`);
       this.interruptedTTS = true;
       this.user.appSession?.audio.stopAudio(2);
+      this.user.queryProcessor.cancelOutput(); // Drop the rest of the streamed response
       // Fall through to accumulate transcript
     }
 
@@ -189,9 +224,9 @@ export class TranscriptionManager {
       }
     }
 
-    // Check for wake word (use user's custom wake word if configured)
-    const customWakeWords = this.user.aiConfig?.wakeWord ? [this.user.aiConfig.wakeWord] : undefined;
-    const wakeResult = detectWakeWord(text, customWakeWords);
+    // Check for wake word (the user's custom wake word plus each named assistant's)
+    const customWakeWords = this.user.assistants.getWakeWords();
+    const wakeResult = detectWakeWord(text, customWakeWords, this.user.language);
 
     if (!this.isListening) {
       // Not listening - look for wake word
@@ -207,11 +242,11 @@ export class TranscriptionManager {
 
       // Wake word detected! Start listening
       console.log(`⏱️ [WAKE] Wake word detected: "${text}" (isFinal=${isFinal ?? false})`);
-      this.startListening(speakerId);
+      this.startListening(speakerId, this.user.assistants.match(wakeResult.wakeWordUsed)?.id);
     }
 
     // We're listening - accumulate transcript (strip user's custom wake word)
-    this.currentTranscript = removeWakeWord(text, customWakeWords);
+    this.currentTranscript = removeWakeWord(text, customWakeWords, this.user.language);
     this.resetSilenceTimeout();
 
     // Show live transcription on display glasses HUD
@@ -228,19 +263,37 @@ export class TranscriptionManager {
     }
   }
 
+  /**
+   * Final transcript during translate mode: the user's closer ends it; other
+   * speech is translated (unless the other party has their own language stream).
+   */
+  private async handleTranslationTranscript(text: string, speakerId?: string): Promise<void> {
+    const translation = this.user.translation;
+    if (translation.isUserSpeaker(speakerId) && classifyCloser(text, this.user.language)) {
+      console.log(`👋 Translate mode closed by "${text}"`);
+      await translation.stop();
+      this.resetState();
+      return;
+    }
+    if (!translation.hasSourceStream()) {
+      translation.handleTranscript(text, speakerId);
+    }
+  }
+
   /**
    * Start listening for a query
    */
-  private startListening(speakerId?: string): void {
+  private startListening(speakerId?: string, assistantId?: string): void {
     this.isListening = true;
     this.activeSpeakerId = speakerId;
+    this.activeAssistantId = assistantId;
     this.currentTranscript = '';
     this.transcriptionStartTime = Date.now();
     this.setListeningLed(true);
 
     // Start a new exchange if one isn't already active (follow-ups reuse the same exchange)
     if (!this.user.exchange.isActive()) {
-      this.user.exchange.startExchange().catch(console.error);
+      this.user.exchange.startExchange(assistantId).catch(console.error);
     }
 
     // Photo capture deferred — will be taken only if isVisualQuery() says yes
@@ -318,12 +371,20 @@ export class TranscriptionManager {
     const timeSinceWake = silenceDetectedAt - this.transcriptionStartTime;
     console.log(`⏱️ [SILENCE] Query ready: "${query}" (${timeSinceWake}ms since wake word)`);
 
+    // "Stop navigation" — before closers, which would otherwise take "stop" as a dismissal
+    if (this.user.navigation.isActive() && isStopNavigationCommand(query, this.user.language)) {
+      this.user.navigation.stop();
+      await this.user.exchange.endExchange("closer_dismissal");
+      this.resetState();
+      return;
+    }
+
     // Check for conversational closers — end exchange without AI call
-    const closer = classifyCloser(query);
+    const closer = classifyCloser(query, this.user.language);
     if (closer) {
       console.log(`👋 Conversational closer detected: ${closer.type} for "${query}"`);
       if (closer.type === "gratitude") {
-        this.user.appSession?.audio.speak("You're welcome!").catch(() => {});
+        this.user.appSession?.audio.speak(LANGUAGES[this.user.language].youreWelcome).catch(() => {});
       }
       const reason = closer.type === "gratitude" ? "closer_gratitude" : "closer_dismissal";
       await this.user.exchange.endExchange(reason);
@@ -331,8 +392,17 @@ export class TranscriptionManager {
       return;
     }
 
+    // "Translate Spanish to English" — switch to translate mode (no AI answer)
+    const translatePair = parseTranslateCommand(query, this.user.language);
+    if (translatePair) {
+      const speakerId = this.activeSpeakerId;
+      this.resetState();
+      await this.user.translation.start(translatePair, speakerId);
+      return;
+    }
+
     // Check for device commands (e.g. "take a photo") — short-circuit AI pipeline
-    const deviceCmd = classifyDeviceCommand(query);
+    const deviceCmd = classifyDeviceCommand(query, this.user.language);
     if (deviceCmd && this.onDeviceCommand) {
       console.log(`🎛️ Device command detected: ${deviceCmd.type} for "${query}"`);
       try {
@@ -350,7 +420,7 @@ export class TranscriptionManager {
     }
 
     // Check for bridge commands ("I'm ready", "check messages")
-    const bridgeCmd = classifyBridgeCommand(query);
+    const bridgeCmd = classifyBridgeCommand(query, this.user.language);
     if (bridgeCmd) {
       if (this.user.bridge.hasParkedRequest()) {
         console.log(`📬 Bridge command detected: ${bridgeCmd.type} for "${query}"`);
@@ -377,7 +447,10 @@ export class TranscriptionManager {
 
     if (hasCamera) {
       try {
-        isVisual = await isVisualQuery(query, this.user.aiConfig);
+        isVisual = await isVisualQuery(query, this.user.aiConfig, {
+          userId: this.user.userId,
+          exchangeId: this.user.exchange.getCurrentExchangeId(),
+        });
         console.log(`🔍 Visual classification: ${isVisual ? 'YES' : 'NO'} for "${query.slice(0, 40)}..."`);
       } catch (error) {
         console.warn('Visual classification failed, defaulting to no photo:', error);
@@ -413,7 +486,9 @@ export class TranscriptionManager {
     let queryResult: QueryResult | undefined;
     try {
       if (this.onQueryReady) {
-        queryResult = await this.onQueryReady(query, this.activeSpeakerId, prePhoto, isVisual);
+        queryResult = await this.onQueryReady(query, this.activeSpeakerId, prePhoto, isVisual, () => {
+          if (!this.destroyed) this.enterSpeakingState();
+        }, this.activeAssistantId);
       }
     } catch (error) {
       console.error('Error processing query:', error);
@@ -423,7 +498,7 @@ export class TranscriptionManager {
 
     // Check response for comprehension failure
     if (queryResult?.response) {
-      if (isComprehensionFailure(queryResult.response)) {
+      if (isComprehensionFailure(queryResult.response, this.user.language)) {
         this.failedComprehensionCount++;
         console.log(`🔇 Agent comprehension failure ${this.failedComprehensionCount}/${COMPREHENSION_SETTINGS.maxConsecutiveFailures}: "${queryResult.response.slice(0, 60)}"`);
       } else {
@@ -448,12 +523,10 @@ export class TranscriptionManager {
       return;
     }
 
-    // Enable mic during TTS for interrupt support
-    this.isSpeaking = true;
-    this.isListening = true;
-    this.interruptedTTS = false;
-    this.currentTranscript = '';
-    this.setListeningLed(true); // Listening again (can interrupt TTS)
+    // Enable mic during TTS for interrupt support (already on if the response was streamed)
+    if (!this.isSpeaking) {
+      this.enterSpeakingState();
+    }
 
     // Wait for TTS to complete (or be interrupted)
     if (queryResult?.ttsComplete) {
@@ -499,6 +572,17 @@ export class TranscriptionManager {
     }
   }
 
+  /**
+   * Enable the mic while TTS plays so the user can interrupt the response.
+   */
+  private enterSpeakingState(): void {
+    this.isSpeaking = true;
+    this.isListening = true;
+    this.interruptedTTS = false;
+    this.currentTranscript = '';
+    this.setListeningLed(true); // Listening again (can interrupt TTS)
+  }
+
   /**
    * Enter follow-up listening mode after AI response.
    * Green LED for 2s, 5s window to start speaking before returning to IDLE.
@@ -580,6 +664,7 @@ export class TranscriptionManager {
     this.failedComprehensionCount = 0;
     this.isFollowUpMode = false;
     this.activeSpeakerId = undefined;
+    this.activeAssistantId = undefined;
     this.currentTranscript = '';
     this.transcriptionStartTime = 0;
     this.pendingPhoto = null;
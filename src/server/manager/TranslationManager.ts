@@ -0,0 +1,241 @@
+/**
+ * TranslationManager — Live conversation translation ("translate Spanish to English")
+ *
+ * While translate mode is on, TranscriptionManager stops waiting for the wake
+ * word: every final transcript from the other party is translated by the LLM
+ * and shown on the HUD (or spoken quietly on speaker-only glasses). The
+ * speaker who gave the command is the user — their speech isn't translated,
+ * and their closer ("that's all", "thanks") ends the mode.
+ *
+ * Data flow:
+ *   "Translate Spanish to English" → start() → extra transcription stream in Spanish
+ *   Other party speaks → handleTranscript() → translateText() → HUD / quiet TTS + turn
+ *   User closer → stop() → exchange ends with reason "translation" and fixed tags
+ */
+
+import type { User } from "../session/User";
+import { translateText, type TranslationPair } from "../agent/translation";
+import { classifyCloser } from "../agent/conversational-closers";
+import { LANGUAGES, type Language } from "../constants/languages";
+import { TRANSLATION_SETTINGS } from "../constants/config";
+import { formatForTTS } from "../utils/tts-formatter";
+
+/** Spoken status lines, in the user's language */
+interface TranslationPhrases {
+  /** Language names as said in this language */
+  names: Record<Language, string>;
+  needsSetup: string;
+  /** Translating from the user's own language needs speaker IDs to tell the other party apart */
+  needsSpeakerIds: (source: string) => string;
+  started: (source: string, target: string) => string;
+  ended: string;
+}
+
+const PHRASES: Record<Language, TranslationPhrases> = {
+  en: {
+    names: { en: "English", es: "Spanish", de: "German", fr: "French" },
+    needsSetup: "Set up an AI provider in Settings to use translation.",
+    needsSpeakerIds: (source) => `I can't tell your voice from the other person's here, so I can't translate from ${source}, your own language.`,
+    started: (source, target) => `Translating ${source} to ${target}. Say "that's all" when you're done.`,
+    ended: "Translation ended.",
+  },
+  es: {
+    names: { en: "inglés", es: "español", de: "alemán", fr: "francés" },
+    needsSetup: "Configura un proveedor de IA en Ajustes para usar la traducción.",
+    needsSpeakerIds: (source) => `Aquí no puedo distinguir tu voz de la de la otra persona, así que no puedo traducir del ${source}, tu propio idioma.`,
+    started: (source, target) => `Traduciendo del ${source} al ${target}. Di "eso es todo" cuando termines.`,
+    ended: "Traducción terminada.",
+  },
+  de: {
+    names: { en: "Englisch", es: "Spanisch", de: "Deutsch", fr: "Französisch" },
+    needsSetup: "Richten Sie in den Einstellungen einen KI-Anbieter ein, um die Übersetzung zu nutzen.",
+    needsSpeakerIds: (source) => `Ich kann Ihre Stimme hier nicht von der anderen Person unterscheiden, deshalb kann ich nicht aus ${source}, Ihrer eigenen Sprache, übersetzen.`,
+    started: (source, target) => `Übersetzung von ${source} nach ${target}. Sagen Sie "das war's", wenn Sie fertig sind.`,
+    ended: "Übersetzung beendet.",
+  },
+  fr: {
+    names: { en: "anglais", es: "espagnol", de: "allemand", fr: "français" },
+    needsSetup: "Configurez un fournisseur d'IA dans les Réglages pour utiliser la traduction.",
+    needsSpeakerIds: (source) => `Ici, je ne distingue pas votre voix de celle de l'autre personne, donc je ne peux pas traduire depuis le ${source}, votre propre langue.`,
+    started: (source, target) => `Traduction : ${source} vers ${target}. Dites "c'est tout" quand vous avez fini.`,
+    ended: "Traduction terminée.",
+  },
+};
+
+export class TranslationManager {
+  private pair: TranslationPair | null = null;
+
+  /** Speaker who started translate mode (undefined when the STT gives no speaker IDs) */
+  private userSpeakerId: string | undefined = undefined;
+
+  /** Transcription stream in the other party's language (when it differs from the user's) */
+  private unsubscribeSource: (() => void) | null = null;
+
+  /** Translations run one at a time so they come out in order */
+  private queue: Promise<void> = Promise.resolve();
+
+  /** True while a translation is being spoken — our own TTS must not be translated back */
+  private speaking = false;
+
+  constructor(private user: User) {}
+
+  /**
+   * Whether translate mode is on.
+   */
+  isActive(): boolean {
+    return this.pair !== null;
+  }
+
+  /**
+   * Whether the other party's speech arrives on its own stream (a different
+   * language from the user's) rather than the user's transcription stream.
+   */
+  hasSourceStream(): boolean {
+    return this.unsubscribeSource !== null;
+  }
+
+  /**
+   * Whether this speaker is the user. Without speaker IDs anyone could be.
+   */
+  isUserSpeaker(speakerId?: string): boolean {
+    return !this.userSpeakerId || !speakerId || speakerId === this.userSpeakerId;
+  }
+
+  /**
+   * Turn translate mode on. The current exchange (started by the wake word)
+   * becomes the translation exchange.
+   */
+  async start(pair: TranslationPair, userSpeakerId?: string): Promise<void> {
+    const session = this.user.appSession;
+    if (!session) return;
+
+    const phrases = PHRASES[this.user.language];
+    if (!this.user.aiConfig?.isConfigured) {
+      session.audio.speak(phrases.needsSetup).catch(() => {});
+      return;
+    }
+    // Both sides speak the user's language — without speaker IDs every transcript could be the user's
+    if (pair.source === this.user.language && !userSpeakerId) {
+      session.audio.speak(phrases.needsSpeakerIds(phrases.names[pair.source])).catch(() => {});
+      return;
+    }
+
+    this.close();
+    this.pair = pair;
+    this.userSpeakerId = userSpeakerId;
+
+    if (pair.source !== this.user.language) {
+      this.unsubscribeSource = session.events.onTranscriptionForLanguage(LANGUAGES[pair.source].locale, (data) => {
+        const { text, isFinal, speakerId, detectedLanguage } = data;
+        if (isFinal) this.handleTranscript(text, speakerId, detectedLanguage);
+      });
+    }
+
+    if (!this.user.exchange.isActive()) {
+      await this.user.exchange.startExchange();
+    }
+
+    console.log(`🌐 [TRANSLATE] ${LANGUAGES[pair.source].name} → ${LANGUAGES[pair.target].name} for ${this.user.userId} (user speaker: ${userSpeakerId ?? "unknown"})`);
+    await session.audio.speak(phrases.started(phrases.names[pair.source], phrases.names[pair.target])).catch(() => {});
+  }
+
+  /**
+   * A final transcript from the other party — translate it and show/speak
+   * the result. Ignored if it's the user's own speech.
+   */
+  handleTranscript(text: string, speakerId?: string, detectedLanguage?: string): void {
+    const pair = this.pair;
+    if (!pair || !text.trim() || this.speaking) return;
+    if (this.isOwnSpeech(text, speakerId, detectedLanguage)) return;
+
+    this.queue = this.queue
+      .then(() => this.translate(text.trim(), pair))
+      .catch((error) => console.warn(`🌐 [TRANSLATE] Failed for ${this.user.userId}:`, error));
+  }
+
+  /**
+   * Speaker IDs decide when the STT gives them. Without them, the source
+   * stream also hears the user, so speech detected in the user's language
+   * (or the user's closer) is theirs. Translating from the user's own
+   * language only counts transcripts with another speaker's ID.
+   */
+  private isOwnSpeech(text: string, speakerId?: string, detectedLanguage?: string): boolean {
+    if (this.userSpeakerId && speakerId) return speakerId === this.userSpeakerId;
+    if (!this.pair) return false;
+    if (this.pair.source === this.user.language) return true;
+    if (detectedLanguage?.toLowerCase().split("-")[0] === this.user.language) return true;
+    return classifyCloser(text, this.user.language) !== null;
+  }
+
+  private async translate(text: string, pair: TranslationPair): Promise<void> {
+    // Mode may have ended while this utterance was queued
+    if (this.pair !== pair) return;
+
+    const aiConfig = this.user.budget.applyBudget(this.user.aiConfig);
+    if (!aiConfig) return;
+
+    const exchangeId = this.user.exchange.getCurrentExchangeId();
+    const translation = await translateText(text, pair, aiConfig, { userId: this.user.userId, exchangeId });
+    if (!translation || this.pair !== pair) return;
+
+    console.log(`🌐 [TRANSLATE] "${text.slice(0, 60)}" → "${translation.slice(0, 60)}"`);
+    await this.output(translation, pair);
+    await this.user.chatHistory.addTurn(text, translation, false, undefined, undefined, undefined, exchangeId);
+  }
+
+  /**
+   * HUD glasses show the translation; speaker-only glasses say it quietly.
+   */
+  private async output(translation: string, pair: TranslationPair): Promise<void> {
+    const session = this.user.appSession;
+    if (!session) return;
+
+    if (session.capabilities?.hasDisplay) {
+      session.layouts.showTextWall(translation, { durationMs: TRANSLATION_SETTINGS.displayMs });
+      return;
+    }
+
+    this.speaking = true;
+    try {
+      await session.audio.speak(formatForTTS(translation, pair.target), { volume: TRANSLATION_SETTINGS.speakVolume });
+    } catch (error) {
+      console.debug("Translation speech failed:", error);
+    } finally {
+      this.speaking = false;
+    }
+  }
+
+  /**
+   * Turn translate mode off and end the exchange.
+   */
+  async stop(): Promise<void> {
+    const pair = this.pair;
+    if (!pair) return;
+
+    this.close();
+    const source = LANGUAGES[pair.source].name;
+    const target = LANGUAGES[pair.target].name;
+    console.log(`🌐 [TRANSLATE] Ended for ${this.user.userId}`);
+
+    await this.user.exchange.endExchange("translation", ["translation", source.toLowerCase(), target.toLowerCase()]);
+    this.user.appSession?.audio.speak(PHRASES[this.user.language].ended).catch(() => {});
+  }
+
+  /**
+   * Drop the mode state and the extra transcription stream.
+   */
+  private close(): void {
+    this.unsubscribeSource?.();
+    this.unsubscribeSource = null;
+    this.pair = null;
+    this.userSpeakerId = undefined;
+    this.speaking = false;
+  }
+
+  /**
+   * Session gone — the exchange is ended by ExchangeManager.destroy().
+   */
+  destroy(): void {
+    this.close();
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Environment alerts — thresholds, quiet hours, and rate limiting for the
+ * background environment monitor
+ *
+ * EnvironmentMonitor does the fetching and speaking.
+ */
+
+import type { Language } from "../constants/languages";
+import { ENVIRONMENT_ALERT_SETTINGS } from "../constants/config";
+import type { HourlyForecast } from "./location-providers";
+import type { PollenData } from "./LocationManager";
+
+export type PollenType = "grass" | "tree" | "weed";
+export type EnvironmentAlertKind = "air_quality" | "pollen" | "storm";
+
+export const POLLEN_TYPES: PollenType[] = ["grass", "tree", "weed"];
+
+/**
+ * The user's alert settings (user_settings.environment_alerts)
+ */
+export interface EnvironmentAlertConfig {
+  enabled: boolean;
+  /** Alert when the US AQI goes above this (null = no air quality alerts) */
+  aqiThreshold: number | null;
+  /** Pollen types the user is allergic to */
+  allergens: PollenType[];
+  /** Alert at or above this Universal Pollen Index (0–5) */
+  pollenThreshold: number;
+  /** Alert on a thunderstorm in the next hour */
+  storms: boolean;
+  /** Local "HH:mm" window with no alerts (may wrap midnight) */
+  quietHours: { start: string; end: string } | null;
+}
+
+export const DEFAULT_ENVIRONMENT_ALERTS: EnvironmentAlertConfig = {
+  enabled: false,
+  aqiThreshold: ENVIRONMENT_ALERT_SETTINGS.defaultAqiThreshold,
+  allergens: [],
+  pollenThreshold: ENVIRONMENT_ALERT_SETTINGS.defaultPollenThreshold,
+  storms: true,
+  quietHours: { start: "22:00", end: "07:00" },
+};
+
+/**
+ * What the monitor measured at the user's location
+ */
+export interface EnvironmentSnapshot {
+  usAqi: number | null;
+  pollen: PollenData | null;
+  /** The next few hourly forecast entries */
+  nextHours: HourlyForecast[];
+}
+
+export interface EnvironmentAlert {
+  kind: EnvironmentAlertKind;
+  message: string;
+  /** The reading that crossed the threshold (AQI, pollen index, or precipitation chance) */
+  value: number;
+}
+
+interface AlertPhrases {
+  airQuality: (aqi: number) => string;
+  pollen: (types: string) => string;
+  storm: string;
+  pollenTypes: Record<PollenType, string>;
+  and: string;
+}
+
+const PHRASES: Record<Language, AlertPhrases> = {
+  en: {
+    airQuality: (aqi) => `Air quality alert: the AQI is ${aqi}, which is unhealthy. Consider limiting time outdoors.`,
+    pollen: (types) => `Pollen alert: ${types} pollen is high right now.`,
+    storm: "Storm alert: a thunderstorm is likely within the hour.",
+    pollenTypes: { grass: "grass", tree: "tree", weed: "weed" },
+    and: "and",
+  },
+  es: {
+    airQuality: (aqi) => `Alerta de calidad del aire: el índice AQI es ${aqi}, un nivel poco saludable. Conviene limitar el tiempo al aire libre.`,
+    pollen: (types) => `Alerta de polen: el polen de ${types} está alto ahora mismo.`,
+    storm: "Alerta de tormenta: es probable que haya tormenta eléctrica en la próxima hora.",
+    pollenTypes: { grass: "gramíneas", tree: "árboles", weed: "malezas" },
+    and: "y",
+  },
+  de: {
+    airQuality: (aqi) => `Luftqualitätswarnung: Der AQI liegt bei ${aqi} und ist ungesund. Halten Sie sich möglichst wenig draußen auf.`,
+    pollen: (types) => `Pollenwarnung: Die Belastung durch ${types} ist gerade hoch.`,
+    storm: "Unwetterwarnung: In der nächsten Stunde ist ein Gewitter wahrscheinlich.",
+    pollenTypes: { grass: "Gräserpollen", tree: "Baumpollen", weed: "Kräuterpollen" },
+    and: "und",
+  },
+  fr: {
+    airQuality: (aqi) => `Alerte qualité de l'air : l'indice AQI est de ${aqi}, un niveau mauvais pour la santé. Limitez le temps passé dehors.`,
+    pollen: (types) => `Alerte pollen : le pollen de ${types} est élevé en ce moment.`,
+    storm: "Alerte orage : un orage est probable dans l'heure.",
+    pollenTypes: { grass: "graminées", tree: "arbres", weed: "herbacées" },
+    and: "et",
+  },
+};
+
+const STORM_PATTERN = /thunder|hail|tornado|hurricane|tropical storm/i;
+
+/** "HH:mm" (24h) */
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Whether a forecast condition ("Scattered thunderstorms") is a storm.
+ */
+export function isStormCondition(condition: string): boolean {
+  return STORM_PATTERN.test(condition);
+}
+
+/**
+ * Check a settings payload. Returns the cleaned config, or an error message.
+ */
+export function normalizeEnvironmentAlertConfig(raw: unknown): EnvironmentAlertConfig | string {
+  if (!raw || typeof raw !== "object") return "Alert settings must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const aqiThreshold = input.aqiThreshold ?? null;
+  if (aqiThreshold !== null && (typeof aqiThreshold !== "number" || aqiThreshold < 0 || aqiThreshold > 500)) {
+    return "aqiThreshold must be a number from 0 to 500, or null";
+  }
+
+  const allergens = input.allergens ?? [];
+  if (!Array.isArray(allergens) || allergens.some(a => !POLLEN_TYPES.includes(a as PollenType))) {
+    return `allergens must be a list of: ${POLLEN_TYPES.join(", ")}`;
+  }
+
+  const pollenThreshold = input.pollenThreshold ?? DEFAULT_ENVIRONMENT_ALERTS.pollenThreshold;
+  if (typeof pollenThreshold !== "number" || pollenThreshold < 1 || pollenThreshold > 5) {
+    return "pollenThreshold must be a number from 1 to 5";
+  }
+
+  const quietHours = input.quietHours ?? null;
+  if (quietHours !== null) {
+    const { start, end } = quietHours as { start?: unknown; end?: unknown };
+    if (typeof start !== "string" || typeof end !== "string" || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+      return "quietHours must be { start, end } in HH:mm, or null";
+    }
+  }
+
+  return {
+    enabled: input.enabled === true,
+    aqiThreshold: aqiThreshold === null ? null : Math.round(aqiThreshold),
+    allergens: [...new Set(allergens as PollenType[])],
+    pollenThreshold,
+    storms: input.storms !== false,
+    quietHours: quietHours as EnvironmentAlertConfig["quietHours"],
+  };
+}
+
+/**
+ * Whether an instant falls in the quiet hours, in the user's timezone (the
+ * server's when unknown). The window may wrap midnight ("22:00"–"07:00").
+ */
+export function isQuietHours(now: Date, quietHours: EnvironmentAlertConfig["quietHours"], timezone?: string): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+
+  const local = now.toLocaleTimeString("en-GB", { timeZone: timezone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+  const { start, end } = quietHours;
+  return start < end
+    ? local >= start && local < end
+    : local >= start || local < end;
+}
+
+/**
+ * Alerts for every threshold the snapshot crosses.
+ */
+export function evaluateEnvironment(
+  snapshot: EnvironmentSnapshot,
+  config: EnvironmentAlertConfig,
+  language: Language = "en",
+): EnvironmentAlert[] {
+  const phrases = PHRASES[language];
+  const alerts: EnvironmentAlert[] = [];
+
+  if (config.aqiThreshold !== null && snapshot.usAqi !== null && snapshot.usAqi > config.aqiThreshold) {
+    alerts.push({ kind: "air_quality", message: phrases.airQuality(snapshot.usAqi), value: snapshot.usAqi });
+  }
+
+  const pollen = snapshot.pollen;
+  if (pollen) {
+    const high = config.allergens.filter(type => (pollen[type]?.value ?? 0) >= config.pollenThreshold);
+    if (high.length > 0) {
+      const names = high.map(type => phrases.pollenTypes[type]);
+      const list = names.length > 1 ? `${names.slice(0, -1).join(", ")} ${phrases.and} ${names[names.length - 1]}` : names[0];
+      alerts.push({
+        kind: "pollen",
+        message: phrases.pollen(list),
+        value: Math.max(...high.map(type => pollen[type]?.value ?? 0)),
+      });
+    }
+  }
+
+  if (config.storms) {
+    const storm = snapshot.nextHours.find(hour => isStormCondition(hour.condition));
+    if (storm) {
+      alerts.push({ kind: "storm", message: phrases.storm, value: storm.precipitationChance });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * The alerts the rate limits allow right now: none within minGapMs of the
+ * last alert, and no kind repeated within kindCooldownMs.
+ */
+export function selectAlerts(
+  alerts: EnvironmentAlert[],
+  lastAlertAt: ReadonlyMap<EnvironmentAlertKind, number>,
+  now: number,
+): EnvironmentAlert[] {
+  const lastAny = Math.max(0, ...lastAlertAt.values());
+  if (now - lastAny < ENVIRONMENT_ALERT_SETTINGS.minGapMs) return [];
+
+  return alerts.filter(alert => now - (lastAlertAt.get(alert.kind) ?? 0) >= ENVIRONMENT_ALERT_SETTINGS.kindCooldownMs);
+}
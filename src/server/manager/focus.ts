@@ -0,0 +1,225 @@
+/**
+ * Focus mode (Do Not Disturb) — whether it's on, what each proactive source
+ * does while it is, and the summary of what was held back
+ *
+ * FocusManager holds the state and runs the clock.
+ */
+
+import type { StoredCalendarEvent } from "./CalendarManager";
+import { isQuietHours, TIME_PATTERN } from "./environment-alerts";
+import type { Language } from "../constants/languages";
+
+/** Everything that speaks or shows something without being asked */
+export type FocusSource = "bridge" | "reminders" | "meetings" | "environment" | "notifications" | "digest";
+
+/**
+ * What a source's output does while focus mode is on:
+ *   deliver — plays as usual
+ *   queue   — held back and read out when focus mode ends
+ *   drop    — skipped (counted in the summary)
+ */
+export type FocusPolicy = "deliver" | "queue" | "drop";
+
+/** Why focus mode is on */
+export type FocusReason = "manual" | "quiet_hours" | "busy_event";
+
+export const FOCUS_SOURCES: FocusSource[] = ["bridge", "reminders", "meetings", "environment", "notifications", "digest"];
+export const FOCUS_POLICIES: FocusPolicy[] = ["deliver", "queue", "drop"];
+
+/**
+ * The user's focus mode settings (user_settings.focus_mode)
+ */
+export interface FocusConfig {
+  /** Local "HH:mm" window that's always Do Not Disturb (may wrap midnight) */
+  quietHours: { start: string; end: string } | null;
+  /** On during calendar events shown as busy */
+  busyEvents: boolean;
+  policies: Record<FocusSource, FocusPolicy>;
+}
+
+export const DEFAULT_FOCUS_CONFIG: FocusConfig = {
+  quietHours: null,
+  busyEvents: false,
+  policies: {
+    bridge: "queue",
+    // Timers and alarms the user set on purpose still go off
+    reminders: "deliver",
+    meetings: "deliver",
+    environment: "drop",
+    notifications: "queue",
+    // Scheduled digests are how notifications get through while focused
+    digest: "deliver",
+  },
+};
+
+/** An output held back while focus mode was on */
+export interface HeldOutput {
+  source: FocusSource;
+  text: string;
+  at: number;
+}
+
+/** Singular/plural names for the dropped-output counts */
+interface SummaryPhrases {
+  /** Singular and plural for each source */
+  nouns: Record<FocusSource, [string, string]>;
+  intro: string;
+  plus: string;
+  skipped: (list: string, total: number) => string;
+}
+
+const SUMMARY_PHRASES: Record<Language, SummaryPhrases> = {
+  en: {
+    nouns: {
+      bridge: ["message from Claude Code", "messages from Claude Code"],
+      reminders: ["reminder", "reminders"],
+      meetings: ["meeting reminder", "meeting reminders"],
+      environment: ["environment alert", "environment alerts"],
+      notifications: ["notification", "notifications"],
+      digest: ["notification digest", "notification digests"],
+    },
+    intro: "While Do Not Disturb was on:",
+    plus: "Plus",
+    skipped: (list, total) => `${list} ${total === 1 ? "was" : "were"} skipped.`,
+  },
+  es: {
+    nouns: {
+      bridge: ["mensaje de Claude Code", "mensajes de Claude Code"],
+      reminders: ["recordatorio", "recordatorios"],
+      meetings: ["recordatorio de reunión", "recordatorios de reunión"],
+      environment: ["alerta ambiental", "alertas ambientales"],
+      notifications: ["notificación", "notificaciones"],
+      digest: ["resumen de notificaciones", "resúmenes de notificaciones"],
+    },
+    intro: "Mientras No molestar estaba activado:",
+    plus: "Además,",
+    skipped: (list) => `Sin aviso: ${list}.`,
+  },
+  de: {
+    nouns: {
+      bridge: ["Nachricht von Claude Code", "Nachrichten von Claude Code"],
+      reminders: ["Erinnerung", "Erinnerungen"],
+      meetings: ["Terminerinnerung", "Terminerinnerungen"],
+      environment: ["Umweltwarnung", "Umweltwarnungen"],
+      notifications: ["Benachrichtigung", "Benachrichtigungen"],
+      digest: ["Benachrichtigungsübersicht", "Benachrichtigungsübersichten"],
+    },
+    intro: "Während „Nicht stören“ aktiv war:",
+    plus: "Außerdem",
+    skipped: (list) => `Übersprungen: ${list}.`,
+  },
+  fr: {
+    nouns: {
+      bridge: ["message de Claude Code", "messages de Claude Code"],
+      reminders: ["rappel", "rappels"],
+      meetings: ["rappel de réunion", "rappels de réunion"],
+      environment: ["alerte environnementale", "alertes environnementales"],
+      notifications: ["notification", "notifications"],
+      digest: ["résumé des notifications", "résumés des notifications"],
+    },
+    intro: "Pendant le mode Ne pas déranger :",
+    plus: "En plus,",
+    skipped: (list) => `Sans annonce : ${list}.`,
+  },
+};
+
+/** Events this long are all-day (or multi-day) — shown as free unless they say otherwise */
+const ALL_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check a settings payload. Returns the cleaned config, or an error message.
+ */
+export function normalizeFocusConfig(raw: unknown): FocusConfig | string {
+  if (!raw || typeof raw !== "object") return "Focus settings must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const quietHours = input.quietHours ?? null;
+  if (quietHours !== null) {
+    const { start, end } = quietHours as { start?: unknown; end?: unknown };
+    if (typeof start !== "string" || typeof end !== "string" || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+      return "quietHours must be { start, end } in HH:mm, or null";
+    }
+  }
+
+  const policies = { ...DEFAULT_FOCUS_CONFIG.policies };
+  if (input.policies !== undefined) {
+    if (!input.policies || typeof input.policies !== "object") return "policies must be an object";
+    for (const [source, policy] of Object.entries(input.policies)) {
+      if (!FOCUS_SOURCES.includes(source as FocusSource)) {
+        return `Unknown source "${source}" — must be one of: ${FOCUS_SOURCES.join(", ")}`;
+      }
+      if (!FOCUS_POLICIES.includes(policy as FocusPolicy)) {
+        return `Policy for ${source} must be one of: ${FOCUS_POLICIES.join(", ")}`;
+      }
+      policies[source as FocusSource] = policy as FocusPolicy;
+    }
+  }
+
+  return {
+    quietHours: quietHours as FocusConfig["quietHours"],
+    busyEvents: input.busyEvents === true,
+    policies,
+  };
+}
+
+/**
+ * Whether a calendar event is happening now and blocks the user's time.
+ * Events that don't say are busy unless they're all-day, the way calendar
+ * apps default them.
+ */
+export function isBusyEvent(event: StoredCalendarEvent, now: number): boolean {
+  if (event.dtStart > now || event.dtEnd <= now) return false;
+  return event.busy ?? event.dtEnd - event.dtStart < ALL_DAY_MS;
+}
+
+/**
+ * Why focus mode is on right now, or null when it's off. A manual
+ * Do Not Disturb wins over the schedule and the calendar.
+ */
+export function focusReason(
+  config: FocusConfig,
+  state: { manualUntil: number | null; events: StoredCalendarEvent[]; timezone?: string },
+  now: number,
+): FocusReason | null {
+  if (state.manualUntil !== null && state.manualUntil > now) return "manual";
+  if (isQuietHours(new Date(now), config.quietHours, state.timezone)) return "quiet_hours";
+  if (config.busyEvents && state.events.some(event => isBusyEvent(event, now))) return "busy_event";
+  return null;
+}
+
+/**
+ * What's said when focus mode ends, in the user's language: the held-back
+ * outputs (the first few in full, the rest counted) and how many were
+ * skipped. Null when nothing was held back or skipped.
+ */
+export function formatHeldSummary(
+  held: HeldOutput[],
+  dropped: Partial<Record<FocusSource, number>>,
+  maxItems: number,
+  language: Language = "en",
+): string | null {
+  const phrases = SUMMARY_PHRASES[language];
+  const count = (source: FocusSource, n: number) => `${n} ${phrases.nouns[source][n === 1 ? 0 : 1]}`;
+  const parts: string[] = [];
+
+  const shown = held.slice(0, maxItems);
+  for (const item of shown) {
+    parts.push(/[.!?…]$/.test(item.text) ? item.text : `${item.text}.`);
+  }
+
+  const rest = held.slice(maxItems);
+  if (rest.length > 0) {
+    const bySource = new Map<FocusSource, number>();
+    for (const item of rest) bySource.set(item.source, (bySource.get(item.source) ?? 0) + 1);
+    parts.push(`${phrases.plus} ${[...bySource].map(([source, n]) => count(source, n)).join(", ")}.`);
+  }
+
+  const skipped = FOCUS_SOURCES.filter(source => (dropped[source] ?? 0) > 0);
+  if (skipped.length > 0) {
+    const total = skipped.reduce((sum, source) => sum + dropped[source]!, 0);
+    parts.push(phrases.skipped(skipped.map(source => count(source, dropped[source]!)).join(", "), total));
+  }
+
+  if (parts.length === 0) return null;
+  return `${phrases.intro} ${parts.join(" ")}`;
+}
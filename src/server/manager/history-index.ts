@@ -0,0 +1,106 @@
+/**
+ * History Index — vector storage for searching older conversation and photo history
+ *
+ * Provides:
+ *   - HistoryIndex: the storage interface (add, search, list what's indexed)
+ *   - PgVectorHistoryIndex: history_embeddings table with pgvector cosine distance
+ *   - getHistoryIndex(): the index to use
+ *
+ * Entries are keyed by embedding model — vectors from different models (or
+ * different dimensions) are never compared with each other.
+ */
+
+import { db, historyEmbeddings } from "../db";
+import { and, eq, inArray, sql } from "drizzle-orm";
+
+/** Where an indexed entry came from */
+export type HistorySourceType = "turn" | "exchange" | "photo";
+
+/** A piece of history to index, before embedding */
+export interface HistoryEntry {
+  sourceType: HistorySourceType;
+  sourceId: string;
+  content: string;
+  occurredAt: Date;
+}
+
+export interface EmbeddedHistoryEntry extends HistoryEntry {
+  embedding: number[];
+}
+
+/** A search hit with its cosine similarity (1 = identical) */
+export interface HistoryMatch extends HistoryEntry {
+  score: number;
+}
+
+export interface HistoryIndex {
+  /** Which of the given sources are already indexed for this user + model (as historyKey keys) */
+  getIndexedKeys(userId: string, model: string, sources: Pick<HistoryEntry, "sourceType" | "sourceId">[]): Promise<Set<string>>;
+  add(userId: string, model: string, entries: EmbeddedHistoryEntry[]): Promise<void>;
+  /** Most similar entries first */
+  search(userId: string, model: string, embedding: number[], limit: number): Promise<HistoryMatch[]>;
+}
+
+/** Identity of a source within an index, e.g. "turn:<uuid>" */
+export function historyKey(sourceType: HistorySourceType, sourceId: string): string {
+  return `${sourceType}:${sourceId}`;
+}
+
+/**
+ * pgvector-backed index. Searches scan one user's vectors for one model —
+ * there's no ANN index because the dimension varies with the user's model.
+ */
+export class PgVectorHistoryIndex implements HistoryIndex {
+  async getIndexedKeys(userId: string, model: string, sources: Pick<HistoryEntry, "sourceType" | "sourceId">[]): Promise<Set<string>> {
+    if (sources.length === 0) return new Set();
+    const rows = await db
+      .select({ sourceType: historyEmbeddings.sourceType, sourceId: historyEmbeddings.sourceId })
+      .from(historyEmbeddings)
+      .where(and(
+        eq(historyEmbeddings.userId, userId),
+        eq(historyEmbeddings.model, model),
+        inArray(historyEmbeddings.sourceId, [...new Set(sources.map(source => source.sourceId))]),
+      ));
+    return new Set(rows.map(r => historyKey(r.sourceType as HistorySourceType, r.sourceId)));
+  }
+
+  async add(userId: string, model: string, entries: EmbeddedHistoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db
+      .insert(historyEmbeddings)
+      .values(entries.map(entry => ({ userId, model, ...entry })))
+      .onConflictDoNothing();
+  }
+
+  async search(userId: string, model: string, embedding: number[], limit: number): Promise<HistoryMatch[]> {
+    const distance = sql<number>`${historyEmbeddings.embedding} <=> ${JSON.stringify(embedding)}::vector`;
+    const rows = await db
+      .select({
+        sourceType: historyEmbeddings.sourceType,
+        sourceId: historyEmbeddings.sourceId,
+        content: historyEmbeddings.content,
+        occurredAt: historyEmbeddings.occurredAt,
+        distance,
+      })
+      .from(historyEmbeddings)
+      .where(and(eq(historyEmbeddings.userId, userId), eq(historyEmbeddings.model, model)))
+      .orderBy(distance)
+      .limit(limit);
+
+    return rows.map(({ distance, ...row }) => ({
+      ...row,
+      sourceType: row.sourceType as HistorySourceType,
+      score: 1 - Number(distance),
+    }));
+  }
+}
+
+let index: HistoryIndex | null = null;
+
+/** The shared history index (the sources it indexes live in the database too) */
+export function getHistoryIndex(): HistoryIndex {
+  if (!index) {
+    index = new PgVectorHistoryIndex();
+  }
+  return index;
+}
@@ -0,0 +1,309 @@
+/**
+ * Google Cloud location provider — Geocoding, Weather, and Time Zone APIs
+ * with the user's own API key. Errors are classified by
+ * classifyGoogleCloudError so quota/billing/key problems are spoken clearly.
+ */
+
+import { Client } from "@googlemaps/google-maps-services-js";
+import { LOCATION_CACHE_SETTINGS } from "../../constants/config";
+import { classifyGoogleCloudError, classifyThrownGoogleError, type GoogleCloudError } from "../../utils/google-cloud-errors";
+import {
+  toFahrenheit,
+  windDirection,
+  type DailyForecast,
+  type GeocodedAddress,
+  type HourlyForecast,
+  type LocationProvider,
+  type WeatherCondition,
+  type WeatherForecast,
+} from "./types";
+
+// Google Maps client
+const mapsClient = new Client({});
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Local date (and time, for hours) of a forecast entry */
+interface GoogleDisplayDate {
+  year?: number;
+  month?: number;
+  day?: number;
+  hours?: number;
+  minutes?: number;
+}
+
+interface GoogleTemperature {
+  degrees?: number;
+  unit?: string;
+}
+
+interface GoogleWeatherCondition {
+  description?: { text?: string };
+}
+
+interface GooglePrecipitation {
+  probability?: { percent?: number };
+}
+
+interface GoogleForecastHour {
+  displayDateTime?: GoogleDisplayDate;
+  temperature?: GoogleTemperature;
+  weatherCondition?: GoogleWeatherCondition;
+  precipitation?: GooglePrecipitation;
+}
+
+/** Daytime or nighttime half of a forecast day */
+interface GoogleForecastDayPart {
+  weatherCondition?: GoogleWeatherCondition;
+  precipitation?: GooglePrecipitation;
+}
+
+interface GoogleForecastDay {
+  displayDate?: GoogleDisplayDate;
+  maxTemperature?: GoogleTemperature;
+  minTemperature?: GoogleTemperature;
+  daytimeForecast?: GoogleForecastDayPart;
+  nighttimeForecast?: GoogleForecastDayPart;
+}
+
+/** forecast/hours:lookup response (the fields we read) */
+export interface GoogleHourlyForecastResponse {
+  forecastHours?: GoogleForecastHour[];
+}
+
+/** forecast/days:lookup response (the fields we read) */
+export interface GoogleDailyForecastResponse {
+  forecastDays?: GoogleForecastDay[];
+}
+
+/** currentConditions:lookup response (the fields we read) */
+interface GoogleCurrentConditionsResponse {
+  temperature?: GoogleTemperature;
+  condition?: { description?: string };
+  humidity?: number;
+  wind?: {
+    speed?: { value?: number };
+    direction?: { degrees?: number };
+  };
+}
+
+/**
+ * Parse a Google Weather forecast/hours:lookup response.
+ */
+export function parseHourlyForecast(data: GoogleHourlyForecastResponse): HourlyForecast[] {
+  return (data.forecastHours ?? []).map((hour) => {
+    const dt = hour.displayDateTime ?? {};
+    const celsius = Math.round(hour.temperature?.degrees ?? 0);
+    return {
+      date: `${dt.year}-${pad(dt.month ?? 0)}-${pad(dt.day ?? 0)}`,
+      time: `${pad(dt.hours ?? 0)}:${pad(dt.minutes ?? 0)}`,
+      temperature: toFahrenheit(celsius),
+      temperatureCelsius: celsius,
+      condition: hour.weatherCondition?.description?.text || "Unknown",
+      precipitationChance: hour.precipitation?.probability?.percent ?? 0,
+    };
+  });
+}
+
+/**
+ * Parse a Google Weather forecast/days:lookup response.
+ */
+export function parseDailyForecast(data: GoogleDailyForecastResponse): DailyForecast[] {
+  return (data.forecastDays ?? []).map((day) => {
+    const d = day.displayDate ?? {};
+    const high = Math.round(day.maxTemperature?.degrees ?? 0);
+    const low = Math.round(day.minTemperature?.degrees ?? 0);
+    return {
+      date: `${d.year}-${pad(d.month ?? 0)}-${pad(d.day ?? 0)}`,
+      high: toFahrenheit(high),
+      highCelsius: high,
+      low: toFahrenheit(low),
+      lowCelsius: low,
+      condition: day.daytimeForecast?.weatherCondition?.description?.text || "Unknown",
+      nightCondition: day.nighttimeForecast?.weatherCondition?.description?.text,
+      precipitationChance: Math.max(
+        day.daytimeForecast?.precipitation?.probability?.percent ?? 0,
+        day.nighttimeForecast?.precipitation?.probability?.percent ?? 0,
+      ),
+    };
+  });
+}
+
+export class GoogleLocationProvider implements LocationProvider {
+  readonly backend = "google";
+  lastError: GoogleCloudError | null = null;
+
+  constructor(private apiKey: string) {}
+
+  /**
+   * Reverse geocoding from Google Maps API
+   */
+  async reverseGeocode(lat: number, lng: number): Promise<GeocodedAddress | null> {
+    try {
+      const response = await mapsClient.reverseGeocode({
+        params: {
+          latlng: { lat, lng },
+          key: this.apiKey,
+        },
+        timeout: 5000,
+      });
+
+      if (response.data.status !== 'OK' || !response.data.results?.length) {
+        const status = response.data.status;
+        if (status === 'REQUEST_DENIED' || status === 'OVER_QUERY_LIMIT') {
+          this.lastError = {
+            kind: status === 'OVER_QUERY_LIMIT' ? 'quota_exceeded' : 'permission_denied',
+            api: 'Geocoding',
+            status: 0,
+            message: `Geocoding status: ${status}`,
+            userMessage: status === 'OVER_QUERY_LIMIT'
+              ? 'Your Google Cloud Geocoding API has reached its usage limit. You may need to check your Google Cloud billing or quota settings.'
+              : 'The Google Cloud Geocoding API access was denied. Please check your API key permissions.',
+          };
+          console.warn(`⚠️ Geocoding failed: ${status} — ${this.lastError.kind}`);
+        } else {
+          console.warn(`⚠️ Geocoding failed: ${status}`);
+        }
+        return null;
+      }
+
+      const result = response.data.results[0];
+      const components = result.address_components;
+
+      // Parse address components
+      let streetNumber = '';
+      let route = '';
+      let neighborhood = '';
+      let city = 'Unknown';
+      let state = 'Unknown';
+      let country = 'Unknown';
+
+      for (const component of components) {
+        const types = component.types as string[];
+
+        if (types.includes('street_number')) {
+          streetNumber = component.long_name;
+        } else if (types.includes('route')) {
+          route = component.long_name;
+        } else if (types.includes('neighborhood') || types.includes('sublocality')) {
+          neighborhood = component.long_name;
+        } else if (types.includes('locality')) {
+          city = component.long_name;
+        } else if (types.includes('administrative_area_level_1')) {
+          state = component.long_name;
+        } else if (types.includes('country')) {
+          country = component.long_name;
+        }
+      }
+
+      this.lastError = null; // Clear on success
+      return {
+        city,
+        state,
+        country,
+        streetAddress: [streetNumber, route].filter(Boolean).join(' ') || undefined,
+        neighborhood: neighborhood || undefined,
+      };
+    } catch (error) {
+      this.lastError = classifyThrownGoogleError(error, "Geocoding");
+      console.error('❌ Geocoding error:', this.lastError.message);
+      return null;
+    }
+  }
+
+  /**
+   * Current conditions from Google Weather API
+   */
+  async getCurrentWeather(lat: number, lng: number): Promise<WeatherCondition | null> {
+    try {
+      const url = `https://weather.googleapis.com/v1/currentConditions:lookup?key=${this.apiKey}&location.latitude=${lat}&location.longitude=${lng}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: { 'Accept': 'application/json' },
+      });
+
+      if (!response.ok) {
+        this.lastError = await classifyGoogleCloudError(response, "Weather");
+        console.warn(`⚠️ Weather API error: ${response.status} — ${this.lastError.kind}: ${this.lastError.message}`);
+        return null;
+      }
+
+      const data: GoogleCurrentConditionsResponse = await response.json();
+
+      const tempCelsius = Math.round(data.temperature?.degrees ?? 0);
+      const windSpeed = data.wind?.speed?.value ? Math.round(data.wind.speed.value * 2.237) : undefined;
+      const windDir = data.wind?.direction?.degrees ? windDirection(data.wind.direction.degrees) : undefined;
+
+      this.lastError = null; // Clear on success
+      return {
+        temperature: toFahrenheit(tempCelsius),
+        temperatureCelsius: tempCelsius,
+        condition: data.condition?.description || 'Unknown',
+        humidity: data.humidity,
+        wind: windSpeed && windDir ? `${windSpeed} mph ${windDir}` : undefined,
+      };
+    } catch (error) {
+      this.lastError = classifyThrownGoogleError(error, "Weather");
+      console.error('❌ Weather error:', this.lastError.message);
+      return null;
+    }
+  }
+
+  /**
+   * Hourly and daily forecasts from Google Weather API
+   */
+  async getForecast(lat: number, lng: number): Promise<Omit<WeatherForecast, "fetchedAt"> | null> {
+    const params = `key=${this.apiKey}&location.latitude=${lat}&location.longitude=${lng}`;
+
+    try {
+      const [hoursResponse, daysResponse] = await Promise.all([
+        fetch(`https://weather.googleapis.com/v1/forecast/hours:lookup?${params}&hours=${LOCATION_CACHE_SETTINGS.forecastHours}&pageSize=${LOCATION_CACHE_SETTINGS.forecastHours}`),
+        fetch(`https://weather.googleapis.com/v1/forecast/days:lookup?${params}&days=${LOCATION_CACHE_SETTINGS.forecastDays}&pageSize=${LOCATION_CACHE_SETTINGS.forecastDays}`),
+      ]);
+
+      for (const response of [hoursResponse, daysResponse]) {
+        if (!response.ok) {
+          this.lastError = await classifyGoogleCloudError(response, "Weather");
+          console.warn(`⚠️ Forecast API error: ${response.status} — ${this.lastError.kind}: ${this.lastError.message}`);
+          return null;
+        }
+      }
+
+      this.lastError = null;
+      return {
+        hourly: parseHourlyForecast(await hoursResponse.json()),
+        daily: parseDailyForecast(await daysResponse.json()),
+      };
+    } catch (error) {
+      this.lastError = classifyThrownGoogleError(error, "Weather");
+      console.error("❌ Forecast error:", this.lastError.message);
+      return null;
+    }
+  }
+
+  /**
+   * Timezone from Google Maps Timezone API
+   */
+  async getTimezone(lat: number, lng: number): Promise<string | null> {
+    try {
+      const response = await mapsClient.timezone({
+        params: {
+          location: { lat, lng },
+          timestamp: Math.floor(Date.now() / 1000),
+          key: this.apiKey,
+        },
+        timeout: 5000,
+      });
+
+      if (response.data.status === 'OK' && response.data.timeZoneId) {
+        return response.data.timeZoneId;
+      }
+      console.warn(`⚠️ Timezone API returned: ${response.data.status}`);
+      return null;
+    } catch (error) {
+      console.warn('⚠️ Timezone lookup from GPS failed:', error);
+      return null;
+    }
+  }
+}
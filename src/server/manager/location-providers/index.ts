@@ -0,0 +1,43 @@
+/**
+ * Location providers — pick the backend for a user's settings
+ */
+
+import { GoogleLocationProvider } from "./google";
+import { OpenDataLocationProvider } from "./open-data";
+import { LOCATION_BACKENDS, type LocationBackend, type LocationProvider } from "./types";
+
+export * from "./types";
+export { GoogleLocationProvider, parseHourlyForecast, parseDailyForecast } from "./google";
+export { OpenDataLocationProvider, fetchUsAqi, describeWeatherCode, parseOpenMeteoCurrent, parseOpenMeteoForecast, parseNominatimAddress } from "./open-data";
+
+export function isLocationBackend(value: unknown): value is LocationBackend {
+  return typeof value === "string" && LOCATION_BACKENDS.includes(value as LocationBackend);
+}
+
+/**
+ * The backend to use: "auto" means Google when a key is set and nothing
+ * otherwise. Open data sends the user's GPS to third-party services, so it's
+ * only used when the user picks it. Choosing Google without a key leaves
+ * location services off.
+ */
+export function resolveLocationBackend(
+  choice: LocationBackend | undefined,
+  hasGoogleKey: boolean,
+): Exclude<LocationBackend, "auto"> | null {
+  if (choice === "open") return "open";
+  if (choice === "google") return hasGoogleKey ? "google" : null;
+  return hasGoogleKey ? "google" : null;
+}
+
+/**
+ * Create the provider for a resolved backend.
+ */
+export function createLocationProvider(
+  backend: Exclude<LocationBackend, "auto">,
+  options: { googleApiKey?: string; locale: string },
+): LocationProvider | null {
+  if (backend === "google") {
+    return options.googleApiKey ? new GoogleLocationProvider(options.googleApiKey) : null;
+  }
+  return new OpenDataLocationProvider(options.locale);
+}
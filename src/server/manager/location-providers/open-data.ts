@@ -0,0 +1,337 @@
+/**
+ * Open-data location provider — no API key needed
+ *
+ * Weather and forecasts come from an Open-Meteo-compatible API (which also
+ * reports the timezone), addresses from a Nominatim-compatible reverse
+ * geocoder. Base URLs are in OPEN_LOCATION_SETTINGS so self-hosters can use
+ * their own instances.
+ */
+
+import { LOCATION_CACHE_SETTINGS, OPEN_LOCATION_SETTINGS } from "../../constants/config";
+import type { GoogleCloudError } from "../../utils/google-cloud-errors";
+import {
+  toFahrenheit,
+  windDirection,
+  type DailyForecast,
+  type GeocodedAddress,
+  type HourlyForecast,
+  type LocationProvider,
+  type WeatherCondition,
+  type WeatherForecast,
+} from "./types";
+
+/** WMO weather interpretation codes (as used by Open-Meteo) */
+const WEATHER_CODES: Record<number, string> = {
+  0: "Clear sky",
+  1: "Mainly clear",
+  2: "Partly cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Freezing fog",
+  51: "Light drizzle",
+  53: "Drizzle",
+  55: "Heavy drizzle",
+  56: "Light freezing drizzle",
+  57: "Freezing drizzle",
+  61: "Light rain",
+  63: "Rain",
+  65: "Heavy rain",
+  66: "Light freezing rain",
+  67: "Freezing rain",
+  71: "Light snow",
+  73: "Snow",
+  75: "Heavy snow",
+  77: "Snow grains",
+  80: "Light rain showers",
+  81: "Rain showers",
+  82: "Heavy rain showers",
+  85: "Light snow showers",
+  86: "Heavy snow showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with hail",
+  99: "Thunderstorm with heavy hail",
+};
+
+/** Open-Meteo `current` block (the fields we request) */
+interface OpenMeteoCurrent {
+  time?: string;
+  temperature_2m?: number;
+  relative_humidity_2m?: number;
+  weather_code?: number;
+  wind_speed_10m?: number;
+  wind_direction_10m?: number;
+}
+
+/** Open-Meteo `hourly` block — one array entry per hour (null where there's no value) */
+interface OpenMeteoHourly {
+  time?: string[];
+  temperature_2m?: (number | null)[];
+  weather_code?: (number | null)[];
+  precipitation_probability?: (number | null)[];
+}
+
+/** Open-Meteo `daily` block — one array entry per day */
+interface OpenMeteoDaily {
+  time?: string[];
+  weather_code?: (number | null)[];
+  temperature_2m_max?: (number | null)[];
+  temperature_2m_min?: (number | null)[];
+  precipitation_probability_max?: (number | null)[];
+}
+
+/** Open-Meteo forecast response (the blocks we request) */
+export interface OpenMeteoResponse {
+  timezone?: string;
+  current?: OpenMeteoCurrent;
+  hourly?: OpenMeteoHourly;
+  daily?: OpenMeteoDaily;
+}
+
+/** Nominatim reverse geocoding response (format=jsonv2); `error` instead of `address` when nothing is there */
+export interface NominatimResponse {
+  error?: string;
+  address?: {
+    house_number?: string;
+    road?: string;
+    neighbourhood?: string;
+    suburb?: string;
+    quarter?: string;
+    hamlet?: string;
+    village?: string;
+    town?: string;
+    city?: string;
+    municipality?: string;
+    state?: string;
+    region?: string;
+    country?: string;
+  };
+}
+
+/** Open-Meteo air quality response (current=us_aqi) */
+interface OpenMeteoAirQualityResponse {
+  current?: { us_aqi?: number | null };
+}
+
+/**
+ * Description for a WMO weather code ("Unknown" if missing or unrecognized).
+ */
+export function describeWeatherCode(code: number | null | undefined): string {
+  return code === null || code === undefined ? "Unknown" : WEATHER_CODES[code] ?? "Unknown";
+}
+
+/**
+ * Parse the `current` block of an Open-Meteo forecast response (wind in mph).
+ */
+export function parseOpenMeteoCurrent(data: OpenMeteoResponse): WeatherCondition {
+  const current = data.current ?? {};
+  const celsius = Math.round(current.temperature_2m ?? 0);
+  const windSpeed = current.wind_speed_10m ? Math.round(current.wind_speed_10m) : undefined;
+  const windDir = current.wind_direction_10m !== undefined ? windDirection(current.wind_direction_10m) : undefined;
+
+  return {
+    temperature: toFahrenheit(celsius),
+    temperatureCelsius: celsius,
+    condition: describeWeatherCode(current.weather_code),
+    humidity: current.relative_humidity_2m,
+    wind: windSpeed && windDir ? `${windSpeed} mph ${windDir}` : undefined,
+  };
+}
+
+/**
+ * Parse the `hourly` and `daily` blocks of an Open-Meteo forecast response.
+ * Hours before the current one are skipped.
+ */
+export function parseOpenMeteoForecast(data: OpenMeteoResponse): Omit<WeatherForecast, "fetchedAt"> {
+  const hours = data.hourly ?? {};
+  const times = hours.time ?? [];
+  // "2026-10-19T14:15" → "2026-10-19T14" — local times compare as strings
+  const currentHour = data.current?.time?.slice(0, 13);
+  const first = currentHour ? Math.max(0, times.findIndex(t => t.slice(0, 13) >= currentHour)) : 0;
+
+  const hourly: HourlyForecast[] = times
+    .slice(first, first + LOCATION_CACHE_SETTINGS.forecastHours)
+    .map((time, offset) => {
+      const i = first + offset;
+      const celsius = Math.round(hours.temperature_2m?.[i] ?? 0);
+      return {
+        date: time.slice(0, 10),
+        time: time.slice(11, 16),
+        temperature: toFahrenheit(celsius),
+        temperatureCelsius: celsius,
+        condition: describeWeatherCode(hours.weather_code?.[i]),
+        precipitationChance: hours.precipitation_probability?.[i] ?? 0,
+      };
+    });
+
+  const days = data.daily ?? {};
+  const daily: DailyForecast[] = (days.time ?? []).map((date, i) => {
+    const high = Math.round(days.temperature_2m_max?.[i] ?? 0);
+    const low = Math.round(days.temperature_2m_min?.[i] ?? 0);
+    return {
+      date,
+      high: toFahrenheit(high),
+      highCelsius: high,
+      low: toFahrenheit(low),
+      lowCelsius: low,
+      condition: describeWeatherCode(days.weather_code?.[i]),
+      precipitationChance: days.precipitation_probability_max?.[i] ?? 0,
+    };
+  });
+
+  return { hourly, daily };
+}
+
+/**
+ * Parse a Nominatim reverse geocoding response (format=jsonv2).
+ */
+export function parseNominatimAddress(data: NominatimResponse): GeocodedAddress | null {
+  const address = data?.address;
+  if (!address) return null;
+
+  return {
+    city: address.city || address.town || address.village || address.hamlet || address.municipality || "Unknown",
+    state: address.state || address.region || "Unknown",
+    country: address.country || "Unknown",
+    streetAddress: [address.house_number, address.road].filter(Boolean).join(" ") || undefined,
+    neighborhood: address.neighbourhood || address.suburb || address.quarter || undefined,
+  };
+}
+
+/**
+ * A failure in the same shape as a classified Google Cloud error, so
+ * QueryProcessor speaks it the same way.
+ */
+function serviceError(api: "Weather" | "Geocoding", status: number, message: string): GoogleCloudError {
+  const service = api === "Weather" ? "weather" : "address lookup";
+  const kind = status === 429 ? "quota_exceeded" : status === 0 || status >= 500 ? "server_error" : "unknown";
+  const userMessage = kind === "quota_exceeded"
+    ? `The ${service} service is getting too many requests right now. Please try again in a minute.`
+    : `The ${service} service is temporarily unavailable. Please try again in a moment.`;
+  return { kind, api, status, message, userMessage };
+}
+
+export class OpenDataLocationProvider implements LocationProvider {
+  readonly backend = "open";
+  lastError: GoogleCloudError | null = null;
+
+  /** @param locale — BCP 47 locale for place names (e.g. "de-DE") */
+  constructor(private locale: string) {}
+
+  /**
+   * GET JSON, recording a failure in lastError.
+   */
+  private async getJson<T>(api: "Weather" | "Geocoding", url: string): Promise<T | null> {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          "Accept": "application/json",
+          "Accept-Language": this.locale,
+          "User-Agent": OPEN_LOCATION_SETTINGS.userAgent,
+        },
+        signal: AbortSignal.timeout(OPEN_LOCATION_SETTINGS.requestTimeoutMs),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        this.lastError = serviceError(api, response.status, body.slice(0, 200) || `HTTP ${response.status}`);
+        console.warn(`⚠️ ${api} (open data) error: ${response.status} — ${this.lastError.message}`);
+        return null;
+      }
+
+      const data: T = await response.json();
+      this.lastError = null; // Clear on success
+      return data;
+    } catch (error) {
+      this.lastError = serviceError(api, 0, error instanceof Error ? error.message : String(error));
+      console.error(`❌ ${api} (open data) error:`, this.lastError.message);
+      return null;
+    }
+  }
+
+  private weatherUrl(lat: number, lng: number, params: string): string {
+    return `${OPEN_LOCATION_SETTINGS.weatherBaseUrl}/v1/forecast?latitude=${lat}&longitude=${lng}&timezone=auto&${params}`;
+  }
+
+  async reverseGeocode(lat: number, lng: number): Promise<GeocodedAddress | null> {
+    const data = await this.getJson<NominatimResponse>(
+      "Geocoding",
+      `${OPEN_LOCATION_SETTINGS.geocoderBaseUrl}/reverse?lat=${lat}&lon=${lng}&format=jsonv2&addressdetails=1&zoom=18`,
+    );
+    if (!data) return null;
+
+    const address = parseNominatimAddress(data);
+    if (!address) console.warn(`⚠️ Geocoding (open data) found no address for ${lat}, ${lng}`);
+    return address;
+  }
+
+  async getCurrentWeather(lat: number, lng: number): Promise<WeatherCondition | null> {
+    const data = await this.getJson<OpenMeteoResponse>("Weather", this.weatherUrl(
+      lat,
+      lng,
+      "current=temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m,wind_direction_10m&wind_speed_unit=mph",
+    ));
+    return data ? parseOpenMeteoCurrent(data) : null;
+  }
+
+  async getForecast(lat: number, lng: number): Promise<Omit<WeatherForecast, "fetchedAt"> | null> {
+    const data = await this.getJson<OpenMeteoResponse>("Weather", this.weatherUrl(
+      lat,
+      lng,
+      "current=weather_code" +
+      "&hourly=temperature_2m,weather_code,precipitation_probability" +
+      "&daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max" +
+      `&forecast_hours=${LOCATION_CACHE_SETTINGS.forecastHours}&forecast_days=${LOCATION_CACHE_SETTINGS.forecastDays}`,
+    ));
+    return data ? parseOpenMeteoForecast(data) : null;
+  }
+
+  /**
+   * Open-Meteo resolves the timezone for the coordinates (timezone=auto).
+   * Failures aren't recorded in lastError — they'd read as a weather outage.
+   */
+  async getTimezone(lat: number, lng: number): Promise<string | null> {
+    try {
+      const response = await fetch(this.weatherUrl(lat, lng, "current=weather_code"), {
+        headers: { "Accept": "application/json", "User-Agent": OPEN_LOCATION_SETTINGS.userAgent },
+        signal: AbortSignal.timeout(OPEN_LOCATION_SETTINGS.requestTimeoutMs),
+      });
+      if (!response.ok) {
+        console.warn(`⚠️ Timezone (open data) returned: ${response.status}`);
+        return null;
+      }
+      const data: OpenMeteoResponse = await response.json();
+      // Open-Meteo answers "GMT" when it can't place the coordinates
+      return typeof data.timezone === "string" && data.timezone !== "GMT" ? data.timezone : null;
+    } catch (error) {
+      console.warn("⚠️ Timezone lookup (open data) failed:", error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Current US AQI (0–500, higher is worse) from an Open-Meteo-compatible air
+ * quality API. Used for environment alerts, which need the US scale whichever
+ * location backend is in use. Failures return null and aren't recorded.
+ */
+export async function fetchUsAqi(lat: number, lng: number): Promise<number | null> {
+  try {
+    const response = await fetch(
+      `${OPEN_LOCATION_SETTINGS.airQualityBaseUrl}/v1/air-quality?latitude=${lat}&longitude=${lng}&current=us_aqi`,
+      {
+        headers: { "Accept": "application/json", "User-Agent": OPEN_LOCATION_SETTINGS.userAgent },
+        signal: AbortSignal.timeout(OPEN_LOCATION_SETTINGS.requestTimeoutMs),
+      },
+    );
+    if (!response.ok) {
+      console.warn(`⚠️ US AQI (open data) returned: ${response.status}`);
+      return null;
+    }
+    const data: OpenMeteoAirQualityResponse = await response.json();
+    const aqi = data.current?.us_aqi;
+    return typeof aqi === "number" ? Math.round(aqi) : null;
+  } catch (error) {
+    console.warn("⚠️ US AQI lookup (open data) failed:", error);
+    return null;
+  }
+}
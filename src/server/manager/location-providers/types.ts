@@ -0,0 +1,107 @@
+/**
+ * Location provider types — the backend behind LocationManager's reverse
+ * geocoding, weather, forecasts, and timezone lookup
+ *
+ * Two backends implement LocationProvider: Google Cloud (per-user API key) and
+ * a keyless open-data backend (Open-Meteo-style weather + Nominatim-style
+ * geocoding). LocationManager owns caching and error reporting; providers
+ * only fetch and parse.
+ */
+
+import type { GoogleCloudError } from "../../utils/google-cloud-errors";
+
+/** The user's choice in Settings ("auto" = Google when a key is set, else open data) */
+export type LocationBackend = "auto" | "google" | "open";
+
+export const LOCATION_BACKENDS: LocationBackend[] = ["auto", "google", "open"];
+
+/**
+ * Weather condition data
+ */
+export interface WeatherCondition {
+  temperature: number;         // Fahrenheit
+  temperatureCelsius: number;  // Celsius
+  condition: string;           // e.g., "Sunny", "Cloudy"
+  humidity?: number;
+  wind?: string;
+}
+
+/**
+ * One hour of the hourly forecast (times are local to the forecast location)
+ */
+export interface HourlyForecast {
+  date: string;                 // "2026-10-19"
+  time: string;                 // "14:00"
+  temperature: number;          // Fahrenheit
+  temperatureCelsius: number;   // Celsius
+  condition: string;            // e.g., "Light rain"
+  precipitationChance: number;  // Percent
+}
+
+/**
+ * One day of the daily forecast
+ */
+export interface DailyForecast {
+  date: string;                 // "2026-10-19"
+  high: number;                 // Fahrenheit
+  highCelsius: number;
+  low: number;                  // Fahrenheit
+  lowCelsius: number;
+  condition: string;            // Daytime condition
+  nightCondition?: string;
+  precipitationChance: number;  // Percent (higher of day and night)
+}
+
+/**
+ * Hourly + daily forecast for one location
+ */
+export interface WeatherForecast {
+  hourly: HourlyForecast[];
+  daily: DailyForecast[];
+  fetchedAt: number;
+}
+
+/**
+ * Reverse-geocoded address ("Unknown" when a part isn't known)
+ */
+export interface GeocodedAddress {
+  city: string;
+  state: string;
+  country: string;
+  streetAddress?: string;
+  neighborhood?: string;
+}
+
+/**
+ * A location backend. Methods return null on failure and leave the reason in
+ * lastError (cleared on the next successful call).
+ */
+export interface LocationProvider {
+  /** Which backend this is */
+  readonly backend: Exclude<LocationBackend, "auto">;
+  /** Last failure, in the same shape as Google Cloud errors so it's spoken the same way */
+  lastError: GoogleCloudError | null;
+
+  reverseGeocode(lat: number, lng: number): Promise<GeocodedAddress | null>;
+  getCurrentWeather(lat: number, lng: number): Promise<WeatherCondition | null>;
+  getForecast(lat: number, lng: number): Promise<Omit<WeatherForecast, "fetchedAt"> | null>;
+  /** IANA timezone at the coordinates, e.g. "America/New_York" */
+  getTimezone(lat: number, lng: number): Promise<string | null>;
+}
+
+export const toFahrenheit = (celsius: number) => Math.round(celsius * 9 / 5 + 32);
+
+/**
+ * Temperature as the agent sees it everywhere (context, forecasts, saved places): "72°F (22°C)"
+ */
+export const formatTemperature = (fahrenheit: number, celsius: number) => `${fahrenheit}°F (${celsius}°C)`;
+
+/**
+ * Convert wind direction degrees to cardinal direction
+ */
+export function windDirection(degrees: number): string {
+  const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+                      'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  const index = Math.round(degrees / 22.5) % 16;
+  return directions[index];
+}
@@ -0,0 +1,179 @@
+/**
+ * Meeting reminders — which calendar events are due a reminder, and what
+ * gets said
+ *
+ * MeetingReminderManager runs the clock and looks up travel time.
+ */
+
+import type { StoredCalendarEvent } from "./CalendarManager";
+import type { TravelMode } from "../agent/tools/directions.tool";
+import { MEETING_REMINDER_SETTINGS } from "../constants/config";
+import { LANGUAGES, type Language } from "../constants/languages";
+
+/**
+ * The user's meeting reminder settings (user_settings.meeting_reminders)
+ */
+export interface MeetingReminderConfig {
+  enabled: boolean;
+  /** Minutes before the start the reminder plays */
+  leadMinutes: number;
+  /** Calendars that trigger reminders — null means all of them */
+  calendars: string[] | null;
+  /** How travel time to the event's location is estimated */
+  travelMode: TravelMode;
+}
+
+export const DEFAULT_MEETING_REMINDERS: MeetingReminderConfig = {
+  enabled: false,
+  leadMinutes: MEETING_REMINDER_SETTINGS.defaultLeadMinutes,
+  calendars: null,
+  travelMode: "DRIVE",
+};
+
+const TRAVEL_MODES: TravelMode[] = ["WALK", "DRIVE"];
+
+/** Events this long are all-day (or multi-day) — nothing to be late for */
+const ALL_DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReminderPhrases {
+  comingUp: string;
+  event: (title: string, start: string, minutes: number) => string;
+  location: (place: string) => string;
+  travel: (minutes: number, mode: TravelMode) => string;
+  leaveNow: string;
+}
+
+const PHRASES: Record<Language, ReminderPhrases> = {
+  en: {
+    comingUp: "Coming up:",
+    event: (title, start, m) => `${title} at ${start}, in ${m} minute${m === 1 ? "" : "s"}`,
+    location: (place) => `, at ${place}`,
+    travel: (m, mode) => `It's about ${m} minute${m === 1 ? "" : "s"} away ${mode === "WALK" ? "on foot" : "by car"}`,
+    leaveNow: "You should leave now",
+  },
+  es: {
+    comingUp: "Próximo evento:",
+    event: (title, start, m) => `${title} a las ${start}, en ${m} minuto${m === 1 ? "" : "s"}`,
+    location: (place) => `, en ${place}`,
+    travel: (m, mode) => `Está a unos ${m} minuto${m === 1 ? "" : "s"} ${mode === "WALK" ? "a pie" : "en coche"}`,
+    leaveNow: "Conviene salir ya",
+  },
+  de: {
+    comingUp: "Demnächst:",
+    event: (title, start, m) => `${title} um ${start}, in ${m} Minute${m === 1 ? "" : "n"}`,
+    location: (place) => `, Ort: ${place}`,
+    travel: (m, mode) => `${mode === "WALK" ? "Zu Fuß" : "Mit dem Auto"} sind es etwa ${m} Minute${m === 1 ? "" : "n"}`,
+    leaveNow: "Sie sollten jetzt aufbrechen",
+  },
+  fr: {
+    comingUp: "Bientôt :",
+    event: (title, start, m) => `${title} à ${start}, dans ${m} minute${m === 1 ? "" : "s"}`,
+    location: (place) => `, à ${place}`,
+    travel: (m, mode) => `C'est à environ ${m} minute${m === 1 ? "" : "s"} ${mode === "WALK" ? "à pied" : "en voiture"}`,
+    leaveNow: "Il est temps de partir",
+  },
+};
+
+/**
+ * Identifies one reminder — a moved event gets reminded again at its new time.
+ */
+export function meetingReminderKey(event: Pick<StoredCalendarEvent, "eventId" | "dtStart">): string {
+  return `${event.eventId}:${event.dtStart}`;
+}
+
+/**
+ * Check a settings payload. Returns the cleaned config, or an error message.
+ */
+export function normalizeMeetingReminderConfig(raw: unknown): MeetingReminderConfig | string {
+  if (!raw || typeof raw !== "object") return "Reminder settings must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const leadMinutes = input.leadMinutes ?? DEFAULT_MEETING_REMINDERS.leadMinutes;
+  if (
+    typeof leadMinutes !== "number" ||
+    leadMinutes < MEETING_REMINDER_SETTINGS.minLeadMinutes ||
+    leadMinutes > MEETING_REMINDER_SETTINGS.maxLeadMinutes
+  ) {
+    return `leadMinutes must be a number from ${MEETING_REMINDER_SETTINGS.minLeadMinutes} to ${MEETING_REMINDER_SETTINGS.maxLeadMinutes}`;
+  }
+
+  const calendars = input.calendars ?? null;
+  if (
+    calendars !== null &&
+    (!Array.isArray(calendars) ||
+      calendars.length > MEETING_REMINDER_SETTINGS.maxCalendars ||
+      calendars.some(c => typeof c !== "string" || !c.trim()))
+  ) {
+    return "calendars must be a list of calendar names, or null for all";
+  }
+
+  const travelMode = input.travelMode ?? DEFAULT_MEETING_REMINDERS.travelMode;
+  if (!TRAVEL_MODES.includes(travelMode as TravelMode)) {
+    return `travelMode must be one of: ${TRAVEL_MODES.join(", ")}`;
+  }
+
+  return {
+    enabled: input.enabled === true,
+    leadMinutes: Math.round(leadMinutes),
+    calendars: calendars === null ? null : [...new Set((calendars as string[]).map(c => c.trim()))],
+    travelMode: travelMode as TravelMode,
+  };
+}
+
+/**
+ * Events whose reminder is due now: starting within the lead time, not yet
+ * started, not all-day, not already reminded, and from a selected calendar.
+ * Events that don't say which calendar they're from always count — there's
+ * nothing to filter them on.
+ */
+export function dueMeetings(
+  events: StoredCalendarEvent[],
+  config: MeetingReminderConfig,
+  delivered: ReadonlySet<string>,
+  now: number,
+): StoredCalendarEvent[] {
+  const leadMs = config.leadMinutes * 60 * 1000;
+  return events.filter(event =>
+    event.dtStart > now &&
+    event.dtStart - leadMs <= now &&
+    event.dtEnd - event.dtStart < ALL_DAY_MS &&
+    !delivered.has(meetingReminderKey(event)) &&
+    (config.calendars === null || !event.calendarName || config.calendars.includes(event.calendarName))
+  );
+}
+
+/**
+ * "Team sync at 2:30 PM, in 10 minutes, at 1 Market St. It's about 15
+ * minutes away by car." — in the user's language.
+ */
+export function formatMeetingReminder(
+  event: StoredCalendarEvent,
+  now: number,
+  travel?: { minutes: number; mode: TravelMode },
+  timezone?: string,
+  language: Language = "en",
+): string {
+  const phrases = PHRASES[language];
+  const locale = LANGUAGES[language].locale;
+  const minutesLeft = Math.max(1, Math.round((event.dtStart - now) / 60000));
+  let start: string;
+  try {
+    start = new Date(event.dtStart).toLocaleTimeString(locale, {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone: event.timezone || timezone,
+    });
+  } catch {
+    start = new Date(event.dtStart).toLocaleTimeString(locale, { hour: "numeric", minute: "2-digit" });
+  }
+
+  const parts = [phrases.event(event.title, start, minutesLeft)];
+  if (event.location) parts[0] += phrases.location(event.location);
+
+  if (travel) {
+    parts.push(phrases.travel(travel.minutes, travel.mode));
+    if (travel.minutes >= minutesLeft) parts.push(phrases.leaveNow);
+  }
+
+  return `${phrases.comingUp} ${parts.join(". ")}.`;
+}
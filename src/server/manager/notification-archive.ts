@@ -0,0 +1,95 @@
+/**
+ * Notification archive — settings, retention, and search terms
+ *
+ * NotificationArchiveManager writes and queries the archive table.
+ */
+
+import { NOTIFICATION_ARCHIVE_SETTINGS } from "../constants/config";
+
+/**
+ * The user's archive settings (user_settings.notification_archive)
+ */
+export interface NotificationArchiveConfig {
+  enabled: boolean;
+  /** Days notifications are kept */
+  retentionDays: number;
+}
+
+export const DEFAULT_NOTIFICATION_ARCHIVE: NotificationArchiveConfig = {
+  enabled: false,
+  retentionDays: NOTIFICATION_ARCHIVE_SETTINGS.defaultRetentionDays,
+};
+
+/**
+ * What to look for in the archive. Every given field must match; text
+ * matches words in the title or content, in any order.
+ */
+export interface ArchiveSearch {
+  app?: string;
+  /** Matched against the notification title (the sender or conversation) */
+  sender?: string;
+  text?: string;
+  after?: Date;
+  before?: Date;
+}
+
+/** Most words of a text search that are matched */
+const MAX_SEARCH_TERMS = 5;
+
+/**
+ * Check a settings payload. Returns the cleaned config, or an error message.
+ */
+export function normalizeNotificationArchiveConfig(raw: unknown): NotificationArchiveConfig | string {
+  if (!raw || typeof raw !== "object") return "Archive settings must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const retentionDays = input.retentionDays ?? DEFAULT_NOTIFICATION_ARCHIVE.retentionDays;
+  if (
+    typeof retentionDays !== "number" ||
+    retentionDays < NOTIFICATION_ARCHIVE_SETTINGS.minRetentionDays ||
+    retentionDays > NOTIFICATION_ARCHIVE_SETTINGS.maxRetentionDays
+  ) {
+    return `retentionDays must be a number from ${NOTIFICATION_ARCHIVE_SETTINGS.minRetentionDays} to ${NOTIFICATION_ARCHIVE_SETTINGS.maxRetentionDays}`;
+  }
+
+  return {
+    enabled: input.enabled === true,
+    retentionDays: Math.round(retentionDays),
+  };
+}
+
+/**
+ * The oldest time still kept — anything received before it is deleted.
+ */
+export function retentionCutoff(config: NotificationArchiveConfig, now: number): Date {
+  return new Date(now - config.retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a search narrows anything down — one with no filters would just
+ * list the whole archive.
+ */
+export function hasSearchFilter(search: ArchiveSearch): boolean {
+  return !!(search.app?.trim() || search.sender?.trim() || searchTerms(search.text).length > 0 || search.after || search.before);
+}
+
+/**
+ * The words of a text search, each matched separately, so "verification
+ * code" finds "Your code is 4821 — verification for Acme".
+ */
+export function searchTerms(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ""))
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * An ILIKE pattern that matches the text anywhere, with LIKE wildcards in
+ * the text taken literally.
+ */
+export function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
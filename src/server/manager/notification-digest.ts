@@ -0,0 +1,111 @@
+/**
+ * Notification digests — grouping notifications into threads for the LLM
+ * summary, the cache key, and the digest schedule
+ *
+ * NotificationDigestManager makes the LLM call and delivers scheduled
+ * digests.
+ */
+
+import type { StoredNotification } from "./NotificationManager";
+import { NOTIFICATION_DIGEST_SETTINGS } from "../constants/config";
+
+/**
+ * The user's scheduled digest settings (user_settings.notification_digest)
+ */
+export interface NotificationDigestConfig {
+  enabled: boolean;
+  /** Minutes between scheduled digests */
+  intervalMinutes: number;
+}
+
+export const DEFAULT_NOTIFICATION_DIGEST: NotificationDigestConfig = {
+  enabled: false,
+  intervalMinutes: NOTIFICATION_DIGEST_SETTINGS.defaultIntervalMinutes,
+};
+
+/** Notifications from one app and sender (or group chat), newest first */
+export interface NotificationThread {
+  app: string;
+  title: string;
+  notifications: StoredNotification[];
+}
+
+/**
+ * Check a settings payload. Returns the cleaned config, or an error message.
+ */
+export function normalizeNotificationDigestConfig(raw: unknown): NotificationDigestConfig | string {
+  if (!raw || typeof raw !== "object") return "Digest settings must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const intervalMinutes = input.intervalMinutes ?? DEFAULT_NOTIFICATION_DIGEST.intervalMinutes;
+  if (
+    typeof intervalMinutes !== "number" ||
+    intervalMinutes < NOTIFICATION_DIGEST_SETTINGS.minIntervalMinutes ||
+    intervalMinutes > NOTIFICATION_DIGEST_SETTINGS.maxIntervalMinutes
+  ) {
+    return `intervalMinutes must be a number from ${NOTIFICATION_DIGEST_SETTINGS.minIntervalMinutes} to ${NOTIFICATION_DIGEST_SETTINGS.maxIntervalMinutes}`;
+  }
+
+  return {
+    enabled: input.enabled === true,
+    intervalMinutes: Math.round(intervalMinutes),
+  };
+}
+
+/**
+ * Identifies a set of notifications — the cached digest is reused until a
+ * notification arrives or is dismissed.
+ */
+export function digestKey(notifications: Pick<StoredNotification, "notificationId">[]): string {
+  return notifications.map(n => n.notificationId).sort().join("|");
+}
+
+/**
+ * Group notifications by app and title (the sender or conversation on
+ * messaging apps). Threads with the newest notification come first.
+ */
+export function groupNotificationThreads(notifications: StoredNotification[]): NotificationThread[] {
+  const threads = new Map<string, NotificationThread>();
+  const newestFirst = [...notifications].sort((a, b) => b.receivedAt - a.receivedAt);
+  for (const n of newestFirst) {
+    const key = `${n.app.toLowerCase()}\n${n.title.trim().toLowerCase()}`;
+    const thread = threads.get(key) ?? { app: n.app, title: n.title.trim(), notifications: [] };
+    thread.notifications.push(n);
+    threads.set(key, thread);
+  }
+  return [...threads.values()];
+}
+
+/** A quoted string that can't close the <notifications> block */
+function quote(text: string): string {
+  return JSON.stringify(text).replace(/</g, "\\u003c");
+}
+
+/**
+ * The notifications as the LLM sees them — one block per thread, oldest
+ * message first so conversations read in order. Everything that came from
+ * the phone is a quoted string inside <notifications>, so it reads as data
+ * to summarize rather than instructions.
+ */
+export function formatThreadsForDigest(threads: NotificationThread[], now: number): string {
+  const max = NOTIFICATION_DIGEST_SETTINGS.maxContentChars;
+  const blocks = threads.map(thread => {
+    const header = thread.title ? `${quote(thread.app)} — ${quote(thread.title)}` : quote(thread.app);
+    const lines = [...thread.notifications].reverse().map(n => {
+      const text = n.content.replace(/\s+/g, " ").trim();
+      const body = text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+      const minutes = Math.max(0, Math.round((now - n.receivedAt) / 60000));
+      const priority = n.priority === "high" ? "[high] " : "";
+      return `- ${priority}${body ? quote(body) : "(no text)"} (${minutes} min ago)`;
+    });
+    return [header, ...lines].join("\n");
+  });
+  return `<notifications>\n${blocks.join("\n\n")}\n</notifications>`;
+}
+
+/**
+ * Whether a scheduled digest is due.
+ */
+export function isDigestDue(config: NotificationDigestConfig, lastDigestAt: number, now: number): boolean {
+  return config.enabled && now - lastDigestAt >= config.intervalMinutes * 60 * 1000;
+}
@@ -0,0 +1,166 @@
+/**
+ * Notification rules — which rule a phone notification falls under, and
+ * what that rule does with it
+ *
+ * NotificationRulesManager stores the rules and NotificationManager acts on
+ * the result.
+ */
+
+import { NOTIFICATION_RULE_SETTINGS } from "../constants/config";
+
+/**
+ * What happens to a matching notification:
+ *   announce — spoken right away (shown on the HUD for display glasses)
+ *   hud      — shown on the HUD right away (display glasses only)
+ *   digest   — kept quietly for the prompt, readouts, and digests (the default)
+ *   ignore   — dropped: not stored and kept out of the prompt
+ */
+export type NotificationAction = "announce" | "hud" | "digest" | "ignore";
+export type NotificationPriority = "low" | "normal" | "high";
+
+export const NOTIFICATION_ACTIONS: NotificationAction[] = ["announce", "hud", "digest", "ignore"];
+const PRIORITIES: NotificationPriority[] = ["low", "normal", "high"];
+
+export interface NotificationRule {
+  id: string;
+  /** App name, matched case-insensitively as a substring ("whatsapp") */
+  app: string | null;
+  /** Sender, matched against the notification title ("Alice") */
+  sender: string | null;
+  /** Any of these words in the title or text */
+  keywords: string[];
+  priority: NotificationPriority | null;
+  action: NotificationAction;
+  createdAt: Date;
+}
+
+export type NotificationRuleInput = Pick<NotificationRule, "app" | "sender" | "keywords" | "priority" | "action">;
+
+/** The parts of a notification rules look at */
+export interface NotificationFields {
+  app: string;
+  title: string;
+  content: string;
+  priority: NotificationPriority;
+}
+
+function includesText(haystack: string, needle: string): boolean {
+  return haystack.toLowerCase().includes(needle.toLowerCase());
+}
+
+/** How many conditions a rule sets — more specific rules win */
+function specificity(rule: NotificationRule): number {
+  return [rule.app, rule.sender, rule.keywords.length > 0 ? "keywords" : null, rule.priority].filter(Boolean).length;
+}
+
+/**
+ * Whether every condition the rule sets holds for the notification.
+ */
+export function ruleMatches(rule: NotificationRule, notification: NotificationFields): boolean {
+  if (rule.app && !includesText(notification.app, rule.app)) return false;
+  if (rule.sender && !includesText(notification.title, rule.sender)) return false;
+  if (rule.priority && notification.priority !== rule.priority) return false;
+  if (rule.keywords.length > 0) {
+    const text = `${notification.title} ${notification.content}`;
+    if (!rule.keywords.some(keyword => includesText(text, keyword))) return false;
+  }
+  return specificity(rule) > 0;
+}
+
+/**
+ * The rule that decides a notification: the most specific match, then the
+ * newest. "Always tell me when Alice texts" beats "mute WhatsApp" for Alice's
+ * WhatsApp messages because it names both the app and the sender.
+ */
+export function matchRule(rules: NotificationRule[], notification: NotificationFields): NotificationRule | undefined {
+  let best: NotificationRule | undefined;
+  for (const rule of rules) {
+    if (!ruleMatches(rule, notification)) continue;
+    if (
+      !best ||
+      specificity(rule) > specificity(best) ||
+      (specificity(rule) === specificity(best) && rule.createdAt.getTime() > best.createdAt.getTime())
+    ) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+/**
+ * Check a rule from Settings or the agent. Returns the cleaned rule, or an
+ * error message.
+ */
+export function normalizeRuleInput(raw: unknown): NotificationRuleInput | string {
+  if (!raw || typeof raw !== "object") return "A rule must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const app = text(input.app);
+  const sender = text(input.sender);
+
+  const keywords = input.keywords ?? [];
+  if (!Array.isArray(keywords) || keywords.some(k => typeof k !== "string")) {
+    return "keywords must be a list of words";
+  }
+  const cleanKeywords = [...new Set((keywords as string[]).map(k => k.trim()).filter(Boolean))];
+  if (cleanKeywords.length > NOTIFICATION_RULE_SETTINGS.maxKeywords) {
+    return `A rule can have up to ${NOTIFICATION_RULE_SETTINGS.maxKeywords} keywords`;
+  }
+
+  const priority = input.priority ?? null;
+  if (priority !== null && !PRIORITIES.includes(priority as NotificationPriority)) {
+    return `priority must be one of: ${PRIORITIES.join(", ")}`;
+  }
+
+  if (!NOTIFICATION_ACTIONS.includes(input.action as NotificationAction)) {
+    return `action must be one of: ${NOTIFICATION_ACTIONS.join(", ")}`;
+  }
+
+  if (!app && !sender && cleanKeywords.length === 0 && !priority) {
+    return "A rule needs an app, sender, keyword, or priority to match";
+  }
+
+  const tooLong = [app, sender, ...cleanKeywords].some(v => v && v.length > NOTIFICATION_RULE_SETTINGS.maxFieldLength);
+  if (tooLong) return `Rule fields must be ${NOTIFICATION_RULE_SETTINGS.maxFieldLength} characters or fewer`;
+
+  return {
+    app,
+    sender,
+    keywords: cleanKeywords,
+    priority: priority as NotificationPriority | null,
+    action: input.action as NotificationAction,
+  };
+}
+
+const ACTION_LABELS: Record<NotificationAction, string> = {
+  announce: "Announce",
+  hud: "Show on the HUD",
+  digest: "Keep for the digest",
+  ignore: "Ignore",
+};
+
+/**
+ * "Announce WhatsApp from Alice", "Ignore notifications mentioning sale or promo"
+ */
+export function describeRule(rule: NotificationRuleInput): string {
+  const parts = [
+    rule.priority ? `${rule.priority}-priority` : null,
+    rule.app ?? "notifications",
+    rule.sender ? `from ${rule.sender}` : null,
+    rule.keywords.length > 0 ? `mentioning ${rule.keywords.join(" or ")}` : null,
+  ];
+  return `${ACTION_LABELS[rule.action]} ${parts.filter(Boolean).join(" ")}`;
+}
+
+/**
+ * What's said or shown for an announced notification ("Alice on WhatsApp:
+ * running late").
+ */
+export function formatNotificationAnnouncement(notification: NotificationFields): string {
+  const text = notification.content.replace(/\s+/g, " ").trim();
+  const max = NOTIFICATION_RULE_SETTINGS.maxAnnouncementChars;
+  const body = text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+  const from = notification.title ? `${notification.title} on ${notification.app}` : notification.app;
+  return body ? `${from}: ${body}` : from;
+}
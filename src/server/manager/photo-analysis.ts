@@ -9,10 +9,11 @@
  */
 
 import { generateText } from "ai";
-import { resolveVisionModel, resolveLLMModel } from "../agent/providers/registry";
+import { resolveVisionChain, resolveLLMModel, routeModelId, runWithFallback, type ChainModel } from "../agent/providers/registry";
 import type { UserAIConfig } from "../agent/providers/types";
 import { PHOTO_ANALYSIS_SETTINGS } from "../constants/config";
 import { isDbAvailable, db, photos, downloadPhoto } from "../db";
+import { recordUsage, isOverBudget, type UsageContext } from "./usage-tracking";
 import { eq, desc, and, gte } from "drizzle-orm";
 
 /** Type for recent photo context injected into the system prompt */
@@ -24,22 +25,29 @@ export interface RecentPhoto {
 }
 
 /**
- * Analyze a photo buffer using the user's configured vision model.
+ * Analyze a photo buffer using the user's configured vision model
+ * (falling back down the vision chain on quota/billing/network errors).
  * Returns the analysis text, or empty string on failure.
+ * Token usage is recorded when a usage context is given; analysis is skipped
+ * once that user's monthly budget is reached.
  */
-export async function analyzePhoto(buffer: Buffer, aiConfig: UserAIConfig): Promise<string> {
-  let model;
+export async function analyzePhoto(buffer: Buffer, aiConfig: UserAIConfig, usage?: UsageContext): Promise<string> {
+  if (usage && isOverBudget(usage.userId)) {
+    console.log(`💰 [ANALYSIS] Skipped — monthly budget reached for ${usage.userId}`);
+    return "";
+  }
+
+  let chain: ChainModel[];
   try {
-    const resolved = resolveVisionModel(aiConfig);
-    model = resolved.model;
+    chain = resolveVisionChain(aiConfig);
   } catch (err) {
     console.warn("📸 [ANALYSIS] Failed to resolve vision model:", err);
     return "";
   }
 
   try {
-    const result = await generateText({
-      model,
+    const { result, used } = await runWithFallback(chain, "Photo analysis", (candidate) => generateText({
+      model: candidate.model,
       maxOutputTokens: PHOTO_ANALYSIS_SETTINGS.analysisMaxTokens,
       messages: [
         {
@@ -50,7 +58,9 @@ export async function analyzePhoto(buffer: Buffer, aiConfig: UserAIConfig): Prom
           ],
         },
       ],
-    });
+    }));
+
+    if (usage) recordUsage(usage, "photo_analysis", used.provider, used.modelId, result.usage);
 
     const text = typeof result.text === "string" ? result.text.trim() : "";
     if (text) {
@@ -65,18 +75,23 @@ export async function analyzePhoto(buffer: Buffer, aiConfig: UserAIConfig): Prom
 
 /**
  * Generate tags from analysis text and update the photo row.
- * Follows the same pattern as ExchangeManager.generateTags().
+ * Follows the same pattern as ExchangeManager.generateTags() (routed to the "tagging" model).
  */
 export async function generatePhotoTags(
   photoId: string,
   analysis: string,
-  aiConfig: UserAIConfig
+  aiConfig: UserAIConfig,
+  usage?: UsageContext,
 ): Promise<void> {
   if (!isDbAvailable() || !analysis) return;
+  if (usage && isOverBudget(usage.userId)) {
+    console.log(`💰 [PHOTO-TAGS] Skipped for ${photoId} — monthly budget reached`);
+    return;
+  }
 
   let model;
   try {
-    model = resolveLLMModel(aiConfig);
+    model = resolveLLMModel(aiConfig, "tagging");
   } catch {
     return;
   }
@@ -93,6 +108,8 @@ export async function generatePhotoTags(
       ],
     });
 
+    if (usage) recordUsage(usage, "photo_tags", aiConfig.llmProvider, routeModelId(aiConfig, "tagging"), result.usage);
+
     const text = result.text.trim();
     const jsonMatch = text.match(/\[[\s\S]*?\]/);
     if (!jsonMatch) return;
@@ -131,6 +148,7 @@ export async function ensurePhotoAnalyzed(
   const [row] = await db
     .select({
       id: photos.id,
+      userId: photos.userId,
       storagePath: photos.storagePath,
       analysis: photos.analysis,
       tags: photos.tags,
@@ -171,7 +189,7 @@ export async function ensurePhotoAnalyzed(
       // Has storage path — download from Storage and run vision analysis
       try {
         const { buffer } = await downloadPhoto(row.storagePath);
-        analysis = await analyzePhoto(buffer, aiConfig);
+        analysis = await analyzePhoto(buffer, aiConfig, { userId: row.userId });
         if (!analysis) return;
 
         await db.update(photos).set({ analysis }).where(eq(photos.id, photoId));
@@ -186,7 +204,7 @@ export async function ensurePhotoAnalyzed(
   // Step 2: If tags are missing, generate from analysis
   const tags = row.tags ?? [];
   if (tags.length === 0 && analysis) {
-    await generatePhotoTags(photoId, analysis, aiConfig);
+    await generatePhotoTags(photoId, analysis, aiConfig, { userId: row.userId });
   }
 }
 
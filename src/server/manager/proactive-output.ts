@@ -0,0 +1,109 @@
+/**
+ * Proactive output — how the glasses say something without being asked
+ *
+ * Reminders, meeting reminders, environment alerts, announced notifications,
+ * scheduled digests, and the Do Not Disturb summary all play the same way:
+ * Do Not Disturb decides first, then a chime, then the text on the HUD for
+ * display glasses or spoken otherwise. The managers that check on a clock
+ * share PeriodicCheck for their start()/stop().
+ */
+
+import type { User } from "../session/User";
+import type { FocusSource } from "./focus";
+import { getDefaultSoundUrl } from "../constants/config";
+import { formatForTTS } from "../utils/tts-formatter";
+
+/** Chime before a proactive output */
+const PROACTIVE_SOUND_URL = process.env.PROACTIVE_SOUND_URL || getDefaultSoundUrl("start.mp3");
+
+export interface ProactiveOutput {
+  /** Asks Do Not Disturb first; omit for output that plays regardless (the summary of what it held back) */
+  source?: FocusSource;
+  text: string;
+  /** How long the text stays on the HUD */
+  displayMs: number;
+  /** Skip the chime */
+  silent?: boolean;
+  /** Only for the HUD — nothing plays on glasses without a display */
+  hudOnly?: boolean;
+}
+
+/**
+ * Play a proactive output. Returns false when it didn't play (disconnected,
+ * HUD-only without a display, or held back or skipped by Do Not Disturb).
+ */
+export async function playProactive(user: User, output: ProactiveOutput): Promise<boolean> {
+  const session = user.appSession;
+  if (!session) return false;
+
+  const hasDisplay = !!session.capabilities?.hasDisplay;
+  if (output.hudOnly && !hasDisplay) return false;
+  if (output.source && user.focus.gate(output.source, output.text) !== "deliver") return false;
+
+  if (PROACTIVE_SOUND_URL && !output.silent) {
+    await session.audio.playAudio({ audioUrl: PROACTIVE_SOUND_URL }).catch(() => {});
+  }
+  if (hasDisplay) {
+    session.layouts.showTextWall(output.text, { durationMs: output.displayMs });
+  } else {
+    await session.audio.speak(formatForTTS(output.text, user.language)).catch((error) => {
+      console.debug(`Proactive speech failed (${output.source ?? "summary"}):`, error);
+    });
+  }
+  return true;
+}
+
+export interface PeriodicCheckOptions {
+  run: () => Promise<void>;
+  intervalMs: number;
+  /** Wait before the first run (default: one interval) */
+  startDelayMs?: number;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * The clock behind a manager's start()/stop(): runs every intervalMs while
+ * started, never two runs at once. A run in progress when it's restarted
+ * schedules the next one itself.
+ */
+export class PeriodicCheck {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private checking = false;
+
+  constructor(private options: PeriodicCheckOptions) {}
+
+  start(): void {
+    this.stop();
+    this.running = true;
+    if (!this.checking) this.schedule(this.options.startDelayMs ?? this.options.intervalMs);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Start or stop for the current settings — called again after a settings
+   * save, so a change applies mid-session without waiting for a reconnect.
+   */
+  apply(on: boolean): void {
+    if (on) this.start();
+    else this.stop();
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.checking = true;
+      this.options.run()
+        .catch(this.options.onError)
+        .finally(() => {
+          this.checking = false;
+          if (this.running && !this.timer) this.schedule(this.options.intervalMs);
+        });
+    }, delayMs);
+  }
+}
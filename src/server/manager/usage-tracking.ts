@@ -0,0 +1,168 @@
+/**
+ * Usage Tracking — token usage and cost accounting for every LLM call
+ *
+ * Provides:
+ *   - recordUsage(): Persist one call's token counts + estimated cost to llm_usage
+ *   - getUsageSummary(): Daily and monthly spend by purpose for the settings panel
+ *
+ * Users bring their own API keys, so this is how they see what Any AI costs them.
+ * Costs are estimates from MODEL_PRICING; custom/local models are tracked with no cost.
+ */
+
+import { estimateCost, type Provider } from "../agent/providers/types";
+import { isDbAvailable, db, llmUsage } from "../db";
+import { sessions } from "./SessionManager";
+import { and, eq, gte } from "drizzle-orm";
+
+/** What an LLM call was made for */
+export type UsagePurpose =
+  | "agent" | "visual_classifier" | "exchange_tags" | "photo_tags" | "photo_analysis"
+  | "history_index" | "history_search" | "translation" | "notification_digest";
+
+/** Who a call is billed to, and which turn/exchange it belongs to */
+export interface UsageContext {
+  userId: string;
+  exchangeId?: string | null;
+  turnId?: string | null;
+}
+
+/** Token counts as reported by the AI SDK (fields may be missing for some providers) */
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/** Token usage for one model within an agent turn */
+export interface ModelUsage {
+  provider: Provider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Totals for one purpose within a period */
+export interface PurposeSpend {
+  purpose: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** Spend for a period (today / this month), broken down by purpose */
+export interface PeriodSpend {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  byPurpose: PurposeSpend[];
+  /** True if some calls used models without a known price (custom/local) */
+  hasUnpricedUsage: boolean;
+}
+
+export interface UsageSummary {
+  today: PeriodSpend;
+  month: PeriodSpend;
+}
+
+/**
+ * Persist one LLM call's usage and add its cost to the live session's budget.
+ * Never throws — accounting must not break a query.
+ */
+export async function recordUsage(
+  context: UsageContext,
+  purpose: UsagePurpose,
+  provider: Provider,
+  model: string,
+  usage: TokenUsage | undefined,
+): Promise<void> {
+  if (!isDbAvailable()) return;
+
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+  if (inputTokens === 0 && outputTokens === 0) return;
+
+  const costUsd = estimateCost(provider, model, inputTokens, outputTokens);
+
+  try {
+    await db.insert(llmUsage).values({
+      userId: context.userId,
+      purpose,
+      provider,
+      model,
+      inputTokens,
+      outputTokens,
+      costUsd,
+      turnId: context.turnId ?? null,
+      exchangeId: context.exchangeId ?? null,
+    });
+    sessions.get(context.userId)?.budget.addSpend(costUsd ?? 0);
+  } catch (error) {
+    console.warn(`💰 [USAGE] Failed to record ${purpose} usage for ${context.userId}:`, error);
+  }
+}
+
+/**
+ * Whether the user's monthly budget is used up — background LLM work
+ * (photo analysis, tagging, visual classifier) is skipped when it is.
+ */
+export function isOverBudget(userId: string): boolean {
+  return sessions.get(userId)?.budget.isExceeded() ?? false;
+}
+
+/**
+ * Daily and monthly spend by purpose (periods start at UTC midnight / the 1st of the month UTC).
+ */
+export async function getUsageSummary(userId: string, now: Date = new Date()): Promise<UsageSummary> {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  if (!isDbAvailable()) {
+    return { today: summarizeUsage([]), month: summarizeUsage([]) };
+  }
+
+  const rows = await db
+    .select({
+      purpose: llmUsage.purpose,
+      inputTokens: llmUsage.inputTokens,
+      outputTokens: llmUsage.outputTokens,
+      costUsd: llmUsage.costUsd,
+      createdAt: llmUsage.createdAt,
+    })
+    .from(llmUsage)
+    .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, monthStart)));
+
+  return {
+    today: summarizeUsage(rows.filter(r => r.createdAt >= dayStart)),
+    month: summarizeUsage(rows),
+  };
+}
+
+/**
+ * Total a set of usage rows, grouped by purpose (most expensive first).
+ */
+export function summarizeUsage(
+  rows: { purpose: string; inputTokens: number; outputTokens: number; costUsd: number | null }[],
+): PeriodSpend {
+  const byPurpose = new Map<string, PurposeSpend>();
+  let hasUnpricedUsage = false;
+
+  for (const row of rows) {
+    const entry = byPurpose.get(row.purpose)
+      ?? { purpose: row.purpose, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    entry.calls++;
+    entry.inputTokens += row.inputTokens;
+    entry.outputTokens += row.outputTokens;
+    entry.costUsd += row.costUsd ?? 0;
+    if (row.costUsd === null) hasUnpricedUsage = true;
+    byPurpose.set(row.purpose, entry);
+  }
+
+  const purposes = [...byPurpose.values()].sort((a, b) => b.costUsd - a.costUsd);
+  return {
+    costUsd: purposes.reduce((sum, p) => sum + p.costUsd, 0),
+    inputTokens: purposes.reduce((sum, p) => sum + p.inputTokens, 0),
+    outputTokens: purposes.reduce((sum, p) => sum + p.outputTokens, 0),
+    byPurpose: purposes,
+    hasUnpricedUsage,
+  };
+}
@@ -23,12 +23,31 @@ import {
   validateProviderKey,
   validateCustomEndpoint,
   deleteProviderConfig,
+  saveProviderFallbacks,
+  saveModelRouting,
   getProviderCatalog,
   saveGoogleCloudKey,
   deleteGoogleCloudKey,
   validateGoogleCloudKeyEndpoint,
 } from "../api/settings";
 import { chatStream } from "../api/chat";
+import { getUsage, saveBudget } from "../api/usage";
+import { getMemories, createMemory, updateMemory, deleteMemory } from "../api/memories";
+import { getSavedPlaces, createSavedPlace, deleteSavedPlace } from "../api/places";
+import { getEnvironmentAlerts, saveEnvironmentAlerts } from "../api/environment";
+import { getMeetingReminders, saveMeetingReminders } from "../api/meetings";
+import { getNotificationRules, createNotificationRule, deleteNotificationRule } from "../api/notification-rules";
+import { getNotificationDigest, saveNotificationDigest } from "../api/notification-digest";
+import { getFocusMode, saveFocusMode } from "../api/focus";
+import {
+  getNotificationArchiveSettings,
+  saveNotificationArchiveSettings,
+  getNotificationArchive,
+  deleteArchivedNotification,
+  clearNotificationArchive,
+} from "../api/notification-archive";
+import { getPersona, savePersona, getPromptPreview } from "../api/persona";
+import { getAssistants, createAssistant, updateAssistant, deleteAssistant } from "../api/assistants";
 import { killSession } from "../api/debug";
 import { bridgeApi, confirmPairing, generateBridgeApiKey, getPairingStatus, unpairBridge } from "../bridge/bridge-routes";
 import { mcpApp } from "../bridge/mcp-hosted";
@@ -79,12 +98,68 @@ api.post("/settings/provider", saveProviderConfig);
 api.post("/settings/provider/validate", validateProviderKey);
 api.post("/settings/provider/validate-custom", validateCustomEndpoint);
 api.delete("/settings/provider/:purpose", deleteProviderConfig);
+api.put("/settings/provider/fallbacks/:purpose", saveProviderFallbacks);
+api.put("/settings/provider/routing", saveModelRouting);
+
+// Persona, custom instructions, and the assembled system prompt preview
+api.get("/settings/persona", getPersona);
+api.put("/settings/persona", savePersona);
+api.get("/settings/prompt-preview", getPromptPreview);
 
 // Google Cloud API key management
 api.post("/settings/google-cloud", saveGoogleCloudKey);
 api.delete("/settings/google-cloud", deleteGoogleCloudKey);
 api.post("/settings/google-cloud/validate", validateGoogleCloudKeyEndpoint);
 
+// LLM token usage, estimated spend, and monthly budget
+api.get("/usage", getUsage);
+api.put("/usage/budget", saveBudget);
+
+// Long-term memories (list + edit from the webview)
+api.get("/memories", getMemories);
+api.post("/memories", createMemory);
+api.patch("/memories/:id", updateMemory);
+api.delete("/memories/:id", deleteMemory);
+
+// Saved places (home, work, favorites)
+api.get("/places", getSavedPlaces);
+api.post("/places", createSavedPlace);
+api.delete("/places/:id", deleteSavedPlace);
+
+// Proactive environment alerts (air quality, pollen, storms)
+api.get("/settings/environment-alerts", getEnvironmentAlerts);
+api.put("/settings/environment-alerts", saveEnvironmentAlerts);
+
+// Proactive reminders before calendar events
+api.get("/settings/meeting-reminders", getMeetingReminders);
+api.put("/settings/meeting-reminders", saveMeetingReminders);
+
+// Notification triage rules (announce, HUD, digest, ignore)
+api.get("/notification-rules", getNotificationRules);
+api.post("/notification-rules", createNotificationRule);
+api.delete("/notification-rules/:id", deleteNotificationRule);
+
+// Scheduled notification digests
+api.get("/settings/notification-digest", getNotificationDigest);
+api.put("/settings/notification-digest", saveNotificationDigest);
+
+// Do Not Disturb / focus mode (quiet hours, busy events, per-source policies)
+api.get("/settings/focus-mode", getFocusMode);
+api.put("/settings/focus-mode", saveFocusMode);
+
+// Opt-in notification archive (settings, browse, delete)
+api.get("/settings/notification-archive", getNotificationArchiveSettings);
+api.put("/settings/notification-archive", saveNotificationArchiveSettings);
+api.get("/notification-archive", getNotificationArchive);
+api.delete("/notification-archive", clearNotificationArchive);
+api.delete("/notification-archive/:id", deleteArchivedNotification);
+
+// Named assistants (own wake word, model, persona, and tools)
+api.get("/assistants", getAssistants);
+api.post("/assistants", createAssistant);
+api.put("/assistants/:id", updateAssistant);
+api.delete("/assistants/:id", deleteAssistant);
+
 // Provider catalog (static, public-ish but still behind auth)
 api.get("/providers/catalog", getProviderCatalog);
 
@@ -11,8 +11,27 @@ import { ChatHistoryManager } from "../manager/ChatHistoryManager";
 import { QueryProcessor } from "../manager/QueryProcessor";
 import { DeviceCommandHandler } from "../manager/DeviceCommandHandler";
 import { ExchangeManager } from "../manager/ExchangeManager";
+import { BudgetManager } from "../manager/BudgetManager";
+import { MemoryManager } from "../manager/MemoryManager";
+import { HistorySearchManager } from "../manager/HistorySearchManager";
+import { AssistantManager } from "../manager/AssistantManager";
+import { TranslationManager } from "../manager/TranslationManager";
+import { ReminderManager } from "../manager/ReminderManager";
+import { NavigationManager } from "../manager/NavigationManager";
+import { SavedPlacesManager } from "../manager/SavedPlacesManager";
+import { EnvironmentMonitor } from "../manager/EnvironmentMonitor";
+import { PlaceResultsManager } from "../manager/PlaceResultsManager";
+import { MeetingReminderManager } from "../manager/MeetingReminderManager";
+import { NotificationRulesManager } from "../manager/NotificationRulesManager";
+import { NotificationDigestManager } from "../manager/NotificationDigestManager";
+import { FocusManager } from "../manager/FocusManager";
+import { NotificationArchiveManager } from "../manager/NotificationArchiveManager";
 import { BridgeManager } from "../bridge/BridgeManager";
-import type { UserAIConfig } from "../agent/providers/types";
+import type { UserAIConfig, StoredFallbackEntry, FallbackModelConfig, ModelRoutingConfig } from "../agent/providers/types";
+import type { PersonaId } from "../agent/personas";
+import { isLanguage, type Language } from "../constants/languages";
+import { isLocationBackend } from "../manager/location-providers";
+import { REMINDER_SETTINGS } from "../constants/config";
 import { DEFAULT_AI_CONFIG, getModelDisplayName } from "../agent/providers/types";
 import { db, isDbAvailable } from "../db/client";
 import { userSettings } from "../db/schema";
@@ -44,6 +63,11 @@ export class User {
     return this.glassesModel !== GLASSES_MODELS.EVEN_REALITIES_G1;
   }
 
+  /** Response/transcription language (English until the AI config loads) */
+  get language(): Language {
+    return this.aiConfig?.language ?? "en";
+  }
+
   /** User's AI configuration (loaded from DB + Vault on init) */
   aiConfig: UserAIConfig | undefined = undefined;
 
@@ -86,6 +110,51 @@ export class User {
   /** Claude Code bridge (park-and-wait notifications) */
   bridge: BridgeManager;
 
+  /** Monthly spend cap (warnings + degradation when reached) */
+  budget: BudgetManager;
+
+  /** Long-term facts the user asked the assistant to remember */
+  memory: MemoryManager;
+
+  /** Embeddings index over the full conversation/photo history (search_history tool) */
+  historySearch: HistorySearchManager;
+
+  /** Named assistants picked by wake word (own model, persona, and tools) */
+  assistants: AssistantManager;
+
+  /** Live conversation translation ("translate Spanish to English") */
+  translation: TranslationManager;
+
+  /** Timers, alarms, and reminders (delivered by the reminder scheduler) */
+  reminders: ReminderManager;
+
+  /** Turn-by-turn navigation ("navigate to the nearest pharmacy") */
+  navigation: NavigationManager;
+
+  /** Named places ("home", "work") usable in directions, weather, and reminders */
+  savedPlaces: SavedPlacesManager;
+
+  /** Opt-in air quality, pollen, and storm alerts while connected */
+  environment: EnvironmentMonitor;
+
+  /** The last place search and looked-up details ("the second one", "is it open?") */
+  placeResults: PlaceResultsManager;
+
+  /** Opt-in reminders before calendar events (with travel time to their location) */
+  meetingReminders: MeetingReminderManager;
+
+  /** Triage rules for phone notifications (announce, HUD, digest, ignore) */
+  notificationRules: NotificationRulesManager;
+
+  /** LLM notification digests — on request and on a schedule */
+  notificationDigest: NotificationDigestManager;
+
+  /** Do Not Disturb / focus mode — gates everything said without being asked */
+  focus: FocusManager;
+
+  /** Opt-in long-term notification history (past the 4-hour recent list) */
+  notificationArchive: NotificationArchiveManager;
+
   constructor(public readonly userId: string) {
     this.photo = new PhotoManager(this);
     this.transcription = new TranscriptionManager(this);
@@ -100,6 +169,21 @@ export class User {
     this.deviceCommand = new DeviceCommandHandler(this);
     this.exchange = new ExchangeManager(this);
     this.bridge = new BridgeManager(this);
+    this.budget = new BudgetManager(this);
+    this.memory = new MemoryManager(this);
+    this.historySearch = new HistorySearchManager(this);
+    this.assistants = new AssistantManager(this);
+    this.translation = new TranslationManager(this);
+    this.reminders = new ReminderManager(this);
+    this.navigation = new NavigationManager(this);
+    this.savedPlaces = new SavedPlacesManager(this);
+    this.environment = new EnvironmentMonitor(this);
+    this.placeResults = new PlaceResultsManager(this);
+    this.meetingReminders = new MeetingReminderManager(this);
+    this.notificationRules = new NotificationRulesManager(this);
+    this.notificationDigest = new NotificationDigestManager(this);
+    this.focus = new FocusManager(this);
+    this.notificationArchive = new NotificationArchiveManager(this);
   }
 
   /**
@@ -109,6 +193,17 @@ export class User {
     await this.chatHistory.initialize();
     await this.calendar.initialize();
     await this.notifications.initialize();
+    await this.budget.initialize();
+    await this.memory.initialize();
+    await this.assistants.initialize();
+    await this.reminders.initialize();
+    await this.savedPlaces.initialize();
+    await this.environment.initialize();
+    await this.meetingReminders.initialize();
+    await this.notificationRules.initialize();
+    await this.notificationDigest.initialize();
+    await this.focus.initialize();
+    await this.notificationArchive.initialize();
 
     // Load AI config from Supabase if available
     if (isDbAvailable()) {
@@ -119,6 +214,9 @@ export class User {
       }
     }
 
+    // Backfill the history search index in the background
+    this.historySearch.catchUp();
+
     console.log(`✅ User ${this.userId} initialized (aiConfig: ${this.aiConfig?.isConfigured ? 'configured' : 'not configured'})`);
   }
 
@@ -148,6 +246,11 @@ export class User {
       googleCloudApiKey = (await getApiKey(settings.googleCloudApiKeyVaultId)) ?? undefined;
     }
 
+    const llmFallbacks = await this.loadFallbacks(settings.llmFallbacks as StoredFallbackEntry[]);
+    const visionFallbacks = settings.visionProvider !== "none"
+      ? await this.loadFallbacks(settings.visionFallbacks as StoredFallbackEntry[])
+      : [];
+
     const llmProvider = (settings.llmProvider ?? "openai") as UserAIConfig["llmProvider"];
     const llmModel = settings.llmModel ?? "gpt-5-mini";
     const visionProvider = (settings.visionProvider ?? "google") as UserAIConfig["visionProvider"];
@@ -168,14 +271,38 @@ export class User {
       visionModel: settings.visionModel ?? "gemini-2.5-flash",
       visionApiKey,
       googleCloudApiKey,
+      locationBackend: isLocationBackend(settings.locationBackend) ? settings.locationBackend : "auto",
       llmCustomBaseUrl: settings.llmCustomBaseUrl ?? undefined,
       llmCustomProviderName: settings.llmCustomProviderName ?? undefined,
       visionCustomBaseUrl: settings.visionCustomBaseUrl ?? undefined,
       visionCustomProviderName: settings.visionCustomProviderName ?? undefined,
+      llmFallbacks,
+      visionFallbacks,
+      modelRouting: (settings.modelRouting as ModelRoutingConfig | null) ?? undefined,
+      persona: settings.persona as PersonaId,
+      customInstructions: settings.customInstructions ?? undefined,
+      language: isLanguage(settings.language) ? settings.language : "en",
       isConfigured: settings.isAiConfigured,
     };
   }
 
+  /**
+   * Decrypt a stored fallback chain's keys from Vault
+   */
+  private async loadFallbacks(entries: StoredFallbackEntry[] | null): Promise<FallbackModelConfig[]> {
+    const fallbacks: FallbackModelConfig[] = [];
+    for (const entry of entries ?? []) {
+      fallbacks.push({
+        provider: entry.provider,
+        model: entry.model,
+        apiKey: entry.apiKeyVaultId ? (await getApiKey(entry.apiKeyVaultId)) ?? "" : "",
+        customBaseUrl: entry.customBaseUrl,
+        customProviderName: entry.customProviderName,
+      });
+    }
+    return fallbacks;
+  }
+
   /**
    * Reload AI config from Supabase (DB + Vault).
    * Called after webview saves to refresh the live session immediately.
@@ -183,7 +310,14 @@ export class User {
   async reloadAIConfig(): Promise<void> {
     if (!isDbAvailable()) return;
     try {
+      const previousLanguage = this.language;
       await this.loadAIConfig();
+      // Switch the transcription stream if the language changed
+      if (this.language !== previousLanguage) {
+        this.transcription.refreshLanguage();
+      }
+      // A new provider may mean a new embedding model — index history for it
+      this.historySearch.catchUp();
       console.log(`🔄 AI config reloaded for ${this.userId} (${this.aiConfig?.isConfigured ? 'configured' : 'not configured'})`);
     } catch (error) {
       console.warn(`Failed to reload AI config for ${this.userId}:`, error);
@@ -199,12 +333,25 @@ export class User {
     this.appSession = session;
     this.transcription.setup(session);
     this.input.setup(session);
+    // Reminders that came due while disconnected — after the welcome message
+    setTimeout(() => this.reminders.deliverQueued().catch(console.error), REMINDER_SETTINGS.reconnectDelayMs);
+    this.environment.start();
+    this.meetingReminders.start();
+    this.notificationDigest.start();
+    this.focus.start();
     console.log(`🔗 Session connected for ${this.userId}`);
   }
 
   /** Disconnect glasses but keep user alive (photos, SSE clients stay) */
   clearAppSession(): void {
     this.transcription.destroy();
+    this.translation.destroy();
+    this.navigation.destroy();
+    this.environment.destroy();
+    this.placeResults.destroy();
+    this.meetingReminders.destroy();
+    this.notificationDigest.destroy();
+    this.focus.destroy();
     // Resolve any parked bridge requests — the session is gone so they can't function
     this.bridge.destroy();
     this.appSession = null;
@@ -213,6 +360,13 @@ export class User {
   /** Nuke everything — call on full disconnect */
   cleanup(): void {
     this.transcription.destroy();
+    this.translation.destroy();
+    this.navigation.destroy();
+    this.environment.destroy();
+    this.placeResults.destroy();
+    this.meetingReminders.destroy();
+    this.notificationDigest.destroy();
+    this.focus.destroy();
     this.photo.destroy();
     this.location.destroy();
     this.notifications.destroy();
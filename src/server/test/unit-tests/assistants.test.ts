@@ -0,0 +1,104 @@
+/**
+ * Test: Named Assistants
+ *
+ * Verifies that a detected wake word picks the right assistant, that longer
+ * wake words win over their prefixes, and that an assistant's config reuses
+ * a saved provider key (or keeps the user's model when there is none).
+ *
+ * Run: bun test src/server/test/unit-tests/assistants.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { detectWakeWord } from "../../utils/wake-word";
+import { applyAssistant, listWakeWords, matchAssistant, type Assistant } from "../../agent/assistants";
+import { DEFAULT_AI_CONFIG, type UserAIConfig } from "../../agent/providers/types";
+
+const chef: Assistant = {
+  id: "chef",
+  name: "Chef",
+  wakeWord: "Hey Chef",
+  llmProvider: "google",
+  llmModel: "gemini-2.5-pro",
+  persona: "friendly",
+  customInstructions: "You're a chef. Use grams.",
+  tools: ["web_search"],
+};
+
+const coder: Assistant = {
+  id: "coder",
+  name: "Coder",
+  wakeWord: "Hey Coder",
+  llmProvider: "anthropic",
+  llmModel: "claude-sonnet-4-6",
+  persona: "concise",
+};
+
+const config: UserAIConfig = {
+  ...DEFAULT_AI_CONFIG,
+  llmApiKey: "openai-key",
+  visionApiKey: "google-key",
+  modelRouting: { fastModel: "gpt-5-mini", rules: { quick: "fast" } },
+  isConfigured: true,
+};
+
+describe("wake word matching", () => {
+  const assistants = [chef, coder];
+
+  test("each wake word picks its assistant", () => {
+    const words = listWakeWords(assistants, config.wakeWord);
+    expect(matchAssistant(assistants, detectWakeWord("hey, chef how long do I boil an egg", words).wakeWordUsed)?.id).toBe("chef");
+    expect(matchAssistant(assistants, detectWakeWord("Hey Coder what does git rebase do", words).wakeWordUsed)?.id).toBe("coder");
+  });
+
+  test("the user's own wake word maps to the default assistant", () => {
+    const result = detectWakeWord("Hey Jarvis what time is it", listWakeWords(assistants, config.wakeWord));
+    expect(result.detected).toBe(true);
+    expect(matchAssistant(assistants, result.wakeWordUsed)).toBeUndefined();
+  });
+
+  test("longer wake words are checked before their prefixes", () => {
+    const pro: Assistant = { ...chef, id: "pro", wakeWord: "Hey Chef Pro" };
+    const words = listWakeWords([chef, pro], config.wakeWord);
+    const result = detectWakeWord("Hey Chef Pro plate this dish", words);
+    expect(matchAssistant([chef, pro], result.wakeWordUsed)?.id).toBe("pro");
+    expect(result.query).toBe("plate this dish");
+  });
+});
+
+describe("applyAssistant", () => {
+  test("switches to the assistant's model with a saved key", () => {
+    const applied = applyAssistant(config, chef);
+    expect(applied.llmProvider).toBe("google");
+    expect(applied.llmModel).toBe("gemini-2.5-pro");
+    expect(applied.llmApiKey).toBe("google-key");
+    expect(applied.agentName).toBe("Chef");
+    expect(applied.persona).toBe("friendly");
+    expect(applied.customInstructions).toBe("You're a chef. Use grams.");
+    expect(applied.modelRouting).toBeUndefined();
+  });
+
+  test("reuses a fallback key", () => {
+    const withFallback: UserAIConfig = {
+      ...config,
+      llmFallbacks: [{ provider: "anthropic", model: "claude-haiku-4-5-20251001", apiKey: "anthropic-key" }],
+    };
+    const applied = applyAssistant(withFallback, coder);
+    expect(applied.llmProvider).toBe("anthropic");
+    expect(applied.llmApiKey).toBe("anthropic-key");
+  });
+
+  test("keeps the user's model when no key is on file, but applies the persona", () => {
+    const applied = applyAssistant(config, coder);
+    expect(applied.llmProvider).toBe("openai");
+    expect(applied.llmApiKey).toBe("openai-key");
+    expect(applied.persona).toBe("concise");
+    expect(applied.agentName).toBe("Coder");
+  });
+
+  test("persona only when the model is held back (e.g. over budget)", () => {
+    const applied = applyAssistant(config, chef, false);
+    expect(applied.llmProvider).toBe("openai");
+    expect(applied.modelRouting).toEqual(config.modelRouting);
+    expect(applied.persona).toBe("friendly");
+  });
+});
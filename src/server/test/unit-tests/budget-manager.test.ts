@@ -0,0 +1,75 @@
+/**
+ * Test: Budget Manager
+ *
+ * Verifies monthly budget status thresholds, the once-only spoken alerts,
+ * and the switch to the cheap model (without fallbacks) once the budget is
+ * reached.
+ *
+ * Run: bun test src/server/test/unit-tests/budget-manager.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { BudgetManager } from "../../manager/BudgetManager";
+import { DEFAULT_AI_CONFIG, type UserAIConfig } from "../../agent/providers/types";
+import type { User } from "../../session/User";
+
+const AI_CONFIG: UserAIConfig = {
+  ...DEFAULT_AI_CONFIG,
+  llmModel: "gpt-5",
+  llmModelName: "GPT-5",
+  llmApiKey: "key",
+  visionApiKey: "key",
+  isConfigured: true,
+  modelRouting: { strongModel: "gpt-5.2", rules: {} },
+  llmFallbacks: [{ provider: "anthropic", model: "claude-opus-4-1", apiKey: "anthropic-key" }],
+};
+
+function makeBudget(monthlyBudgetUsd: number | null, cheapModel: string | null = null): BudgetManager {
+  const budget = new BudgetManager({ userId: "test-user", aiConfig: AI_CONFIG } as User);
+  budget.setBudget(monthlyBudgetUsd, cheapModel);
+  return budget;
+}
+
+describe("BudgetManager", () => {
+  test("has no status or alerts without a budget", () => {
+    const budget = makeBudget(null);
+    budget.addSpend(1000);
+    expect(budget.getStatus()).toBe("unlimited");
+    expect(budget.takeAlert()).toBeNull();
+  });
+
+  test("warns once at 80% of the budget", () => {
+    const budget = makeBudget(10);
+    budget.addSpend(7.9);
+    expect(budget.getStatus()).toBe("ok");
+    budget.addSpend(0.2);
+    expect(budget.getStatus()).toBe("warning");
+    expect(budget.takeAlert()).toContain("80 percent");
+    expect(budget.takeAlert()).toBeNull();
+  });
+
+  test("announces the cap once when it's reached", () => {
+    const budget = makeBudget(10, "gpt-5-mini");
+    budget.addSpend(10);
+    expect(budget.isExceeded()).toBe(true);
+    expect(budget.takeAlert()).toContain("GPT-5 Mini");
+    expect(budget.takeAlert()).toBeNull();
+  });
+
+  test("switches answers to the cheap model only when over budget", () => {
+    const budget = makeBudget(10, "gpt-5-mini");
+    expect(budget.applyBudget(AI_CONFIG)).toBe(AI_CONFIG);
+
+    budget.addSpend(12);
+    const config = budget.applyBudget(AI_CONFIG)!;
+    expect(config.llmModel).toBe("gpt-5-mini");
+    expect(config.modelRouting).toBeUndefined();
+    expect(config.llmFallbacks).toBeUndefined();
+  });
+
+  test("keeps the configured model over budget when no cheap model is set", () => {
+    const budget = makeBudget(10);
+    budget.addSpend(12);
+    expect(budget.applyBudget(AI_CONFIG)).toBe(AI_CONFIG);
+  });
+});
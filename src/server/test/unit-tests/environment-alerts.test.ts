@@ -0,0 +1,169 @@
+/**
+ * Test: Environment Alerts
+ *
+ * Verifies the alert thresholds (AQI, pollen for the user's allergens,
+ * storms in the next hours), quiet hours across midnight, the rate limits,
+ * and settings validation.
+ *
+ * Run: bun test src/server/test/unit-tests/environment-alerts.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  DEFAULT_ENVIRONMENT_ALERTS,
+  evaluateEnvironment,
+  isQuietHours,
+  isStormCondition,
+  normalizeEnvironmentAlertConfig,
+  selectAlerts,
+  type EnvironmentAlertConfig,
+  type EnvironmentAlertKind,
+  type EnvironmentSnapshot,
+} from "../../manager/environment-alerts";
+import { ENVIRONMENT_ALERT_SETTINGS } from "../../constants/config";
+
+const CONFIG: EnvironmentAlertConfig = {
+  ...DEFAULT_ENVIRONMENT_ALERTS,
+  enabled: true,
+  allergens: ["grass", "tree"],
+  quietHours: null,
+};
+
+const CALM: EnvironmentSnapshot = {
+  usAqi: 42,
+  pollen: {
+    grass: { level: "Low", value: 1 },
+    tree: { level: "Moderate", value: 3 },
+    weed: { level: "Very high", value: 5 },
+  },
+  nextHours: [
+    { date: "2026-10-19", time: "14:00", temperature: 68, temperatureCelsius: 20, condition: "Partly cloudy", precipitationChance: 10 },
+  ],
+};
+
+describe("evaluateEnvironment", () => {
+  test("no alerts when everything is under the thresholds", () => {
+    // Weed pollen is very high, but the user isn't allergic to it
+    expect(evaluateEnvironment(CALM, CONFIG)).toEqual([]);
+  });
+
+  test("AQI over the threshold", () => {
+    const alerts = evaluateEnvironment({ ...CALM, usAqi: 162 }, CONFIG);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].kind).toBe("air_quality");
+    expect(alerts[0].value).toBe(162);
+    expect(alerts[0].message).toContain("162");
+  });
+
+  test("AQI alerts can be turned off", () => {
+    expect(evaluateEnvironment({ ...CALM, usAqi: 300 }, { ...CONFIG, aqiThreshold: null })).toEqual([]);
+  });
+
+  test("high pollen for allergens is one alert naming each type", () => {
+    const alerts = evaluateEnvironment({
+      ...CALM,
+      pollen: {
+        grass: { level: "High", value: 4 },
+        tree: { level: "Very high", value: 5 },
+        weed: null,
+      },
+    }, CONFIG);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].kind).toBe("pollen");
+    expect(alerts[0].value).toBe(5);
+    expect(alerts[0].message).toBe("Pollen alert: grass and tree pollen is high right now.");
+  });
+
+  test("a storm in the next hours", () => {
+    const alerts = evaluateEnvironment({
+      ...CALM,
+      nextHours: [
+        ...CALM.nextHours,
+        { date: "2026-10-19", time: "15:00", temperature: 66, temperatureCelsius: 19, condition: "Thunderstorm with slight hail", precipitationChance: 80 },
+      ],
+    }, CONFIG);
+    expect(alerts.map(a => a.kind)).toEqual(["storm"]);
+    expect(alerts[0].value).toBe(80);
+  });
+
+  test("messages follow the user's language", () => {
+    const [alert] = evaluateEnvironment({ ...CALM, usAqi: 180 }, CONFIG, "de");
+    expect(alert.message).toStartWith("Luftqualitätswarnung");
+  });
+});
+
+describe("isStormCondition", () => {
+  test("storm conditions from either backend", () => {
+    expect(isStormCondition("Thunderstorm")).toBe(true);
+    expect(isStormCondition("Scattered thunderstorms")).toBe(true);
+    expect(isStormCondition("Tropical storm")).toBe(true);
+    expect(isStormCondition("Heavy rain")).toBe(false);
+  });
+});
+
+describe("isQuietHours", () => {
+  const overnight = { start: "22:00", end: "07:00" };
+
+  test("a window that wraps midnight", () => {
+    expect(isQuietHours(new Date("2026-10-19T23:30:00Z"), overnight, "UTC")).toBe(true);
+    expect(isQuietHours(new Date("2026-10-19T06:59:00Z"), overnight, "UTC")).toBe(true);
+    expect(isQuietHours(new Date("2026-10-19T07:00:00Z"), overnight, "UTC")).toBe(false);
+    expect(isQuietHours(new Date("2026-10-19T12:00:00Z"), overnight, "UTC")).toBe(false);
+  });
+
+  test("uses the user's timezone", () => {
+    // 04:00 UTC is 21:00 the evening before in Los Angeles (PDT)
+    expect(isQuietHours(new Date("2026-10-19T04:00:00Z"), overnight, "UTC")).toBe(true);
+    expect(isQuietHours(new Date("2026-10-19T04:00:00Z"), overnight, "America/Los_Angeles")).toBe(false);
+  });
+
+  test("no quiet hours", () => {
+    expect(isQuietHours(new Date("2026-10-19T23:30:00Z"), null, "UTC")).toBe(false);
+  });
+});
+
+describe("selectAlerts", () => {
+  const now = Date.parse("2026-10-19T12:00:00Z");
+  const alerts = evaluateEnvironment({
+    ...CALM,
+    usAqi: 200,
+    nextHours: [{ date: "2026-10-19", time: "12:00", temperature: 70, temperatureCelsius: 21, condition: "Thunderstorm", precipitationChance: 90 }],
+  }, CONFIG);
+
+  test("everything goes out when nothing was sent recently", () => {
+    expect(selectAlerts(alerts, new Map(), now).map(a => a.kind)).toEqual(["air_quality", "storm"]);
+  });
+
+  test("a kind isn't repeated within its cooldown", () => {
+    const last = new Map<EnvironmentAlertKind, number>([
+      ["air_quality", now - ENVIRONMENT_ALERT_SETTINGS.kindCooldownMs + 60_000],
+    ]);
+    expect(selectAlerts(alerts, last, now).map(a => a.kind)).toEqual(["storm"]);
+  });
+
+  test("nothing within the minimum gap of any alert", () => {
+    const last = new Map<EnvironmentAlertKind, number>([["pollen", now - 60_000]]);
+    expect(selectAlerts(alerts, last, now)).toEqual([]);
+  });
+});
+
+describe("normalizeEnvironmentAlertConfig", () => {
+  test("fills defaults and drops duplicate allergens", () => {
+    const config = normalizeEnvironmentAlertConfig({ enabled: true, aqiThreshold: 150.4, allergens: ["tree", "tree"] });
+    expect(config).toEqual({
+      enabled: true,
+      aqiThreshold: 150,
+      allergens: ["tree"],
+      pollenThreshold: DEFAULT_ENVIRONMENT_ALERTS.pollenThreshold,
+      storms: true,
+      quietHours: null,
+    });
+  });
+
+  test("rejects bad values", () => {
+    expect(typeof normalizeEnvironmentAlertConfig({ aqiThreshold: 900 })).toBe("string");
+    expect(typeof normalizeEnvironmentAlertConfig({ allergens: ["mold"] })).toBe("string");
+    expect(typeof normalizeEnvironmentAlertConfig({ quietHours: { start: "10pm", end: "07:00" } })).toBe("string");
+    expect(typeof normalizeEnvironmentAlertConfig(null)).toBe("string");
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Test: Focus Mode
+ *
+ * Verifies when Do Not Disturb is on (voice request, quiet hours, busy
+ * calendar events), the summary of what was held back, settings
+ * validation, and that a Claude Code message held back but never answered
+ * drops out of the summary.
+ *
+ * Run: bun test src/server/test/unit-tests/focus.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  DEFAULT_FOCUS_CONFIG,
+  focusReason,
+  formatHeldSummary,
+  isBusyEvent,
+  normalizeFocusConfig,
+  type FocusConfig,
+} from "../../manager/focus";
+import type { StoredCalendarEvent } from "../../manager/CalendarManager";
+import { FocusManager } from "../../manager/FocusManager";
+import { BridgeManager } from "../../bridge/BridgeManager";
+import type { User } from "../../session/User";
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.parse("2026-10-19T14:00:00Z");
+
+function event(startHoursAgo: number, lengthHours: number, busy?: boolean): StoredCalendarEvent {
+  const dtStart = now - startHoursAgo * HOUR;
+  return { eventId: "e1", title: "Standup", dtStart, dtEnd: dtStart + lengthHours * HOUR, busy, receivedAt: now };
+}
+
+describe("isBusyEvent", () => {
+  test("timed events in progress are busy by default", () => {
+    expect(isBusyEvent(event(0.5, 1), now)).toBe(true);
+  });
+
+  test("all-day events are free unless marked busy", () => {
+    expect(isBusyEvent(event(10, 24), now)).toBe(false);
+    expect(isBusyEvent(event(10, 24, true), now)).toBe(true);
+  });
+
+  test("events marked free, upcoming, or over are not busy", () => {
+    expect(isBusyEvent(event(0.5, 1, false), now)).toBe(false);
+    expect(isBusyEvent(event(-1, 1), now)).toBe(false);
+    expect(isBusyEvent(event(2, 1), now)).toBe(false);
+  });
+});
+
+describe("focusReason", () => {
+  const config: FocusConfig = { ...DEFAULT_FOCUS_CONFIG, quietHours: { start: "13:00", end: "15:00" }, busyEvents: true };
+
+  test("off with nothing set", () => {
+    expect(focusReason(DEFAULT_FOCUS_CONFIG, { manualUntil: null, events: [event(0.5, 1)], timezone: "UTC" }, now)).toBeNull();
+  });
+
+  test("a voice request wins over the schedule", () => {
+    expect(focusReason(config, { manualUntil: now + HOUR, events: [], timezone: "UTC" }, now)).toBe("manual");
+  });
+
+  test("an expired voice request no longer counts", () => {
+    expect(focusReason(DEFAULT_FOCUS_CONFIG, { manualUntil: now - 1, events: [], timezone: "UTC" }, now)).toBeNull();
+  });
+
+  test("quiet hours, including a window that wraps midnight", () => {
+    expect(focusReason(config, { manualUntil: null, events: [], timezone: "UTC" }, now)).toBe("quiet_hours");
+    const overnight = { ...DEFAULT_FOCUS_CONFIG, quietHours: { start: "22:00", end: "07:00" } };
+    const late = Date.parse("2026-10-19T23:30:00Z");
+    expect(focusReason(overnight, { manualUntil: null, events: [], timezone: "UTC" }, late)).toBe("quiet_hours");
+    expect(focusReason(overnight, { manualUntil: null, events: [], timezone: "UTC" }, now)).toBeNull();
+  });
+
+  test("busy events only when opted in", () => {
+    const busyOnly = { ...DEFAULT_FOCUS_CONFIG, busyEvents: true };
+    expect(focusReason(busyOnly, { manualUntil: null, events: [event(0.5, 1)], timezone: "UTC" }, now)).toBe("busy_event");
+    expect(focusReason(busyOnly, { manualUntil: null, events: [event(0.5, 1, false)], timezone: "UTC" }, now)).toBeNull();
+  });
+});
+
+describe("formatHeldSummary", () => {
+  test("null when nothing was held back or skipped", () => {
+    expect(formatHeldSummary([], {}, 5)).toBeNull();
+  });
+
+  test("reads the first items in full and counts the rest and the skipped", () => {
+    const held = [
+      { source: "reminders" as const, text: "Reminder: call mom", at: now },
+      { source: "notifications" as const, text: "Alice: running late!", at: now },
+      { source: "notifications" as const, text: "Bob: ok", at: now },
+      { source: "bridge" as const, text: "Claude Code sent you a message.", at: now },
+    ];
+    expect(formatHeldSummary(held, { environment: 2 }, 2)).toBe(
+      "While Do Not Disturb was on: Reminder: call mom. Alice: running late! " +
+        "Plus 1 notification, 1 message from Claude Code. 2 environment alerts were skipped.",
+    );
+  });
+
+  test("in the user's language", () => {
+    const held = [{ source: "reminders" as const, text: "Recordatorio: llamar a mamá", at: now }];
+    expect(formatHeldSummary(held, { environment: 1, notifications: 3 }, 5, "es")).toBe(
+      "Mientras No molestar estaba activado: Recordatorio: llamar a mamá. Sin aviso: 1 alerta ambiental, 3 notificaciones.",
+    );
+  });
+});
+
+describe("normalizeFocusConfig", () => {
+  test("fills in default policies", () => {
+    const config = normalizeFocusConfig({ quietHours: { start: "22:00", end: "07:00" }, policies: { bridge: "drop" } });
+    expect(config).toEqual({
+      quietHours: { start: "22:00", end: "07:00" },
+      busyEvents: false,
+      policies: { ...DEFAULT_FOCUS_CONFIG.policies, bridge: "drop" },
+    });
+  });
+
+  test("rejects bad times, sources, and policies", () => {
+    expect(typeof normalizeFocusConfig({ quietHours: { start: "10pm", end: "07:00" } })).toBe("string");
+    expect(typeof normalizeFocusConfig({ policies: { email: "drop" } })).toBe("string");
+    expect(typeof normalizeFocusConfig({ policies: { bridge: "later" } })).toBe("string");
+    expect(typeof normalizeFocusConfig(null)).toBe("string");
+  });
+});
+
+describe("BridgeManager under Do Not Disturb", () => {
+  function makeUser() {
+    const spoken: string[] = [];
+    const user = {
+      userId: "test-user",
+      language: "en",
+      calendar: { getActiveEvents: () => [] },
+      location: { getTimezone: () => null },
+      appSession: {
+        audio: { speak: async (text: string) => { spoken.push(text); } },
+        layouts: { showTextWall: () => {} },
+      },
+    } as unknown as User;
+    const focus = new FocusManager(user);
+    Object.assign(user, { focus });
+    return { user, focus, spoken };
+  }
+
+  test("a held message that times out drops out of the summary", async () => {
+    const { user, focus, spoken } = makeUser();
+    await focus.startManual(Date.now() + HOUR);
+
+    const response = await new BridgeManager(user).handleNotify("Deploy finished — merge?", "req-1", 10);
+    expect(response.status).toBe("timeout");
+    expect(spoken).toEqual([]);
+
+    const { summary } = await focus.stopManual();
+    expect(summary).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Test: History Search
+ *
+ * Verifies which provider/model embeds history for a given AI config.
+ *
+ * Run: bun test src/server/test/unit-tests/history-search.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { resolveEmbeddingModel } from "../../agent/providers/registry";
+import { DEFAULT_AI_CONFIG, type UserAIConfig } from "../../agent/providers/types";
+
+const BASE_CONFIG: UserAIConfig = {
+  ...DEFAULT_AI_CONFIG,
+  llmProvider: "openai",
+  llmModel: "gpt-5-mini",
+  llmApiKey: "llm-key",
+  visionProvider: "google",
+  visionModel: "gemini-2.5-flash",
+  visionApiKey: "vision-key",
+  isConfigured: true,
+};
+
+describe("resolveEmbeddingModel", () => {
+  test("uses the LLM provider's default embedding model", () => {
+    const resolved = resolveEmbeddingModel(BASE_CONFIG);
+    expect(resolved?.provider).toBe("openai");
+    expect(resolved?.modelId).toBe("text-embedding-3-small");
+  });
+
+  test("honors a chosen embedding model from the provider's list", () => {
+    const resolved = resolveEmbeddingModel({
+      ...BASE_CONFIG,
+      modelRouting: { rules: {}, embeddingModel: "text-embedding-3-large" },
+    });
+    expect(resolved?.modelId).toBe("text-embedding-3-large");
+  });
+
+  test("falls back to the vision provider when the LLM provider can't embed", () => {
+    const resolved = resolveEmbeddingModel({
+      ...BASE_CONFIG,
+      llmProvider: "anthropic",
+      llmModel: "claude-haiku-4-5-20251001",
+    });
+    expect(resolved?.provider).toBe("google");
+    expect(resolved?.modelId).toBe("gemini-embedding-001");
+  });
+
+  test("uses a custom server only with an embedding model set", () => {
+    const custom: UserAIConfig = {
+      ...BASE_CONFIG,
+      llmProvider: "custom",
+      llmModel: "llama3.1",
+      llmCustomBaseUrl: "http://localhost:11434/v1",
+      visionProvider: "none",
+    };
+    expect(resolveEmbeddingModel(custom)).toBeNull();
+
+    const resolved = resolveEmbeddingModel({ ...custom, modelRouting: { rules: {}, embeddingModel: "nomic-embed-text" } });
+    expect(resolved?.provider).toBe("custom");
+    expect(resolved?.modelId).toBe("nomic-embed-text");
+  });
+
+  test("returns null when no provider can embed", () => {
+    expect(resolveEmbeddingModel({ ...BASE_CONFIG, llmProvider: "anthropic", visionProvider: "none" })).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Test: Multi-language Support
+ *
+ * Verifies that each language's classifier pattern pack catches its own
+ * phrasings, that localized greetings trigger the configured wake word, and
+ * that the TTS formatter spells numbers, times, and currency per locale —
+ * with English output unchanged.
+ *
+ * Run: bun test src/server/test/unit-tests/languages.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { detectWakeWord } from "../../utils/wake-word";
+import { formatForTTS } from "../../utils/tts-formatter";
+import { classifyCloser } from "../../agent/conversational-closers";
+import { classifyDeviceCommand } from "../../agent/device-commands";
+import { isComprehensionFailure } from "../../agent/comprehension-failure";
+import { classifyBridgeDeferral } from "../../bridge/bridge-commands";
+
+describe("classifier pattern packs", () => {
+  test("closers", () => {
+    expect(classifyCloser("muchas gracias", "es")?.type).toBe("gratitude");
+    expect(classifyCloser("danke schön", "de")?.type).toBe("gratitude");
+    expect(classifyCloser("merci beaucoup", "fr")?.type).toBe("gratitude");
+    expect(classifyCloser("muchas gracias", "en")).toBeNull();
+  });
+
+  test("device commands", () => {
+    expect(classifyDeviceCommand("toma una foto", "es")?.type).toBe("take_photo");
+    expect(classifyDeviceCommand("wie ist der Akkustand", "de")?.type).toBe("check_battery");
+    expect(classifyDeviceCommand("montre mon agenda", "fr")?.type).toBe("check_schedule");
+    expect(classifyDeviceCommand("take a photo", "en")?.type).toBe("take_photo");
+    expect(classifyDeviceCommand("summarize my notifications", "en")?.type).toBe("summarize_notifications");
+    expect(classifyDeviceCommand("check my notifications", "en")?.type).toBe("check_notifications");
+    expect(classifyDeviceCommand("fasse meine Nachrichten zusammen", "de")?.type).toBe("summarize_notifications");
+    expect(classifyDeviceCommand("résume mes notifications", "fr")?.type).toBe("summarize_notifications");
+    expect(classifyDeviceCommand("resume mis notificaciones", "es")?.type).toBe("summarize_notifications");
+  });
+
+  test("comprehension failures and bridge deferrals", () => {
+    expect(isComprehensionFailure("Lo siento, no entendí. ¿Puedes repetirlo?", "es")).toBe(true);
+    expect(isComprehensionFailure("Das Wetter ist heute sonnig.", "de")).toBe(false);
+    expect(classifyBridgeDeferral("plus tard", "fr")).not.toBeNull();
+  });
+});
+
+describe("localized wake words", () => {
+  test("a local greeting reports the configured wake word", () => {
+    const result = detectWakeWord("Oye Jarvis qué hora es", ["Hey Jarvis"], "es");
+    expect(result.detected).toBe(true);
+    expect(result.wakeWordUsed).toBe("Hey Jarvis");
+    expect(result.query).toBe("qué hora es");
+  });
+
+  test("greetings only count in their own language", () => {
+    expect(detectWakeWord("Oye Jarvis qué hora es", ["Hey Jarvis"], "en").detected).toBe(false);
+  });
+});
+
+describe("TTS number formatting", () => {
+  test("English is unchanged", () => {
+    expect(formatForTTS("$12.50 at 3:05 PM, 72°F")).toBe(
+      "twelve dollars and fifty cents at three oh five P M, seventy-two degrees fahrenheit",
+    );
+  });
+
+  test("Spanish", () => {
+    expect(formatForTTS("21000 personas a las 3:00", "es")).toBe("veintiún mil personas a las tres en punto");
+    expect(formatForTTS("1.250,50 €", "es")).toBe("mil doscientos cincuenta euros con cincuenta céntimos");
+  });
+
+  test("German", () => {
+    expect(formatForTTS("um 15:30 Uhr, 21,5 °C", "de")).toBe("um fünfzehn Uhr dreißig, einundzwanzig Komma fünf Grad Celsius");
+  });
+
+  test("French", () => {
+    expect(formatForTTS("71 et 80 à 15 h 30", "fr")).toBe("soixante et onze et quatre-vingts à quinze heures trente");
+    expect(formatForTTS("3 500 €", "fr")).toBe("trois mille cinq cents euros");
+    expect(formatForTTS("1.000.000 €", "fr")).toBe("un million euros");
+  });
+});
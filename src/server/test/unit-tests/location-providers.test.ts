@@ -0,0 +1,100 @@
+/**
+ * Test: Location Providers
+ *
+ * Verifies the backend choice (Google with a key, open data only when chosen) and
+ * that Open-Meteo and Nominatim responses parse into the same weather,
+ * forecast, and address shapes the Google backend produces.
+ *
+ * Run: bun test src/server/test/unit-tests/location-providers.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  describeWeatherCode,
+  parseNominatimAddress,
+  parseOpenMeteoCurrent,
+  parseOpenMeteoForecast,
+  resolveLocationBackend,
+} from "../../manager/location-providers";
+
+describe("resolveLocationBackend", () => {
+  test("auto uses Google with a key and nothing without one", () => {
+    expect(resolveLocationBackend("auto", true)).toBe("google");
+    expect(resolveLocationBackend("auto", false)).toBeNull();
+    expect(resolveLocationBackend(undefined, false)).toBeNull();
+  });
+
+  test("an explicit choice wins; Google without a key means no backend", () => {
+    expect(resolveLocationBackend("open", true)).toBe("open");
+    expect(resolveLocationBackend("google", true)).toBe("google");
+    expect(resolveLocationBackend("google", false)).toBeNull();
+  });
+});
+
+describe("Open-Meteo parsing", () => {
+  test("current conditions", () => {
+    const weather = parseOpenMeteoCurrent({
+      current: {
+        time: "2026-10-19T14:15",
+        temperature_2m: 21.6,
+        relative_humidity_2m: 55,
+        weather_code: 61,
+        wind_speed_10m: 8.4,
+        wind_direction_10m: 225,
+      },
+    });
+    expect(weather).toEqual({
+      temperature: 72,
+      temperatureCelsius: 22,
+      condition: "Light rain",
+      humidity: 55,
+      wind: "8 mph SW",
+    });
+  });
+
+  test("forecast starts at the current hour", () => {
+    const forecast = parseOpenMeteoForecast({
+      current: { time: "2026-10-19T14:15" },
+      hourly: {
+        time: ["2026-10-19T13:00", "2026-10-19T14:00", "2026-10-19T15:00"],
+        temperature_2m: [20, 21, 22],
+        weather_code: [0, 3, 95],
+        precipitation_probability: [0, 10, 70],
+      },
+      daily: {
+        time: ["2026-10-19"],
+        weather_code: [2],
+        temperature_2m_max: [23.4],
+        temperature_2m_min: [11.6],
+        precipitation_probability_max: [null],
+      },
+    });
+
+    expect(forecast.hourly.map(h => h.time)).toEqual(["14:00", "15:00"]);
+    expect(forecast.hourly[1]).toMatchObject({ date: "2026-10-19", condition: "Thunderstorm", precipitationChance: 70 });
+    expect(forecast.daily[0]).toMatchObject({ highCelsius: 23, lowCelsius: 12, condition: "Partly cloudy", precipitationChance: 0 });
+  });
+
+  test("unknown weather codes", () => {
+    expect(describeWeatherCode(42)).toBe("Unknown");
+    expect(describeWeatherCode(undefined)).toBe("Unknown");
+  });
+});
+
+describe("parseNominatimAddress", () => {
+  test("maps OSM address parts, with towns standing in for cities", () => {
+    expect(parseNominatimAddress({
+      address: { house_number: "12", road: "Main St", suburb: "Old Town", town: "Springfield", state: "Oregon", country: "United States" },
+    })).toEqual({
+      city: "Springfield",
+      state: "Oregon",
+      country: "United States",
+      streetAddress: "12 Main St",
+      neighborhood: "Old Town",
+    });
+  });
+
+  test("no address (e.g. open sea)", () => {
+    expect(parseNominatimAddress({ error: "Unable to geocode" })).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Test: Meeting Reminders
+ *
+ * Verifies which calendar events are due a reminder (lead time, already
+ * started, all-day, already delivered, calendar filter), what the reminder
+ * says with and without travel time and in other languages, and settings
+ * validation.
+ *
+ * Run: bun test src/server/test/unit-tests/meeting-reminders.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  DEFAULT_MEETING_REMINDERS,
+  dueMeetings,
+  formatMeetingReminder,
+  meetingReminderKey,
+  normalizeMeetingReminderConfig,
+  type MeetingReminderConfig,
+} from "../../manager/meeting-reminders";
+import type { StoredCalendarEvent } from "../../manager/CalendarManager";
+
+const MINUTE = 60 * 1000;
+const now = Date.parse("2026-10-19T21:20:00Z"); // 2:20 PM in Los Angeles
+
+function event(id: string, startsInMin: number, extra: Partial<StoredCalendarEvent> = {}): StoredCalendarEvent {
+  return {
+    eventId: id,
+    title: `Event ${id}`,
+    dtStart: now + startsInMin * MINUTE,
+    dtEnd: now + (startsInMin + 30) * MINUTE,
+    timezone: "America/Los_Angeles",
+    receivedAt: now,
+    ...extra,
+  };
+}
+
+const CONFIG: MeetingReminderConfig = { ...DEFAULT_MEETING_REMINDERS, enabled: true, leadMinutes: 10 };
+
+describe("dueMeetings", () => {
+  test("only events starting within the lead time", () => {
+    const events = [event("soon", 10), event("later", 11), event("started", -1), event("now", 3)];
+    expect(dueMeetings(events, CONFIG, new Set(), now).map(e => e.eventId)).toEqual(["soon", "now"]);
+  });
+
+  test("skips all-day events and ones already reminded", () => {
+    const allDay = event("all-day", 5, { dtEnd: now + 5 * MINUTE + 24 * 60 * MINUTE });
+    const done = event("done", 5);
+    const delivered = new Set([meetingReminderKey(done)]);
+    expect(dueMeetings([allDay, done], CONFIG, delivered, now)).toEqual([]);
+  });
+
+  test("a moved event is reminded again", () => {
+    const moved = event("standup", 5);
+    const delivered = new Set([meetingReminderKey({ eventId: "standup", dtStart: moved.dtStart - 60 * MINUTE })]);
+    expect(dueMeetings([moved], CONFIG, delivered, now)).toHaveLength(1);
+  });
+
+  test("calendar filter", () => {
+    const events = [
+      event("work", 5, { calendarName: "Work" }),
+      event("family", 5, { calendarName: "Family" }),
+      event("unknown", 5),
+    ];
+    const config = { ...CONFIG, calendars: ["Work"] };
+    expect(dueMeetings(events, config, new Set(), now).map(e => e.eventId)).toEqual(["work", "unknown"]);
+  });
+});
+
+describe("formatMeetingReminder", () => {
+  test("title, start time, and time left", () => {
+    expect(formatMeetingReminder(event("a", 10, { title: "Team sync" }), now))
+      .toBe("Coming up: Team sync at 2:30 PM, in 10 minutes.");
+  });
+
+  test("location and travel time", () => {
+    const text = formatMeetingReminder(
+      event("a", 10, { title: "Dentist", location: "1 Market St" }),
+      now,
+      { minutes: 15, mode: "DRIVE" },
+    );
+    expect(text).toBe("Coming up: Dentist at 2:30 PM, in 10 minutes, at 1 Market St. It's about 15 minutes away by car. You should leave now.");
+  });
+
+  test("walking time that leaves room", () => {
+    const text = formatMeetingReminder(event("a", 10, { location: "Cafe" }), now, { minutes: 1, mode: "WALK" });
+    expect(text).toEndWith("It's about 1 minute away on foot.");
+  });
+
+  test("in the user's language and locale", () => {
+    const text = formatMeetingReminder(
+      event("a", 10, { title: "Zahnarzt", location: "Hauptstraße 1" }),
+      now,
+      { minutes: 15, mode: "DRIVE" },
+      undefined,
+      "de",
+    );
+    expect(text).toBe("Demnächst: Zahnarzt um 14:30, in 10 Minuten, Ort: Hauptstraße 1. Mit dem Auto sind es etwa 15 Minuten. Sie sollten jetzt aufbrechen.");
+  });
+});
+
+describe("normalizeMeetingReminderConfig", () => {
+  test("fills defaults and trims calendar names", () => {
+    expect(normalizeMeetingReminderConfig({ enabled: true, calendars: [" Work ", "Work"] })).toEqual({
+      enabled: true,
+      leadMinutes: DEFAULT_MEETING_REMINDERS.leadMinutes,
+      calendars: ["Work"],
+      travelMode: "DRIVE",
+    });
+  });
+
+  test("rejects bad values", () => {
+    expect(typeof normalizeMeetingReminderConfig({ leadMinutes: 0 })).toBe("string");
+    expect(typeof normalizeMeetingReminderConfig({ leadMinutes: 500 })).toBe("string");
+    expect(typeof normalizeMeetingReminderConfig({ calendars: [""] })).toBe("string");
+    expect(typeof normalizeMeetingReminderConfig({ travelMode: "BIKE" })).toBe("string");
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Test: Memory Ranking
+ *
+ * Verifies keyword scoring of saved memories and the relevance ordering
+ * used for prompt injection, recall_facts, and forget_fact.
+ *
+ * Run: bun test src/server/test/unit-tests/memory-ranking.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { scoreMemory, rankMemories, type Memory } from "../../manager/MemoryManager";
+
+function memory(id: string, content: string, minutesAgo: number): Memory {
+  const at = new Date(Date.now() - minutesAgo * 60_000);
+  return { id, content, createdAt: at, updatedAt: at };
+}
+
+const MEMORIES: Memory[] = [
+  memory("locker", "User's gym locker number is 42", 60),
+  memory("peanuts", "User is allergic to peanuts", 30),
+  memory("wife", "User's wife's name is Sam", 10),
+];
+
+describe("scoreMemory", () => {
+  test("counts query keywords mentioned in the memory", () => {
+    expect(scoreMemory("User's gym locker number is 42", "what's my locker number")).toBe(2);
+  });
+
+  test("ignores stop words", () => {
+    expect(scoreMemory("User is allergic to peanuts", "what is my")).toBe(0);
+  });
+
+  test("matches close word forms", () => {
+    expect(scoreMemory("User is allergic to peanuts", "do I have any allergies")).toBe(1);
+  });
+
+  test("strips possessives", () => {
+    expect(scoreMemory("User's wife's name is Sam", "my wife")).toBe(1);
+  });
+});
+
+describe("rankMemories", () => {
+  test("puts the most relevant memory first", () => {
+    const ranked = rankMemories(MEMORIES, "what's my locker number", 3);
+    expect(ranked[0].id).toBe("locker");
+  });
+
+  test("tops up with the most recent memories when not filtering", () => {
+    const ranked = rankMemories(MEMORIES, "locker", 3);
+    expect(ranked.map(m => m.id)).toEqual(["locker", "wife", "peanuts"]);
+  });
+
+  test("drops non-matching memories with matchesOnly", () => {
+    const ranked = rankMemories(MEMORIES, "peanut allergy", 10, true);
+    expect(ranked.map(m => m.id)).toEqual(["peanuts"]);
+  });
+
+  test("returns nothing for an unrelated query with matchesOnly", () => {
+    expect(rankMemories(MEMORIES, "weather tomorrow", 10, true)).toEqual([]);
+  });
+
+  test("respects the limit", () => {
+    expect(rankMemories(MEMORIES, "", 2).map(m => m.id)).toEqual(["wife", "peanuts"]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Test: Message Builder
+ *
+ * Verifies the current exchange is converted into alternating user/assistant
+ * messages, with earlier photos re-sent as image parts.
+ *
+ * Run: bun test src/server/test/unit-tests/message-builder.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { buildConversationMessages, omitExchange } from "../../agent/message-builder";
+import type { ConversationTurn } from "../../manager/ChatHistoryManager";
+import { CONVERSATION_SETTINGS } from "../../constants/config";
+
+const PHOTO_DATA_URL = `data:image/jpeg;base64,${Buffer.from("fake-jpeg").toString("base64")}`;
+
+function makeTurn(overrides: Partial<ConversationTurn> = {}): ConversationTurn {
+  return {
+    query: "What restaurants are nearby?",
+    response: "There's Pizza Palace and Taco Town.",
+    timestamp: new Date(),
+    hadPhoto: false,
+    exchangeId: "ex-1",
+    ...overrides,
+  };
+}
+
+describe("buildConversationMessages", () => {
+  test("sends only the query when there are no earlier turns", () => {
+    const messages = buildConversationMessages("What time is it?", undefined);
+    expect(messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "What time is it?" }] },
+    ]);
+  });
+
+  test("alternates user and assistant messages for earlier turns", () => {
+    const messages = buildConversationMessages("And the second one?", undefined, [makeTurn()]);
+    expect(messages.map(m => m.role)).toEqual(["user", "assistant", "user"]);
+    expect(messages[0].content).toBe("What restaurants are nearby?");
+    expect(messages[1].content).toBe("There's Pizza Palace and Taco Town.");
+  });
+
+  test("re-sends earlier photos as image parts", () => {
+    const turn = makeTurn({ query: "What is this?", hadPhoto: true, photoDataUrl: PHOTO_DATA_URL });
+    const [first] = buildConversationMessages("Is it expensive?", undefined, [turn]);
+    const parts = first.content as Array<{ type: string; image?: Buffer; mediaType?: string }>;
+    expect(parts[1].type).toBe("image");
+    expect(parts[1].mediaType).toBe("image/jpeg");
+    expect(parts[1].image?.toString()).toBe("fake-jpeg");
+  });
+
+  test("falls back to a text note when the photo data isn't available", () => {
+    const turn = makeTurn({ query: "What is this?", hadPhoto: true });
+    const [first] = buildConversationMessages("Is it expensive?", undefined, [turn]);
+    expect(first.content).toBe("What is this? (with photo)");
+  });
+
+  test("limits earlier photos to the most recent ones", () => {
+    const turns = Array.from({ length: CONVERSATION_SETTINGS.maxExchangeMessagePhotos + 1 }, (_, i) =>
+      makeTurn({ query: `Photo ${i}`, hadPhoto: true, photoDataUrl: PHOTO_DATA_URL }),
+    );
+    const messages = buildConversationMessages("Which was best?", undefined, turns);
+    expect(messages[0].content).toBe("Photo 0 (with photo)");
+    expect(Array.isArray(messages[2].content)).toBe(true);
+  });
+
+  test("attaches current photos to the final user message", () => {
+    const messages = buildConversationMessages("What am I looking at?", [Buffer.from("now")]);
+    const parts = messages[messages.length - 1].content as Array<{ type: string }>;
+    expect(parts.map(p => p.type)).toEqual(["text", "image"]);
+  });
+});
+
+describe("omitExchange", () => {
+  test("removes items from the given exchange only", () => {
+    const turns = [makeTurn({ exchangeId: "ex-1" }), makeTurn({ exchangeId: "ex-2" }), makeTurn({ exchangeId: null })];
+    expect(omitExchange(turns, "ex-1").map(t => t.exchangeId)).toEqual(["ex-2", null]);
+  });
+
+  test("returns everything when there is no active exchange", () => {
+    const turns = [makeTurn(), makeTurn()];
+    expect(omitExchange(turns, null)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Test: Model Routing
+ *
+ * Verifies per-task routing picks the fast/strong model from the user's rules
+ * and falls back to the default model when a tier isn't usable.
+ *
+ * Run: bun test src/server/test/unit-tests/model-routing.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { routeModelId } from "../../agent/providers/registry";
+import { DEFAULT_AI_CONFIG, type UserAIConfig, type ModelRoutingConfig } from "../../agent/providers/types";
+
+function makeConfig(modelRouting?: ModelRoutingConfig, overrides: Partial<UserAIConfig> = {}): UserAIConfig {
+  return {
+    ...DEFAULT_AI_CONFIG,
+    llmProvider: "openai",
+    llmModel: "gpt-5",
+    llmApiKey: "key",
+    visionApiKey: "key",
+    isConfigured: true,
+    modelRouting,
+    ...overrides,
+  };
+}
+
+describe("routeModelId", () => {
+  test("uses the default model without routing or a task", () => {
+    expect(routeModelId(makeConfig(), "quick")).toBe("gpt-5");
+    expect(routeModelId(makeConfig({ fastModel: "gpt-5-mini", rules: {} }))).toBe("gpt-5");
+  });
+
+  test("applies the default rules when the user hasn't set one", () => {
+    const config = makeConfig({ fastModel: "gpt-5-mini", strongModel: "gpt-5.2", rules: {} });
+    expect(routeModelId(config, "quick")).toBe("gpt-5-mini");
+    expect(routeModelId(config, "classifier")).toBe("gpt-5-mini");
+    expect(routeModelId(config, "standard")).toBe("gpt-5");
+    expect(routeModelId(config, "detailed")).toBe("gpt-5.2");
+  });
+
+  test("user rules override the defaults", () => {
+    const config = makeConfig({ fastModel: "gpt-5-mini", strongModel: "gpt-5.2", rules: { quick: "default", standard: "strong" } });
+    expect(routeModelId(config, "quick")).toBe("gpt-5");
+    expect(routeModelId(config, "standard")).toBe("gpt-5.2");
+  });
+
+  test("uses the default model when the tier has no model set", () => {
+    const config = makeConfig({ fastModel: "gpt-5-mini", rules: {} });
+    expect(routeModelId(config, "detailed")).toBe("gpt-5");
+  });
+
+  test("ignores models that don't belong to the LLM provider", () => {
+    const config = makeConfig({ fastModel: "claude-haiku-4-5-20251001", rules: {} });
+    expect(routeModelId(config, "quick")).toBe("gpt-5");
+  });
+
+  test("accepts any model ID for custom servers", () => {
+    const config = makeConfig({ fastModel: "llama3.1:8b", rules: {} }, { llmProvider: "custom", llmCustomBaseUrl: "http://localhost:11434/v1" });
+    expect(routeModelId(config, "tagging")).toBe("llama3.1:8b");
+  });
+});
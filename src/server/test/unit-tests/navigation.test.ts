@@ -0,0 +1,120 @@
+/**
+ * Test: Turn-by-Turn Navigation
+ *
+ * Verifies route polylines decode into navigation steps, that progress along
+ * the route advances step by step and flags going off-route, and that the
+ * "stop navigation" command is recognized without catching ordinary questions.
+ *
+ * Run: bun test src/server/test/unit-tests/navigation.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { decodePolyline } from "../../utils/geo";
+import {
+  buildNavigationSteps,
+  formatDistance,
+  isStopNavigationCommand,
+  locateOnRoute,
+  type NavigationStep,
+} from "../../agent/navigation";
+
+// Google's documented example: (38.5, -120.2), (40.7, -120.95), (43.252, -126.453)
+const EXAMPLE_POLYLINE = "_p~iF~ps|U_ulLnnqC_mqNvxq`@";
+
+/** A straight east-west street at the equator; ~111 m per 0.001° */
+function step(fromLng: number, toLng: number, instruction: string, lat = 0): NavigationStep {
+  return {
+    instruction,
+    distanceMeters: Math.abs(toLng - fromLng) * 111320,
+    path: [{ lat, lng: fromLng }, { lat, lng: toLng }],
+    end: { lat, lng: toLng },
+  };
+}
+
+describe("buildNavigationSteps", () => {
+  test("decodes the step polylines", () => {
+    expect(decodePolyline(EXAMPLE_POLYLINE)).toEqual([
+      { lat: 38.5, lng: -120.2 },
+      { lat: 40.7, lng: -120.95 },
+      { lat: 43.252, lng: -126.453 },
+    ]);
+  });
+
+  test("keeps steps with geometry and fills missing instructions", () => {
+    const steps = buildNavigationSteps({
+      legs: [{
+        steps: [
+          {
+            navigationInstruction: { instructions: "Head north\nDestination on the left" },
+            distanceMeters: 120,
+            endLocation: { latLng: { latitude: 43.252, longitude: -126.453 } },
+            polyline: { encodedPolyline: EXAMPLE_POLYLINE },
+          },
+          { navigationInstruction: { instructions: "No geometry" } },
+          {
+            endLocation: { latLng: { latitude: 1, longitude: 2 } },
+            polyline: { encodedPolyline: EXAMPLE_POLYLINE },
+          },
+        ],
+      }],
+    });
+
+    expect(steps).toHaveLength(2);
+    expect(steps[0].instruction).toBe("Head north. Destination on the left");
+    expect(steps[0].path).toHaveLength(3);
+    expect(steps[0].end).toEqual({ lat: 43.252, lng: -126.453 });
+    expect(steps[1].instruction).toBe("Continue");
+  });
+});
+
+describe("locateOnRoute", () => {
+  const steps = [
+    step(0, 0.002, "Head east"),
+    step(0.002, 0.004, "Continue east"),
+    step(0.004, 0.006, "Arrive"),
+  ];
+
+  test("advances as the user walks the route", () => {
+    expect(locateOnRoute(steps, 0, { lat: 0, lng: 0.001 }).stepIndex).toBe(0);
+    expect(locateOnRoute(steps, 0, { lat: 0, lng: 0.003 }).stepIndex).toBe(1);
+    expect(locateOnRoute(steps, 1, { lat: 0.0001, lng: 0.005 })).toMatchObject({ stepIndex: 2 });
+  });
+
+  test("never moves backwards", () => {
+    expect(locateOnRoute(steps, 2, { lat: 0, lng: 0.001 }).stepIndex).toBe(2);
+  });
+
+  test("stays on the earlier step at a boundary", () => {
+    expect(locateOnRoute(steps, 0, { lat: 0, lng: 0.002 }).stepIndex).toBe(0);
+  });
+
+  test("measures distance from the remaining route", () => {
+    expect(locateOnRoute(steps, 0, { lat: 0.0001, lng: 0.001 }).offRouteMeters).toBeCloseTo(11.1, 0);
+    // ~111 m north of the street
+    expect(locateOnRoute(steps, 0, { lat: 0.001, lng: 0.003 }).offRouteMeters).toBeGreaterThan(100);
+  });
+});
+
+describe("isStopNavigationCommand", () => {
+  test("matches stop commands", () => {
+    expect(isStopNavigationCommand("stop navigation")).toBe(true);
+    expect(isStopNavigationCommand("Cancel the directions.")).toBe(true);
+    expect(isStopNavigationCommand("detén la navegación", "es")).toBe(true);
+    expect(isStopNavigationCommand("Navigation beenden", "de")).toBe(true);
+    expect(isStopNavigationCommand("arrête la navigation", "fr")).toBe(true);
+  });
+
+  test("ignores other questions", () => {
+    expect(isStopNavigationCommand("how long is the route")).toBe(false);
+    expect(isStopNavigationCommand("stop")).toBe(false);
+  });
+});
+
+describe("formatDistance", () => {
+  test("imperial in English, metric otherwise", () => {
+    expect(formatDistance(30)).toBe("100 feet");
+    expect(formatDistance(2414)).toBe("1.5 miles");
+    expect(formatDistance(34, "de")).toBe("30 Meter");
+    expect(formatDistance(1500, "fr")).toBe("1.5 kilomètres");
+  });
+});
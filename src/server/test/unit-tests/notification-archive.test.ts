@@ -0,0 +1,88 @@
+/**
+ * Test: Notification Archive
+ *
+ * Verifies archive settings validation, the retention cutoff, which
+ * searches have a filter, and how text searches are split into terms and
+ * escaped for ILIKE.
+ *
+ * Run: bun test src/server/test/unit-tests/notification-archive.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  containsPattern,
+  DEFAULT_NOTIFICATION_ARCHIVE,
+  hasSearchFilter,
+  normalizeNotificationArchiveConfig,
+  retentionCutoff,
+  searchTerms,
+} from "../../manager/notification-archive";
+
+describe("normalizeNotificationArchiveConfig", () => {
+  test("fills in the default retention", () => {
+    expect(normalizeNotificationArchiveConfig({ enabled: true })).toEqual({
+      enabled: true,
+      retentionDays: DEFAULT_NOTIFICATION_ARCHIVE.retentionDays,
+    });
+  });
+
+  test("rounds the retention and treats anything but true as off", () => {
+    expect(normalizeNotificationArchiveConfig({ enabled: "yes", retentionDays: 7.4 })).toEqual({
+      enabled: false,
+      retentionDays: 7,
+    });
+  });
+
+  test("rejects retention out of range and bad payloads", () => {
+    expect(typeof normalizeNotificationArchiveConfig({ retentionDays: 0 })).toBe("string");
+    expect(typeof normalizeNotificationArchiveConfig({ retentionDays: 400 })).toBe("string");
+    expect(typeof normalizeNotificationArchiveConfig({ retentionDays: "30" })).toBe("string");
+    expect(typeof normalizeNotificationArchiveConfig(null)).toBe("string");
+  });
+});
+
+describe("retentionCutoff", () => {
+  test("is the retention period before now", () => {
+    const now = Date.parse("2026-10-19T12:00:00Z");
+    expect(retentionCutoff({ enabled: true, retentionDays: 7 }, now).toISOString()).toBe("2026-10-12T12:00:00.000Z");
+  });
+});
+
+describe("hasSearchFilter", () => {
+  test("any one filter is enough", () => {
+    expect(hasSearchFilter({ app: "Messages" })).toBe(true);
+    expect(hasSearchFilter({ text: "verification code" })).toBe(true);
+    expect(hasSearchFilter({ after: new Date("2026-10-19T08:00:00Z") })).toBe(true);
+  });
+
+  test("no filters, or only blank ones, is no search", () => {
+    expect(hasSearchFilter({})).toBe(false);
+    expect(hasSearchFilter({ app: " ", sender: "", text: " ... " })).toBe(false);
+  });
+});
+
+describe("searchTerms", () => {
+  test("splits words and trims punctuation", () => {
+    expect(searchTerms("  verification code, ")).toEqual(["verification", "code"]);
+    expect(searchTerms("\"Alice's\" dinner?")).toEqual(["Alice's", "dinner"]);
+  });
+
+  test("empty or missing text has no terms", () => {
+    expect(searchTerms(undefined)).toEqual([]);
+    expect(searchTerms(" ... ")).toEqual([]);
+  });
+
+  test("keeps at most five words", () => {
+    expect(searchTerms("a b c d e f g")).toHaveLength(5);
+  });
+});
+
+describe("containsPattern", () => {
+  test("wraps the text in wildcards", () => {
+    expect(containsPattern("code")).toBe("%code%");
+  });
+
+  test("escapes LIKE wildcards in the text", () => {
+    expect(containsPattern("50%_off\\")).toBe("%50\\%\\_off\\\\%");
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Test: Notification Rules
+ *
+ * Verifies which rule decides a notification (app, sender, keywords,
+ * priority, most specific then newest), rule validation, what's said
+ * for an announced notification, and that updates aren't announced twice.
+ *
+ * Run: bun test src/server/test/unit-tests/notification-rules.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  describeRule,
+  formatNotificationAnnouncement,
+  matchRule,
+  normalizeRuleInput,
+  ruleMatches,
+  type NotificationFields,
+  type NotificationRule,
+} from "../../manager/notification-rules";
+import { NotificationManager } from "../../manager/NotificationManager";
+import type { User } from "../../session/User";
+import type { PhoneNotification } from "@mentra/sdk";
+
+let nextId = 0;
+
+function rule(fields: Partial<NotificationRule>): NotificationRule {
+  nextId++;
+  return {
+    id: `rule-${nextId}`,
+    app: null,
+    sender: null,
+    keywords: [],
+    priority: null,
+    action: "announce",
+    createdAt: new Date(Date.UTC(2026, 9, 1, 0, nextId)),
+    ...fields,
+  };
+}
+
+const aliceWhatsApp: NotificationFields = {
+  app: "WhatsApp",
+  title: "Alice",
+  content: "Running late, see you at 7",
+  priority: "normal",
+};
+
+describe("ruleMatches", () => {
+  test("app and sender match case-insensitively as substrings", () => {
+    expect(ruleMatches(rule({ app: "whatsapp" }), aliceWhatsApp)).toBe(true);
+    expect(ruleMatches(rule({ sender: "alice" }), aliceWhatsApp)).toBe(true);
+    expect(ruleMatches(rule({ app: "Telegram" }), aliceWhatsApp)).toBe(false);
+  });
+
+  test("every condition must hold", () => {
+    expect(ruleMatches(rule({ app: "WhatsApp", sender: "Bob" }), aliceWhatsApp)).toBe(false);
+    expect(ruleMatches(rule({ sender: "Alice", priority: "high" }), aliceWhatsApp)).toBe(false);
+  });
+
+  test("any keyword in the title or text matches", () => {
+    expect(ruleMatches(rule({ keywords: ["urgent", "LATE"] }), aliceWhatsApp)).toBe(true);
+    expect(ruleMatches(rule({ keywords: ["urgent"] }), aliceWhatsApp)).toBe(false);
+  });
+
+  test("a rule with no conditions never matches", () => {
+    expect(ruleMatches(rule({}), aliceWhatsApp)).toBe(false);
+  });
+});
+
+describe("matchRule", () => {
+  test("no match returns undefined", () => {
+    expect(matchRule([rule({ app: "Gmail" })], aliceWhatsApp)).toBeUndefined();
+  });
+
+  test("the more specific rule wins over a broader one", () => {
+    const mute = rule({ app: "WhatsApp", action: "ignore" });
+    const vip = rule({ app: "WhatsApp", sender: "Alice", action: "announce" });
+    expect(matchRule([vip, mute], aliceWhatsApp)?.id).toBe(vip.id);
+    expect(matchRule([mute, vip], aliceWhatsApp)?.id).toBe(vip.id);
+  });
+
+  test("equally specific rules — the newest wins", () => {
+    const older = rule({ sender: "Alice", action: "hud" });
+    const newer = rule({ app: "WhatsApp", action: "ignore" });
+    expect(matchRule([newer, older], aliceWhatsApp)?.id).toBe(newer.id);
+  });
+});
+
+describe("normalizeRuleInput", () => {
+  test("trims fields and drops duplicate keywords", () => {
+    expect(normalizeRuleInput({ app: " Slack ", keywords: ["outage", " outage ", ""], action: "announce" })).toEqual({
+      app: "Slack",
+      sender: null,
+      keywords: ["outage"],
+      priority: null,
+      action: "announce",
+    });
+  });
+
+  test("needs something to match on", () => {
+    expect(typeof normalizeRuleInput({ app: "  ", action: "ignore" })).toBe("string");
+  });
+
+  test("rejects unknown actions and priorities", () => {
+    expect(typeof normalizeRuleInput({ app: "Slack", action: "shout" })).toBe("string");
+    expect(typeof normalizeRuleInput({ app: "Slack", priority: "urgent", action: "hud" })).toBe("string");
+  });
+
+  test("rejects keywords that aren't a list of strings", () => {
+    expect(typeof normalizeRuleInput({ keywords: "sale", action: "ignore" })).toBe("string");
+  });
+});
+
+describe("describeRule", () => {
+  test("names every condition", () => {
+    expect(describeRule(rule({ app: "WhatsApp", sender: "Alice" }))).toBe("Announce WhatsApp from Alice");
+    expect(describeRule(rule({ keywords: ["sale", "promo"], action: "ignore" })))
+      .toBe("Ignore notifications mentioning sale or promo");
+    expect(describeRule(rule({ priority: "high", action: "hud" }))).toBe("Show on the HUD high-priority notifications");
+  });
+});
+
+describe("formatNotificationAnnouncement", () => {
+  test("sender, app, and text", () => {
+    expect(formatNotificationAnnouncement(aliceWhatsApp)).toBe("Alice on WhatsApp: Running late, see you at 7");
+  });
+
+  test("long text is cut short", () => {
+    const text = formatNotificationAnnouncement({ ...aliceWhatsApp, content: "word ".repeat(100) });
+    expect(text.length).toBeLessThanOrEqual("Alice on WhatsApp: ".length + 200);
+    expect(text.endsWith("…")).toBe(true);
+  });
+});
+
+describe("NotificationManager.addNotification", () => {
+  function makeUser(shown: string[]): User {
+    return {
+      userId: "user-1",
+      language: "en",
+      notificationRules: { apply: () => "announce" },
+      notificationArchive: { archive: async () => {} },
+      focus: { gate: () => "deliver" },
+      appSession: {
+        capabilities: { hasDisplay: true },
+        audio: { playAudio: async () => {}, speak: async () => {} },
+        layouts: { showTextWall: (text: string) => shown.push(text) },
+      },
+    } as unknown as User;
+  }
+
+  const push = (content: string): PhoneNotification => ({
+    notificationId: "n-1",
+    app: "WhatsApp",
+    title: "Alice",
+    content,
+    priority: "normal",
+  } as PhoneNotification);
+
+  test("an update to a stored notification isn't announced again", async () => {
+    const shown: string[] = [];
+    const notifications = new NotificationManager(makeUser(shown));
+
+    await notifications.addNotification(push("Running late"));
+    await notifications.addNotification(push("Running late, see you at 7"));
+    await Bun.sleep(0);
+
+    expect(shown).toHaveLength(1);
+    expect(notifications.getRecentNotifications()[0].content).toBe("Running late, see you at 7");
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Test: Place Details
+ *
+ * Verifies that Places API search and details responses parse into the
+ * shapes the tools read out, that follow-ups ("the second one", "the last
+ * one", a name) pick from the previous result list, and how the list and
+ * details are formatted.
+ *
+ * Run: bun test src/server/test/unit-tests/place-details.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  formatPlaceDetails,
+  formatPlaceList,
+  parsePlaceDetails,
+  parsePlaceSummary,
+  pickPlace,
+  type PlaceSummary,
+} from "../../agent/tools/places.tool";
+
+const origin = { lat: 37.7749, lng: -122.4194 };
+
+const results: PlaceSummary[] = [
+  { id: "a", name: "Blue Bottle Coffee", address: "66 Mint St", lat: 37.7824, lng: -122.4075, rating: 4.5, ratingCount: 812, priceLevel: "$$", openNow: true },
+  { id: "b", name: "Vegan Bakery Co", address: "1 Market St", lat: 37.7749, lng: -122.4184, openNow: false },
+  { id: "c", name: "Sightglass", address: "270 7th St", lat: 37.7765, lng: -122.4084 },
+];
+
+describe("parsePlaceSummary", () => {
+  test("maps price levels and open-now", () => {
+    const place = parsePlaceSummary({
+      id: "abc",
+      displayName: { text: "Tartine" },
+      formattedAddress: "600 Guerrero St",
+      location: { latitude: 37.76, longitude: -122.42 },
+      rating: 4.6,
+      userRatingCount: 9000,
+      priceLevel: "PRICE_LEVEL_MODERATE",
+      currentOpeningHours: { openNow: true },
+    });
+    expect(place).toEqual({
+      id: "abc",
+      name: "Tartine",
+      address: "600 Guerrero St",
+      lat: 37.76,
+      lng: -122.42,
+      rating: 4.6,
+      ratingCount: 9000,
+      priceLevel: "$$",
+      openNow: true,
+    });
+  });
+
+  test("skips places without an ID or location", () => {
+    expect(parsePlaceSummary({ displayName: { text: "Nowhere" } })).toBeNull();
+  });
+});
+
+describe("parsePlaceDetails", () => {
+  test("hours, phone, and trimmed reviews", () => {
+    const details = parsePlaceDetails({
+      id: "abc",
+      displayName: { text: "Tartine" },
+      location: { latitude: 37.76, longitude: -122.42 },
+      nationalPhoneNumber: "(415) 487-2600",
+      currentOpeningHours: {
+        openNow: true,
+        nextCloseTime: "2026-10-19T02:00:00Z",
+        weekdayDescriptions: ["Monday: 8:00 AM – 7:00 PM"],
+      },
+      reviews: [
+        { rating: 5, text: { text: "Best   morning bun\nin the city." }, relativePublishTimeDescription: "a week ago" },
+        { rating: 4 },
+        { rating: 3, text: { text: "x".repeat(300) } },
+        { rating: 5, text: { text: "Great." } },
+        { rating: 1, text: { text: "Too many reviews." } },
+      ],
+    });
+    expect(details?.phone).toBe("(415) 487-2600");
+    expect(details?.hours).toEqual(["Monday: 8:00 AM – 7:00 PM"]);
+    expect(details?.nextCloseTime).toBe("2026-10-19T02:00:00Z");
+    expect(details?.reviews).toHaveLength(3);
+    expect(details?.reviews[0]).toEqual({ rating: 5, text: "Best morning bun in the city.", when: "a week ago" });
+    expect(details?.reviews[1].text.length).toBe(200);
+    expect(details?.reviews[1].text.endsWith("…")).toBe(true);
+  });
+
+  test("falls back to regular hours", () => {
+    const details = parsePlaceDetails({
+      id: "abc",
+      location: { latitude: 1, longitude: 2 },
+      regularOpeningHours: { weekdayDescriptions: ["Tuesday: Closed"] },
+    });
+    expect(details?.hours).toEqual(["Tuesday: Closed"]);
+    expect(details?.reviews).toEqual([]);
+  });
+});
+
+describe("pickPlace", () => {
+  test("by position", () => {
+    expect(pickPlace(results, { position: 2 })?.id).toBe("b");
+    expect(pickPlace(results, { position: -1 })?.id).toBe("c");
+    expect(pickPlace(results, { position: 4 })).toBeUndefined();
+  });
+
+  test("by name, exact or partial", () => {
+    expect(pickPlace(results, { name: "sightglass" })?.id).toBe("c");
+    expect(pickPlace(results, { name: "Blue Bottle" })?.id).toBe("a");
+    expect(pickPlace(results, { name: "Philz" })).toBeUndefined();
+    expect(pickPlace(results, {})).toBeUndefined();
+  });
+});
+
+describe("formatPlaceList", () => {
+  test("numbers results with rating, price, distance, and status", () => {
+    const text = formatPlaceList(results, origin);
+    expect(text).toStartWith("1. Blue Bottle Coffee 4.5★ (812 reviews) $$ — 0.8 miles\n   66 Mint St — Open now");
+    expect(text).toContain("2. Vegan Bakery Co — 290 feet\n   1 Market St — Closed");
+    expect(text).toContain("3. Sightglass — ");
+  });
+});
+
+describe("formatPlaceDetails", () => {
+  test("closing time in the user's timezone", () => {
+    const text = formatPlaceDetails({
+      ...results[0],
+      phone: "(415) 555-0100",
+      hours: ["Monday: 7:00 AM – 6:00 PM"],
+      nextCloseTime: new Date(Date.now() + 60_000).toISOString(),
+      reviews: [{ rating: 5, text: "Lovely.", when: "a month ago" }],
+    }, "en-US", "America/Los_Angeles");
+    expect(text).toMatch(/Open now, closes (?:\w+day )?\d{1,2}:\d{2} [AP]M/);
+    expect(text).toContain("Phone: (415) 555-0100");
+    expect(text).toContain("Price: $$");
+    expect(text).toContain("  Monday: 7:00 AM – 6:00 PM");
+    expect(text).toContain('  - 5★ (a month ago) "Lovely."');
+  });
+
+  test("when it opens next", () => {
+    const text = formatPlaceDetails({ ...results[1], hours: [], reviews: [], nextOpenTime: "2026-10-20T15:00:00Z" }, "en-US", "UTC");
+    expect(text).toContain("Closed now, opens");
+    expect(text).toContain("3:00 PM");
+  });
+});
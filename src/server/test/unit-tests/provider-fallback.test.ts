@@ -0,0 +1,64 @@
+/**
+ * Test: Provider Fallback
+ *
+ * Verifies which provider errors move on to the next model in the chain,
+ * and that runWithFallback stops at the first success.
+ *
+ * Run: bun test src/server/test/unit-tests/provider-fallback.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { isFallbackError, runWithFallback, type ChainModel } from "../../agent/providers/registry";
+
+function makeCandidate(label: string): ChainModel {
+  return { model: {} as ChainModel["model"], provider: "openai", modelId: `${label}-model`, apiKey: "key", label };
+}
+
+describe("isFallbackError", () => {
+  test("falls back on quota, billing, overload and network errors", () => {
+    expect(isFallbackError(new Error("RESOURCE_EXHAUSTED: quota exceeded"))).toBe(true);
+    expect(isFallbackError(new Error("Your credit balance is too low. Please visit Plans & Billing"))).toBe(true);
+    expect(isFallbackError(new Error("Overloaded"))).toBe(true);
+    expect(isFallbackError(new Error("fetch failed"))).toBe(true);
+  });
+
+  test("falls back on 402, 429 and 5xx status codes", () => {
+    expect(isFallbackError(Object.assign(new Error("x"), { statusCode: 402 }))).toBe(true);
+    expect(isFallbackError(Object.assign(new Error("x"), { statusCode: 429 }))).toBe(true);
+    expect(isFallbackError(Object.assign(new Error("x"), { statusCode: 503 }))).toBe(true);
+  });
+
+  test("does not fall back on invalid keys or bad requests", () => {
+    expect(isFallbackError(Object.assign(new Error("Incorrect API key provided"), { statusCode: 401 }))).toBe(false);
+    expect(isFallbackError(Object.assign(new Error("Invalid request"), { statusCode: 400 }))).toBe(false);
+  });
+});
+
+describe("runWithFallback", () => {
+  test("uses the next model after a fallback-worthy error", async () => {
+    const chain = [makeCandidate("Primary"), makeCandidate("Backup")];
+    const { result, used } = await runWithFallback(chain, "test", async (candidate) => {
+      if (candidate.label === "Primary") throw new Error("rate limit reached");
+      return "ok";
+    });
+    expect(result).toBe("ok");
+    expect(used.label).toBe("Backup");
+  });
+
+  test("rethrows errors that shouldn't fall back", async () => {
+    const chain = [makeCandidate("Primary"), makeCandidate("Backup")];
+    const attempts: string[] = [];
+    await expect(runWithFallback(chain, "test", async (candidate) => {
+      attempts.push(candidate.label);
+      throw new Error("Invalid API key");
+    })).rejects.toThrow("Invalid API key");
+    expect(attempts).toEqual(["Primary"]);
+  });
+
+  test("rethrows when the last model fails", async () => {
+    const chain = [makeCandidate("Primary")];
+    await expect(runWithFallback(chain, "test", async () => {
+      throw new Error("quota exceeded");
+    })).rejects.toThrow("quota exceeded");
+  });
+});
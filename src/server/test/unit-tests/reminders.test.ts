@@ -0,0 +1,90 @@
+/**
+ * Test: Timers & Reminders
+ *
+ * Verifies that local clock times convert to the right UTC instant in the
+ * user's timezone (including across a DST change), that a spoken
+ * description picks the right pending reminder to cancel, and that location
+ * reminders' geofences don't flip back and forth on GPS jitter.
+ *
+ * Run: bun test src/server/test/unit-tests/reminders.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { zonedTimeToUtc } from "../../utils/timezone";
+import { distanceMeters, nextGeofenceState, type GeofenceState } from "../../utils/geo";
+import { matchReminder, type Reminder } from "../../manager/ReminderManager";
+
+describe("zonedTimeToUtc", () => {
+  test("uses the timezone's offset on that date", () => {
+    expect(zonedTimeToUtc("2026-07-01T15:00", "America/New_York")?.toISOString()).toBe("2026-07-01T19:00:00.000Z");
+    expect(zonedTimeToUtc("2026-01-15T15:00", "America/New_York")?.toISOString()).toBe("2026-01-15T20:00:00.000Z");
+    expect(zonedTimeToUtc("2026-10-19 09:05:30", "Asia/Kolkata")?.toISOString()).toBe("2026-10-19T03:35:30.000Z");
+  });
+
+  test("the morning after a DST change", () => {
+    expect(zonedTimeToUtc("2026-03-08T07:00", "America/New_York")?.toISOString()).toBe("2026-03-08T11:00:00.000Z");
+    expect(zonedTimeToUtc("2026-10-25T07:00", "Europe/Berlin")?.toISOString()).toBe("2026-10-25T06:00:00.000Z");
+  });
+
+  test("rejects other formats", () => {
+    expect(zonedTimeToUtc("3pm", "UTC")).toBeNull();
+    expect(zonedTimeToUtc("2026-07-01", "UTC")).toBeNull();
+  });
+});
+
+describe("matchReminder", () => {
+  const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 12, minutes));
+  const pending: Reminder[] = [
+    { id: "pasta", kind: "timer", message: "pasta timer (8 minutes)", dueAt: at(8), timezone: null },
+    { id: "tea", kind: "timer", message: "3 minutes timer", dueAt: at(3), timezone: null },
+    { id: "mom", kind: "reminder", message: "call mom", dueAt: at(30), timezone: null },
+  ];
+
+  test("matches the message", () => {
+    expect(matchReminder(pending, "the pasta timer")?.id).toBe("pasta");
+    expect(matchReminder(pending, "call mom")?.id).toBe("mom");
+  });
+
+  test("ties go to the soonest", () => {
+    expect(matchReminder(pending, "my timer")?.id).toBe("tea");
+  });
+
+  test("nothing matches", () => {
+    expect(matchReminder(pending, "dentist")).toBeUndefined();
+    expect(matchReminder([pending[2]], "that one")?.id).toBe("mom");
+  });
+
+  test("location reminders match their place and sort after timed ones", () => {
+    const milk: Reminder = {
+      id: "milk", kind: "location", message: "buy milk", dueAt: null, timezone: null,
+      place: { name: "Trader Joe's", lat: 40.7, lng: -74, radiusM: 150, trigger: "enter" },
+    };
+    expect(matchReminder([...pending, milk], "the trader joe's one")?.id).toBe("milk");
+    expect(matchReminder([milk, ...pending], "reminder")?.id).toBe("mom");
+  });
+});
+
+describe("geofences", () => {
+  test("distanceMeters", () => {
+    // One degree of latitude is ~111 km
+    expect(Math.round(distanceMeters({ lat: 0, lng: 0 }, { lat: 1, lng: 0 }) / 1000)).toBe(111);
+    expect(distanceMeters({ lat: 40.7, lng: -74 }, { lat: 40.7, lng: -74 })).toBe(0);
+  });
+
+  test("hysteresis holds the state at the edge", () => {
+    const radius = 150;
+    const margin = 75;
+    const walk = [400, 160, 140, 170, 145, 200, 220, 230, 180];
+    const states: (GeofenceState | undefined)[] = [];
+    let state: GeofenceState | undefined;
+    for (const distance of walk) {
+      state = nextGeofenceState(state, distance, radius, margin);
+      states.push(state);
+    }
+    expect(states).toEqual(["outside", "outside", "inside", "inside", "inside", "inside", "inside", "outside", "outside"]);
+  });
+
+  test("a first fix in the margin band is undecided", () => {
+    expect(nextGeofenceState(undefined, 200, 150, 75)).toBeUndefined();
+  });
+});
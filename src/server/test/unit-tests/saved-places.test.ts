@@ -0,0 +1,40 @@
+/**
+ * Test: Saved Places
+ *
+ * Verifies that spoken references to a saved place ("my home", "the gym.",
+ * "at work") resolve to the place saved under that name, and nothing else does.
+ *
+ * Run: bun test src/server/test/unit-tests/saved-places.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { findSavedPlace, normalizePlaceName, type SavedPlace } from "../../manager/SavedPlacesManager";
+
+const places: SavedPlace[] = [
+  { id: "home", name: "Home", address: "12 Main St", lat: 40.7, lng: -74 },
+  { id: "gym", name: "the gym", address: null, lat: 40.71, lng: -74.01 },
+  { id: "moms", name: "Mom's house", address: "5 Elm St", lat: 40.8, lng: -73.9 },
+];
+
+describe("normalizePlaceName", () => {
+  test("drops articles, possessives, prepositions, and punctuation", () => {
+    expect(normalizePlaceName("My Home")).toBe("home");
+    expect(normalizePlaceName("the gym.")).toBe("gym");
+    expect(normalizePlaceName("at work")).toBe("work");
+    expect(normalizePlaceName("  Mom's   house! ")).toBe("mom's house");
+  });
+});
+
+describe("findSavedPlace", () => {
+  test("matches however the name is said", () => {
+    expect(findSavedPlace(places, "home")?.id).toBe("home");
+    expect(findSavedPlace(places, "my gym")?.id).toBe("gym");
+    expect(findSavedPlace(places, "Mom's House")?.id).toBe("moms");
+  });
+
+  test("other places don't match", () => {
+    expect(findSavedPlace(places, "Central Park")).toBeUndefined();
+    expect(findSavedPlace(places, "home depot")).toBeUndefined();
+    expect(findSavedPlace(places, "the")).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Test: Sentence Chunker
+ *
+ * Verifies streamed text deltas are split into speakable sentences
+ * without breaking on decimals, abbreviations, or short fragments.
+ *
+ * Run: bun test src/server/test/unit-tests/sentence-chunker.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { SentenceChunker } from "../../utils/sentence-chunker";
+
+/** Feed deltas one at a time and collect every emitted chunk (including the flush) */
+function chunkAll(deltas: string[]): string[] {
+  const chunker = new SentenceChunker();
+  const chunks: string[] = [];
+  for (const delta of deltas) {
+    chunks.push(...chunker.push(delta));
+  }
+  const rest = chunker.flush();
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+describe("SentenceChunker", () => {
+  test("emits a sentence once the following whitespace arrives", () => {
+    const chunker = new SentenceChunker();
+    expect(chunker.push("The weather is sunny today.")).toEqual([]);
+    expect(chunker.push(" Expect a high of")).toEqual(["The weather is sunny today."]);
+    expect(chunker.flush()).toBe("Expect a high of");
+  });
+
+  test("splits across streamed token boundaries", () => {
+    expect(chunkAll(["It's a gold", "en retriever. ", "It looks happy", "! Want more?"])).toEqual([
+      "It's a golden retriever.",
+      "It looks happy!",
+      "Want more?",
+    ]);
+  });
+
+  test("does not split decimals", () => {
+    expect(chunkAll(["The total is 3", ".", "5 miles away. Head north."])).toEqual([
+      "The total is 3.5 miles away.",
+      "Head north.",
+    ]);
+  });
+
+  test("does not split on common abbreviations", () => {
+    expect(chunkAll(["Dr. Smith is on Main St. near the park. It opens at nine."])).toEqual([
+      "Dr. Smith is on Main St. near the park.",
+      "It opens at nine.",
+    ]);
+  });
+
+  test("merges short fragments into the next chunk", () => {
+    expect(chunkAll(["Sure. The store closes at eight tonight."])).toEqual([
+      "Sure. The store closes at eight tonight.",
+    ]);
+  });
+
+  test("treats line breaks as boundaries", () => {
+    expect(chunkAll(["Here are three options\n1. Pizza Palace\n2. Taco Town"])).toEqual([
+      "Here are three options",
+      "1. Pizza Palace",
+      "2. Taco Town",
+    ]);
+  });
+
+  test("flush returns null when nothing is left", () => {
+    const chunker = new SentenceChunker();
+    chunker.push("All done here today. ");
+    expect(chunker.flush()).toBeNull();
+  });
+});
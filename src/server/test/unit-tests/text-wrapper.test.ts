@@ -0,0 +1,31 @@
+/**
+ * Test: HUD Text Formatting
+ *
+ * Verifies that markdown in a response — complete or streamed so far — is
+ * stripped to plain text for the display.
+ *
+ * Run: bun test src/server/test/unit-tests/text-wrapper.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { formatForDisplay } from "../../utils/text-wrapper";
+
+describe("formatForDisplay", () => {
+  test("plain text is unchanged", () => {
+    expect(formatForDisplay("It's 72°F and sunny in Austin.")).toBe("It's 72°F and sunny in Austin.");
+  });
+
+  test("strips headings, bullets, emphasis, code, and links", () => {
+    const text = "## Options\n- **Luigi's** — open until *10pm*\n- Try `Sushi Go`, see [the menu](https://example.com)";
+    expect(formatForDisplay(text)).toBe("Options\nLuigi's — open until 10pm\nTry Sushi Go, see the menu");
+  });
+
+  test("keeps numbered lists and underscores inside words", () => {
+    expect(formatForDisplay("1. Call snake_case_bob\n2. Leave")).toBe("1. Call snake_case_bob\n2. Leave");
+  });
+
+  test("drops markers still open mid-stream", () => {
+    expect(formatForDisplay("The **best option")).toBe("The best option");
+    expect(formatForDisplay("Run `npm")).toBe("Run npm");
+  });
+});
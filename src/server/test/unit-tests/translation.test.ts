@@ -0,0 +1,129 @@
+/**
+ * Test: Translate Mode Command
+ *
+ * Verifies that "translate X to Y" (in any supported language) starts translate
+ * mode with the right language pair, that a single language pairs with the
+ * user's own, and that ordinary translation questions stay with the agent.
+ * Also checks which transcripts TranslationManager translates and which it
+ * treats as the user's own speech.
+ *
+ * Run: bun test src/server/test/unit-tests/translation.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { parseTranslateCommand } from "../../agent/translation";
+import { TranslationManager } from "../../manager/TranslationManager";
+import type { User } from "../../session/User";
+
+describe("parseTranslateCommand", () => {
+  test("source and target in order", () => {
+    expect(parseTranslateCommand("translate Spanish to English", "en")).toEqual({ source: "es", target: "en" });
+    expect(parseTranslateCommand("Translate from French into German.", "en")).toEqual({ source: "fr", target: "de" });
+  });
+
+  test("one language pairs with the user's language", () => {
+    expect(parseTranslateCommand("translate German", "en")).toEqual({ source: "de", target: "en" });
+    expect(parseTranslateCommand("traduce del inglés", "es")).toEqual({ source: "en", target: "es" });
+  });
+
+  test("commands in other languages", () => {
+    expect(parseTranslateCommand("traduce del español al francés", "es")).toEqual({ source: "es", target: "fr" });
+    expect(parseTranslateCommand("Übersetze aus dem Englischen ins Deutsche", "de")).toEqual({ source: "en", target: "de" });
+    expect(parseTranslateCommand("traduis de l'anglais vers le français", "fr")).toEqual({ source: "en", target: "fr" });
+  });
+
+  test("ordinary translation questions go to the agent", () => {
+    expect(parseTranslateCommand("translate hello into Spanish", "en")).toBeNull();
+    expect(parseTranslateCommand("how do you translate cat to French", "en")).toBeNull();
+    expect(parseTranslateCommand("translate", "en")).toBeNull();
+  });
+
+  test("same language on both sides is not a command", () => {
+    expect(parseTranslateCommand("translate English", "en")).toBeNull();
+  });
+});
+
+type SourceHandler = (data: { text: string; isFinal: boolean; speakerId?: string; detectedLanguage?: string }) => void;
+
+/**
+ * A translate-mode session where each translation attempt is counted (the
+ * budget check is the first step of a translation) and then stops there.
+ */
+function makeTranslator(language = "en") {
+  const spoken: string[] = [];
+  const state = { attempts: 0, source: null as SourceHandler | null };
+  const user = {
+    userId: "test-user",
+    language,
+    aiConfig: { isConfigured: true },
+    budget: { applyBudget: () => { state.attempts++; return null; } },
+    exchange: { isActive: () => true },
+    appSession: {
+      audio: { speak: async (text: string) => { spoken.push(text); } },
+      events: {
+        onTranscriptionForLanguage: (_locale: string, handler: SourceHandler) => {
+          state.source = handler;
+          return () => { state.source = null; };
+        },
+      },
+    },
+  } as unknown as User;
+  return { translator: new TranslationManager(user), spoken, state };
+}
+
+/** Let queued translations run */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("TranslationManager.handleTranscript", () => {
+  test("translates the other speaker but not the user", async () => {
+    const { translator, state } = makeTranslator();
+    await translator.start({ source: "es", target: "en" }, "1");
+
+    translator.handleTranscript("¿Dónde está la estación?", "2");
+    translator.handleTranscript("Where is the station?", "1");
+    await settle();
+    expect(state.attempts).toBe(1);
+  });
+
+  test("without speaker IDs, the user's language on the source stream is theirs", async () => {
+    const { translator, state } = makeTranslator();
+    await translator.start({ source: "es", target: "en" });
+
+    state.source?.({ text: "¿Dónde está la estación?", isFinal: true, detectedLanguage: "es" });
+    state.source?.({ text: "Where is the station?", isFinal: true, detectedLanguage: "en-US" });
+    state.source?.({ text: "That's all.", isFinal: true });
+    state.source?.({ text: "Gracias", isFinal: false });
+    await settle();
+    expect(state.attempts).toBe(1);
+  });
+
+  test("won't translate from the user's own language without speaker IDs", async () => {
+    const { translator, spoken, state } = makeTranslator("es");
+    await translator.start({ source: "es", target: "en" });
+    expect(translator.isActive()).toBe(false);
+    expect(spoken[0]).toContain("no puedo traducir del español");
+
+    await translator.start({ source: "es", target: "en" }, "1");
+    translator.handleTranscript("¿Dónde está la estación?", "2");
+    translator.handleTranscript("Y el tren?");
+    await settle();
+    expect(state.attempts).toBe(1);
+  });
+
+  test("ignores transcripts once translate mode ends", async () => {
+    const { translator, state } = makeTranslator();
+    await translator.start({ source: "es", target: "en" });
+    translator.destroy();
+
+    translator.handleTranscript("¿Dónde está la estación?", "2");
+    await settle();
+    expect(state.attempts).toBe(0);
+    expect(state.source).toBeNull();
+  });
+
+  test("status lines are in the user's language", async () => {
+    const { translator, spoken } = makeTranslator("es");
+    await translator.start({ source: "de", target: "es" });
+    expect(spoken[0]).toBe('Traduciendo del alemán al español. Di "eso es todo" cuando termines.');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Test: Usage Tracking
+ *
+ * Verifies cost estimates from MODEL_PRICING and the per-purpose
+ * spend summary shown in the settings panel.
+ *
+ * Run: bun test src/server/test/unit-tests/usage-tracking.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { estimateCost, MODEL_CATALOG, MODEL_PRICING } from "../../agent/providers/types";
+import { summarizeUsage } from "../../manager/usage-tracking";
+
+describe("estimateCost", () => {
+  test("prices input and output tokens per million", () => {
+    expect(estimateCost("openai", "gpt-5-mini", 1_000_000, 1_000_000)).toBeCloseTo(2.25);
+    expect(estimateCost("anthropic", "claude-haiku-4-5-20251001", 2000, 500)).toBeCloseTo(0.0045);
+  });
+
+  test("returns null for custom models and unknown IDs", () => {
+    expect(estimateCost("custom", "llama3.1", 1000, 1000)).toBeNull();
+    expect(estimateCost("openai", "gpt-unknown", 1000, 1000)).toBeNull();
+  });
+
+  test("every catalog model has a price", () => {
+    for (const models of Object.values(MODEL_CATALOG)) {
+      for (const model of models) {
+        expect(MODEL_PRICING[model.id]).toBeDefined();
+      }
+    }
+  });
+});
+
+describe("summarizeUsage", () => {
+  test("groups by purpose, most expensive first", () => {
+    const summary = summarizeUsage([
+      { purpose: "exchange_tags", inputTokens: 100, outputTokens: 10, costUsd: 0.001 },
+      { purpose: "agent", inputTokens: 2000, outputTokens: 200, costUsd: 0.02 },
+      { purpose: "agent", inputTokens: 1000, outputTokens: 100, costUsd: 0.01 },
+    ]);
+    expect(summary.byPurpose.map(p => p.purpose)).toEqual(["agent", "exchange_tags"]);
+    expect(summary.byPurpose[0].calls).toBe(2);
+    expect(summary.costUsd).toBeCloseTo(0.031);
+    expect(summary.inputTokens).toBe(3100);
+    expect(summary.hasUnpricedUsage).toBe(false);
+  });
+
+  test("flags usage without a known price", () => {
+    const summary = summarizeUsage([{ purpose: "agent", inputTokens: 500, outputTokens: 50, costUsd: null }]);
+    expect(summary.costUsd).toBe(0);
+    expect(summary.hasUnpricedUsage).toBe(true);
+  });
+});
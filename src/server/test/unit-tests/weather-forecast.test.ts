@@ -0,0 +1,90 @@
+/**
+ * Test: Weather Forecast
+ *
+ * Verifies that Google Weather hourly/daily forecast responses parse into
+ * local times, both temperature units, conditions, and precipitation chances,
+ * and that missing fields fall back instead of throwing.
+ *
+ * Run: bun test src/server/test/unit-tests/weather-forecast.test.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { parseDailyForecast, parseHourlyForecast } from "../../manager/location-providers";
+import { formatForecast } from "../../agent/tools/weather.tool";
+
+const hoursResponse = {
+  forecastHours: [
+    {
+      displayDateTime: { year: 2026, month: 10, day: 19, hours: 14, minutes: 0 },
+      temperature: { degrees: 21.6, unit: "CELSIUS" },
+      weatherCondition: { description: { text: "Cloudy" } },
+      precipitation: { probability: { percent: 20 } },
+    },
+    { displayDateTime: { year: 2026, month: 10, day: 19, hours: 15 } },
+  ],
+};
+
+const daysResponse = {
+  forecastDays: [
+    {
+      displayDate: { year: 2026, month: 10, day: 24 },
+      maxTemperature: { degrees: 18 },
+      minTemperature: { degrees: 9.4 },
+      daytimeForecast: {
+        weatherCondition: { description: { text: "Light rain" } },
+        precipitation: { probability: { percent: 60 } },
+      },
+      nighttimeForecast: {
+        weatherCondition: { description: { text: "Showers" } },
+        precipitation: { probability: { percent: 80 } },
+      },
+    },
+  ],
+};
+
+describe("parseHourlyForecast", () => {
+  test("reads local time, temperatures, condition, and precipitation", () => {
+    const [hour] = parseHourlyForecast(hoursResponse);
+    expect(hour).toEqual({
+      date: "2026-10-19",
+      time: "14:00",
+      temperature: 72,
+      temperatureCelsius: 22,
+      condition: "Cloudy",
+      precipitationChance: 20,
+    });
+  });
+
+  test("falls back for missing fields", () => {
+    const hour = parseHourlyForecast(hoursResponse)[1];
+    expect(hour.time).toBe("15:00");
+    expect(hour.condition).toBe("Unknown");
+    expect(hour.precipitationChance).toBe(0);
+    expect(parseHourlyForecast({})).toEqual([]);
+  });
+});
+
+describe("parseDailyForecast", () => {
+  test("reads highs, lows, day/night conditions, and the higher precipitation chance", () => {
+    const [day] = parseDailyForecast(daysResponse);
+    expect(day.date).toBe("2026-10-24");
+    expect(day.highCelsius).toBe(18);
+    expect(day.lowCelsius).toBe(9);
+    expect(day.condition).toBe("Light rain");
+    expect(day.nightCondition).toBe("Showers");
+    expect(day.precipitationChance).toBe(80);
+  });
+});
+
+describe("formatForecast", () => {
+  test("labels days by weekday", () => {
+    const text = formatForecast({
+      hourly: parseHourlyForecast(hoursResponse),
+      daily: parseDailyForecast(daysResponse),
+      fetchedAt: 0,
+    }, "home");
+    expect(text).toContain("Forecast for home");
+    expect(text).toContain("- Mon 14:00: 72°F (22°C), Cloudy, 20% chance of precipitation");
+    expect(text).toContain("- Sat, Oct 24: high");
+  });
+});
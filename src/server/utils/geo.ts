@@ -0,0 +1,96 @@
+/**
+ * Geo utilities — distances, route polylines, and geofence enter/exit with hysteresis
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type GeofenceState = "inside" | "outside";
+
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Great-circle distance between two coordinates, in meters (haversine).
+ */
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Decode a Google encoded polyline (as returned by the Routes API).
+ */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const next = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+  return points;
+}
+
+/**
+ * Shortest distance from a point to a path, in meters. Segments are
+ * projected flat around the point — accurate at street scale.
+ */
+export function distanceToPathMeters(point: LatLng, path: LatLng[]): number {
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) return distanceMeters(point, path[0]);
+
+  // Local meters-per-degree around the point
+  const mPerLat = 111320;
+  const mPerLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+  const toXY = (p: LatLng) => ({ x: (p.lng - point.lng) * mPerLng, y: (p.lat - point.lat) * mPerLat });
+
+  let best = Infinity;
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = toXY(path[i]);
+    const b = toXY(path[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    // Projection of the point (the origin) onto the segment, clamped to its ends
+    const t = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSq));
+    best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return best;
+}
+
+/**
+ * Inside/outside for a geofence with hysteresis: you're inside once within
+ * the radius, and only outside again beyond radius + margin. In between the
+ * previous state holds, so GPS jitter at the edge can't flip it back and forth.
+ * Returns undefined while the first fix is still in the margin band.
+ */
+export function nextGeofenceState(
+  previous: GeofenceState | undefined,
+  distanceM: number,
+  radiusM: number,
+  marginM: number,
+): GeofenceState | undefined {
+  if (distanceM <= radiusM) return "inside";
+  if (distanceM > radiusM + marginM) return "outside";
+  return previous;
+}
@@ -0,0 +1,16 @@
+/**
+ * Row IDs
+ *
+ * Table ids are UUID columns: Postgres rejects anything else outright, so
+ * routes check a `:id` param first and answer 404 instead of a query error.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a value can be a row id (a UUID)
+ * @param value The id from the request
+ */
+export function isUuid(value: string | undefined): value is string {
+  return !!value && UUID_PATTERN.test(value);
+}
@@ -6,3 +6,7 @@ export * from './wake-word';
 export * from './location-keywords';
 export * from './text-wrapper';
 export * from './tts-formatter';
+export * from './sentence-chunker';
+export * from './timezone';
+export * from './geo';
+export * from './ids';
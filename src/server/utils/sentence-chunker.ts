@@ -0,0 +1,74 @@
+/**
+ * Sentence Chunker
+ *
+ * Splits a streamed LLM response into speakable chunks at sentence boundaries,
+ * so TTS can start on the first sentence while the rest is still generating.
+ */
+
+/**
+ * Sentence-ending punctuation (with optional closing quotes/brackets) followed by
+ * whitespace, or a line break. Requiring the trailing whitespace means "3." is held
+ * until we know whether it's "3. " (end of sentence) or "3.5" (decimal).
+ */
+const BOUNDARY = /[.!?…]+["'”’)\]]*(?=\s)|\n+/g;
+
+/**
+ * Common abbreviations that end in a period but don't end a sentence
+ */
+const ABBREVIATION = /^(mr|mrs|ms|dr|st|jr|sr|vs|etc|approx|e\.g|i\.e|[a-z])\.$/i;
+
+/**
+ * Sentences shorter than this are merged into the next chunk
+ * (avoids speaking "1." or "Ok." as separate TTS requests)
+ */
+const MIN_CHUNK_CHARS = 12;
+
+/**
+ * Accumulates text deltas and emits complete sentences as they become available.
+ *
+ * Usage:
+ *   const chunker = new SentenceChunker();
+ *   for (const delta of stream) {
+ *     for (const sentence of chunker.push(delta)) speak(sentence);
+ *   }
+ *   const rest = chunker.flush();
+ *   if (rest) speak(rest);
+ */
+export class SentenceChunker {
+  private buffer = '';
+
+  /**
+   * Add a text delta and return any sentences completed by it
+   */
+  push(delta: string): string[] {
+    this.buffer += delta;
+
+    const sentences: string[] = [];
+    let cut = 0;
+
+    for (const match of this.buffer.matchAll(BOUNDARY)) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(cut, end).trim();
+
+      // Line breaks always end a chunk; punctuation only if it isn't an abbreviation
+      const isLineBreak = match[0].startsWith('\n');
+      if (!isLineBreak && ABBREVIATION.test(candidate.split(/\s+/).pop() ?? '')) continue;
+      if (candidate.length < MIN_CHUNK_CHARS) continue;
+
+      sentences.push(candidate);
+      cut = end;
+    }
+
+    this.buffer = this.buffer.slice(cut);
+    return sentences;
+  }
+
+  /**
+   * Return whatever text remains once the stream has ended
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest.length > 0 ? rest : null;
+  }
+}
@@ -78,3 +78,23 @@ export function wrapText(text: any, maxLength = 25): string {
     })
     .join('\n');
 }
+
+/**
+ * Strip markdown the model sometimes writes despite the prompt — headings,
+ * bullets, emphasis, inline code, and links — so the HUD shows plain text.
+ * Safe on a partial response: unclosed markers are dropped too.
+ * @param text Response text (complete or streamed so far)
+ * @returns Plain text for showTextWall
+ */
+export function formatForDisplay(text: string): string {
+  return text
+    .replace(/^```.*$/gm, '')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^(\s*)[-*+•]\s+/gm, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/\*\*/g, '')
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]+?)(?<=\S)\*/g, '$1$2')
+    .replace(/`([^`\n]*)`?/g, '$1')
+    .replace(/\n{3,}/g, '\n\n');
+}
@@ -0,0 +1,54 @@
+/**
+ * Timezone helpers — convert the user's local wall-clock time to UTC and back
+ * without a date library (Intl does the zone math).
+ */
+
+/**
+ * Offset of a timezone from UTC at an instant, in ms (e.g. -4h for New York in summer).
+ */
+export function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Parse a local "YYYY-MM-DDTHH:mm[:ss]" in the given timezone to a UTC Date.
+ * Returns null if the text isn't in that format.
+ */
+export function zonedTimeToUtc(local: string, timezone: string): Date | null {
+  const match = local.trim().match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1, 6).map(Number);
+  const second = match[6] ? Number(match[6]) : 0;
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Second pass: the offset at the first guess can differ from the answer's across a DST change
+  const firstGuess = wallClock - getTimezoneOffsetMs(new Date(wallClock), timezone);
+  return new Date(wallClock - getTimezoneOffsetMs(new Date(firstGuess), timezone));
+}
+
+/**
+ * Format an instant as local time for the agent, e.g. "Mon, Mar 14, 3:00 PM".
+ */
+export function formatLocalDateTime(date: Date, timezone?: string): string {
+  return date.toLocaleString("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
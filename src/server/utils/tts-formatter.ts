@@ -5,137 +5,69 @@
  * Converts numbers, symbols, and abbreviations to spoken form.
  */
 
-/**
- * Number words for conversion
- */
-const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
-  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
-const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
-
-/**
- * Convert a number to words
- * @param num The number to convert
- * @returns The number as words
- */
-function numberToWords(num: number): string {
-  if (!Number.isFinite(num)) return String(num);
-
-  const absNum = Math.abs(num);
-  const isNegative = num < 0;
-
-  // Handle decimals
-  if (!Number.isInteger(absNum)) {
-    const [intPart, decPart] = absNum.toString().split('.');
-    const intWords = numberToWords(parseInt(intPart, 10));
-    const decWords = decPart.split('').map(d => ONES[parseInt(d, 10)]).join(' ');
-    return (isNegative ? 'negative ' : '') + intWords + ' point ' + decWords;
-  }
-
-  if (absNum < 20) {
-    return (isNegative ? 'negative ' : '') + ONES[absNum];
-  }
-
-  if (absNum < 100) {
-    const ten = Math.floor(absNum / 10);
-    const one = absNum % 10;
-    return (isNegative ? 'negative ' : '') + TENS[ten] + (one ? '-' + ONES[one] : '');
-  }
-
-  if (absNum < 1000) {
-    const hundred = Math.floor(absNum / 100);
-    const remainder = absNum % 100;
-    return (isNegative ? 'negative ' : '') + ONES[hundred] + ' hundred' + (remainder ? ' ' + numberToWords(remainder) : '');
-  }
-
-  if (absNum < 1000000) {
-    const thousand = Math.floor(absNum / 1000);
-    const remainder = absNum % 1000;
-    return (isNegative ? 'negative ' : '') + numberToWords(thousand) + ' thousand' + (remainder ? ' ' + numberToWords(remainder) : '');
-  }
+import type { Language } from "../constants/languages";
+import { TTS_LOCALES } from "./tts-locales";
 
-  if (absNum < 1000000000) {
-    const million = Math.floor(absNum / 1000000);
-    const remainder = absNum % 1000000;
-    return (isNegative ? 'negative ' : '') + numberToWords(million) + ' million' + (remainder ? ' ' + numberToWords(remainder) : '');
-  }
-
-  // For very large numbers, just return as-is
-  return (isNegative ? 'negative ' : '') + absNum.toString();
-}
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 /**
  * Format text for TTS output
  * Converts numbers, symbols, and abbreviations to spoken form.
  *
  * @param text The text to format
+ * @param language Which locale's number words and units to use
  * @returns Text formatted for natural speech
  */
-export function formatForTTS(text: string): string {
-  let result = text;
+export function formatForTTS(text: string, language: Language = "en"): string {
+  const locale = TTS_LOCALES[language];
+  const numberToWords = locale.numberToWords;
+  let result = locale.normalize ? locale.normalize(text) : text;
 
   // Temperature: "72°F" -> "seventy-two degrees fahrenheit"
   result = result.replace(/(\d+(?:\.\d+)?)\s*°\s*F\b/gi, (_, num) => {
-    return numberToWords(parseFloat(num)) + ' degrees fahrenheit';
+    return numberToWords(parseFloat(num)) + ' ' + locale.fahrenheit;
   });
 
   // Temperature: "22°C" -> "twenty-two degrees celsius"
   result = result.replace(/(\d+(?:\.\d+)?)\s*°\s*C\b/gi, (_, num) => {
-    return numberToWords(parseFloat(num)) + ' degrees celsius';
+    return numberToWords(parseFloat(num)) + ' ' + locale.celsius;
   });
 
   // Generic degrees: "45°" -> "forty-five degrees"
   result = result.replace(/(\d+(?:\.\d+)?)\s*°/g, (_, num) => {
-    return numberToWords(parseFloat(num)) + ' degrees';
+    return numberToWords(parseFloat(num)) + ' ' + locale.degrees;
   });
 
-  // Currency: "$999" -> "nine hundred ninety-nine dollars"
-  result = result.replace(/\$(\d+(?:,\d{3})*(?:\.\d{2})?)/g, (_, num) => {
-    const cleanNum = num.replace(/,/g, '');
-    const parts = cleanNum.split('.');
-    let words = numberToWords(parseInt(parts[0], 10)) + ' dollars';
-    if (parts[1] && parseInt(parts[1], 10) > 0) {
-      words += ' and ' + numberToWords(parseInt(parts[1], 10)) + ' cents';
-    }
-    return words;
-  });
+  // Currency: "$999" -> "nine hundred ninety-nine dollars" (symbol before or after the amount)
+  for (const [symbol, [unit, subunit]] of Object.entries(locale.currencies)) {
+    const amount = '(\\d+(?:,\\d{3})*(?:\\.\\d{2})?)';
+    const spoken = (num: string) => {
+      const cleanNum = num.replace(/,/g, '');
+      const parts = cleanNum.split('.');
+      let words = numberToWords(parseInt(parts[0], 10)) + ' ' + unit;
+      if (parts[1] && parseInt(parts[1], 10) > 0) {
+        words += ` ${locale.and} ` + numberToWords(parseInt(parts[1], 10)) + ' ' + subunit;
+      }
+      return words;
+    };
+    result = result.replace(new RegExp(escapeRegExp(symbol) + amount, 'g'), (_, num) => spoken(num));
+    result = result.replace(new RegExp(amount + '\\s*' + escapeRegExp(symbol), 'g'), (_, num) => spoken(num));
+  }
 
   // Percentage: "45%" -> "forty-five percent"
   result = result.replace(/(\d+(?:\.\d+)?)\s*%/g, (_, num) => {
-    return numberToWords(parseFloat(num)) + ' percent';
+    return numberToWords(parseFloat(num)) + ' ' + locale.percent;
   });
 
   // Times: "3:30" -> "three thirty" or "3:00" -> "three o'clock"
   result = result.replace(/(\d{1,2}):(\d{2})(?:\s*(AM|PM|am|pm))?/g, (_, hours, minutes, ampm) => {
-    const h = parseInt(hours, 10);
-    const m = parseInt(minutes, 10);
-    let timeWords = numberToWords(h);
-
-    if (m === 0) {
-      timeWords += " o'clock";
-    } else if (m < 10) {
-      timeWords += ' oh ' + numberToWords(m);
-    } else {
-      timeWords += ' ' + numberToWords(m);
-    }
-
-    if (ampm) {
-      timeWords += ' ' + ampm.toUpperCase().split('').join(' ');
-    }
-
-    return timeWords;
+    return locale.time(parseInt(hours, 10), parseInt(minutes, 10), ampm);
   });
 
   // Units — must run BEFORE number-to-words conversion so digit prefixes still match
-  result = result.replace(/(\d)\s*mph\b/gi, '$1 miles per hour');
-  result = result.replace(/(\d)\s*kph\b/gi, '$1 kilometers per hour');
-  result = result.replace(/(\d)\s*km\b/gi, '$1 kilometers');
-  result = result.replace(/(\d)\s*mi\b/gi, '$1 miles');
-  result = result.replace(/(\d)\s*lbs?\b/gi, '$1 pounds');
-  result = result.replace(/(\d)\s*kg\b/gi, '$1 kilograms');
-  result = result.replace(/(\d)\s*ft\b/gi, '$1 feet');
-  result = result.replace(/(\d)\s*in\b/gi, '$1 inches');
-  result = result.replace(/(\d)\s*cm\b/gi, '$1 centimeters');
-  result = result.replace(/(\d)\s*mm\b/gi, '$1 millimeters');
+  for (const [unit, words] of locale.units) {
+    result = result.replace(new RegExp(`(\\d)\\s*${unit}\\b`, 'gi'), `$1 ${words}`);
+  }
 
   // Standalone numbers: "42" -> "forty-two" (only if not part of a word)
   result = result.replace(/\b(\d+(?:\.\d+)?)\b/g, (_, num) => {
@@ -143,17 +75,9 @@ export function formatForTTS(text: string): string {
   });
 
   // Common abbreviations
-  result = result.replace(/\be\.g\./gi, 'for example');
-  result = result.replace(/\bi\.e\./gi, 'that is');
-  result = result.replace(/\betc\./gi, 'et cetera');
-  result = result.replace(/\bvs\./gi, 'versus');
-  result = result.replace(/\bDr\./gi, 'Doctor');
-  result = result.replace(/\bMr\./gi, 'Mister');
-  result = result.replace(/\bMrs\./gi, 'Missus');
-  result = result.replace(/\bMs\./gi, 'Miss');
-  result = result.replace(/\bSt\./gi, 'Street');
-  result = result.replace(/\bAve\./gi, 'Avenue');
-  result = result.replace(/\bBlvd\./gi, 'Boulevard');
+  for (const [pattern, words] of locale.abbreviations) {
+    result = result.replace(pattern, words);
+  }
 
   // Clean up extra whitespace
   result = result.replace(/\s+/g, ' ').trim();
@@ -0,0 +1,365 @@
+/**
+ * TTS Locales — per-language spoken forms for the TTS formatter
+ *
+ * Each locale spells out numbers and supplies the words for units, currency,
+ * temperatures, times, and common abbreviations. formatForTTS runs the same
+ * steps for every language and takes the wording from here.
+ */
+
+import type { Language } from "../constants/languages";
+
+export interface TtsLocale {
+  /** Convert a number to words */
+  numberToWords(num: number): string;
+  /** Rewrite locale number formats ("1.234,5", "15 h 30") into the forms the formatter expects */
+  normalize?(text: string): string;
+  degrees: string;
+  fahrenheit: string;
+  celsius: string;
+  percent: string;
+  /** Joins whole and fractional currency amounts ("and", "con", ...) */
+  and: string;
+  /** Currency symbol → [unit, subunit] words */
+  currencies: Record<string, [string, string]>;
+  /** Spoken time of day */
+  time(hours: number, minutes: number, ampm?: string): string;
+  /** [unit regex source, words] — matched after a digit */
+  units: [string, string][];
+  abbreviations: [RegExp, string][];
+}
+
+/**
+ * Shared sign and decimal handling — integer() spells a whole number
+ * (returning digits when it's too large to spell).
+ */
+function spell(num: number, integer: (n: number) => string, minus: string, point: string): string {
+  if (!Number.isFinite(num)) return String(num);
+
+  const absNum = Math.abs(num);
+  const sign = num < 0 ? `${minus} ` : '';
+
+  // Handle decimals
+  if (!Number.isInteger(absNum)) {
+    const [intPart, decPart] = absNum.toString().split('.');
+    const decWords = decPart.split('').map(d => integer(parseInt(d, 10))).join(' ');
+    return sign + integer(parseInt(intPart, 10)) + ` ${point} ` + decWords;
+  }
+
+  return sign + integer(absNum);
+}
+
+// ─── English ───
+
+const EN_ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+function englishInteger(n: number): string {
+  if (n < 20) return EN_ONES[n];
+  if (n < 100) {
+    const one = n % 10;
+    return EN_TENS[Math.floor(n / 10)] + (one ? '-' + EN_ONES[one] : '');
+  }
+  if (n < 1000) {
+    const remainder = n % 100;
+    return EN_ONES[Math.floor(n / 100)] + ' hundred' + (remainder ? ' ' + englishInteger(remainder) : '');
+  }
+  if (n < 1000000) {
+    const remainder = n % 1000;
+    return englishInteger(Math.floor(n / 1000)) + ' thousand' + (remainder ? ' ' + englishInteger(remainder) : '');
+  }
+  if (n < 1000000000) {
+    const remainder = n % 1000000;
+    return englishInteger(Math.floor(n / 1000000)) + ' million' + (remainder ? ' ' + englishInteger(remainder) : '');
+  }
+  // For very large numbers, just return as-is
+  return n.toString();
+}
+
+const english: TtsLocale = {
+  numberToWords: (num) => spell(num, englishInteger, 'negative', 'point'),
+  degrees: 'degrees',
+  fahrenheit: 'degrees fahrenheit',
+  celsius: 'degrees celsius',
+  percent: 'percent',
+  and: 'and',
+  currencies: { '$': ['dollars', 'cents'] },
+  time: (hours, minutes, ampm) => {
+    let timeWords = englishInteger(hours);
+    if (minutes === 0) {
+      timeWords += " o'clock";
+    } else if (minutes < 10) {
+      timeWords += ' oh ' + englishInteger(minutes);
+    } else {
+      timeWords += ' ' + englishInteger(minutes);
+    }
+    if (ampm) {
+      timeWords += ' ' + ampm.toUpperCase().split('').join(' ');
+    }
+    return timeWords;
+  },
+  units: [
+    ['mph', 'miles per hour'],
+    ['kph', 'kilometers per hour'],
+    ['km', 'kilometers'],
+    ['mi', 'miles'],
+    ['lbs?', 'pounds'],
+    ['kg', 'kilograms'],
+    ['ft', 'feet'],
+    ['in', 'inches'],
+    ['cm', 'centimeters'],
+    ['mm', 'millimeters'],
+  ],
+  abbreviations: [
+    [/\be\.g\./gi, 'for example'],
+    [/\bi\.e\./gi, 'that is'],
+    [/\betc\./gi, 'et cetera'],
+    [/\bvs\./gi, 'versus'],
+    [/\bDr\./gi, 'Doctor'],
+    [/\bMr\./gi, 'Mister'],
+    [/\bMrs\./gi, 'Missus'],
+    [/\bMs\./gi, 'Miss'],
+    [/\bSt\./gi, 'Street'],
+    [/\bAve\./gi, 'Avenue'],
+    [/\bBlvd\./gi, 'Boulevard'],
+  ],
+};
+
+/**
+ * "1.234,5" → "1234.5" (dot thousands, comma decimals — Spanish and German)
+ */
+function normalizeDecimalComma(text: string): string {
+  return text
+    .replace(/(\d)\.(?=\d{3}(?!\d))/g, '$1')
+    .replace(/(\d),(\d)/g, '$1.$2');
+}
+
+// ─── Spanish ───
+
+const ES_ONES = ['cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve',
+  'diez', 'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve',
+  'veinte', 'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete', 'veintiocho', 'veintinueve'];
+const ES_TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const ES_HUNDREDS = ['', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos', 'ochocientos', 'novecientos'];
+
+/** "veintiuno mil" → "veintiún mil" */
+const spanishApocope = (words: string) => words.replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un');
+
+function spanishInteger(n: number): string {
+  if (n < 30) return ES_ONES[n];
+  if (n < 100) {
+    const one = n % 10;
+    return ES_TENS[Math.floor(n / 10)] + (one ? ' y ' + ES_ONES[one] : '');
+  }
+  if (n === 100) return 'cien';
+  if (n < 1000) {
+    const remainder = n % 100;
+    return ES_HUNDREDS[Math.floor(n / 100)] + (remainder ? ' ' + spanishInteger(remainder) : '');
+  }
+  if (n < 1000000) {
+    const thousands = Math.floor(n / 1000);
+    const remainder = n % 1000;
+    return (thousands === 1 ? 'mil' : spanishApocope(spanishInteger(thousands)) + ' mil') + (remainder ? ' ' + spanishInteger(remainder) : '');
+  }
+  if (n < 1000000000) {
+    const millions = Math.floor(n / 1000000);
+    const remainder = n % 1000000;
+    return (millions === 1 ? 'un millón' : spanishApocope(spanishInteger(millions)) + ' millones') + (remainder ? ' ' + spanishInteger(remainder) : '');
+  }
+  return n.toString();
+}
+
+const spanish: TtsLocale = {
+  numberToWords: (num) => spell(num, spanishInteger, 'menos', 'coma'),
+  normalize: normalizeDecimalComma,
+  degrees: 'grados',
+  fahrenheit: 'grados Fahrenheit',
+  celsius: 'grados Celsius',
+  percent: 'por ciento',
+  and: 'con',
+  currencies: { '$': ['dólares', 'centavos'], '€': ['euros', 'céntimos'] },
+  time: (hours, minutes, ampm) =>
+    (hours === 1 ? 'una' : spanishInteger(hours))
+    + (minutes === 0 ? ' en punto' : ' y ' + spanishInteger(minutes))
+    + (ampm ? (ampm.toUpperCase() === 'AM' ? ' de la mañana' : ' de la tarde') : ''),
+  units: [
+    ['mph', 'millas por hora'],
+    ['km/h', 'kilómetros por hora'],
+    ['kph', 'kilómetros por hora'],
+    ['km', 'kilómetros'],
+    ['mi', 'millas'],
+    ['lbs?', 'libras'],
+    ['kg', 'kilogramos'],
+    ['ft', 'pies'],
+    ['cm', 'centímetros'],
+    ['mm', 'milímetros'],
+  ],
+  abbreviations: [
+    [/\bp\.\s?ej\./gi, 'por ejemplo'],
+    [/\betc\./gi, 'etcétera'],
+    [/\bSra\./g, 'señora'],
+    [/\bSr\./g, 'señor'],
+    [/\bDra\./g, 'doctora'],
+    [/\bDr\./g, 'doctor'],
+    [/\bAv(da)?\./g, 'avenida'],
+  ],
+};
+
+// ─── German ───
+
+const DE_ONES = ['null', 'eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun',
+  'zehn', 'elf', 'zwölf', 'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn', 'siebzehn', 'achtzehn', 'neunzehn'];
+const DE_TENS = ['', '', 'zwanzig', 'dreißig', 'vierzig', 'fünfzig', 'sechzig', 'siebzig', 'achtzig', 'neunzig'];
+
+/** Number as a compound prefix: "eins" → "ein" ("einhundert", "einundzwanzigtausend") */
+const germanPrefix = (n: number) => (n === 1 ? 'ein' : germanInteger(n).replace(/eins$/, 'ein'));
+
+function germanInteger(n: number): string {
+  if (n < 20) return DE_ONES[n];
+  if (n < 100) {
+    const one = n % 10;
+    return (one ? (one === 1 ? 'ein' : DE_ONES[one]) + 'und' : '') + DE_TENS[Math.floor(n / 10)];
+  }
+  if (n < 1000) {
+    const remainder = n % 100;
+    return germanPrefix(Math.floor(n / 100)) + 'hundert' + (remainder ? germanInteger(remainder) : '');
+  }
+  if (n < 1000000) {
+    const remainder = n % 1000;
+    return germanPrefix(Math.floor(n / 1000)) + 'tausend' + (remainder ? germanInteger(remainder) : '');
+  }
+  if (n < 1000000000) {
+    const millions = Math.floor(n / 1000000);
+    const remainder = n % 1000000;
+    return (millions === 1 ? 'eine Million' : germanInteger(millions) + ' Millionen') + (remainder ? ' ' + germanInteger(remainder) : '');
+  }
+  return n.toString();
+}
+
+const german: TtsLocale = {
+  numberToWords: (num) => spell(num, germanInteger, 'minus', 'Komma'),
+  // "15:30 Uhr" → "15:30" (the time step adds "Uhr" itself)
+  normalize: (text) => normalizeDecimalComma(text).replace(/(\d{1,2}:\d{2})\s*Uhr\b/g, '$1'),
+  degrees: 'Grad',
+  fahrenheit: 'Grad Fahrenheit',
+  celsius: 'Grad Celsius',
+  percent: 'Prozent',
+  and: 'und',
+  currencies: { '$': ['Dollar', 'Cent'], '€': ['Euro', 'Cent'] },
+  time: (hours, minutes, ampm) =>
+    (hours === 1 ? 'ein' : germanInteger(hours)) + ' Uhr'
+    + (minutes ? ' ' + germanInteger(minutes) : '')
+    + (ampm ? (ampm.toUpperCase() === 'AM' ? ' vormittags' : ' nachmittags') : ''),
+  units: [
+    ['mph', 'Meilen pro Stunde'],
+    ['km/h', 'Kilometer pro Stunde'],
+    ['kph', 'Kilometer pro Stunde'],
+    ['km', 'Kilometer'],
+    ['mi', 'Meilen'],
+    ['lbs?', 'Pfund'],
+    ['kg', 'Kilogramm'],
+    ['ft', 'Fuß'],
+    ['cm', 'Zentimeter'],
+    ['mm', 'Millimeter'],
+  ],
+  abbreviations: [
+    [/\bz\.\s?B\./g, 'zum Beispiel'],
+    [/\bd\.\s?h\./g, 'das heißt'],
+    [/\busw\./g, 'und so weiter'],
+    [/\bbzw\./g, 'beziehungsweise'],
+    [/\bca\./g, 'circa'],
+    [/\bDr\./g, 'Doktor'],
+    [/\bStr\./g, 'Straße'],
+    [/\bNr\./g, 'Nummer'],
+  ],
+};
+
+// ─── French ───
+
+const FR_ONES = ['zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf',
+  'dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize'];
+const FR_TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+
+function frenchUnder100(n: number): string {
+  if (n < 17) return FR_ONES[n];
+  if (n < 20) return 'dix-' + FR_ONES[n - 10];
+  const ten = Math.floor(n / 10);
+  const one = n % 10;
+  // 70–99 count on from sixty and eighty ("soixante-douze", "quatre-vingt-dix")
+  if (ten === 7) return n === 71 ? 'soixante et onze' : 'soixante-' + frenchUnder100(n - 60);
+  if (ten === 8) return one ? 'quatre-vingt-' + FR_ONES[one] : 'quatre-vingts';
+  if (ten === 9) return 'quatre-vingt-' + frenchUnder100(n - 80);
+  return FR_TENS[ten] + (one === 1 ? ' et un' : one ? '-' + FR_ONES[one] : '');
+}
+
+function frenchInteger(n: number): string {
+  if (n < 100) return frenchUnder100(n);
+  if (n < 1000) {
+    const hundreds = Math.floor(n / 100);
+    const remainder = n % 100;
+    const head = hundreds === 1 ? 'cent' : FR_ONES[hundreds] + ' cent';
+    return remainder ? head + ' ' + frenchUnder100(remainder) : head + (hundreds > 1 ? 's' : '');
+  }
+  if (n < 1000000) {
+    const thousands = Math.floor(n / 1000);
+    const remainder = n % 1000;
+    // "mille" is invariable and drops the plural of cents/vingts before it
+    const head = thousands === 1 ? 'mille' : frenchInteger(thousands).replace(/(cent|vingt)s$/, '$1') + ' mille';
+    return head + (remainder ? ' ' + frenchInteger(remainder) : '');
+  }
+  if (n < 1000000000) {
+    const millions = Math.floor(n / 1000000);
+    const remainder = n % 1000000;
+    return (millions === 1 ? 'un million' : frenchInteger(millions) + ' millions') + (remainder ? ' ' + frenchInteger(remainder) : '');
+  }
+  return n.toString();
+}
+
+const french: TtsLocale = {
+  numberToWords: (num) => spell(num, frenchInteger, 'moins', 'virgule'),
+  // "3 500" / "1.000.000" → "3500" / "1000000", "2,5" → "2.5", "15 h 30" → "15:30", "15 h" → "15:00"
+  normalize: (text) => text
+    .replace(/(\d)[.\u202f\u00a0 ](?=\d{3}(?!\d))/g, '$1')
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/\b(\d{1,2})\s?h\s?(\d{2})\b/g, '$1:$2')
+    .replace(/\b(\d{1,2})\s?h\b/g, '$1:00'),
+  degrees: 'degrés',
+  fahrenheit: 'degrés Fahrenheit',
+  celsius: 'degrés Celsius',
+  percent: 'pour cent',
+  and: 'et',
+  currencies: { '$': ['dollars', 'cents'], '€': ['euros', 'centimes'] },
+  time: (hours, minutes, ampm) =>
+    (hours === 1 ? 'une heure' : frenchInteger(hours) + ' heures')
+    + (minutes ? ' ' + frenchInteger(minutes) : '')
+    + (ampm ? (ampm.toUpperCase() === 'AM' ? ' du matin' : " de l'après-midi") : ''),
+  units: [
+    ['mph', 'miles par heure'],
+    ['km/h', 'kilomètres par heure'],
+    ['kph', 'kilomètres par heure'],
+    ['km', 'kilomètres'],
+    ['mi', 'miles'],
+    ['lbs?', 'livres'],
+    ['kg', 'kilogrammes'],
+    ['ft', 'pieds'],
+    ['cm', 'centimètres'],
+    ['mm', 'millimètres'],
+  ],
+  abbreviations: [
+    [/\bp\.\s?ex\./gi, 'par exemple'],
+    [/\bc\.-à-d\./gi, "c'est-à-dire"],
+    [/\betc\./gi, 'et cetera'],
+    [/\bMme\b/g, 'Madame'],
+    [/\bMlle\b/g, 'Mademoiselle'],
+    [/\bM\.(?=\s+[A-Z])/g, 'Monsieur'],
+    [/\bDr\b\.?/g, 'Docteur'],
+    [/\bav\./gi, 'avenue'],
+  ],
+};
+
+export const TTS_LOCALES: Record<Language, TtsLocale> = {
+  en: english,
+  es: spanish,
+  de: german,
+  fr: french,
+};
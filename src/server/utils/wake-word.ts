@@ -5,6 +5,8 @@
  * The wake word is configurable per-user (default: "Hey Jarvis").
  */
 
+import { LANGUAGES, type Language } from "../constants/languages";
+
 /**
  * Default wake words for Any AI activation
  */
@@ -90,16 +92,30 @@ function normalizeForMatch(text: string): string {
     .trim();
 }
 
+/**
+ * A wake word plus its local-greeting variants ("Hey Chef" → "Oye Chef").
+ */
+function localizeWakeWord(wakeWord: string, language: Language): string[] {
+  const match = wakeWord.match(/^\s*hey\s+(.+)$/i);
+  if (!match) return [wakeWord];
+  return [wakeWord, ...LANGUAGES[language].wakePrefixes.map(prefix => `${prefix} ${match[1]}`)];
+}
+
 /**
  * Detect if the text contains a wake word.
  * Uses punctuation-stripped matching so STT variations like "Hey, Jarvis"
  * still match a "Hey Jarvis" wake word.
  *
+ * In other languages, a wake word's "Hey" may also be spoken as a local
+ * greeting ("Oye Jarvis", "Hallo Jarvis") — wakeWordUsed still reports the
+ * configured wake word.
+ *
  * @param text - The transcription text to check
  * @param customWakeWords - Optional custom wake words (from user settings)
+ * @param language - The user's language (adds localized greetings)
  * @returns Detection result with the query text
  */
-export function detectWakeWord(text: string, customWakeWords?: string[]): WakeWordResult {
+export function detectWakeWord(text: string, customWakeWords?: string[], language: Language = "en"): WakeWordResult {
   // Include custom wake words AND default wake words as fallback
   const wakeWords = [
     ...(customWakeWords && customWakeWords.length > 0 ? customWakeWords : []),
@@ -117,8 +133,8 @@ export function detectWakeWord(text: string, customWakeWords?: string[]): WakeWo
 
   const normalizedText = normalizeForMatch(text);
 
-  for (const wakeWord of uniqueWakeWords) {
-    const normalizedWake = normalizeForMatch(wakeWord);
+  for (const [wakeWord, spoken] of uniqueWakeWords.flatMap(w => localizeWakeWord(w, language).map(v => [w, v] as const))) {
+    const normalizedWake = normalizeForMatch(spoken);
     const index = normalizedText.indexOf(normalizedWake);
     if (index !== -1) {
       // Find the approximate position in the original text to extract the query.
@@ -170,10 +186,11 @@ export function detectWakeWord(text: string, customWakeWords?: string[]): WakeWo
  * Remove wake word from text (if present)
  * @param text - The transcription text
  * @param customWakeWords - Optional custom wake words (from user settings)
+ * @param language - The user's language (adds localized greetings)
  * @returns Text with wake word removed
  */
-export function removeWakeWord(text: string, customWakeWords?: string[]): string {
-  const result = detectWakeWord(text, customWakeWords);
+export function removeWakeWord(text: string, customWakeWords?: string[], language: Language = "en"): string {
+  const result = detectWakeWord(text, customWakeWords, language);
   return result.query;
 }
 